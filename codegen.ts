@@ -0,0 +1,35 @@
+import { readFileSync } from 'node:fs';
+import type { CodegenConfig } from '@graphql-codegen/cli';
+import { buildSubgraphApiSchema } from './subgraph/api-schema';
+
+// Queries are checked against the API graph-node derives from the subgraph's entity schema
+const schema = buildSubgraphApiSchema(readFileSync('./subgraph/schema.graphql', 'utf8'));
+
+const config: CodegenConfig = {
+  schema,
+  documents: ['src/**/*.{ts,tsx}', '!src/graphql/generated/**'],
+  ignoreNoDocuments: true,
+  generates: {
+    './src/graphql/generated/': {
+      preset: 'client',
+      presetConfig: {
+        fragmentMasking: false,
+      },
+      config: {
+        documentMode: 'string',
+        enumsAsTypes: true,
+        useTypeImports: true,
+        // graph-node serializes 256-bit integers, decimals and bytes as strings
+        scalars: {
+          BigInt: 'string',
+          BigDecimal: 'string',
+          Bytes: 'string',
+          Int8: 'string',
+          Timestamp: 'string',
+        },
+      },
+    },
+  },
+};
+
+export default config;
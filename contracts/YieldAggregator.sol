@@ -1,19 +1,27 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.20;
 
-import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/access/AccessControl.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/interfaces/IERC4626.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/utils/Pausable.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
 import "./interfaces/IYieldProtocol.sol";
+import "./interfaces/ICrossChainBridge.sol";
+import "./libraries/FeeMath.sol";
 
 /**
  * @title YieldAggregator
  * @notice Main contract for aggregating yields across multiple DeFi protocols
- * @dev Manages deposits, withdrawals, and automatic yield optimization
+ * @dev Manages deposits, withdrawals, and automatic yield optimization.
+ *      Each asset has one pool: depositors hold shares of everything the aggregator holds for
+ *      the asset, wherever it is allocated, including what was moved to other chains.
+ *      The admin role is meant to be held by a YieldTimelock, so admin changes are delayed;
+ *      strategists, keepers and guardians act immediately within their role.
  */
-contract YieldAggregator is Ownable, ReentrancyGuard, Pausable {
+contract YieldAggregator is AccessControl, ReentrancyGuard, Pausable {
     using SafeERC20 for IERC20;
 
     // ============ Structs ============
@@ -28,9 +36,8 @@ contract YieldAggregator is Ownable, ReentrancyGuard, Pausable {
     }
 
     struct UserPosition {
-        uint256 deposited;
-        uint256 shares;
-        address currentProtocol;
+        uint256 deposited; // Cost basis of the shares
+        uint256 shares; // Shares of the asset's pool
         uint256 depositTimestamp;
     }
 
@@ -40,6 +47,22 @@ contract YieldAggregator is Ownable, ReentrancyGuard, Pausable {
         uint256 minRebalanceAmount;
         uint256 rebalanceThreshold; // In basis points
         bool autoRebalance;
+        uint256 minWeight; // Smallest non-zero target weight, in basis points
+    }
+
+    struct AllocationTarget {
+        uint256 weight; // Target share of the pool in basis points
+        uint256 maxWeight; // Cap as share of the pool in basis points (0 = no cap)
+        uint256 maxAmount; // Cap in asset units (0 = no cap)
+    }
+
+    struct WithdrawalRequest {
+        address user;
+        address asset;
+        uint256 amount; // Assets owed when the request was queued
+        uint256 claimed; // Assets paid out so far
+        uint256 requestedAt;
+        uint256 queuePosition; // Assets queued for the same asset before this request
     }
 
     // ============ State Variables ============
@@ -48,8 +71,12 @@ contract YieldAggregator is Ownable, ReentrancyGuard, Pausable {
     mapping(bytes32 => ProtocolInfo) public protocols;
     bytes32[] public protocolIds;
 
-    // User positions: user => asset => UserPosition
-    mapping(address => mapping(address => UserPosition)) public userPositions;
+    // User positions: user => asset => UserPosition. Not public, to keep the contract within the
+    // size limit; getUserPosition returns them.
+    mapping(address => mapping(address => UserPosition)) internal userPositions;
+
+    // Pool shares issued per asset
+    mapping(address => uint256) public totalShares;
 
     // Supported assets
     mapping(address => bool) public supportedAssets;
@@ -58,17 +85,62 @@ contract YieldAggregator is Ownable, ReentrancyGuard, Pausable {
     // Yield strategies: asset => YieldStrategy
     mapping(address => YieldStrategy) public strategies;
 
+    // Allocation targets: asset => protocolId => AllocationTarget
+    mapping(address => mapping(bytes32 => AllocationTarget)) public allocationTargets;
+
     // Cross-chain bridge contract
     address public crossChainBridge;
 
+    // ERC-4626 vaults: asset => vault
+    mapping(address => address) public vaults;
+
+    // Adapter shares held by the pools: asset => adapter => shares
+    mapping(address => mapping(address => uint256)) public adapterShares;
+
     // Fee configuration
     uint256 public performanceFee = 1000; // 10% in basis points
     uint256 public managementFee = 50; // 0.5% annual in basis points
     address public feeRecipient;
 
+    // Management fee shares not yet collected: asset => shares
+    mapping(address => uint256) public feeShares;
+
+    // Last management fee accrual: asset => timestamp
+    mapping(address => uint256) public lastFeeAccrual;
+
+    // Highest share price the performance fee was charged up to: asset => price (PRICE_PRECISION)
+    mapping(address => uint256) public highWaterMark;
+
+    // Withdrawal requests waiting for protocol liquidity: requestId => WithdrawalRequest
+    mapping(uint256 => WithdrawalRequest) public withdrawalRequests;
+    uint256 public nextWithdrawalRequestId;
+
+    // Request ids per user, claimed ones included: user => requestIds
+    mapping(address => uint256[]) private userWithdrawalRequests;
+
+    // Assets owed to withdrawal requests and not claimed yet: asset => amount
+    mapping(address => uint256) public queuedWithdrawals;
+
+    // Assets ever queued, and how much of that liquidity was set aside in queue order: asset => amount
+    mapping(address => uint256) private withdrawalQueueTotal;
+    mapping(address => uint256) private withdrawalQueueReleased;
+
+    // Assets moved to the pools of other chains by cross-chain rebalances: asset => amount
+    mapping(address => uint256) public bridgedAssets;
+
+    // Set when a guardian unwinds an adapter; withdrawals then pay out of idle funds only
+    bool public emergencyMode;
+
     // Constants
     uint256 public constant MAX_FEE = 2000; // 20%
     uint256 public constant BASIS_POINTS = 10000;
+    uint256 public constant PRICE_PRECISION = 1e18;
+    uint256 public constant SECONDS_PER_YEAR = 365 days;
+
+    // Roles (DEFAULT_ADMIN_ROLE manages protocols, assets, fees and the other roles)
+    bytes32 public constant STRATEGIST_ROLE = keccak256("STRATEGIST_ROLE");
+    bytes32 public constant KEEPER_ROLE = keccak256("KEEPER_ROLE");
+    bytes32 public constant GUARDIAN_ROLE = keccak256("GUARDIAN_ROLE");
 
     // ============ Events ============
 
@@ -81,14 +153,37 @@ contract YieldAggregator is Ownable, ReentrancyGuard, Pausable {
     event Rebalanced(address indexed asset, bytes32 fromProtocol, bytes32 toProtocol, uint256 amount);
     
     event StrategyUpdated(address indexed asset, bool autoRebalance, uint256 threshold);
+    event AllocationTargetsUpdated(address indexed asset, bytes32[] protocolIds, uint256[] weights);
+    event MinWeightUpdated(address indexed asset, uint256 minWeight);
     event CrossChainBridgeUpdated(address newBridge);
+    event VaultUpdated(address indexed asset, address vault);
     event FeesCollected(address indexed asset, uint256 amount);
+    event WithdrawalQueued(uint256 indexed requestId, address indexed user, address indexed asset, uint256 amount);
+    event WithdrawalClaimed(uint256 indexed requestId, address indexed user, address indexed asset, uint256 amount, uint256 remaining);
+    event CrossChainRebalanceSent(
+        address indexed asset,
+        bytes32 indexed fromProtocol,
+        uint32 dstChainId,
+        bytes32 targetProtocol,
+        uint256 amount
+    );
+    event EmergencyModeUpdated(bool active);
+    event EmergencyUnwound(bytes32 indexed protocolId, address indexed asset, uint256 amount);
+    event EmergencyUnwindFailed(bytes32 indexed protocolId, address indexed asset, uint256 shares);
+
+    // ============ Modifiers ============
+
+    modifier onlyVault(address asset) {
+        require(msg.sender == vaults[asset] && msg.sender != address(0), "Only vault");
+        _;
+    }
 
     // ============ Constructor ============
 
-    constructor(address _feeRecipient) Ownable(msg.sender) {
+    constructor(address _feeRecipient) {
         require(_feeRecipient != address(0), "Invalid fee recipient");
         feeRecipient = _feeRecipient;
+        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
     }
 
     // ============ Admin Functions ============
@@ -97,7 +192,7 @@ contract YieldAggregator is Ownable, ReentrancyGuard, Pausable {
      * @notice Add a new protocol adapter
      * @param adapter The adapter contract address
      */
-    function addProtocol(address adapter) external onlyOwner {
+    function addProtocol(address adapter) external onlyRole(DEFAULT_ADMIN_ROLE) {
         require(adapter != address(0), "Invalid adapter");
         
         string memory name = IYieldProtocol(adapter).protocolName();
@@ -124,7 +219,7 @@ contract YieldAggregator is Ownable, ReentrancyGuard, Pausable {
      * @notice Remove a protocol
      * @param protocolId The protocol identifier
      */
-    function removeProtocol(bytes32 protocolId) external onlyOwner {
+    function removeProtocol(bytes32 protocolId) external onlyRole(DEFAULT_ADMIN_ROLE) {
         require(protocols[protocolId].adapter != address(0), "Protocol not found");
         require(protocols[protocolId].totalDeposited == 0, "Protocol has deposits");
         
@@ -137,7 +232,7 @@ contract YieldAggregator is Ownable, ReentrancyGuard, Pausable {
      * @notice Add a supported asset
      * @param asset The asset address
      */
-    function addSupportedAsset(address asset) external onlyOwner {
+    function addSupportedAsset(address asset) external onlyRole(DEFAULT_ADMIN_ROLE) {
         require(asset != address(0), "Invalid asset");
         require(!supportedAssets[asset], "Asset already supported");
         
@@ -150,7 +245,8 @@ contract YieldAggregator is Ownable, ReentrancyGuard, Pausable {
             protocols: new address[](0),
             minRebalanceAmount: 100 * 10**6, // 100 USDC/USDT
             rebalanceThreshold: 50, // 0.5%
-            autoRebalance: true
+            autoRebalance: true,
+            minWeight: 500 // 5%
         });
     }
 
@@ -158,20 +254,41 @@ contract YieldAggregator is Ownable, ReentrancyGuard, Pausable {
      * @notice Set the cross-chain bridge contract
      * @param bridge The bridge contract address
      */
-    function setCrossChainBridge(address bridge) external onlyOwner {
+    function setCrossChainBridge(address bridge) external onlyRole(DEFAULT_ADMIN_ROLE) {
         crossChainBridge = bridge;
         emit CrossChainBridgeUpdated(bridge);
     }
 
+    /**
+     * @notice Set the ERC-4626 vault of an asset
+     * @dev A vault can only be replaced once it holds nothing in the protocols
+     * @param asset The asset address
+     * @param vault The vault contract address
+     */
+    function setVault(address asset, address vault) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(supportedAssets[asset], "Asset not supported");
+        require(vault != address(0) && IERC4626(vault).asset() == asset, "Invalid vault");
+        require(userPositions[vaults[asset]][asset].shares == 0, "Vault has deposits");
+        
+        vaults[asset] = vault;
+        
+        emit VaultUpdated(asset, vault);
+    }
+
     /**
      * @notice Update fee configuration
      * @param _performanceFee New performance fee in basis points
      * @param _managementFee New management fee in basis points
      */
-    function setFees(uint256 _performanceFee, uint256 _managementFee) external onlyOwner {
+    function setFees(uint256 _performanceFee, uint256 _managementFee) external onlyRole(DEFAULT_ADMIN_ROLE) {
         require(_performanceFee <= MAX_FEE, "Performance fee too high");
         require(_managementFee <= MAX_FEE, "Management fee too high");
         
+        // Time already elapsed is charged at the old rate
+        for (uint256 i = 0; i < assetList.length; i++) {
+            _accrueFees(assetList[i]);
+        }
+        
         performanceFee = _performanceFee;
         managementFee = _managementFee;
     }
@@ -180,11 +297,13 @@ contract YieldAggregator is Ownable, ReentrancyGuard, Pausable {
      * @notice Update fee recipient
      * @param _feeRecipient New fee recipient address
      */
-    function setFeeRecipient(address _feeRecipient) external onlyOwner {
+    function setFeeRecipient(address _feeRecipient) external onlyRole(DEFAULT_ADMIN_ROLE) {
         require(_feeRecipient != address(0), "Invalid fee recipient");
         feeRecipient = _feeRecipient;
     }
 
+    // ============ Strategist Functions ============
+
     /**
      * @notice Update strategy for an asset
      * @param asset The asset address
@@ -195,7 +314,7 @@ contract YieldAggregator is Ownable, ReentrancyGuard, Pausable {
         address asset,
         bool autoRebalance,
         uint256 threshold
-    ) external onlyOwner {
+    ) external onlyRole(STRATEGIST_ROLE) {
         require(supportedAssets[asset], "Asset not supported");
         
         strategies[asset].autoRebalance = autoRebalance;
@@ -204,133 +323,316 @@ contract YieldAggregator is Ownable, ReentrancyGuard, Pausable {
         emit StrategyUpdated(asset, autoRebalance, threshold);
     }
 
-    // ============ User Functions ============
-
     /**
-     * @notice Deposit assets into the best yielding protocol
-     * @param asset The asset to deposit
-     * @param amount The amount to deposit
+     * @notice Replace the allocation targets of an asset
+     * @dev Weights must add up to 100%, or the lists must be empty to go back to routing
+     *      everything to the best yielding protocol. Protocols left out get a target of zero.
+     * @param asset The asset address
+     * @param ids Protocol IDs to allocate to
+     * @param targets Target weight and caps per protocol
      */
-    function deposit(address asset, uint256 amount) external nonReentrant whenNotPaused {
+    function setAllocationTargets(
+        address asset,
+        bytes32[] calldata ids,
+        AllocationTarget[] calldata targets
+    ) external onlyRole(STRATEGIST_ROLE) {
         require(supportedAssets[asset], "Asset not supported");
-        require(amount > 0, "Amount must be greater than 0");
+        require(ids.length == targets.length, "Length mismatch");
         
-        // Transfer assets from user
-        IERC20(asset).safeTransferFrom(msg.sender, address(this), amount);
+        for (uint256 i = 0; i < protocolIds.length; i++) {
+            delete allocationTargets[asset][protocolIds[i]];
+        }
         
-        // Find best protocol
-        (bytes32 bestProtocol, ) = findBestProtocol(asset);
-        require(bestProtocol != bytes32(0), "No protocol available");
+        uint256 minWeight = strategies[asset].minWeight;
+        uint256 totalWeight;
+        uint256[] memory weights = new uint256[](ids.length);
         
-        // Deposit to protocol
-        address adapter = protocols[bestProtocol].adapter;
-        // Reset approval first for tokens like USDT that require it
-        IERC20(asset).forceApprove(adapter, amount);
-        uint256 shares = IYieldProtocol(adapter).deposit(asset, amount);
+        for (uint256 i = 0; i < ids.length; i++) {
+            AllocationTarget calldata target = targets[i];
+            require(protocols[ids[i]].active, "Protocol not active");
+            require(allocationTargets[asset][ids[i]].weight == 0, "Duplicate protocol");
+            require(target.weight > 0 && target.weight >= minWeight, "Weight below minimum");
+            require(target.maxWeight <= BASIS_POINTS, "Invalid cap");
+            
+            allocationTargets[asset][ids[i]] = target;
+            totalWeight += target.weight;
+            weights[i] = target.weight;
+        }
+        require(totalWeight == 0 || totalWeight == BASIS_POINTS, "Weights must total 100%");
         
-        // Update user position
-        UserPosition storage position = userPositions[msg.sender][asset];
-        position.deposited += amount;
-        position.shares += shares;
-        position.currentProtocol = adapter;
-        position.depositTimestamp = block.timestamp;
+        emit AllocationTargetsUpdated(asset, ids, weights);
+    }
+
+    /**
+     * @notice Set the smallest non-zero target weight for an asset
+     * @param asset The asset address
+     * @param minWeight Minimum weight in basis points
+     */
+    function setMinWeight(address asset, uint256 minWeight) external onlyRole(STRATEGIST_ROLE) {
+        require(supportedAssets[asset], "Asset not supported");
+        require(minWeight <= BASIS_POINTS, "Invalid weight");
         
-        // Update protocol stats
-        protocols[bestProtocol].totalDeposited += amount;
+        // Current targets must still qualify
+        for (uint256 i = 0; i < protocolIds.length; i++) {
+            uint256 weight = allocationTargets[asset][protocolIds[i]].weight;
+            require(weight == 0 || weight >= minWeight, "Target below minimum");
+        }
+        
+        strategies[asset].minWeight = minWeight;
         
-        emit Deposited(msg.sender, asset, amount, bestProtocol);
+        emit MinWeightUpdated(asset, minWeight);
+    }
+
+    /**
+     * @notice Move part of a pool to the aggregator on another chain
+     * @dev The assets are withdrawn from `fromProtocol` and bridged; the destination aggregator
+     *      deposits them into `targetProtocol` and issues pool shares to its bridge. They count
+     *      as `bridgedAssets` here at the amount sent, so the share price does not move, until
+     *      `CrossChainBridge.recallRebalance` brings them back. Withdrawals that need them are
+     *      queued. Pay the messaging fee (`CrossChainBridge.quoteFee`) as value.
+     * @param asset The asset to move
+     * @param fromProtocol The protocol to withdraw from
+     * @param amount The amount to move
+     * @param dstChainId Destination endpoint ID
+     * @param targetProtocol Protocol on the destination chain to deposit into
+     */
+    function rebalanceCrossChain(
+        address asset,
+        bytes32 fromProtocol,
+        uint256 amount,
+        uint32 dstChainId,
+        bytes32 targetProtocol
+    ) external payable nonReentrant whenNotPaused onlyRole(STRATEGIST_ROLE) {
+        // The bridge checks the asset, amount and destination
+        require(
+            _withdrawAssetsFromProtocol(asset, protocols[fromProtocol], amount) >= amount,
+            "Insufficient protocol balance"
+        );
+        
+        // A surplus from rounding stays idle in the pool. The management fee up to now is
+        // charged on the pool before the bridged amount leaves its base.
+        _accrueFees(asset);
+        bridgedAssets[asset] += amount;
+        IERC20(asset).forceApprove(crossChainBridge, amount);
+        ICrossChainBridge(crossChainBridge).requestRebalance{value: msg.value}(
+            dstChainId,
+            asset,
+            amount,
+            targetProtocol,
+            msg.sender
+        );
+        
+        emit CrossChainRebalanceSent(asset, fromProtocol, dstChainId, targetProtocol, amount);
+    }
+
+    // ============ User Functions ============
+
+    /**
+     * @notice Deposit assets into the asset's pool, allocated to the best yielding protocol
+     * @param asset The asset to deposit
+     * @param amount The amount to deposit
+     */
+    function deposit(address asset, uint256 amount) external nonReentrant whenNotPaused {
+        _deposit(msg.sender, asset, amount, bytes32(0));
     }
 
     /**
-     * @notice Withdraw assets from the protocol
+     * @notice Withdraw assets from the pool
+     * @dev Fees are already taken from the share price, so the full value of the shares is paid out.
+     *      What the idle balance and the protocols' liquidity cannot cover is queued as a
+     *      withdrawal request, claimable with `claimWithdrawal` once liquidity returns.
+     *      In emergency mode the shares are redeemed for their pro-rata part of the idle funds
+     *      instead, and nothing is queued; value left in the protocols stays with the pool.
+     *      No fees accrue then.
      * @param asset The asset to withdraw
      * @param amount The amount to withdraw (0 for all)
+     * @return requestId The id of the queued remainder (0 when paid in full)
      */
-    function withdraw(address asset, uint256 amount) external nonReentrant {
+    function withdraw(address asset, uint256 amount) external nonReentrant returns (uint256 requestId) {
         UserPosition storage position = userPositions[msg.sender][asset];
-        require(position.deposited > 0, "No position");
-        
-        uint256 withdrawAmount = amount == 0 ? position.deposited : amount;
-        require(withdrawAmount <= position.deposited, "Insufficient balance");
-        
-        // Calculate shares to withdraw
-        uint256 sharesToWithdraw = (position.shares * withdrawAmount) / position.deposited;
-        
-        // Find protocol
-        bytes32 protocolId = getProtocolId(position.currentProtocol);
-        address adapter = position.currentProtocol;
+        require(position.shares > 0, "No position");
         
-        // Withdraw from protocol
-        uint256 received = IYieldProtocol(adapter).withdraw(asset, sharesToWithdraw);
+        uint256 sharesToBurn = position.shares;
+        (uint256 poolAssets, uint256 poolShares) = _withdrawalPool(asset);
+        if (amount == 0) {
+            amount = Math.mulDiv(sharesToBurn, poolAssets + 1, poolShares + 1);
+        } else {
+            sharesToBurn = Math.mulDiv(amount, poolShares + 1, poolAssets + 1, Math.Rounding.Ceil);
+        }
+        _burnShares(asset, sharesToBurn, amount);
         
-        // Calculate yield
-        uint256 yield = 0;
-        if (received > withdrawAmount) {
-            yield = received - withdrawAmount;
-            
-            // Deduct performance fee from yield
-            uint256 fee = (yield * performanceFee) / BASIS_POINTS;
-            if (fee > 0) {
-                IERC20(asset).safeTransfer(feeRecipient, fee);
-                received -= fee;
-                yield -= fee;
-            }
+        // Queued requests are paid first; in emergency mode the amount is priced out of the
+        // idle funds they leave, so it is paid in full
+        uint256 paid = _withdrawAvailable(asset, amount, queuedWithdrawals[asset]);
+        if (paid > 0) {
+            IERC20(asset).safeTransfer(msg.sender, paid);
         }
+        if (paid < amount) {
+            requestId = _queueWithdrawal(msg.sender, asset, amount - paid);
+        }
+    }
+
+    /**
+     * @notice Claim what the protocols' liquidity allows of a queued withdrawal
+     * @dev Liquidity is set aside for the requests of an asset in the order they were queued,
+     *      and stays reserved for them until claimed. Requests can be claimed in several parts.
+     * @param requestId The withdrawal request id
+     * @return amount The amount paid out
+     */
+    function claimWithdrawal(uint256 requestId) external nonReentrant returns (uint256 amount) {
+        WithdrawalRequest storage request = withdrawalRequests[requestId];
+        require(request.user == msg.sender, "Not request owner");
+        address asset = request.asset;
         
-        // Update position
-        position.deposited -= withdrawAmount;
-        position.shares -= sharesToWithdraw;
+        uint256 remaining = request.amount - request.claimed;
+        require(remaining > 0, "Already claimed");
         
-        // Update protocol stats
-        protocols[protocolId].totalDeposited -= withdrawAmount;
+        // Release new liquidity to the queue, keeping what was released earlier for its owners
+        uint256 unreleased = withdrawalQueueTotal[asset] - withdrawalQueueReleased[asset];
+        uint256 released = withdrawalQueueReleased[asset] +
+            _withdrawAvailable(asset, unreleased, queuedWithdrawals[asset] - unreleased);
+        withdrawalQueueReleased[asset] = released;
         
-        // Transfer to user
-        IERC20(asset).safeTransfer(msg.sender, received);
+        released -= Math.min(released, request.queuePosition);
+        amount = Math.min(released, request.amount) - request.claimed;
+        require(amount > 0, "Insufficient liquidity");
         
-        emit Withdrawn(msg.sender, asset, received, yield);
+        request.claimed += amount;
+        queuedWithdrawals[asset] -= amount;
+        IERC20(asset).safeTransfer(msg.sender, amount);
+        
+        emit WithdrawalClaimed(requestId, msg.sender, asset, amount, remaining - amount);
     }
 
     /**
-     * @notice Rebalance user's position to a better protocol
+     * @notice Rebalance the caller's position
+     * @dev With allocation targets the whole pool is moved back to its targets. Otherwise the
+     *      caller's part of the pool moves to the best protocol, from the protocols whose live
+     *      APY the best one beats by the strategy threshold.
      * @param asset The asset to rebalance
      */
     function rebalance(address asset) external nonReentrant whenNotPaused {
         UserPosition storage position = userPositions[msg.sender][asset];
-        require(position.deposited > 0, "No position");
+        require(position.shares > 0, "No position");
         
-        (bytes32 bestProtocol, uint256 bestAPY) = findBestProtocol(asset);
-        bytes32 currentProtocolId = getProtocolId(position.currentProtocol);
+        if (_hasTargets(asset)) {
+            require(_rebalanceToTargets(asset) > 0, "Already at target allocation");
+            return;
+        }
         
-        require(bestProtocol != currentProtocolId, "Already in best protocol");
+        (bool hasOtherHoldings, uint256 moved) = _rebalanceToBest(asset, position.shares);
+        require(hasOtherHoldings, "Already in best protocol");
+        require(moved > 0, "APY difference too small");
+    }
+
+    // ============ Keeper Functions ============
+
+    /**
+     * @notice Rebalance the whole pool of an asset when `checkUpkeep` reports it is needed
+     * @param asset The asset to rebalance
+     */
+    function keeperRebalance(address asset) external nonReentrant whenNotPaused onlyRole(KEEPER_ROLE) {
+        (bool upkeepNeeded, , , ) = checkUpkeep(asset);
+        require(upkeepNeeded, "Rebalance not needed");
         
-        uint256 currentAPY = protocols[currentProtocolId].currentAPY;
-        uint256 threshold = strategies[asset].rebalanceThreshold;
+        if (_hasTargets(asset)) {
+            _rebalanceToTargets(asset);
+        } else {
+            _rebalanceToBest(asset, totalShares[asset]);
+        }
+    }
+
+    // ============ Vault Functions ============
+
+    /**
+     * @notice Deposit assets of an ERC-4626 vault into the pool
+     * @dev The vault holds pool shares like any other depositor
+     * @param asset The vault's asset
+     * @param amount The amount to pull from the vault
+     */
+    function vaultDeposit(address asset, uint256 amount) external nonReentrant whenNotPaused onlyVault(asset) {
+        _deposit(msg.sender, asset, amount, bytes32(0));
+    }
+
+    /**
+     * @notice Burn an ERC-4626 vault's pool shares for an exact amount of assets
+     * @dev Priced like `withdraw`, so in emergency mode the vault gets the same pro-rata part
+     *      of the idle funds as direct depositors
+     * @param asset The vault's asset
+     * @param amount The amount to send to the vault
+     * @return received The amount sent to the vault
+     */
+    function vaultWithdraw(address asset, uint256 amount) external nonReentrant onlyVault(asset) returns (uint256 received) {
+        require(amount > 0, "Amount must be greater than 0");
         
-        // Check if rebalance is worth it
-        require(
-            bestAPY > currentAPY + (currentAPY * threshold / BASIS_POINTS),
-            "APY difference too small"
-        );
+        (uint256 poolAssets, uint256 poolShares) = _withdrawalPool(asset);
+        _burnShares(asset, Math.mulDiv(amount, poolShares + 1, poolAssets + 1, Math.Rounding.Ceil), amount);
         
-        // Withdraw from current protocol
-        uint256 received = IYieldProtocol(position.currentProtocol).withdraw(asset, position.shares);
+        _payOut(asset, msg.sender, amount);
+        return amount;
+    }
+
+    // ============ Bridge Functions ============
+
+    /**
+     * @notice Deposit assets a cross-chain rebalance brought in from another chain's pool
+     * @dev The bridge holds the pool shares like any other depositor, on behalf of the source
+     *      chain's pool, so this pool's share price does not move
+     * @param asset The asset
+     * @param amount The amount to pull from the bridge
+     * @param targetProtocol The protocol to deposit into
+     * @return shares The pool shares issued to the bridge
+     */
+    function receiveCrossChainRebalance(
+        address asset,
+        uint256 amount,
+        bytes32 targetProtocol
+    ) external nonReentrant whenNotPaused returns (uint256 shares) {
+        require(msg.sender == crossChainBridge, "Only bridge");
+        require(protocols[targetProtocol].active, "Protocol not active");
         
-        // Deposit to new protocol
-        address newAdapter = protocols[bestProtocol].adapter;
-        // Reset approval first for tokens like USDT that require it
-        IERC20(asset).forceApprove(newAdapter, received);
-        uint256 newShares = IYieldProtocol(newAdapter).deposit(asset, received);
+        return _deposit(msg.sender, asset, amount, targetProtocol);
+    }
+
+    /**
+     * @notice Take back assets a cross-chain rebalance moved to another chain's pool
+     * @dev Called by the bridge when the destination chain returns them, or refunds a rebalance
+     *      it could not deposit. What comes back above the amount sent is yield of this pool.
+     * @param asset The asset
+     * @param amount The amount to pull from the bridge
+     */
+    function receiveBridgedAssets(address asset, uint256 amount) external nonReentrant {
+        require(msg.sender == crossChainBridge, "Only bridge");
         
-        // Update position
-        position.currentProtocol = newAdapter;
-        position.shares = newShares;
-        position.deposited = received;
+        // No fees accrue in emergency mode
+        if (!emergencyMode) _accrueFees(asset);
+        bridgedAssets[asset] -= Math.min(amount, bridgedAssets[asset]);
+        IERC20(asset).safeTransferFrom(msg.sender, address(this), amount);
+    }
+
+    // ============ Fee Functions ============
+
+    /**
+     * @notice Send the management fees accrued on an asset's pool to the fee recipient
+     * @dev Fees accrue as pool shares, which are redeemed here like a withdrawal. Not available
+     *      in emergency mode, where no fees accrue and withdrawals share the idle funds.
+     * @param asset The asset address
+     * @return amount The amount sent to the fee recipient
+     */
+    function collectFees(address asset) external nonReentrant returns (uint256 amount) {
+        require(!emergencyMode, "Emergency mode");
+        _accrueFees(asset);
         
-        // Update protocol stats
-        protocols[currentProtocolId].totalDeposited -= received;
-        protocols[bestProtocol].totalDeposited += received;
+        uint256 shares = feeShares[asset];
+        require(shares > 0, "No fees to collect");
         
-        emit Rebalanced(asset, currentProtocolId, bestProtocol, received);
+        amount = _convertToAssets(asset, shares, Math.Rounding.Floor);
+        feeShares[asset] = 0;
+        totalShares[asset] -= shares;
+        
+        _payOut(asset, feeRecipient, amount);
+        
+        emit FeesCollected(asset, amount);
     }
 
     // ============ View Functions ============
@@ -348,17 +650,39 @@ contract YieldAggregator is Ownable, ReentrancyGuard, Pausable {
             
             if (!protocol.active) continue;
             
-            try IYieldProtocol(protocol.adapter).getCurrentAPY(asset) returns (uint256 apy) {
-                if (apy > bestAPY) {
-                    bestAPY = apy;
-                    bestProtocol = protocolId;
-                }
-            } catch {
-                continue;
+            uint256 apy = _currentAPY(asset, protocol.adapter);
+            if (apy > bestAPY) {
+                bestAPY = apy;
+                bestProtocol = protocolId;
             }
         }
     }
 
+    /**
+     * @notice Compare the best local protocol with the fresh yield reports of other chains
+     * @dev A remote APY is worth moving to when it beats the local one by the strategy's
+     *      rebalance threshold, like `rebalance` between local protocols
+     * @param asset The asset to check
+     * @return bestProtocol The best local protocol ID
+     * @return localAPY Its APY
+     * @return remoteEid The chain with the best fresh report (0 when there is none)
+     * @return remoteAPY The APY it reported
+     * @return moveWorthwhile Whether moving to `remoteEid` beats the threshold
+     */
+    function findBestProtocolGlobal(address asset) external view returns (
+        bytes32 bestProtocol,
+        uint256 localAPY,
+        uint32 remoteEid,
+        uint256 remoteAPY,
+        bool moveWorthwhile
+    ) {
+        (bestProtocol, localAPY) = findBestProtocol(asset);
+        if (crossChainBridge == address(0)) return (bestProtocol, localAPY, 0, 0, false);
+        
+        (remoteEid, remoteAPY) = ICrossChainBridge(crossChainBridge).bestRemoteYield(asset);
+        moveWorthwhile = remoteAPY > localAPY + (localAPY * strategies[asset].rebalanceThreshold / BASIS_POINTS);
+    }
+
     /**
      * @notice Get all protocol APYs for an asset
      * @param asset The asset to check
@@ -384,15 +708,207 @@ contract YieldAggregator is Ownable, ReentrancyGuard, Pausable {
             names[i] = protocol.name;
             
             if (protocol.active) {
-                try IYieldProtocol(protocol.adapter).getCurrentAPY(asset) returns (uint256 apy) {
-                    apys[i] = apy;
-                } catch {
-                    apys[i] = 0;
+                apys[i] = _currentAPY(asset, protocol.adapter);
+            }
+        }
+    }
+
+    /**
+     * @notice Check whether the pool of an asset should be rebalanced by the keeper
+     * @dev Without allocation targets, holdings move to the best protocol from every protocol whose
+     *      live APY it beats by the strategy threshold. With targets, what protocols hold above
+     *      their target moves back to them. Either way the strategy must have auto-rebalance on
+     *      and the amount must reach its minimum rebalance amount.
+     * @param asset The asset to check
+     * @return upkeepNeeded Whether `keeperRebalance` would run
+     * @return fromProtocol The protocol the largest amount would leave
+     * @return toProtocol The best protocol, or with targets the protocol furthest below its target
+     * @return amount The total amount that would move
+     */
+    function checkUpkeep(address asset) public view returns (
+        bool upkeepNeeded,
+        bytes32 fromProtocol,
+        bytes32 toProtocol,
+        uint256 amount
+    ) {
+        YieldStrategy storage strategy = strategies[asset];
+        if (!strategy.autoRebalance || paused()) return (false, bytes32(0), bytes32(0), 0);
+        
+        uint256 largestSource;
+        if (_hasTargets(asset)) {
+            uint256[] memory targets = _targetAmounts(asset, totalAssets(asset));
+            uint256 largestDeficit;
+            for (uint256 i = 0; i < protocolIds.length; i++) {
+                uint256 current = _protocolValue(asset, protocols[protocolIds[i]].adapter);
+                if (current > targets[i]) {
+                    amount += current - targets[i];
+                    if (current - targets[i] > largestSource) {
+                        largestSource = current - targets[i];
+                        fromProtocol = protocolIds[i];
+                    }
+                } else if (targets[i] - current > largestDeficit) {
+                    largestDeficit = targets[i] - current;
+                    toProtocol = protocolIds[i];
                 }
             }
+        } else {
+            uint256 bestAPY;
+            (toProtocol, bestAPY) = findBestProtocol(asset);
+            if (toProtocol == bytes32(0)) return (false, bytes32(0), bytes32(0), 0);
+            
+            for (uint256 i = 0; i < protocolIds.length; i++) {
+                address adapter = protocols[protocolIds[i]].adapter;
+                uint256 value = _protocolValue(asset, adapter);
+                if (value == 0 || protocolIds[i] == toProtocol || !_beatsThreshold(asset, adapter, bestAPY)) continue;
+                
+                amount += value;
+                if (value > largestSource) {
+                    largestSource = value;
+                    fromProtocol = protocolIds[i];
+                }
+            }
+        }
+        
+        upkeepNeeded = amount > 0 && amount >= strategy.minRebalanceAmount;
+    }
+
+    /**
+     * @notice Get the assets of a pool: idle balance plus the value held in every protocol and
+     *         the assets moved to other chains, less what queued withdrawals are owed
+     * @param asset The asset address
+     * @return total Current value including yield
+     */
+    function totalAssets(address asset) public view returns (uint256 total) {
+        total = IERC20(asset).balanceOf(address(this)) + bridgedAssets[asset];
+        for (uint256 i = 0; i < protocolIds.length; i++) {
+            total += _protocolValue(asset, protocols[protocolIds[i]].adapter);
+        }
+        total -= Math.min(total, queuedWithdrawals[asset]);
+    }
+
+    /**
+     * @notice Get how much of an asset new withdrawals can take right now
+     * @param asset The asset address
+     * @return available Idle balance plus what every protocol can pay out of its holdings (only the
+     *         idle balance in emergency mode), less what queued withdrawals are owed
+     */
+    function availableLiquidity(address asset) public view returns (uint256 available) {
+        available = IERC20(asset).balanceOf(address(this));
+        for (uint256 i = 0; !emergencyMode && i < protocolIds.length; i++) {
+            address adapter = protocols[protocolIds[i]].adapter;
+            uint256 value = _protocolValue(asset, adapter);
+            if (value > 0) {
+                available += Math.min(value, IYieldProtocol(adapter).getAvailableLiquidity(asset));
+            }
+        }
+        available -= Math.min(available, queuedWithdrawals[asset]);
+    }
+
+    /**
+     * @notice Get a user's withdrawal requests that are not fully claimed
+     * @param user The user address
+     * @return ids The request ids
+     * @return requests The requests, with the amount owed and claimed so far
+     */
+    function getPendingWithdrawals(address user) external view returns (
+        uint256[] memory ids,
+        WithdrawalRequest[] memory requests
+    ) {
+        uint256[] storage all = userWithdrawalRequests[user];
+        uint256 count;
+        for (uint256 i = 0; i < all.length; i++) {
+            WithdrawalRequest storage request = withdrawalRequests[all[i]];
+            if (request.claimed < request.amount) count++;
+        }
+        
+        ids = new uint256[](count);
+        requests = new WithdrawalRequest[](count);
+        count = 0;
+        for (uint256 i = 0; i < all.length; i++) {
+            WithdrawalRequest storage request = withdrawalRequests[all[i]];
+            if (request.claimed < request.amount) {
+                ids[count] = all[i];
+                requests[count++] = request;
+            }
         }
     }
 
+    /**
+     * @notice Get the value of one pool share
+     * @param asset The asset address
+     * @return Assets per share, scaled by PRICE_PRECISION
+     */
+    function pricePerShare(address asset) external view returns (uint256) {
+        return _convertToAssets(asset, PRICE_PRECISION, Math.Rounding.Floor);
+    }
+
+    /**
+     * @notice Convert an amount of assets to pool shares
+     * @param asset The asset address
+     * @param assets The amount of assets
+     * @return The number of shares, rounded down
+     */
+    function convertToShares(address asset, uint256 assets) external view returns (uint256) {
+        return _convertToShares(asset, assets, Math.Rounding.Floor);
+    }
+
+    /**
+     * @notice Convert pool shares to an amount of assets
+     * @param asset The asset address
+     * @param shares The number of shares
+     * @return The amount of assets, rounded down
+     */
+    function convertToAssets(address asset, uint256 shares) public view returns (uint256) {
+        return _convertToAssets(asset, shares, Math.Rounding.Floor);
+    }
+
+    /**
+     * @notice Get where a pool's assets are held, against the allocation targets
+     * @dev Targets are empty when the asset has none and deposits go to the best protocol
+     * @param asset The asset address
+     * @return ids Array of protocol IDs
+     * @return amounts Value held in each protocol
+     * @return targets Target value of each protocol after caps
+     */
+    function getAllocations(address asset) external view returns (
+        bytes32[] memory ids,
+        uint256[] memory amounts,
+        uint256[] memory targets
+    ) {
+        uint256 count = protocolIds.length;
+        ids = new bytes32[](count);
+        amounts = new uint256[](count);
+        targets = _hasTargets(asset) ? _targetAmounts(asset, totalAssets(asset)) : new uint256[](count);
+        
+        for (uint256 i = 0; i < count; i++) {
+            ids[i] = protocolIds[i];
+            amounts[i] = _protocolValue(asset, protocols[protocolIds[i]].adapter);
+        }
+    }
+
+    /**
+     * @notice Get the management fees accrued on an asset's pool and not collected yet
+     * @param asset The asset address
+     * @return shares Fee shares, including those accrued since the last update
+     * @return assets Their current value
+     */
+    function accruedFees(address asset) external view returns (uint256 shares, uint256 assets) {
+        shares = feeShares[asset] + _pendingFeeShares(asset);
+        assets = _convertToAssets(asset, shares, Math.Rounding.Floor);
+    }
+
+    /**
+     * @notice Get the value of an asset's ERC-4626 vault holdings
+     * @dev Priced like `vaultWithdraw` pays out, so in emergency mode only the idle funds count
+     * @param asset The asset address
+     * @return Current value including yield
+     */
+    function vaultTotalAssets(address asset) public view returns (uint256) {
+        uint256 shares = userPositions[vaults[asset]][asset].shares;
+        if (!emergencyMode) return convertToAssets(asset, shares);
+        return Math.mulDiv(shares, _unreservedIdle(asset) + 1, totalShares[asset] + 1);
+    }
+
     /**
      * @notice Get user's position details
      * @param user The user address
@@ -407,14 +923,10 @@ contract YieldAggregator is Ownable, ReentrancyGuard, Pausable {
         uint256 unrealizedYield
     ) {
         position = userPositions[user][asset];
+        currentValue = convertToAssets(asset, position.shares);
         
-        if (position.deposited > 0 && position.currentProtocol != address(0)) {
-            currentValue = IYieldProtocol(position.currentProtocol).getBalance(asset, address(this));
-            currentValue = (currentValue * position.shares) / _getTotalShares(position.currentProtocol, asset);
-            
-            if (currentValue > position.deposited) {
-                unrealizedYield = currentValue - position.deposited;
-            }
+        if (currentValue > position.deposited) {
+            unrealizedYield = currentValue - position.deposited;
         }
     }
 
@@ -450,18 +962,478 @@ contract YieldAggregator is Ownable, ReentrancyGuard, Pausable {
 
     // ============ Internal Functions ============
 
-    function _getTotalShares(address adapter, address asset) internal view returns (uint256) {
-        // Return adapter's total balance for this contract
+    /**
+     * @dev Issue pool shares for `amount` pulled from `account` and allocate it, or deposit it
+     *      all into `protocolId` when one is given
+     */
+    function _deposit(
+        address account,
+        address asset,
+        uint256 amount,
+        bytes32 protocolId
+    ) internal returns (uint256 shares) {
+        require(supportedAssets[asset], "Asset not supported");
+        require(amount > 0, "Amount must be greater than 0");
+        
+        _accrueFees(asset);
+        
+        // Shares are priced before the deposit reaches the pool
+        shares = _convertToShares(asset, amount, Math.Rounding.Floor);
+        require(shares > 0, "Zero shares");
+        
+        // Transfer assets from depositor
+        IERC20(asset).safeTransferFrom(account, address(this), amount);
+        
+        if (protocolId == bytes32(0)) {
+            protocolId = _allocate(asset, amount);
+        } else {
+            _depositToProtocol(asset, protocolId, amount);
+        }
+        
+        // Update position
+        UserPosition storage position = userPositions[account][asset];
+        position.deposited += amount;
+        position.shares += shares;
+        position.depositTimestamp = block.timestamp;
+        totalShares[asset] += shares;
+        
+        // A new pool starts its high-water mark at the first depositor's price
+        if (highWaterMark[asset] == 0) {
+            highWaterMark[asset] = _sharePrice(totalAssets(asset), totalShares[asset]);
+        }
+        
+        emit Deposited(account, asset, amount, protocolId);
+    }
+
+    /**
+     * @dev Allocate idle assets. With allocation targets the amount is split over the protocols
+     *      below their target, in proportion to what they miss; whatever the caps leave over stays
+     *      idle in the pool. Without targets everything goes to the best yielding protocol.
+     * @return mainProtocol The protocol that received the largest part
+     */
+    function _allocate(address asset, uint256 amount) internal returns (bytes32 mainProtocol) {
+        if (!_hasTargets(asset)) {
+            (mainProtocol, ) = findBestProtocol(asset);
+            require(mainProtocol != bytes32(0), "No protocol available");
+            _depositToProtocol(asset, mainProtocol, amount);
+            return mainProtocol;
+        }
+        
+        uint256 count = protocolIds.length;
+        uint256[] memory deficits = _targetAmounts(asset, totalAssets(asset));
+        uint256 totalDeficit;
+        for (uint256 i = 0; i < count; i++) {
+            uint256 current = _protocolValue(asset, protocols[protocolIds[i]].adapter);
+            deficits[i] = deficits[i] > current ? deficits[i] - current : 0;
+            totalDeficit += deficits[i];
+        }
+        
+        uint256 largest;
+        for (uint256 i = 0; i < count; i++) {
+            if (deficits[i] == 0) continue;
+            
+            uint256 part = totalDeficit <= amount ? deficits[i] : (amount * deficits[i]) / totalDeficit;
+            if (part == 0) continue;
+            
+            _depositToProtocol(asset, protocolIds[i], part);
+            if (part > largest) {
+                largest = part;
+                mainProtocol = protocolIds[i];
+            }
+        }
+    }
+
+    /**
+     * @dev Move `shares` worth of pool shares out of every protocol whose live APY the best one
+     *      beats by the strategy threshold into the best protocol
+     * @return hasOtherHoldings Whether any protocol besides the best one holds part of the pool
+     * @return moved The amount moved
+     */
+    function _rebalanceToBest(address asset, uint256 shares) internal returns (bool hasOtherHoldings, uint256 moved) {
+        (bytes32 bestProtocol, uint256 bestAPY) = findBestProtocol(asset);
+        require(bestProtocol != bytes32(0), "No protocol available");
+        
+        uint256 poolShares = totalShares[asset];
+        for (uint256 i = 0; i < protocolIds.length; i++) {
+            ProtocolInfo storage protocol = protocols[protocolIds[i]];
+            uint256 held = adapterShares[asset][protocol.adapter];
+            if (held == 0 || protocolIds[i] == bestProtocol) continue;
+            hasOtherHoldings = true;
+            
+            // Check if rebalance is worth it
+            if (!_beatsThreshold(asset, protocol.adapter, bestAPY)) continue;
+            
+            uint256 sharesToMove = (held * shares) / poolShares;
+            if (sharesToMove == 0) continue;
+            
+            uint256 received = _withdrawFromProtocol(asset, protocol, sharesToMove);
+            moved += received;
+            
+            emit Rebalanced(asset, protocolIds[i], bestProtocol, received);
+        }
+        
+        if (moved > 0) {
+            _depositToProtocol(asset, bestProtocol, moved);
+        }
+    }
+
+    /**
+     * @dev Withdraw what each protocol holds above its target and allocate it to the protocols
+     *      below theirs. Events name the protocol that received the largest part as destination.
+     * @return moved The amount withdrawn for reallocation
+     */
+    function _rebalanceToTargets(address asset) internal returns (uint256 moved) {
+        uint256 count = protocolIds.length;
+        uint256[] memory targets = _targetAmounts(asset, totalAssets(asset));
+        uint256[] memory withdrawn = new uint256[](count);
+        
+        for (uint256 i = 0; i < count; i++) {
+            ProtocolInfo storage protocol = protocols[protocolIds[i]];
+            uint256 current = _protocolValue(asset, protocol.adapter);
+            if (current <= targets[i]) continue;
+            
+            withdrawn[i] = _withdrawAssetsFromProtocol(asset, protocol, current - targets[i]);
+            moved += withdrawn[i];
+        }
+        if (moved == 0) return 0;
+        
+        // Liquidity owed to queued withdrawals stays idle for their claims
+        bytes32 mainProtocol = _allocate(asset, _unreservedIdle(asset));
+        for (uint256 i = 0; i < count; i++) {
+            if (withdrawn[i] > 0) {
+                emit Rebalanced(asset, protocolIds[i], mainProtocol, withdrawn[i]);
+            }
+        }
+    }
+
+    function _depositToProtocol(address asset, bytes32 protocolId, uint256 amount) internal {
+        ProtocolInfo storage protocol = protocols[protocolId];
+        
+        // Reset approval first for tokens like USDT that require it
+        IERC20(asset).forceApprove(protocol.adapter, amount);
+        adapterShares[asset][protocol.adapter] += IYieldProtocol(protocol.adapter).deposit(asset, amount);
+        
+        protocol.totalDeposited += amount;
+    }
+
+    function _withdrawFromProtocol(
+        address asset,
+        ProtocolInfo storage protocol,
+        uint256 shares
+    ) internal returns (uint256 received) {
+        received = IYieldProtocol(protocol.adapter).withdraw(asset, shares);
+        adapterShares[asset][protocol.adapter] -= shares;
+        
+        // Yield is withdrawn on top of the deposits, so the tally stops at zero
+        protocol.totalDeposited -= Math.min(received, protocol.totalDeposited);
+    }
+
+    /**
+     * @dev Withdraw at least `amount` from a protocol, or everything it holds if that is less.
+     *      Adapter shares are rounded up, so a few wei more than needed can be withdrawn.
+     */
+    function _withdrawAssetsFromProtocol(
+        address asset,
+        ProtocolInfo storage protocol,
+        uint256 amount
+    ) internal returns (uint256) {
+        uint256 shares = adapterShares[asset][protocol.adapter];
+        if (shares == 0) return 0;
+        
+        uint256 value = _protocolValue(asset, protocol.adapter);
+        if (value > amount) {
+            shares = Math.min(shares, Math.mulDiv(amount, shares, value, Math.Rounding.Ceil) + 1);
+        }
+        return _withdrawFromProtocol(asset, protocol, shares);
+    }
+
+    /**
+     * @dev Pay out exactly `amount`, pulling what is missing from the protocols, or revert.
+     *      A surplus from rounding stays idle in the pool.
+     */
+    function _payOut(address asset, address to, uint256 amount) internal {
+        require(_withdrawAvailable(asset, amount, queuedWithdrawals[asset]) == amount, "Insufficient liquidity");
+        IERC20(asset).safeTransfer(to, amount);
+    }
+
+    /**
+     * @dev Pull idle assets out of the protocols until `amount` is free on top of the `reserved`
+     *      part of the idle balance, as far as their liquidity allows, and return how much of
+     *      `amount` can be paid out now
+     */
+    function _withdrawAvailable(address asset, uint256 amount, uint256 reserved) internal returns (uint256) {
+        uint256 idle = IERC20(asset).balanceOf(address(this));
+        amount += reserved;
+        
+        // In emergency mode only idle funds are paid out
+        for (uint256 i = 0; !emergencyMode && i < protocolIds.length && idle < amount; i++) {
+            ProtocolInfo storage protocol = protocols[protocolIds[i]];
+            uint256 value = _protocolValue(asset, protocol.adapter);
+            if (value == 0) continue;
+            
+            uint256 liquidity = IYieldProtocol(protocol.adapter).getAvailableLiquidity(asset);
+            if (liquidity > amount - idle || liquidity >= value) {
+                idle += _withdrawAssetsFromProtocol(asset, protocol, amount - idle);
+            } else if (liquidity > 0) {
+                // Shares rounded down, so the withdrawal stays within the liquidity
+                uint256 shares = Math.mulDiv(liquidity, adapterShares[asset][protocol.adapter], value);
+                if (shares > 0) idle += _withdrawFromProtocol(asset, protocol, shares);
+            }
+        }
+        return idle > reserved ? Math.min(idle, amount) - reserved : 0;
+    }
+
+    /**
+     * @dev Pool value and shares that withdrawals are priced at. In emergency mode that is only
+     *      the idle funds not owed to queued withdrawals, since an unwound adapter may be
+     *      compromised; otherwise fees are accrued first and the whole pool counts.
+     */
+    function _withdrawalPool(address asset) internal returns (uint256 assets, uint256 shares) {
+        if (emergencyMode) {
+            assets = _unreservedIdle(asset);
+            require(assets > 0, "No idle funds to withdraw");
+        } else {
+            _accrueFees(asset);
+            assets = totalAssets(asset);
+        }
+        shares = totalShares[asset];
+    }
+
+    // Idle balance not owed to queued withdrawals
+    function _unreservedIdle(address asset) internal view returns (uint256 idle) {
+        idle = IERC20(asset).balanceOf(address(this));
+        idle -= Math.min(idle, queuedWithdrawals[asset]);
+    }
+
+    /**
+     * @dev Burn the caller's pool shares for `amount` of assets. The cost basis goes down in
+     *      proportion; what `amount` exceeds it by is reported as yield.
+     */
+    function _burnShares(address asset, uint256 shares, uint256 amount) internal {
+        UserPosition storage position = userPositions[msg.sender][asset];
+        require(shares <= position.shares, "Insufficient balance");
+        
+        uint256 costBasis = (position.deposited * shares) / position.shares;
+        position.deposited -= costBasis;
+        position.shares -= shares;
+        totalShares[asset] -= shares;
+        
+        emit Withdrawn(msg.sender, asset, amount, amount > costBasis ? amount - costBasis : 0);
+    }
+
+    function _queueWithdrawal(address user, address asset, uint256 amount) internal returns (uint256 requestId) {
+        // Ids start at 1, so 0 means nothing was queued
+        requestId = ++nextWithdrawalRequestId;
+        withdrawalRequests[requestId] = WithdrawalRequest(
+            user, asset, amount, 0, block.timestamp, withdrawalQueueTotal[asset]
+        );
+        userWithdrawalRequests[user].push(requestId);
+        queuedWithdrawals[asset] += amount;
+        withdrawalQueueTotal[asset] += amount;
+        
+        emit WithdrawalQueued(requestId, user, asset, amount);
+    }
+
+    /**
+     * @dev Redeem every adapter share the pools hold in a protocol. What arrives is measured by
+     *      balance, since a compromised adapter's return value cannot be trusted.
+     */
+    function _unwind(bytes32 protocolId) internal {
+        ProtocolInfo storage protocol = protocols[protocolId];
+        require(protocol.adapter != address(0), "Protocol not found");
+        protocol.active = false;
+        
+        for (uint256 i = 0; i < assetList.length; i++) {
+            address asset = assetList[i];
+            uint256 shares = adapterShares[asset][protocol.adapter];
+            if (shares == 0) continue;
+            
+            uint256 balanceBefore = IERC20(asset).balanceOf(address(this));
+            try IYieldProtocol(protocol.adapter).withdraw(asset, shares) {
+                uint256 received = IERC20(asset).balanceOf(address(this)) - balanceBefore;
+                adapterShares[asset][protocol.adapter] = 0;
+                protocol.totalDeposited -= Math.min(received, protocol.totalDeposited);
+                emit EmergencyUnwound(protocolId, asset, received);
+            } catch {
+                emit EmergencyUnwindFailed(protocolId, asset, shares);
+            }
+        }
+    }
+
+    function _enterEmergencyMode() internal {
+        if (!emergencyMode) {
+            emergencyMode = true;
+            emit EmergencyModeUpdated(true);
+        }
+        if (!paused()) _pause();
+    }
+
+    function _hasTargets(address asset) internal view returns (bool) {
+        for (uint256 i = 0; i < protocolIds.length; i++) {
+            if (allocationTargets[asset][protocolIds[i]].weight > 0) return true;
+        }
+        return false;
+    }
+
+    /**
+     * @dev Target value per registered protocol for a pool of `total` assets. What caps (and
+     *      inactive protocols) cut off is spread by weight over the protocols still below their
+     *      cap; anything left after that is not allocated.
+     */
+    function _targetAmounts(address asset, uint256 total) internal view returns (uint256[] memory targets) {
+        uint256 count = protocolIds.length;
+        targets = new uint256[](count);
+        uint256[] memory caps = new uint256[](count);
+        uint256 unallocated;
+        uint256 openWeight;
+        
+        for (uint256 i = 0; i < count; i++) {
+            AllocationTarget storage target = allocationTargets[asset][protocolIds[i]];
+            if (target.weight == 0) continue;
+            
+            caps[i] = protocols[protocolIds[i]].active ? _allocationCap(target, total) : 0;
+            targets[i] = (total * target.weight) / BASIS_POINTS;
+            if (targets[i] >= caps[i]) {
+                unallocated += targets[i] - caps[i];
+                targets[i] = caps[i];
+            } else {
+                openWeight += target.weight;
+            }
+        }
+        
+        if (unallocated == 0 || openWeight == 0) return targets;
+        
+        for (uint256 i = 0; i < count; i++) {
+            uint256 weight = allocationTargets[asset][protocolIds[i]].weight;
+            if (weight == 0 || targets[i] >= caps[i]) continue;
+            targets[i] = Math.min(targets[i] + (unallocated * weight) / openWeight, caps[i]);
+        }
+    }
+
+    function _allocationCap(AllocationTarget storage target, uint256 total) internal view returns (uint256 cap) {
+        cap = type(uint256).max;
+        if (target.maxWeight > 0) {
+            cap = (total * target.maxWeight) / BASIS_POINTS;
+        }
+        if (target.maxAmount > 0) {
+            cap = Math.min(cap, target.maxAmount);
+        }
+    }
+
+    function _protocolValue(address asset, address adapter) internal view returns (uint256) {
+        // Adapters that never received the asset may not support it
+        if (adapterShares[asset][adapter] == 0) return 0;
         return IYieldProtocol(adapter).getBalance(asset, address(this));
     }
 
+    // Live APY of an adapter, 0 when it reverts
+    function _currentAPY(address asset, address adapter) internal view returns (uint256 apy) {
+        try IYieldProtocol(adapter).getCurrentAPY(asset) returns (uint256 value) {
+            apy = value;
+        } catch {}
+    }
+
+    // Whether `bestAPY` beats the live APY of an adapter by the strategy's rebalance threshold
+    function _beatsThreshold(address asset, address adapter, uint256 bestAPY) internal view returns (bool) {
+        uint256 currentAPY = _currentAPY(asset, adapter);
+        return bestAPY > currentAPY + (currentAPY * strategies[asset].rebalanceThreshold / BASIS_POINTS);
+    }
+
+    // Same virtual share and asset as OpenZeppelin's ERC4626, against share inflation by donations
+    // Conversions count the management fee shares accrued since the last update
+    function _convertToShares(address asset, uint256 assets, Math.Rounding rounding) internal view returns (uint256) {
+        uint256 shares = totalShares[asset] + _pendingFeeShares(asset);
+        return Math.mulDiv(assets, shares + 1, totalAssets(asset) + 1, rounding);
+    }
+
+    function _convertToAssets(address asset, uint256 shares, Math.Rounding rounding) internal view returns (uint256) {
+        uint256 poolShares = totalShares[asset] + _pendingFeeShares(asset);
+        return Math.mulDiv(shares, totalAssets(asset) + 1, poolShares + 1, rounding);
+    }
+
+    /**
+     * @notice Mint the fees accrued since the last accrual as fee shares
+     * @dev Must run before anything that prices or changes pool shares
+     * @param asset The asset address
+     */
+    function _accrueFees(address asset) internal {
+        uint256 shares = _pendingFeeShares(asset);
+        if (shares > 0) {
+            feeShares[asset] += shares;
+            totalShares[asset] += shares;
+        }
+        lastFeeAccrual[asset] = block.timestamp;
+        
+        if (totalShares[asset] == 0) {
+            // An emptied pool starts over at the next deposit's price
+            highWaterMark[asset] = 0;
+        } else {
+            uint256 price = _sharePrice(totalAssets(asset), totalShares[asset]);
+            if (price > highWaterMark[asset]) highWaterMark[asset] = price;
+        }
+    }
+
+    // Fee shares worth the fees on the pool since the last accrual. Bridged assets are left out of
+    // the management fee, which the destination chain's pool charges on them.
+    function _pendingFeeShares(address asset) internal view returns (uint256) {
+        uint256 assets = totalAssets(asset);
+        return FeeMath.pendingFeeShares(
+            assets,
+            assets - Math.min(assets, bridgedAssets[asset]),
+            totalShares[asset],
+            block.timestamp - lastFeeAccrual[asset],
+            managementFee,
+            performanceFee,
+            highWaterMark[asset]
+        );
+    }
+
+    function _sharePrice(uint256 assets, uint256 shares) internal pure returns (uint256) {
+        return Math.mulDiv(assets, PRICE_PRECISION, shares);
+    }
+
+    // ============ Emergency Functions ============
+
+    /**
+     * @notice Pull everything out of a protocol, mark it inactive and enter emergency mode
+     * @dev Assets whose withdrawal reverts stay in the protocol (`EmergencyUnwindFailed`); call
+     *      again to retry, e.g. once a lending market has liquidity again
+     * @param protocolId The protocol identifier
+     */
+    function emergencyUnwind(bytes32 protocolId) external nonReentrant onlyRole(GUARDIAN_ROLE) {
+        _unwind(protocolId);
+        _enterEmergencyMode();
+    }
+
+    /**
+     * @notice Pull everything out of every protocol, mark them inactive and enter emergency mode
+     */
+    function emergencyUnwindAll() external nonReentrant onlyRole(GUARDIAN_ROLE) {
+        for (uint256 i = 0; i < protocolIds.length; i++) {
+            _unwind(protocolIds[i]);
+        }
+        _enterEmergencyMode();
+    }
+
     // ============ Pause Functions ============
 
-    function pause() external onlyOwner {
+    function pause() external onlyRole(GUARDIAN_ROLE) {
         _pause();
     }
 
-    function unpause() external onlyOwner {
+    /**
+     * @notice Resume deposits and rebalances, and leave emergency mode
+     * @dev Unwound protocols stay inactive; the admin re-adds or replaces them. The management
+     *      fee is not charged for the time spent in emergency mode.
+     */
+    function unpause() external onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (emergencyMode) {
+            emergencyMode = false;
+            for (uint256 i = 0; i < assetList.length; i++) {
+                lastFeeAccrual[assetList[i]] = block.timestamp;
+            }
+            emit EmergencyModeUpdated(false);
+        }
         _unpause();
     }
 }
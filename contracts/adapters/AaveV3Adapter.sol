@@ -27,8 +27,14 @@ contract AaveV3Adapter is IYieldProtocol, Ownable, ReentrancyGuard {
     // Supported assets
     mapping(address => bool) public supportedAssets;
 
+    // Share tracking per depositor, so interest accrued on the aTokens is split between them
+    // asset => account => shares
+    mapping(address => mapping(address => uint256)) public userShares;
+    // asset => total shares
+    mapping(address => uint256) public totalShares;
+
     // Events
-    event Deposited(address indexed asset, address indexed user, uint256 amount, uint256 aTokenAmount);
+    event Deposited(address indexed asset, address indexed user, uint256 amount, uint256 shares);
     event Withdrawn(address indexed asset, address indexed user, uint256 shares, uint256 amount);
     event AssetAdded(address indexed asset, address indexed aToken);
     event AssetRemoved(address indexed asset);
@@ -99,7 +105,7 @@ contract AaveV3Adapter is IYieldProtocol, Ownable, ReentrancyGuard {
      * @notice Deposit assets into Aave
      * @param asset The asset to deposit
      * @param amount The amount to deposit
-     * @return shares The aToken amount received
+     * @return shares The shares assigned to the caller
      */
     function deposit(address asset, uint256 amount) external override nonReentrant returns (uint256 shares) {
         require(supportedAssets[asset], "Asset not supported");
@@ -115,8 +121,16 @@ contract AaveV3Adapter is IYieldProtocol, Ownable, ReentrancyGuard {
         // Supply to Aave
         aavePool.supply(asset, amount, address(this), 0);
         
-        // Calculate shares received
-        shares = IERC20(aToken).balanceOf(address(this)) - aTokenBefore;
+        // Shares are priced against the aTokens held before this deposit
+        uint256 received = IERC20(aToken).balanceOf(address(this)) - aTokenBefore;
+        if (totalShares[asset] == 0 || aTokenBefore == 0) {
+            shares = received;
+        } else {
+            shares = (received * totalShares[asset]) / aTokenBefore;
+        }
+        
+        userShares[asset][msg.sender] += shares;
+        totalShares[asset] += shares;
         
         emit Deposited(asset, msg.sender, amount, shares);
     }
@@ -124,18 +138,23 @@ contract AaveV3Adapter is IYieldProtocol, Ownable, ReentrancyGuard {
     /**
      * @notice Withdraw assets from Aave
      * @param asset The asset to withdraw
-     * @param shares The amount of aTokens to redeem
+     * @param shares The amount of shares to redeem
      * @return amount The amount of assets received
      */
     function withdraw(address asset, uint256 shares) external override nonReentrant returns (uint256 amount) {
         require(supportedAssets[asset], "Asset not supported");
-        require(shares > 0, "Shares must be greater than 0");
+        require(shares > 0 && shares <= userShares[asset][msg.sender], "Invalid shares");
+        
+        // Redeem the caller's part of the aTokens, including accrued interest
+        uint256 aTokenAmount = (shares * IERC20(aTokens[asset]).balanceOf(address(this))) / totalShares[asset];
+        userShares[asset][msg.sender] -= shares;
+        totalShares[asset] -= shares;
         
         // Get asset balance before
         uint256 assetBefore = IERC20(asset).balanceOf(address(this));
         
         // Withdraw from Aave
-        amount = aavePool.withdraw(asset, shares, address(this));
+        amount = aavePool.withdraw(asset, aTokenAmount, address(this));
         
         // Calculate actual amount received
         uint256 actualAmount = IERC20(asset).balanceOf(address(this)) - assetBefore;
@@ -149,16 +168,38 @@ contract AaveV3Adapter is IYieldProtocol, Ownable, ReentrancyGuard {
     }
 
     /**
-     * @notice Get the current balance in Aave
+     * @notice Get the current balance in Aave for an account
      * @param asset The asset address
-     * @param account The account to check (ignored, uses contract balance)
-     * @return The current aToken balance
+     * @param account The account to check
+     * @return The account's share of the adapter's aTokens
      */
     function getBalance(address asset, address account) external view override returns (uint256) {
         require(supportedAssets[asset], "Asset not supported");
-        // For simplicity, return contract's aToken balance
-        // In production, track per-user balances
-        return IERC20(aTokens[asset]).balanceOf(account == address(0) ? address(this) : account);
+        
+        if (totalShares[asset] == 0) return 0;
+        
+        uint256 totalBalance = IERC20(aTokens[asset]).balanceOf(address(this));
+        return (userShares[asset][account] * totalBalance) / totalShares[asset];
+    }
+
+    /**
+     * @notice Get the asset liquidity of the Aave reserve, which its aToken holds
+     * @param asset The asset address
+     * @return The amount the reserve can pay out
+     */
+    function getAvailableLiquidity(address asset) external view override returns (uint256) {
+        require(supportedAssets[asset], "Asset not supported");
+        return IERC20(asset).balanceOf(aTokens[asset]);
+    }
+
+    /**
+     * @notice Get an account's share balance
+     * @param asset The asset address
+     * @param account The account to check
+     * @return The number of shares
+     */
+    function getShares(address asset, address account) external view returns (uint256) {
+        return userShares[asset][account];
     }
 
     /**
@@ -144,6 +144,16 @@ contract CompoundV3Adapter is IYieldProtocol, Ownable, ReentrancyGuard {
         return (userShares[account] * totalBalance) / totalShares;
     }
 
+    /**
+     * @notice Get the base token liquidity of the Comet market
+     * @param asset The asset address (must be base token)
+     * @return The amount the market can pay out
+     */
+    function getAvailableLiquidity(address asset) external view override returns (uint256) {
+        require(asset == baseToken, "Only base token supported");
+        return IERC20(baseToken).balanceOf(address(comet));
+    }
+
     /**
      * @notice Get user's share balance
      * @param account The account to check
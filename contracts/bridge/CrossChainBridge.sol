@@ -1,18 +1,22 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.20;
 
-import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/access/AccessControl.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/Pausable.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import "../interfaces/ILayerZero.sol";
+import "../interfaces/IYieldAggregator.sol";
 
 /**
  * @title CrossChainBridge
  * @notice Handles cross-chain asset transfers and messaging using LayerZero
- * @dev Implements OApp pattern for LayerZero V2
+ * @dev Implements OApp pattern for LayerZero V2. The admin role is meant to be held by a
+ *      YieldTimelock, so peer and token changes are delayed. A guardian can pause the bridge at
+ *      once; only the admin unpauses it.
  */
-contract CrossChainBridge is Ownable, ReentrancyGuard, ILayerZeroReceiver {
+contract CrossChainBridge is AccessControl, ReentrancyGuard, Pausable, ILayerZeroReceiver {
     using SafeERC20 for IERC20;
 
     // ============ Structs ============
@@ -30,21 +34,51 @@ contract CrossChainBridge is Ownable, ReentrancyGuard, ILayerZeroReceiver {
         bytes32 recipient;
         uint256 timestamp;
         bool completed;
+        bool refunded;
+        bool cancelRequested;
     }
 
     struct CrossChainMessage {
-        uint8 messageType; // 1: Transfer, 2: Rebalance, 3: YieldReport
+        uint8 messageType; // 1: Transfer, 2: Rebalance, 3: YieldReport, 4: Refund, 5: Ack, 6: Cancel, 7: Recall, 8: Return
         address asset;
         uint256 amount;
         address sender;
         bytes data;
     }
 
+    struct RemoteYield {
+        uint32 srcEid;
+        address asset; // As reported by the source chain
+        uint256 apy; // Best APY of the source chain's pool, in basis points
+        uint256 totalDeposited;
+        uint256 updatedAt; // When the report was received
+    }
+
+    struct FailedMessage {
+        uint32 srcEid;
+        bytes32 sender;
+        bytes message; // The encoded CrossChainMessage as received
+    }
+
     // ============ Constants ============
 
     uint8 public constant MSG_TRANSFER = 1;
     uint8 public constant MSG_REBALANCE = 2;
     uint8 public constant MSG_YIELD_REPORT = 3;
+    uint8 public constant MSG_REFUND = 4;
+    uint8 public constant MSG_ACK = 5;
+    uint8 public constant MSG_CANCEL = 6;
+    uint8 public constant MSG_RECALL = 7;
+    uint8 public constant MSG_RETURN = 8;
+
+    // Off-chain keeper allowed to send yield reports
+    bytes32 public constant KEEPER_ROLE = keccak256("KEEPER_ROLE");
+
+    // Can pause transfers, rebalances and message delivery
+    bytes32 public constant GUARDIAN_ROLE = keccak256("GUARDIAN_ROLE");
+
+    // Role on the aggregator allowed to recall rebalanced pool funds
+    bytes32 public constant STRATEGIST_ROLE = keccak256("STRATEGIST_ROLE");
 
     // ============ State Variables ============
 
@@ -60,20 +94,52 @@ contract CrossChainBridge is Ownable, ReentrancyGuard, ILayerZeroReceiver {
     // Supported tokens for bridging: token => supported
     mapping(address => bool) public supportedTokens;
 
+    // Local token of a token address a peer chain sends in messages: eid => remote token => local token.
+    // Unset addresses are the same token on both chains.
+    mapping(uint32 => mapping(address => address)) public remoteTokens;
+
     // Bridge requests: requestId => BridgeRequest
     mapping(bytes32 => BridgeRequest) public bridgeRequests;
     uint256 public requestNonce;
 
+    // Senders can cancel a request that is not acknowledged this long after bridging
+    uint256 public bridgeTimeout = 1 days;
+
+    // Transfers received from other chains, by source requestId
+    mapping(bytes32 => bool) public completedTransfers;
+    mapping(bytes32 => bool) public cancelledTransfers;
+
     // Chain configurations
     mapping(uint32 => uint256) public chainGasLimits;
 
     // Received message tracking
     mapping(bytes32 => bool) public processedMessages;
 
+    // Received messages whose processing reverted: guid => FailedMessage
+    mapping(bytes32 => FailedMessage) public failedMessages;
+
+    // Most pool funds cross-chain rebalances may have on other chains at once (the aggregator's
+    // `bridgedAssets`): asset => amount. Zero, the default, disables cross-chain rebalances.
+    mapping(address => uint256) public rebalanceCaps;
+
+    // Aggregator pool shares held for the pools of other chains: srcEid => asset => shares
+    mapping(uint32 => mapping(address => uint256)) public rebalancedShares;
+
+    // Latest yield report per source chain and asset: srcEid => asset => RemoteYield
+    mapping(uint32 => mapping(address => RemoteYield)) public remoteYields;
+
+    // Chains and assets with a report, in order of their first report
+    uint32[] private reportEids;
+    address[] private reportAssets;
+
+    // Reports older than this are stale and ignored by `bestRemoteYield`
+    uint256 public yieldReportMaxAge = 1 days;
+
     // ============ Events ============
 
     event PeerSet(uint32 indexed eid, bytes32 peer);
     event TokenSupported(address indexed token, bool supported);
+    event RemoteTokenSet(uint32 indexed eid, address indexed remoteToken, address localToken);
     event BridgeInitiated(
         bytes32 indexed requestId,
         address indexed sender,
@@ -83,6 +149,7 @@ contract CrossChainBridge is Ownable, ReentrancyGuard, ILayerZeroReceiver {
     );
     event BridgeCompleted(bytes32 indexed requestId, address recipient, uint256 amount);
     event CrossChainMessageReceived(
+        bytes32 indexed guid,
         uint32 indexed srcChainId,
         bytes32 sender,
         uint8 messageType,
@@ -94,12 +161,34 @@ contract CrossChainBridge is Ownable, ReentrancyGuard, ILayerZeroReceiver {
         uint256 amount,
         bytes32 targetProtocol
     );
+    event YieldReportReceived(uint32 indexed srcEid, address indexed asset, uint256 apy, uint256 totalDeposited);
+    event YieldReportMaxAgeUpdated(uint256 maxAge);
+    event RebalanceExecuted(address indexed asset, uint256 amount, bytes32 targetProtocol, uint256 shares);
+    event RecallRequested(uint32 indexed dstChainId, address asset, uint256 amount);
+    event RebalanceRecalled(uint32 indexed srcEid, address indexed asset, uint256 amount, uint256 shares);
+    event RebalanceReturned(uint32 indexed srcEid, address indexed asset, uint256 amount);
+    event MessageFailed(bytes32 indexed guid, uint32 indexed srcEid, bytes reason);
+    event MessageRetried(bytes32 indexed guid);
+    event MessageRefunded(bytes32 indexed guid, uint32 indexed srcEid, bytes32 requestId);
+    event BridgeRefunded(bytes32 indexed requestId, address sender, uint256 amount);
+    event BridgeAcknowledged(bytes32 indexed requestId);
+    event BridgeCancelRequested(bytes32 indexed requestId, address indexed sender);
+    event BridgeTimeoutUpdated(uint256 timeout);
+    event RebalanceCapUpdated(address indexed asset, uint256 cap);
+
+    // ============ Modifiers ============
+
+    modifier onlyAggregatorOrKeeper() {
+        require(msg.sender == yieldAggregator || hasRole(KEEPER_ROLE, msg.sender), "Unauthorized");
+        _;
+    }
 
     // ============ Constructor ============
 
-    constructor(address _endpoint) Ownable(msg.sender) {
+    constructor(address _endpoint) {
         require(_endpoint != address(0), "Invalid endpoint");
         endpoint = ILayerZeroEndpoint(_endpoint);
+        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
     }
 
     // ============ Admin Functions ============
@@ -108,7 +197,7 @@ contract CrossChainBridge is Ownable, ReentrancyGuard, ILayerZeroReceiver {
      * @notice Set the yield aggregator contract
      * @param _aggregator The aggregator address
      */
-    function setYieldAggregator(address _aggregator) external onlyOwner {
+    function setYieldAggregator(address _aggregator) external onlyRole(DEFAULT_ADMIN_ROLE) {
         require(_aggregator != address(0), "Invalid aggregator");
         yieldAggregator = _aggregator;
     }
@@ -118,7 +207,7 @@ contract CrossChainBridge is Ownable, ReentrancyGuard, ILayerZeroReceiver {
      * @param _eid The endpoint ID (chain)
      * @param _peer The peer contract address (as bytes32)
      */
-    function setPeer(uint32 _eid, bytes32 _peer) external onlyOwner {
+    function setPeer(uint32 _eid, bytes32 _peer) external onlyRole(DEFAULT_ADMIN_ROLE) {
         peers[_eid] = PeerConfig({
             peer: _peer,
             active: true
@@ -131,20 +220,80 @@ contract CrossChainBridge is Ownable, ReentrancyGuard, ILayerZeroReceiver {
      * @param token The token address
      * @param supported Whether the token is supported
      */
-    function setSupportedToken(address token, bool supported) external onlyOwner {
+    function setSupportedToken(address token, bool supported) external onlyRole(DEFAULT_ADMIN_ROLE) {
         supportedTokens[token] = supported;
         emit TokenSupported(token, supported);
     }
 
+    /**
+     * @notice Map the address a token has on a peer chain to its address on this chain
+     * @dev Received messages carry the sending chain's token address. Set address(0) as
+     *      the token to treat the remote address as the same token again.
+     * @param eid The peer chain
+     * @param remoteToken The token address on the peer chain
+     * @param token The same token on this chain
+     */
+    function setRemoteToken(uint32 eid, address remoteToken, address token) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        remoteTokens[eid][remoteToken] = token;
+        emit RemoteTokenSet(eid, remoteToken, token);
+    }
+
     /**
      * @notice Set gas limit for a chain
      * @param chainId The chain ID
      * @param gasLimit The gas limit
      */
-    function setChainGasLimit(uint32 chainId, uint256 gasLimit) external onlyOwner {
+    function setChainGasLimit(uint32 chainId, uint256 gasLimit) external onlyRole(DEFAULT_ADMIN_ROLE) {
         chainGasLimits[chainId] = gasLimit;
     }
 
+    /**
+     * @notice Set how long a received yield report stays fresh
+     * @param maxAge Maximum age in seconds
+     */
+    function setYieldReportMaxAge(uint256 maxAge) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(maxAge > 0, "Invalid max age");
+        yieldReportMaxAge = maxAge;
+        emit YieldReportMaxAgeUpdated(maxAge);
+    }
+
+    /**
+     * @notice Set how long a transfer waits for its acknowledgement before the sender can cancel it
+     * @param timeout Timeout in seconds
+     */
+    function setBridgeTimeout(uint256 timeout) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(timeout > 0, "Invalid timeout");
+        bridgeTimeout = timeout;
+        emit BridgeTimeoutUpdated(timeout);
+    }
+
+    /**
+     * @notice Set how much of an asset's pool cross-chain rebalances may move to other chains
+     * @dev Caps the aggregator's `bridgedAssets`; a cap below it blocks new rebalances until
+     *      recalls bring funds back
+     * @param asset The asset
+     * @param cap The amount, 0 to disable cross-chain rebalances of the asset
+     */
+    function setRebalanceCap(address asset, uint256 cap) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        rebalanceCaps[asset] = cap;
+        emit RebalanceCapUpdated(asset, cap);
+    }
+
+    /**
+     * @notice Pause transfers, cancels, rebalances, recalls and the delivery of messages
+     * @dev Deliveries revert while paused, so the endpoint keeps them for a later retry
+     */
+    function pause() external onlyRole(GUARDIAN_ROLE) {
+        _pause();
+    }
+
+    /**
+     * @notice Unpause the bridge
+     */
+    function unpause() external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _unpause();
+    }
+
     // ============ Bridge Functions ============
 
     /**
@@ -159,7 +308,7 @@ contract CrossChainBridge is Ownable, ReentrancyGuard, ILayerZeroReceiver {
         uint256 amount,
         uint32 dstChainId,
         bytes32 recipient
-    ) external payable nonReentrant {
+    ) external payable nonReentrant whenNotPaused {
         require(supportedTokens[asset], "Token not supported");
         require(peers[dstChainId].active, "Destination chain not configured");
         require(amount > 0, "Amount must be greater than 0");
@@ -179,7 +328,9 @@ contract CrossChainBridge is Ownable, ReentrancyGuard, ILayerZeroReceiver {
             dstChainId: dstChainId,
             recipient: recipient,
             timestamp: block.timestamp,
-            completed: false
+            completed: false,
+            refunded: false,
+            cancelRequested: false
         });
 
         // Encode message
@@ -192,26 +343,70 @@ contract CrossChainBridge is Ownable, ReentrancyGuard, ILayerZeroReceiver {
         });
 
         // Send cross-chain message
-        _sendMessage(dstChainId, abi.encode(message));
+        _sendMessage(dstChainId, abi.encode(message), msg.value, msg.sender);
 
         emit BridgeInitiated(requestId, msg.sender, asset, amount, dstChainId);
     }
 
     /**
-     * @notice Request cross-chain rebalance
+     * @notice Cancel a transfer that was not acknowledged within `bridgeTimeout`
+     * @dev Sends a cancel message to the destination bridge. If the transfer was not paid out
+     *      there, it is blocked and a refund message returns the locked tokens to the sender;
+     *      if it was, the acknowledgement is sent again. msg.value pays the messaging fee. A
+     *      request can be cancelled once; a cancel that fails on the destination is retried there.
+     * @param requestId The request ID from `BridgeInitiated`
+     */
+    function cancelBridge(bytes32 requestId) external payable nonReentrant whenNotPaused {
+        BridgeRequest storage request = bridgeRequests[requestId];
+        require(request.sender == msg.sender, "Not request sender");
+        require(!request.completed && !request.refunded, "Request settled");
+        require(block.timestamp >= request.timestamp + bridgeTimeout, "Request not timed out");
+        require(!request.cancelRequested, "Cancel already requested");
+
+        request.cancelRequested = true;
+
+        CrossChainMessage memory message = CrossChainMessage({
+            messageType: MSG_CANCEL,
+            asset: request.asset,
+            amount: request.amount,
+            sender: msg.sender,
+            data: abi.encode(requestId)
+        });
+
+        _sendMessage(request.dstChainId, abi.encode(message), msg.value, msg.sender);
+
+        emit BridgeCancelRequested(requestId, msg.sender);
+    }
+
+    /**
+     * @notice Move pool funds to the aggregator on another chain
+     * @dev Called by `YieldAggregator.rebalanceCrossChain`. The assets are pulled from the
+     *      aggregator and kept here; the destination bridge pays the same amount out of its own
+     *      liquidity into its aggregator, which deposits it into `targetProtocol`.
      * @param dstChainId Destination chain ID
      * @param asset The asset to rebalance
      * @param amount The amount to move
      * @param targetProtocol Target protocol on destination chain
+     * @param refundAddress Receives the unused part of the messaging fee
      */
     function requestRebalance(
         uint32 dstChainId,
         address asset,
         uint256 amount,
-        bytes32 targetProtocol
-    ) external payable {
-        require(msg.sender == yieldAggregator || msg.sender == owner(), "Unauthorized");
+        bytes32 targetProtocol,
+        address refundAddress
+    ) external payable nonReentrant whenNotPaused {
+        require(msg.sender == yieldAggregator, "Only aggregator");
+        require(supportedTokens[asset], "Token not supported");
         require(peers[dstChainId].active, "Destination chain not configured");
+        require(amount > 0, "Amount must be greater than 0");
+        // The aggregator already counts the amount in its bridged assets
+        require(
+            IYieldAggregator(yieldAggregator).bridgedAssets(asset) <= rebalanceCaps[asset],
+            "Rebalance cap exceeded"
+        );
+
+        IERC20(asset).safeTransferFrom(msg.sender, address(this), amount);
 
         CrossChainMessage memory message = CrossChainMessage({
             messageType: MSG_REBALANCE,
@@ -221,11 +416,38 @@ contract CrossChainBridge is Ownable, ReentrancyGuard, ILayerZeroReceiver {
             data: abi.encode(targetProtocol)
         });
 
-        _sendMessage(dstChainId, abi.encode(message));
+        _sendMessage(dstChainId, abi.encode(message), msg.value, refundAddress);
 
         emit RebalanceRequested(dstChainId, asset, amount, targetProtocol);
     }
 
+    /**
+     * @notice Bring pool funds moved by cross-chain rebalances back from another chain
+     * @dev The destination bridge redeems pool shares it holds for this chain's pool and returns
+     *      the assets, paying that message out of its native balance. They go back into this
+     *      chain's pool and reduce its `bridgedAssets`. msg.value pays the messaging fee.
+     * @param dstChainId The chain the funds were moved to
+     * @param asset The asset
+     * @param amount The amount to return, or 0 for all of it when the destination bridge holds
+     *        pool shares for no other chain
+     */
+    function recallRebalance(uint32 dstChainId, address asset, uint256 amount) external payable nonReentrant whenNotPaused {
+        require(IYieldAggregator(yieldAggregator).hasRole(STRATEGIST_ROLE, msg.sender), "Not strategist");
+        require(peers[dstChainId].active, "Destination chain not configured");
+
+        CrossChainMessage memory message = CrossChainMessage({
+            messageType: MSG_RECALL,
+            asset: asset,
+            amount: amount,
+            sender: msg.sender,
+            data: ""
+        });
+
+        _sendMessage(dstChainId, abi.encode(message), msg.value, msg.sender);
+
+        emit RecallRequested(dstChainId, asset, amount);
+    }
+
     /**
      * @notice Send yield report to another chain
      * @param dstChainId Destination chain ID
@@ -238,8 +460,7 @@ contract CrossChainBridge is Ownable, ReentrancyGuard, ILayerZeroReceiver {
         address asset,
         uint256 apy,
         uint256 totalDeposited
-    ) external payable {
-        require(msg.sender == yieldAggregator || msg.sender == owner(), "Unauthorized");
+    ) external payable onlyAggregatorOrKeeper {
         require(peers[dstChainId].active, "Destination chain not configured");
 
         CrossChainMessage memory message = CrossChainMessage({
@@ -250,13 +471,16 @@ contract CrossChainBridge is Ownable, ReentrancyGuard, ILayerZeroReceiver {
             data: abi.encode(apy, totalDeposited)
         });
 
-        _sendMessage(dstChainId, abi.encode(message));
+        _sendMessage(dstChainId, abi.encode(message), msg.value, msg.sender);
     }
 
     // ============ LayerZero Receive ============
 
     /**
      * @notice Receive cross-chain message from LayerZero
+     * @dev A message whose processing reverts is stored in `failedMessages` instead of reverting
+     *      the delivery, so it can be retried with `retryMessage` or sent back with
+     *      `refundFailedMessage`
      * @param _origin Origin information
      * @param _guid Unique message identifier
      * @param _message Encoded message
@@ -267,7 +491,7 @@ contract CrossChainBridge is Ownable, ReentrancyGuard, ILayerZeroReceiver {
         bytes calldata _message,
         address /*_executor*/,
         bytes calldata /*_extraData*/
-    ) external payable override {
+    ) external payable override whenNotPaused {
         require(msg.sender == address(endpoint), "Only endpoint");
         require(!processedMessages[_guid], "Message already processed");
         require(
@@ -281,20 +505,88 @@ contract CrossChainBridge is Ownable, ReentrancyGuard, ILayerZeroReceiver {
         CrossChainMessage memory ccMessage = abi.decode(_message, (CrossChainMessage));
 
         emit CrossChainMessageReceived(
+            _guid,
             _origin.srcEid,
             _origin.sender,
             ccMessage.messageType,
             ccMessage.data
         );
 
-        // Process based on message type
-        if (ccMessage.messageType == MSG_TRANSFER) {
-            _processTransfer(ccMessage);
-        } else if (ccMessage.messageType == MSG_REBALANCE) {
-            _processRebalance(ccMessage);
-        } else if (ccMessage.messageType == MSG_YIELD_REPORT) {
-            _processYieldReport(ccMessage, _origin.srcEid);
+        try this.processMessage(ccMessage, _origin.srcEid) {
+        } catch (bytes memory reason) {
+            failedMessages[_guid] = FailedMessage({
+                srcEid: _origin.srcEid,
+                sender: _origin.sender,
+                message: _message
+            });
+            emit MessageFailed(_guid, _origin.srcEid, reason);
+        }
+    }
+
+    /**
+     * @notice Process a received message
+     * @dev Only callable by this contract, so `lzReceive` can catch a revert
+     * @param message The decoded message
+     * @param srcChainId Source chain ID
+     */
+    function processMessage(CrossChainMessage calldata message, uint32 srcChainId) external {
+        require(msg.sender == address(this), "Only self");
+        _processMessage(message, srcChainId);
+    }
+
+    /**
+     * @notice Process a failed message again, e.g. once the bridge has enough liquidity
+     * @dev Reverts with the processing error if it fails again; the message stays stored
+     * @param guid The message guid
+     */
+    function retryMessage(bytes32 guid) external nonReentrant whenNotPaused {
+        FailedMessage memory failed = failedMessages[guid];
+        require(failed.message.length > 0, "Message not failed");
+
+        delete failedMessages[guid];
+        _processMessage(abi.decode(failed.message, (CrossChainMessage)), failed.srcEid);
+
+        emit MessageRetried(guid);
+    }
+
+    /**
+     * @notice Give up on a failed transfer or rebalance and send it back to the source chain.
+     *         Its bridge returns a transfer's locked tokens to the original sender, and a
+     *         rebalance's amount to its aggregator, which takes it off `bridgedAssets`.
+     * @dev msg.value pays the messaging fee; the unused part goes back to msg.sender.
+     *      `MessageRefunded` has a zero request ID for rebalances.
+     * @param guid The message guid
+     */
+    function refundFailedMessage(bytes32 guid) external payable nonReentrant onlyRole(DEFAULT_ADMIN_ROLE) {
+        FailedMessage memory failed = failedMessages[guid];
+        require(failed.message.length > 0, "Message not failed");
+
+        CrossChainMessage memory transfer = abi.decode(failed.message, (CrossChainMessage));
+        require(peers[failed.srcEid].active, "Source chain not configured");
+
+        if (transfer.messageType == MSG_REBALANCE) {
+            // Nothing was deposited here, so the whole amount goes back
+            delete failedMessages[guid];
+            transfer.messageType = MSG_RETURN;
+            transfer.asset = localToken(failed.srcEid, transfer.asset);
+            transfer.data = "";
+            _sendMessage(failed.srcEid, abi.encode(transfer), msg.value, msg.sender);
+
+            emit MessageRefunded(guid, failed.srcEid, bytes32(0));
+            return;
         }
+        require(transfer.messageType == MSG_TRANSFER, "Only transfers and rebalances can be refunded");
+
+        (, bytes32 requestId) = abi.decode(transfer.data, (bytes32, bytes32));
+        require(!cancelledTransfers[requestId], "Transfer cancelled");
+
+        delete failedMessages[guid];
+        cancelledTransfers[requestId] = true;
+
+        CrossChainMessage memory message = _requestMessage(MSG_REFUND, transfer, requestId);
+        _sendMessage(failed.srcEid, abi.encode(message), msg.value, msg.sender);
+
+        emit MessageRefunded(guid, failed.srcEid, requestId);
     }
 
     /**
@@ -324,17 +616,10 @@ contract CrossChainBridge is Ownable, ReentrancyGuard, ILayerZeroReceiver {
         uint32 dstChainId,
         bytes memory message
     ) external view returns (uint256 fee) {
-        bytes memory options = _buildOptions(dstChainId);
-        
-        ILayerZeroEndpoint.MessagingParams memory params = ILayerZeroEndpoint.MessagingParams({
-            dstEid: dstChainId,
-            receiver: peers[dstChainId].peer,
-            message: message,
-            options: options,
-            payInLzToken: false
-        });
-
-        ILayerZeroEndpoint.MessagingFee memory msgFee = endpoint.quote(params, address(this));
+        ILayerZeroEndpoint.MessagingFee memory msgFee = endpoint.quote(
+            _messagingParams(dstChainId, message),
+            address(this)
+        );
         return msgFee.nativeFee;
     }
 
@@ -347,6 +632,49 @@ contract CrossChainBridge is Ownable, ReentrancyGuard, ILayerZeroReceiver {
         return bridgeRequests[requestId];
     }
 
+    /**
+     * @notice Get the latest yield report of every chain and asset that sent one
+     * @dev Stale reports are included; compare `updatedAt` with `yieldReportMaxAge`
+     * @return reports The reports, in order of their first report
+     */
+    function getRemoteYields() external view returns (RemoteYield[] memory reports) {
+        reports = new RemoteYield[](reportEids.length);
+        for (uint256 i = 0; i < reportEids.length; i++) {
+            reports[i] = remoteYields[reportEids[i]][reportAssets[i]];
+        }
+    }
+
+    /**
+     * @notice Find the best APY reported by another chain for an asset
+     * @dev Only reports younger than `yieldReportMaxAge` count
+     * @param asset The asset
+     * @return srcEid The reporting chain (0 when no report is fresh)
+     * @return apy Its best APY
+     */
+    function bestRemoteYield(address asset) external view returns (uint32 srcEid, uint256 apy) {
+        for (uint256 i = 0; i < reportEids.length; i++) {
+            if (reportAssets[i] != asset) continue;
+            
+            RemoteYield storage report = remoteYields[reportEids[i]][asset];
+            if (block.timestamp - report.updatedAt > yieldReportMaxAge) continue;
+            if (report.apy > apy) {
+                srcEid = report.srcEid;
+                apy = report.apy;
+            }
+        }
+    }
+
+    /**
+     * @notice Get the local token of a token address a peer chain sends
+     * @param eid The peer chain
+     * @param remoteToken The token address on the peer chain
+     * @return The token on this chain
+     */
+    function localToken(uint32 eid, address remoteToken) public view returns (address) {
+        address token = remoteTokens[eid][remoteToken];
+        return token == address(0) ? remoteToken : token;
+    }
+
     /**
      * @notice Get peer for a chain
      * @param eid Endpoint ID
@@ -362,19 +690,51 @@ contract CrossChainBridge is Ownable, ReentrancyGuard, ILayerZeroReceiver {
      * @notice Send message via LayerZero
      * @param dstChainId Destination chain
      * @param message Encoded message
+     * @param nativeFee Native amount paid to the endpoint
+     * @param refundAddress Receives the unused part of the fee
+     */
+    function _sendMessage(
+        uint32 dstChainId,
+        bytes memory message,
+        uint256 nativeFee,
+        address refundAddress
+    ) internal {
+        endpoint.send{value: nativeFee}(_messagingParams(dstChainId, message), refundAddress);
+    }
+
+    /**
+     * @notice Send a message back to the chain a message came from, paying the fee out of this
+     *         contract's native balance
+     * @param dstChainId Destination chain
+     * @param message The message
+     * @return sent False when the balance does not cover the fee
      */
-    function _sendMessage(uint32 dstChainId, bytes memory message) internal {
-        bytes memory options = _buildOptions(dstChainId);
+    function _sendReply(uint32 dstChainId, CrossChainMessage memory message) internal returns (bool sent) {
+        bytes memory encoded = abi.encode(message);
+        uint256 fee = endpoint.quote(_messagingParams(dstChainId, encoded), address(this)).nativeFee;
+        if (address(this).balance < fee) return false;
         
-        ILayerZeroEndpoint.MessagingParams memory params = ILayerZeroEndpoint.MessagingParams({
+        _sendMessage(dstChainId, encoded, fee, address(this));
+        return true;
+    }
+
+    /**
+     * @notice Build the LayerZero parameters of a message
+     * @param dstChainId Destination chain
+     * @param message Encoded message
+     * @return params The messaging parameters
+     */
+    function _messagingParams(
+        uint32 dstChainId,
+        bytes memory message
+    ) internal view returns (ILayerZeroEndpoint.MessagingParams memory) {
+        return ILayerZeroEndpoint.MessagingParams({
             dstEid: dstChainId,
             receiver: peers[dstChainId].peer,
             message: message,
-            options: options,
+            options: _buildOptions(dstChainId),
             payInLzToken: false
         });
-
-        endpoint.send{value: msg.value}(params, msg.sender);
     }
 
     /**
@@ -393,12 +753,45 @@ contract CrossChainBridge is Ownable, ReentrancyGuard, ILayerZeroReceiver {
         );
     }
 
+    /**
+     * @notice Process a received message based on its type
+     * @dev The message's asset is the source chain's address; it is replaced by the local token
+     *      first, so replies carry this chain's address
+     * @param message The decoded message
+     * @param srcChainId Source chain ID
+     */
+    function _processMessage(CrossChainMessage memory message, uint32 srcChainId) internal {
+        message.asset = localToken(srcChainId, message.asset);
+        
+        if (message.messageType == MSG_TRANSFER) {
+            _processTransfer(message, srcChainId);
+        } else if (message.messageType == MSG_REBALANCE) {
+            _processRebalance(message, srcChainId);
+        } else if (message.messageType == MSG_YIELD_REPORT) {
+            _processYieldReport(message, srcChainId);
+        } else if (message.messageType == MSG_REFUND) {
+            _processRefund(message, srcChainId);
+        } else if (message.messageType == MSG_ACK) {
+            _processAck(message, srcChainId);
+        } else if (message.messageType == MSG_CANCEL) {
+            _processCancel(message, srcChainId);
+        } else if (message.messageType == MSG_RECALL) {
+            _processRecall(message, srcChainId);
+        } else if (message.messageType == MSG_RETURN) {
+            _processReturn(message, srcChainId);
+        }
+    }
+
     /**
      * @notice Process incoming transfer
+     * @dev Acknowledges the transfer to the source chain; if this bridge cannot pay the fee, the
+     *      acknowledgement is sent when the sender cancels the request
      * @param message The decoded message
+     * @param srcChainId Source chain ID
      */
-    function _processTransfer(CrossChainMessage memory message) internal {
+    function _processTransfer(CrossChainMessage memory message, uint32 srcChainId) internal {
         (bytes32 recipient, bytes32 requestId) = abi.decode(message.data, (bytes32, bytes32));
+        require(!cancelledTransfers[requestId], "Transfer cancelled");
         
         address recipientAddr = address(uint160(uint256(recipient)));
         require(recipientAddr != address(0), "Invalid recipient");
@@ -408,46 +801,196 @@ contract CrossChainBridge is Ownable, ReentrancyGuard, ILayerZeroReceiver {
         uint256 balance = IERC20(message.asset).balanceOf(address(this));
         require(balance >= message.amount, "Insufficient bridge liquidity");
         
+        completedTransfers[requestId] = true;
         IERC20(message.asset).safeTransfer(recipientAddr, message.amount);
         emit BridgeCompleted(requestId, recipientAddr, message.amount);
+        
+        _sendReply(srcChainId, _requestMessage(MSG_ACK, message, requestId));
     }
 
     /**
      * @notice Process rebalance request
+     * @dev Pays the amount out of this bridge's liquidity into the aggregator, which deposits it
+     *      into the target protocol and issues the pool shares to this bridge, held for the
+     *      source chain's pool until it recalls them
      * @param message The decoded message
+     * @param srcChainId Source chain ID
      */
-    function _processRebalance(CrossChainMessage memory message) internal view {
+    function _processRebalance(CrossChainMessage memory message, uint32 srcChainId) internal {
         bytes32 targetProtocol = abi.decode(message.data, (bytes32));
+        require(yieldAggregator != address(0), "Aggregator not set");
         
-        // In production, call the yield aggregator to execute rebalance
-        // This would involve withdrawing from current protocol and depositing to target
-        if (yieldAggregator != address(0)) {
-            // Trigger rebalance logic
-            // YieldAggregator(yieldAggregator).executeRebalance(message.asset, message.amount, targetProtocol);
-        }
+        uint256 balance = IERC20(message.asset).balanceOf(address(this));
+        require(balance >= message.amount, "Insufficient bridge liquidity");
+        
+        IERC20(message.asset).forceApprove(yieldAggregator, message.amount);
+        uint256 shares = IYieldAggregator(yieldAggregator).receiveCrossChainRebalance(
+            message.asset,
+            message.amount,
+            targetProtocol
+        );
+        rebalancedShares[srcChainId][message.asset] += shares;
+        
+        emit RebalanceExecuted(message.asset, message.amount, targetProtocol, shares);
+    }
+
+    /**
+     * @notice Process the recall of pool funds a rebalance from the source chain moved here
+     * @dev Redeems pool shares held for the source chain and sends the assets back. Reverts when
+     *      the aggregator would queue part of the withdrawal or this bridge cannot pay the reply,
+     *      so the recall can be retried.
+     * @param message The decoded message
+     * @param srcChainId Source chain ID
+     */
+    function _processRecall(CrossChainMessage memory message, uint32 srcChainId) internal {
+        uint256 held = rebalancedShares[srcChainId][message.asset];
+        uint256 sharesBefore = _poolShares(message.asset);
+        uint256 balanceBefore = IERC20(message.asset).balanceOf(address(this));
         
-        // Silence unused variable warnings (these would be used in production implementation)
-        targetProtocol;
-        message;
+        // Withdrawing 0 redeems the whole position, which must all be held for the source chain
+        require(message.amount > 0 || sharesBefore == held, "Shares held for other chains");
+        require(
+            IYieldAggregator(yieldAggregator).withdraw(message.asset, message.amount) == 0,
+            "Insufficient pool liquidity"
+        );
+        
+        uint256 burned = sharesBefore - _poolShares(message.asset);
+        require(burned <= held, "Exceeds rebalanced shares");
+        rebalancedShares[srcChainId][message.asset] = held - burned;
+        
+        message.messageType = MSG_RETURN;
+        message.amount = IERC20(message.asset).balanceOf(address(this)) - balanceBefore;
+        message.data = "";
+        require(_sendReply(srcChainId, message), "Insufficient reply fee");
+        
+        emit RebalanceRecalled(srcChainId, message.asset, message.amount, burned);
+    }
+
+    /**
+     * @notice Process pool funds returned by the chain a rebalance moved them to
+     * @dev The destination bridge paid them out of its liquidity, so this bridge hands over the
+     *      same amount out of the assets it kept when the rebalance was sent
+     * @param message The decoded message
+     * @param srcChainId Source chain ID
+     */
+    function _processReturn(CrossChainMessage memory message, uint32 srcChainId) internal {
+        uint256 balance = IERC20(message.asset).balanceOf(address(this));
+        require(balance >= message.amount, "Insufficient bridge liquidity");
+        
+        IERC20(message.asset).forceApprove(yieldAggregator, message.amount);
+        IYieldAggregator(yieldAggregator).receiveBridgedAssets(message.asset, message.amount);
+        
+        emit RebalanceReturned(srcChainId, message.asset, message.amount);
     }
 
     /**
      * @notice Process yield report
+     * @dev Only reports on supported tokens are stored, so the registry stays within them
      * @param message The decoded message
      * @param srcChainId Source chain ID
      */
     function _processYieldReport(CrossChainMessage memory message, uint32 srcChainId) internal {
+        require(supportedTokens[message.asset], "Token not supported");
         (uint256 apy, uint256 totalDeposited) = abi.decode(message.data, (uint256, uint256));
         
-        // In production, store this data for cross-chain yield comparison
-        // This enables finding the best yield across all chains
+        RemoteYield storage report = remoteYields[srcChainId][message.asset];
+        if (report.updatedAt == 0) {
+            reportEids.push(srcChainId);
+            reportAssets.push(message.asset);
+        }
+        remoteYields[srcChainId][message.asset] = RemoteYield({
+            srcEid: srcChainId,
+            asset: message.asset,
+            apy: apy,
+            totalDeposited: totalDeposited,
+            updatedAt: block.timestamp
+        });
+        
+        emit YieldReportReceived(srcChainId, message.asset, apy, totalDeposited);
+    }
+
+    /**
+     * @notice Process a refund of a transfer the destination chain could not pay out
+     * @dev Returns the tokens locked by `bridge` to the request's sender
+     * @param message The decoded message
+     * @param srcChainId Source chain ID, which must be the request's destination
+     */
+    function _processRefund(CrossChainMessage memory message, uint32 srcChainId) internal {
+        bytes32 requestId = abi.decode(message.data, (bytes32));
+        BridgeRequest storage request = bridgeRequests[requestId];
+        require(request.sender != address(0), "Unknown request");
+        require(srcChainId == request.dstChainId, "Not request destination");
+        require(!request.completed, "Already completed");
+        require(!request.refunded, "Already refunded");
+
+        request.refunded = true;
+        IERC20(request.asset).safeTransfer(request.sender, request.amount);
+
+        emit BridgeRefunded(requestId, request.sender, request.amount);
+    }
+
+    /**
+     * @notice Process the acknowledgement of a transfer paid out on the destination chain
+     * @param message The decoded message
+     * @param srcChainId Source chain ID, which must be the request's destination
+     */
+    function _processAck(CrossChainMessage memory message, uint32 srcChainId) internal {
+        bytes32 requestId = abi.decode(message.data, (bytes32));
+        BridgeRequest storage request = bridgeRequests[requestId];
+        require(request.sender != address(0), "Unknown request");
+        require(srcChainId == request.dstChainId, "Not request destination");
+        require(!request.refunded, "Already refunded");
+
+        request.completed = true;
+        emit BridgeAcknowledged(requestId);
+    }
+
+    /**
+     * @notice Process the cancellation of a timed-out transfer
+     * @dev A transfer that was paid out is acknowledged again; any other is blocked and refunded.
+     *      Reverts when this bridge cannot pay the reply, so the cancel can be retried.
+     * @param message The decoded message
+     * @param srcChainId Source chain ID
+     */
+    function _processCancel(CrossChainMessage memory message, uint32 srcChainId) internal {
+        bytes32 requestId = abi.decode(message.data, (bytes32));
+        uint8 replyType = MSG_ACK;
         
-        // Silence unused variable warnings (these would be used in production to store yield data)
-        apy;
-        totalDeposited;
+        if (!completedTransfers[requestId]) {
+            require(!cancelledTransfers[requestId], "Already cancelled");
+            cancelledTransfers[requestId] = true;
+            replyType = MSG_REFUND;
+        }
         
-        // Emit event for off-chain indexing
-        emit CrossChainMessageReceived(srcChainId, bytes32(0), MSG_YIELD_REPORT, message.data);
+        require(_sendReply(srcChainId, _requestMessage(replyType, message, requestId)), "Insufficient reply fee");
+    }
+
+    // Aggregator pool shares this bridge holds
+    function _poolShares(address asset) internal view returns (uint256) {
+        (IYieldAggregator.Position memory position, , ) =
+            IYieldAggregator(yieldAggregator).getUserPosition(address(this), asset);
+        return position.shares;
+    }
+
+    /**
+     * @notice Build a message about a bridge request for its source chain
+     * @param messageType MSG_REFUND or MSG_ACK
+     * @param message The received message the request came with
+     * @param requestId The request ID
+     * @return The message
+     */
+    function _requestMessage(
+        uint8 messageType,
+        CrossChainMessage memory message,
+        bytes32 requestId
+    ) internal pure returns (CrossChainMessage memory) {
+        return CrossChainMessage({
+            messageType: messageType,
+            asset: message.asset,
+            amount: message.amount,
+            sender: message.sender,
+            data: abi.encode(requestId)
+        });
     }
 
     /**
@@ -455,7 +998,7 @@ contract CrossChainBridge is Ownable, ReentrancyGuard, ILayerZeroReceiver {
      * @param token Token to withdraw
      * @param to Recipient address
      */
-    function emergencyWithdraw(address token, address to) external onlyOwner {
+    function emergencyWithdraw(address token, address to) external onlyRole(DEFAULT_ADMIN_ROLE) {
         uint256 balance = IERC20(token).balanceOf(address(this));
         if (balance > 0) {
             IERC20(token).safeTransfer(to, balance);
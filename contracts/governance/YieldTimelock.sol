@@ -0,0 +1,159 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/governance/TimelockController.sol";
+
+/**
+ * @title YieldTimelock
+ * @notice Holds the admin role of YieldAggregator and CrossChainBridge, so risky changes (adapters,
+ *         fees, peers, emergency withdrawals...) only take effect after a delay
+ * @dev OpenZeppelin TimelockController that also keeps its pending operations in storage, so
+ *      depositors and frontends can read what is queued and exit before it executes
+ */
+contract YieldTimelock is TimelockController {
+    // ============ Structs ============
+
+    struct QueuedOperation {
+        bytes32 id;
+        address[] targets;
+        uint256[] values;
+        bytes[] payloads;
+        uint256 readyAt;
+    }
+
+    // ============ State Variables ============
+
+    // Pending operations: id => operation
+    mapping(bytes32 => QueuedOperation) private queuedOperations;
+
+    // Ids of the pending operations, in scheduling order until one leaves the queue
+    bytes32[] private queuedIds;
+
+    // Position of an id in queuedIds, plus one (0 = not queued)
+    mapping(bytes32 => uint256) private queuedIndex;
+
+    // ============ Constructor ============
+
+    /**
+     * @param minDelay Minimum delay of every operation, in seconds
+     * @param proposers Accounts allowed to schedule and cancel operations
+     * @param executors Accounts allowed to execute ready operations (address(0) for anyone)
+     * @param admin Optional account allowed to change the timelock's roles (address(0) for none)
+     */
+    constructor(
+        uint256 minDelay,
+        address[] memory proposers,
+        address[] memory executors,
+        address admin
+    ) TimelockController(minDelay, proposers, executors, admin) {}
+
+    // ============ Timelock Overrides ============
+
+    function schedule(
+        address target,
+        uint256 value,
+        bytes calldata data,
+        bytes32 predecessor,
+        bytes32 salt,
+        uint256 delay
+    ) public virtual override {
+        super.schedule(target, value, data, predecessor, salt, delay);
+
+        bytes32 id = hashOperation(target, value, data, predecessor, salt);
+        QueuedOperation storage operation = _queue(id);
+        operation.targets.push(target);
+        operation.values.push(value);
+        operation.payloads.push(data);
+    }
+
+    function scheduleBatch(
+        address[] calldata targets,
+        uint256[] calldata values,
+        bytes[] calldata payloads,
+        bytes32 predecessor,
+        bytes32 salt,
+        uint256 delay
+    ) public virtual override {
+        super.scheduleBatch(targets, values, payloads, predecessor, salt, delay);
+
+        bytes32 id = hashOperationBatch(targets, values, payloads, predecessor, salt);
+        QueuedOperation storage operation = _queue(id);
+        operation.targets = targets;
+        operation.values = values;
+        for (uint256 i = 0; i < payloads.length; i++) {
+            operation.payloads.push(payloads[i]);
+        }
+    }
+
+    function cancel(bytes32 id) public virtual override {
+        super.cancel(id);
+        _dequeue(id);
+    }
+
+    function execute(
+        address target,
+        uint256 value,
+        bytes calldata payload,
+        bytes32 predecessor,
+        bytes32 salt
+    ) public payable virtual override {
+        super.execute(target, value, payload, predecessor, salt);
+        _dequeue(hashOperation(target, value, payload, predecessor, salt));
+    }
+
+    function executeBatch(
+        address[] calldata targets,
+        uint256[] calldata values,
+        bytes[] calldata payloads,
+        bytes32 predecessor,
+        bytes32 salt
+    ) public payable virtual override {
+        super.executeBatch(targets, values, payloads, predecessor, salt);
+        _dequeue(hashOperationBatch(targets, values, payloads, predecessor, salt));
+    }
+
+    // ============ View Functions ============
+
+    /**
+     * @notice Get every operation that is scheduled and not yet executed or cancelled
+     * @return operations The pending operations with the time they become executable
+     */
+    function getQueuedOperations() external view returns (QueuedOperation[] memory operations) {
+        operations = new QueuedOperation[](queuedIds.length);
+        for (uint256 i = 0; i < queuedIds.length; i++) {
+            operations[i] = queuedOperations[queuedIds[i]];
+        }
+    }
+
+    /**
+     * @notice Get the number of pending operations
+     */
+    function queuedCount() external view returns (uint256) {
+        return queuedIds.length;
+    }
+
+    // ============ Internal Functions ============
+
+    function _queue(bytes32 id) internal returns (QueuedOperation storage operation) {
+        queuedIds.push(id);
+        queuedIndex[id] = queuedIds.length;
+
+        operation = queuedOperations[id];
+        operation.id = id;
+        operation.readyAt = getTimestamp(id);
+    }
+
+    function _dequeue(bytes32 id) internal {
+        uint256 index = queuedIndex[id];
+        if (index == 0) return;
+
+        // Swap and pop
+        bytes32 lastId = queuedIds[queuedIds.length - 1];
+        queuedIds[index - 1] = lastId;
+        queuedIndex[lastId] = index;
+        queuedIds.pop();
+
+        delete queuedIndex[id];
+        delete queuedOperations[id];
+    }
+}
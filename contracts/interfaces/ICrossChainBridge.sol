@@ -0,0 +1,29 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title ICrossChainBridge
+ * @notice Interface used by the YieldAggregator to move pool funds to another chain and read the
+ *         yield reports of other chains
+ */
+interface ICrossChainBridge {
+    /// @notice Pull assets from the aggregator and send them to the aggregator on another chain
+    /// @param dstChainId Destination endpoint ID
+    /// @param asset The asset to move
+    /// @param amount The amount to pull from the aggregator
+    /// @param targetProtocol Protocol on the destination chain to deposit into
+    /// @param refundAddress Receives the part of the messaging fee that is not used
+    function requestRebalance(
+        uint32 dstChainId,
+        address asset,
+        uint256 amount,
+        bytes32 targetProtocol,
+        address refundAddress
+    ) external payable;
+
+    /// @notice Find the best APY reported by another chain for an asset, ignoring stale reports
+    /// @param asset The asset
+    /// @return srcEid The reporting chain (0 when no report is fresh)
+    /// @return apy Its best APY
+    function bestRemoteYield(address asset) external view returns (uint32 srcEid, uint256 apy);
+}
@@ -0,0 +1,78 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title IYieldAggregator
+ * @notice Interface used by the per-asset vaults and the CrossChainBridge to move funds through
+ *         the YieldAggregator
+ */
+interface IYieldAggregator {
+    struct Position {
+        uint256 deposited;
+        uint256 shares;
+        uint256 depositTimestamp;
+    }
+
+    /// @notice Deposit assets held by the calling vault into the asset's pool
+    /// @param asset The vault's underlying asset
+    /// @param amount The amount to pull from the vault
+    function vaultDeposit(address asset, uint256 amount) external;
+
+    /// @notice Burn the calling vault's pool shares for an exact amount of assets
+    /// @param asset The vault's underlying asset
+    /// @param amount The amount to return
+    /// @return received The amount sent to the vault
+    function vaultWithdraw(address asset, uint256 amount) external returns (uint256 received);
+
+    /// @notice Get the value of the vault's pool shares for an asset
+    /// @param asset The vault's underlying asset
+    /// @return The current value including yield
+    function vaultTotalAssets(address asset) external view returns (uint256);
+
+    /// @notice Get how much of an asset new withdrawals can take right now
+    /// @param asset The asset
+    /// @return available Liquidity not owed to queued withdrawals
+    function availableLiquidity(address asset) external view returns (uint256 available);
+
+    /// @notice Deposit assets a cross-chain rebalance brought in from another chain's pool
+    /// @dev The calling bridge holds the pool shares on behalf of the source chain's pool
+    /// @param asset The asset
+    /// @param amount The amount to pull from the bridge
+    /// @param targetProtocol The protocol to deposit into
+    /// @return shares The pool shares issued to the bridge
+    function receiveCrossChainRebalance(address asset, uint256 amount, bytes32 targetProtocol) external returns (uint256 shares);
+
+    /// @notice Get the pool funds cross-chain rebalances moved to other chains and not returned yet
+    /// @param asset The asset
+    /// @return The amount
+    function bridgedAssets(address asset) external view returns (uint256);
+
+    /// @notice Take back assets a cross-chain rebalance moved to another chain's pool
+    /// @param asset The asset
+    /// @param amount The amount to pull from the bridge
+    function receiveBridgedAssets(address asset, uint256 amount) external;
+
+    /// @notice Withdraw the caller's pool shares; the bridge redeems those it holds for other chains
+    /// @param asset The asset
+    /// @param amount The amount to withdraw (0 for the whole position)
+    /// @return requestId The queued withdrawal request (0 when paid in full)
+    function withdraw(address asset, uint256 amount) external returns (uint256 requestId);
+
+    /// @notice Get a depositor's position
+    /// @param user The depositor
+    /// @param asset The asset
+    /// @return position The position, with the pool shares held
+    /// @return currentValue Its current value
+    /// @return unrealizedYield Its value above the cost basis
+    function getUserPosition(address user, address asset) external view returns (
+        Position memory position,
+        uint256 currentValue,
+        uint256 unrealizedYield
+    );
+
+    /// @notice Whether an account holds a role on the aggregator
+    function hasRole(bytes32 role, address account) external view returns (bool);
+
+    /// @notice Whether deposits are paused
+    function paused() external view returns (bool);
+}
@@ -29,6 +29,12 @@ interface IYieldProtocol {
     /// @return The current balance
     function getBalance(address asset, address account) external view returns (uint256);
 
+    /// @notice Get the amount of an asset the protocol can pay out right now
+    /// @dev Lending markets at high utilization cannot pay out every deposit
+    /// @param asset The address of the asset
+    /// @return The asset liquidity available for withdrawals
+    function getAvailableLiquidity(address asset) external view returns (uint256);
+
     /// @notice Get the protocol name
     /// @return The name of the protocol
     function protocolName() external view returns (string memory);
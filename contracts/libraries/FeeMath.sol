@@ -0,0 +1,54 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/utils/math/Math.sol";
+
+/**
+ * @title FeeMath
+ * @notice Fee share math of the YieldAggregator's pools. Deployed once and linked, which keeps
+ *         the aggregator under the contract size limit.
+ */
+library FeeMath {
+    uint256 private constant BASIS_POINTS = 10000;
+    uint256 private constant PRICE_PRECISION = 1e18;
+    uint256 private constant SECONDS_PER_YEAR = 365 days;
+
+    /**
+     * @notice Fee shares worth the fees on a pool since the last accrual
+     * @dev The management fee is charged on the managed part of the pool's value for the time
+     *      elapsed. The performance fee is charged on what the pool gained above the high-water
+     *      mark after that, so the same profit is never charged twice and losses must be recovered
+     *      first. Shares are sized so that after minting they are worth the fees, diluting every
+     *      other share.
+     * @param assets The pool's value
+     * @param managedAssets The part of it the management fee is charged on
+     * @param shares The pool's shares
+     * @param elapsed Seconds since the last accrual
+     * @param managementFee Yearly management fee in basis points
+     * @param performanceFee Performance fee in basis points
+     * @param highWaterMark Share price the performance fee was charged up to (PRICE_PRECISION)
+     * @return The number of shares to mint
+     */
+    function pendingFeeShares(
+        uint256 assets,
+        uint256 managedAssets,
+        uint256 shares,
+        uint256 elapsed,
+        uint256 managementFee,
+        uint256 performanceFee,
+        uint256 highWaterMark
+    ) public pure returns (uint256) {
+        if (shares == 0) return 0;
+        
+        uint256 fee = Math.mulDiv(managedAssets, managementFee * elapsed, BASIS_POINTS * SECONDS_PER_YEAR);
+        if (fee >= assets) return 0;
+        
+        uint256 markValue = Math.mulDiv(shares, highWaterMark, PRICE_PRECISION);
+        if (assets - fee > markValue) {
+            fee += ((assets - fee - markValue) * performanceFee) / BASIS_POINTS;
+        }
+        if (fee == 0) return 0;
+        
+        return Math.mulDiv(fee, shares + 1, assets - fee + 1);
+    }
+}
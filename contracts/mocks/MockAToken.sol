@@ -0,0 +1,35 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "./MockERC20.sol";
+
+/**
+ * @title MockAToken
+ * @notice aToken of MockAaveV3Pool
+ * @dev Holds the underlying like a real aToken, so the reserve's liquidity is its underlying balance
+ */
+contract MockAToken is MockERC20 {
+    using SafeERC20 for IERC20;
+
+    address public immutable UNDERLYING_ASSET_ADDRESS;
+
+    constructor(
+        string memory name_,
+        string memory symbol_,
+        uint8 decimals_,
+        address underlying
+    ) MockERC20(name_, symbol_, decimals_) {
+        UNDERLYING_ASSET_ADDRESS = underlying;
+    }
+
+    /**
+     * @notice Send underlying out of the reserve, on withdrawals and borrows
+     * @param to The recipient
+     * @param amount The amount of underlying
+     */
+    function transferUnderlyingTo(address to, uint256 amount) external onlyOwner {
+        IERC20(UNDERLYING_ASSET_ADDRESS).safeTransfer(to, amount);
+    }
+}
@@ -0,0 +1,143 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "./MockAToken.sol";
+
+/**
+ * @title MockAaveV3Pool
+ * @notice Minimal Aave V3 pool for local testing
+ * @dev aTokens are minted 1:1 on supply and hold the underlying; yield is simulated with `accrueYield`,
+ *      and high utilization with `borrow`
+ */
+contract MockAaveV3Pool is Ownable {
+    using SafeERC20 for IERC20;
+
+    // asset => aToken
+    mapping(address => MockAToken) public aTokens;
+
+    // asset => liquidity rate in RAY (27 decimals)
+    mapping(address => uint128) public liquidityRates;
+
+    event ReserveInitialized(address indexed asset, address aToken);
+
+    constructor() Ownable(msg.sender) {}
+
+    /**
+     * @notice Create the aToken for an asset
+     * @param asset The underlying asset
+     * @param liquidityRate Initial liquidity rate in RAY
+     * @return aToken The aToken address
+     */
+    function initReserve(address asset, uint128 liquidityRate) external onlyOwner returns (address aToken) {
+        require(address(aTokens[asset]) == address(0), "Reserve exists");
+
+        MockAToken token = new MockAToken(
+            string.concat("Aave Mock ", ERC20(asset).symbol()),
+            string.concat("a", ERC20(asset).symbol()),
+            ERC20(asset).decimals(),
+            asset
+        );
+        aTokens[asset] = token;
+        liquidityRates[asset] = liquidityRate;
+
+        emit ReserveInitialized(asset, address(token));
+        return address(token);
+    }
+
+    /**
+     * @notice Set the liquidity rate for an asset
+     * @param asset The underlying asset
+     * @param liquidityRate Liquidity rate in RAY
+     */
+    function setLiquidityRate(address asset, uint128 liquidityRate) external onlyOwner {
+        liquidityRates[asset] = liquidityRate;
+    }
+
+    /**
+     * @notice Simulate interest by minting aTokens backed by donated underlying
+     * @param asset The underlying asset
+     * @param holder The aToken holder receiving the yield
+     * @param amount The yield amount
+     */
+    function accrueYield(address asset, address holder, uint256 amount) external {
+        IERC20(asset).safeTransferFrom(msg.sender, address(aTokens[asset]), amount);
+        aTokens[asset].mint(holder, amount);
+    }
+
+    /**
+     * @notice Simulate a borrower taking reserve liquidity, without collateral
+     * @param asset The underlying asset
+     * @param amount The amount to take out of the reserve
+     */
+    function borrow(address asset, uint256 amount) external {
+        require(IERC20(asset).balanceOf(address(aTokens[asset])) >= amount, "Insufficient liquidity");
+        aTokens[asset].transferUnderlyingTo(msg.sender, amount);
+    }
+
+    /**
+     * @notice Return borrowed liquidity to the reserve
+     * @param asset The underlying asset
+     * @param amount The amount to return
+     */
+    function repay(address asset, uint256 amount) external {
+        IERC20(asset).safeTransferFrom(msg.sender, address(aTokens[asset]), amount);
+    }
+
+    function supply(address asset, uint256 amount, address onBehalfOf, uint16 /*referralCode*/) external {
+        require(address(aTokens[asset]) != address(0), "Reserve not initialized");
+        IERC20(asset).safeTransferFrom(msg.sender, address(aTokens[asset]), amount);
+        aTokens[asset].mint(onBehalfOf, amount);
+    }
+
+    function withdraw(address asset, uint256 amount, address to) external returns (uint256) {
+        MockAToken aToken = aTokens[asset];
+        require(address(aToken) != address(0), "Reserve not initialized");
+
+        if (amount == type(uint256).max) {
+            amount = aToken.balanceOf(msg.sender);
+        }
+        require(IERC20(asset).balanceOf(address(aToken)) >= amount, "Insufficient liquidity");
+        aToken.burn(msg.sender, amount);
+        aToken.transferUnderlyingTo(to, amount);
+        return amount;
+    }
+
+    function getReserveData(address asset) external view returns (
+        uint256,
+        uint128,
+        uint128,
+        uint128,
+        uint128,
+        uint128,
+        uint40,
+        uint16,
+        address,
+        address,
+        address,
+        address,
+        uint128,
+        uint128,
+        uint128
+    ) {
+        return (
+            0,
+            1e27,
+            liquidityRates[asset],
+            1e27,
+            0,
+            0,
+            uint40(block.timestamp),
+            0,
+            address(aTokens[asset]),
+            address(0),
+            address(0),
+            address(0),
+            0,
+            0,
+            0
+        );
+    }
+}
@@ -0,0 +1,86 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+/**
+ * @title MockCometV3
+ * @notice Minimal Compound V3 (Comet) market for local testing
+ * @dev Balances grow only through `accrueYield`; the supply rate is configurable, and high
+ *      utilization is simulated with `borrow`
+ */
+contract MockCometV3 is Ownable {
+    using SafeERC20 for IERC20;
+
+    address public immutable baseToken;
+
+    // Supply rate per second with 18 decimals
+    uint64 public supplyRate;
+
+    mapping(address => uint256) public balanceOf;
+
+    constructor(address _baseToken, uint64 _supplyRate) Ownable(msg.sender) {
+        require(_baseToken != address(0), "Invalid base token");
+        baseToken = _baseToken;
+        supplyRate = _supplyRate;
+    }
+
+    /**
+     * @notice Set the supply rate
+     * @param _supplyRate Supply rate per second with 18 decimals
+     */
+    function setSupplyRate(uint64 _supplyRate) external onlyOwner {
+        supplyRate = _supplyRate;
+    }
+
+    /**
+     * @notice Simulate interest by crediting donated base tokens to an account
+     * @param account The account receiving the yield
+     * @param amount The yield amount
+     */
+    function accrueYield(address account, uint256 amount) external {
+        IERC20(baseToken).safeTransferFrom(msg.sender, address(this), amount);
+        balanceOf[account] += amount;
+    }
+
+    /**
+     * @notice Simulate a borrower taking market liquidity, without collateral
+     * @param amount The amount of base tokens to take out of the market
+     */
+    function borrow(uint256 amount) external {
+        require(IERC20(baseToken).balanceOf(address(this)) >= amount, "Insufficient liquidity");
+        IERC20(baseToken).safeTransfer(msg.sender, amount);
+    }
+
+    /**
+     * @notice Return borrowed liquidity to the market
+     * @param amount The amount of base tokens to return
+     */
+    function repay(uint256 amount) external {
+        IERC20(baseToken).safeTransferFrom(msg.sender, address(this), amount);
+    }
+
+    function supply(address asset, uint256 amount) external {
+        require(asset == baseToken, "Only base token");
+        IERC20(baseToken).safeTransferFrom(msg.sender, address(this), amount);
+        balanceOf[msg.sender] += amount;
+    }
+
+    function withdraw(address asset, uint256 amount) external {
+        require(asset == baseToken, "Only base token");
+        require(balanceOf[msg.sender] >= amount, "Insufficient balance");
+        require(IERC20(baseToken).balanceOf(address(this)) >= amount, "Insufficient liquidity");
+        balanceOf[msg.sender] -= amount;
+        IERC20(baseToken).safeTransfer(msg.sender, amount);
+    }
+
+    function getUtilization() external pure returns (uint256) {
+        return 0;
+    }
+
+    function getSupplyRate(uint256 /*utilization*/) external view returns (uint64) {
+        return supplyRate;
+    }
+}
@@ -0,0 +1,44 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/**
+ * @title MockERC20
+ * @notice Mintable ERC20 with configurable decimals for local testing
+ * @dev Used for mock stablecoins and as the aToken of MockAaveV3Pool
+ */
+contract MockERC20 is ERC20, Ownable {
+    uint8 private immutable _decimals;
+
+    constructor(
+        string memory name_,
+        string memory symbol_,
+        uint8 decimals_
+    ) ERC20(name_, symbol_) Ownable(msg.sender) {
+        _decimals = decimals_;
+    }
+
+    function decimals() public view override returns (uint8) {
+        return _decimals;
+    }
+
+    /**
+     * @notice Mint tokens
+     * @param to The recipient
+     * @param amount The amount to mint
+     */
+    function mint(address to, uint256 amount) external onlyOwner {
+        _mint(to, amount);
+    }
+
+    /**
+     * @notice Burn tokens
+     * @param from The holder
+     * @param amount The amount to burn
+     */
+    function burn(address from, uint256 amount) external onlyOwner {
+        _burn(from, amount);
+    }
+}
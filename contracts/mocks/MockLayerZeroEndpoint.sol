@@ -0,0 +1,105 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "../interfaces/ILayerZero.sol";
+
+/**
+ * @title MockLayerZeroEndpoint
+ * @notice Local stand-in for a LayerZero V2 endpoint
+ * @dev `send` charges the quoted fee and emits `PacketSent`; a relayer (keeper/relayer.ts) delivers
+ *      the packet by calling `deliver` on the destination chain's mock endpoint. The fee is a base
+ *      amount plus an amount per message byte, both set by the owner.
+ */
+contract MockLayerZeroEndpoint is ILayerZeroEndpoint, Ownable {
+    uint32 public immutable eid;
+
+    // Native fee per message, and per byte of message on top
+    uint256 public baseFee;
+    uint256 public feePerByte;
+
+    // Outbound nonce per path: sender => dstEid => nonce
+    mapping(address => mapping(uint32 => uint64)) public outboundNonce;
+
+    event PacketSent(
+        bytes32 indexed guid,
+        uint32 indexed dstEid,
+        bytes32 receiver,
+        bytes32 sender,
+        uint64 nonce,
+        bytes message
+    );
+    event PacketDelivered(bytes32 indexed guid, uint32 indexed srcEid, address receiver);
+    event FeesUpdated(uint256 baseFee, uint256 feePerByte);
+
+    constructor(uint32 _eid) Ownable(msg.sender) {
+        eid = _eid;
+    }
+
+    /**
+     * @notice Set the native fee charged by `send`
+     * @param _baseFee Fee per message
+     * @param _feePerByte Fee per byte of message, on top
+     */
+    function setFees(uint256 _baseFee, uint256 _feePerByte) external onlyOwner {
+        baseFee = _baseFee;
+        feePerByte = _feePerByte;
+        emit FeesUpdated(_baseFee, _feePerByte);
+    }
+
+    /**
+     * @notice Send the collected fees to the owner
+     */
+    function withdrawFees() external onlyOwner {
+        (bool success, ) = owner().call{value: address(this).balance}("");
+        require(success, "Transfer failed");
+    }
+
+    function send(
+        MessagingParams calldata _params,
+        address _refundAddress
+    ) external payable returns (MessagingReceipt memory receipt) {
+        uint256 fee = _fee(_params.message.length);
+        require(msg.value >= fee, "Insufficient fee");
+
+        uint64 nonce = ++outboundNonce[msg.sender][_params.dstEid];
+        bytes32 sender = bytes32(uint256(uint160(msg.sender)));
+        receipt.guid = keccak256(abi.encodePacked(nonce, eid, sender, _params.dstEid, _params.receiver));
+        receipt.nonce = nonce;
+        receipt.fee.nativeFee = fee;
+
+        if (msg.value > fee) {
+            (bool success, ) = _refundAddress.call{value: msg.value - fee}("");
+            require(success, "Refund failed");
+        }
+
+        emit PacketSent(receipt.guid, _params.dstEid, _params.receiver, sender, nonce, _params.message);
+    }
+
+    function quote(MessagingParams calldata _params, address) external view returns (MessagingFee memory fee) {
+        fee.nativeFee = _fee(_params.message.length);
+    }
+
+    function setDelegate(address) external {}
+
+    /**
+     * @notice Deliver a packet sent through another chain's mock endpoint
+     * @param _origin Source endpoint ID, sender and nonce from `PacketSent`
+     * @param _receiver The receiving app on this chain
+     * @param _guid The packet's guid from `PacketSent`
+     * @param _message The packet's message from `PacketSent`
+     */
+    function deliver(
+        ILayerZeroReceiver.Origin calldata _origin,
+        address _receiver,
+        bytes32 _guid,
+        bytes calldata _message
+    ) external {
+        ILayerZeroReceiver(_receiver).lzReceive(_origin, _guid, _message, msg.sender, "");
+        emit PacketDelivered(_guid, _origin.srcEid, _receiver);
+    }
+
+    function _fee(uint256 messageLength) internal view returns (uint256) {
+        return baseFee + feePerByte * messageLength;
+    }
+}
@@ -0,0 +1,112 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC4626.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "../interfaces/IYieldAggregator.sol";
+
+/**
+ * @title YieldVault
+ * @notice ERC-4626 vault for one asset of the YieldAggregator
+ * @dev Deposits are forwarded to the aggregator, which allocates them to the best protocol.
+ *      Shares are plain ERC20 tokens, so positions can be transferred or used by other protocols.
+ */
+contract YieldVault is ERC4626 {
+    using SafeERC20 for IERC20;
+
+    // Aggregator holding the vault's funds
+    IYieldAggregator public immutable aggregator;
+
+    constructor(
+        IERC20 _asset,
+        address _aggregator,
+        string memory _name,
+        string memory _symbol
+    ) ERC20(_name, _symbol) ERC4626(_asset) {
+        require(_aggregator != address(0), "Invalid aggregator");
+        aggregator = IYieldAggregator(_aggregator);
+    }
+
+    // ============ ERC-4626 Overrides ============
+
+    /**
+     * @notice Total assets managed by the vault
+     * @dev In emergency mode the aggregator values the vault's holdings at its part of the idle
+     *      funds, which is what redemptions are paid out of
+     * @return Assets held in protocols through the aggregator plus any idle balance
+     */
+    function totalAssets() public view override returns (uint256) {
+        return IERC20(asset()).balanceOf(address(this)) + aggregator.vaultTotalAssets(asset());
+    }
+
+    /**
+     * @notice Maximum deposit for a receiver
+     * @dev Zero while the aggregator is paused
+     */
+    function maxDeposit(address receiver) public view override returns (uint256) {
+        return aggregator.paused() ? 0 : super.maxDeposit(receiver);
+    }
+
+    /**
+     * @notice Maximum mint for a receiver
+     * @dev Zero while the aggregator is paused
+     */
+    function maxMint(address receiver) public view override returns (uint256) {
+        return aggregator.paused() ? 0 : super.maxMint(receiver);
+    }
+
+    /**
+     * @notice Maximum withdrawal for an owner
+     * @dev Capped at what the vault and the aggregator can pay out right now, since the vault
+     *      cannot queue a withdrawal
+     */
+    function maxWithdraw(address owner) public view override returns (uint256) {
+        return Math.min(super.maxWithdraw(owner), _withdrawableAssets());
+    }
+
+    /**
+     * @notice Maximum redemption for an owner
+     * @dev Capped at the shares of what the vault and the aggregator can pay out right now. The
+     *      whole balance stays redeemable while its value fits, despite rounding.
+     */
+    function maxRedeem(address owner) public view override returns (uint256) {
+        uint256 shares = super.maxRedeem(owner);
+        uint256 withdrawable = _withdrawableAssets();
+        if (_convertToAssets(shares, Math.Rounding.Floor) <= withdrawable) return shares;
+        return _convertToShares(withdrawable, Math.Rounding.Floor);
+    }
+
+    // ============ Internal Functions ============
+
+    // Idle balance plus what the aggregator can pay out without queueing
+    function _withdrawableAssets() internal view returns (uint256) {
+        return IERC20(asset()).balanceOf(address(this)) + aggregator.availableLiquidity(asset());
+    }
+
+
+    function _deposit(address caller, address receiver, uint256 assets, uint256 shares) internal override {
+        super._deposit(caller, receiver, assets, shares);
+
+        // Reset approval first for tokens like USDT that require it
+        IERC20(asset()).forceApprove(address(aggregator), assets);
+        aggregator.vaultDeposit(asset(), assets);
+    }
+
+    function _withdraw(
+        address caller,
+        address receiver,
+        address owner,
+        uint256 assets,
+        uint256 shares
+    ) internal override {
+        // Pull from the protocols whatever the idle balance does not cover
+        uint256 idle = IERC20(asset()).balanceOf(address(this));
+        if (assets > idle) {
+            aggregator.vaultWithdraw(asset(), assets - idle);
+        }
+
+        super._withdraw(caller, receiver, owner, assets, shares);
+    }
+}
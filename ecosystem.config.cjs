@@ -15,6 +15,24 @@ module.exports = {
       autorestart: true,
       max_restarts: 10,
       restart_delay: 1000
+    },
+    {
+      name: 'yieldvault-keeper',
+      script: 'npx',
+      args: 'ts-node --project keeper/tsconfig.json keeper/index.ts',
+      // KEEPER_PRIVATE_KEY comes from the environment pm2 is started with
+      env: {
+        NODE_ENV: 'production',
+        KEEPER_CONFIG: 'keeper/keeper.config.json'
+      },
+      watch: false,
+      instances: 1,
+      exec_mode: 'fork',
+      autorestart: true,
+      max_restarts: 10,
+      // Back off longer than the site: a crashing keeper usually means an RPC outage
+      restart_delay: 10000,
+      kill_timeout: 30000
     }
   ]
 }
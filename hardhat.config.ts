@@ -1,5 +1,6 @@
 import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-ethers";
+import "@typechain/hardhat";
 
 const config: HardhatUserConfig = {
   solidity: {
@@ -10,6 +11,8 @@ const config: HardhatUserConfig = {
         runs: 200,
       },
       viaIR: true,
+      // PUSH0 keeps YieldAggregator under the contract size limit; every target chain supports it
+      evmVersion: "shanghai",
     },
   },
   networks: {
@@ -20,6 +23,11 @@ const config: HardhatUserConfig = {
       url: "http://127.0.0.1:8545",
       chainId: 31337,
     },
+    // Second local node (`npm run node:2`), the other end of the local bridge
+    localhost2: {
+      url: "http://127.0.0.1:8546",
+      chainId: 31337,
+    },
     // Ethereum Mainnet
     ethereum: {
       url: process.env.ETHEREUM_RPC_URL || "https://eth.llamarpc.com",
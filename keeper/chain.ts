@@ -0,0 +1,108 @@
+import {
+  type Abi,
+  type Account,
+  type Address,
+  type Chain,
+  type PublicClient,
+  type Transport,
+  type WalletClient,
+  createPublicClient,
+  createWalletClient,
+  defineChain,
+  formatGwei,
+  http,
+  parseGwei,
+} from 'viem';
+import YieldAggregatorArtifact from '../src/abi/YieldAggregator.json';
+import CrossChainBridgeArtifact from '../src/abi/CrossChainBridge.json';
+import type { KeeperChainConfig } from './config';
+import { errorMessage, log } from './logger';
+
+export const yieldAggregatorAbi = YieldAggregatorArtifact.abi as Abi;
+export const crossChainBridgeAbi = CrossChainBridgeArtifact.abi as Abi;
+
+export interface ChainContext {
+  config: KeeperChainConfig;
+  publicClient: PublicClient;
+  walletClient: WalletClient<Transport, Chain, Account>;
+  dryRun: boolean;
+}
+
+export function createChainContext(config: KeeperChainConfig, account: Account, dryRun: boolean): ChainContext {
+  const chain = defineChain({
+    id: config.chainId,
+    name: config.name,
+    nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+    rpcUrls: { default: { http: [config.rpcUrl] } },
+  });
+  return {
+    config,
+    publicClient: createPublicClient({ chain, transport: http(config.rpcUrl) }),
+    walletClient: createWalletClient({ account, chain, transport: http(config.rpcUrl) }),
+    dryRun,
+  };
+}
+
+export interface KeeperCall {
+  // What the transaction is for, e.g. `rebalance` or `yieldReport`
+  action: string;
+  address: Address;
+  abi: Abi;
+  functionName: string;
+  args: readonly unknown[];
+  value?: bigint;
+  // Extra fields for the decision log (asset, amounts, destination...)
+  details: Record<string, unknown>;
+}
+
+export type SubmitOutcome = 'sent' | 'reverted' | 'dry-run' | 'gas-too-high' | 'simulation-failed' | 'failed';
+
+/**
+ * Send a keeper transaction once the gas price is under the chain's ceiling and an `eth_call`
+ * of it succeeds. Every outcome is logged; nothing is thrown.
+ */
+export async function submit(ctx: ChainContext, call: KeeperCall): Promise<SubmitOutcome> {
+  const { publicClient, walletClient, config } = ctx;
+  const decision = (level: 'info' | 'warn', outcome: SubmitOutcome, fields: Record<string, unknown> = {}) => {
+    log(level, 'decision', { chain: config.name, action: call.action, outcome, ...call.details, ...fields });
+    return outcome;
+  };
+
+  try {
+    const gasPrice = await publicClient.getGasPrice();
+    const ceiling = parseGwei(config.maxGasPriceGwei.toString());
+    if (gasPrice > ceiling) {
+      return decision('info', 'gas-too-high', {
+        gasPriceGwei: formatGwei(gasPrice),
+        maxGasPriceGwei: config.maxGasPriceGwei,
+      });
+    }
+
+    const params = {
+      address: call.address,
+      abi: call.abi,
+      functionName: call.functionName,
+      args: call.args,
+      value: call.value,
+    };
+    try {
+      await publicClient.simulateContract({ ...params, account: walletClient.account });
+    } catch (error) {
+      return decision('warn', 'simulation-failed', { reason: errorMessage(error) });
+    }
+
+    if (ctx.dryRun) return decision('info', 'dry-run', { gasPriceGwei: formatGwei(gasPrice) });
+
+    // Legacy pricing at the price just checked, so the transaction never pays above the ceiling
+    const hash = await walletClient.writeContract({ ...params, gasPrice });
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    const succeeded = receipt.status === 'success';
+    return decision(succeeded ? 'info' : 'warn', succeeded ? 'sent' : 'reverted', {
+      hash,
+      gasUsed: receipt.gasUsed,
+      gasPriceGwei: formatGwei(gasPrice),
+    });
+  } catch (error) {
+    return decision('warn', 'failed', { reason: errorMessage(error) });
+  }
+}
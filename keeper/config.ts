@@ -0,0 +1,103 @@
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { type Address, type Hex, isAddress, isHex } from 'viem';
+
+export interface KeeperChainConfig {
+  // Label used in logs; two local Hardhat nodes can share a chain id
+  name: string;
+  chainId: number;
+  rpcUrl: string;
+  yieldAggregator: Address;
+  // Without a bridge the chain neither sends nor receives yield reports
+  crossChainBridge?: Address;
+  // LayerZero endpoint id that other chains use as `dstChainId` for this one
+  lzEid?: number;
+  // Transactions are not sent while the chain's gas price is above this
+  maxGasPriceGwei: number;
+}
+
+export interface KeeperConfig {
+  pollIntervalMs: number;
+  // How often the local relayer (keeper/relayer.ts) looks for packets to deliver
+  relayPollIntervalMs: number;
+  // Simulate every transaction but never send one
+  dryRun: boolean;
+  yieldReports: {
+    // Resend a report once this old, even when the APY has not moved
+    intervalSeconds: number;
+    // Resend sooner when the best APY moved at least this much (basis points)
+    minApyChangeBps: number;
+  };
+  chains: KeeperChainConfig[];
+}
+
+const DEFAULT_CONFIG_PATH = 'keeper/keeper.config.json';
+
+const fail = (message: string): never => {
+  throw new Error(`Invalid keeper config: ${message}`);
+};
+
+const positiveNumber = (value: unknown, field: string, fallback?: number): number => {
+  if (value === undefined && fallback !== undefined) return fallback;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    return fail(`${field} must be a positive number`);
+  }
+  return value;
+};
+
+const address = (value: unknown, field: string): Address =>
+  typeof value === 'string' && isAddress(value) ? value : fail(`${field} must be an address`);
+
+function parseChain(raw: Record<string, unknown>, index: number): KeeperChainConfig {
+  const field = (name: string) => `chains[${index}].${name}`;
+  if (typeof raw.name !== 'string' || !raw.name) fail(`${field('name')} is required`);
+  if (typeof raw.rpcUrl !== 'string' || !raw.rpcUrl) fail(`${field('rpcUrl')} is required`);
+
+  return {
+    name: raw.name as string,
+    chainId: positiveNumber(raw.chainId, field('chainId')),
+    rpcUrl: raw.rpcUrl as string,
+    yieldAggregator: address(raw.yieldAggregator, field('yieldAggregator')),
+    crossChainBridge:
+      raw.crossChainBridge === undefined ? undefined : address(raw.crossChainBridge, field('crossChainBridge')),
+    lzEid: raw.lzEid === undefined ? undefined : positiveNumber(raw.lzEid, field('lzEid')),
+    maxGasPriceGwei: positiveNumber(raw.maxGasPriceGwei, field('maxGasPriceGwei')),
+  };
+}
+
+/**
+ * Read the JSON config at `KEEPER_CONFIG` (default `keeper/keeper.config.json`, relative to the working
+ * directory). See `keeper/keeper.config.example.json`.
+ */
+export function loadConfig(): KeeperConfig {
+  const path = resolve(process.env.KEEPER_CONFIG || DEFAULT_CONFIG_PATH);
+  const raw = JSON.parse(readFileSync(path, 'utf8')) as Record<string, unknown>;
+
+  if (!Array.isArray(raw.chains) || raw.chains.length === 0) fail('chains must list at least one chain');
+  const chains = (raw.chains as Record<string, unknown>[]).map(parseChain);
+  const names = new Set(chains.map((chain) => chain.name));
+  if (names.size !== chains.length) fail('chain names must be unique');
+
+  const reports = (raw.yieldReports ?? {}) as Record<string, unknown>;
+  return {
+    pollIntervalMs: positiveNumber(raw.pollIntervalMs, 'pollIntervalMs', 60_000),
+    relayPollIntervalMs: positiveNumber(raw.relayPollIntervalMs, 'relayPollIntervalMs', 5_000),
+    dryRun: raw.dryRun === true || process.env.KEEPER_DRY_RUN === 'true',
+    yieldReports: {
+      intervalSeconds: positiveNumber(reports.intervalSeconds, 'yieldReports.intervalSeconds', 3_600),
+      minApyChangeBps: positiveNumber(reports.minApyChangeBps, 'yieldReports.minApyChangeBps', 25),
+    },
+    chains,
+  };
+}
+
+/**
+ * The keeper key never lives in the config file
+ */
+export function loadPrivateKey(): Hex {
+  const key = process.env.KEEPER_PRIVATE_KEY;
+  if (!key || !isHex(key) || key.length !== 66) {
+    throw new Error('KEEPER_PRIVATE_KEY must be set to a 32-byte hex private key');
+  }
+  return key;
+}
@@ -0,0 +1,70 @@
+import type { Address } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { loadConfig, loadPrivateKey } from './config';
+import { createChainContext, yieldAggregatorAbi } from './chain';
+import { runRebalances } from './rebalance';
+import { YieldReporter } from './yieldReports';
+import { errorMessage, log } from './logger';
+
+/**
+ * Keeper daemon: every `pollIntervalMs` it rebalances the pools `checkUpkeep` flags on each
+ * configured chain, then sends the yield reports that are due. Run it with `npm run keeper`
+ * or under pm2 (see ecosystem.config.cjs).
+ */
+async function main() {
+  const config = loadConfig();
+  const account = privateKeyToAccount(loadPrivateKey());
+  const contexts = config.chains.map((chain) => createChainContext(chain, account, config.dryRun));
+  const reporter = new YieldReporter(config.yieldReports, contexts);
+
+  let stopping = false;
+  let wake: (() => void) | undefined;
+  const stop = (signal: string) => {
+    log('info', 'shutdown', { signal });
+    stopping = true;
+    wake?.();
+  };
+  process.on('SIGINT', () => stop('SIGINT'));
+  process.on('SIGTERM', () => stop('SIGTERM'));
+
+  log('info', 'started', {
+    keeper: account.address,
+    dryRun: config.dryRun,
+    pollIntervalMs: config.pollIntervalMs,
+    chains: config.chains.map((chain) => chain.name),
+  });
+
+  while (!stopping) {
+    for (const ctx of contexts) {
+      if (stopping) break;
+      try {
+        const assets = (await ctx.publicClient.readContract({
+          address: ctx.config.yieldAggregator,
+          abi: yieldAggregatorAbi,
+          functionName: 'getSupportedAssets',
+        })) as Address[];
+
+        await runRebalances(ctx, assets);
+        await reporter.run(ctx, assets);
+      } catch (error) {
+        // One unreachable chain must not stop the others
+        log('error', 'chain-failed', { chain: ctx.config.name, reason: errorMessage(error) });
+      }
+    }
+
+    if (!stopping) {
+      await new Promise<void>((resolve) => {
+        wake = resolve;
+        setTimeout(resolve, config.pollIntervalMs);
+      });
+    }
+  }
+}
+
+main().then(
+  () => process.exit(0),
+  (error) => {
+    log('error', 'fatal', { reason: errorMessage(error) });
+    process.exit(1);
+  }
+);
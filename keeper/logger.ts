@@ -0,0 +1,19 @@
+type LogLevel = 'info' | 'warn' | 'error';
+
+// bigint amounts are logged as decimal strings so every line stays valid JSON
+const replacer = (_key: string, value: unknown) => (typeof value === 'bigint' ? value.toString() : value);
+
+/**
+ * Write one JSON line per event, so pm2 logs can be filtered by `event`, `chain` or `outcome`.
+ */
+export function log(level: LogLevel, event: string, fields: Record<string, unknown> = {}) {
+  const line = JSON.stringify({ time: new Date().toISOString(), level, event, ...fields }, replacer);
+  if (level === 'error' || level === 'warn') {
+    process.stderr.write(line + '\n');
+  } else {
+    process.stdout.write(line + '\n');
+  }
+}
+
+export const errorMessage = (error: unknown) =>
+  error instanceof Error ? (error as Error & { shortMessage?: string }).shortMessage ?? error.message : String(error);
@@ -0,0 +1,34 @@
+import type { Address, Hex } from 'viem';
+import { type ChainContext, submit, yieldAggregatorAbi } from './chain';
+import { log } from './logger';
+
+/**
+ * Rebalance every pool of the chain's aggregator that `checkUpkeep` flags. The contract applies
+ * the strategy's threshold and minimum amount, so the keeper only decides when to pay for it.
+ */
+export async function runRebalances(ctx: ChainContext, assets: readonly Address[]) {
+  const { config, publicClient } = ctx;
+
+  for (const asset of assets) {
+    const [upkeepNeeded, fromProtocol, toProtocol, amount] = (await publicClient.readContract({
+      address: config.yieldAggregator,
+      abi: yieldAggregatorAbi,
+      functionName: 'checkUpkeep',
+      args: [asset],
+    })) as [boolean, Hex, Hex, bigint];
+
+    if (!upkeepNeeded) {
+      log('info', 'decision', { chain: config.name, action: 'rebalance', outcome: 'not-needed', asset });
+      continue;
+    }
+
+    await submit(ctx, {
+      action: 'rebalance',
+      address: config.yieldAggregator,
+      abi: yieldAggregatorAbi,
+      functionName: 'keeperRebalance',
+      args: [asset],
+      details: { asset, fromProtocol, toProtocol, amount },
+    });
+  }
+}
@@ -0,0 +1,196 @@
+import { type Address, type Hex, getAddress, parseAbi, slice } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { loadConfig, loadPrivateKey } from './config';
+import { type ChainContext, createChainContext, crossChainBridgeAbi, submit } from './chain';
+import { errorMessage, log } from './logger';
+
+// MockLayerZeroEndpoint, which stands in for LayerZero on local nodes
+const mockEndpointAbi = parseAbi([
+  'event PacketSent(bytes32 indexed guid, uint32 indexed dstEid, bytes32 receiver, bytes32 sender, uint64 nonce, bytes message)',
+  'function eid() view returns (uint32)',
+  'function deliver((uint32 srcEid, bytes32 sender, uint64 nonce) origin, address receiver, bytes32 guid, bytes message)',
+]);
+
+interface RelayEnd {
+  ctx: ChainContext;
+  endpoint: Address;
+  eid: number;
+  // First block not scanned for packets yet
+  nextBlock: bigint;
+}
+
+interface Packet {
+  guid: Hex;
+  srcEid: number;
+  dstEid: number;
+  receiver: Address;
+  sender: Hex;
+  nonce: bigint;
+  message: Hex;
+}
+
+/**
+ * Find the mock endpoint behind every configured bridge. Chains whose bridge is not wired to a
+ * `MockLayerZeroEndpoint` are left out, since a real endpoint is served by LayerZero itself.
+ */
+async function loadEnds(contexts: ChainContext[]): Promise<RelayEnd[]> {
+  const ends: RelayEnd[] = [];
+  for (const ctx of contexts) {
+    const { config, publicClient } = ctx;
+    if (!config.crossChainBridge) continue;
+
+    try {
+      const endpoint = (await publicClient.readContract({
+        address: config.crossChainBridge,
+        abi: crossChainBridgeAbi,
+        functionName: 'endpoint',
+      })) as Address;
+      const eid = await publicClient.readContract({ address: endpoint, abi: mockEndpointAbi, functionName: 'eid' });
+      if (config.lzEid !== undefined && config.lzEid !== eid) {
+        log('warn', 'eid-mismatch', { chain: config.name, configured: config.lzEid, endpoint: eid });
+      }
+      ends.push({ ctx, endpoint, eid, nextBlock: 0n });
+    } catch (error) {
+      log('warn', 'no-mock-endpoint', { chain: config.name, reason: errorMessage(error) });
+    }
+  }
+  return ends;
+}
+
+/**
+ * Collect the packets the chain's endpoint sent since the last scan
+ */
+async function scan(source: RelayEnd): Promise<Packet[]> {
+  const { publicClient } = source.ctx;
+  const toBlock = await publicClient.getBlockNumber();
+  if (toBlock < source.nextBlock) return [];
+
+  const events = await publicClient.getContractEvents({
+    address: source.endpoint,
+    abi: mockEndpointAbi,
+    eventName: 'PacketSent',
+    fromBlock: source.nextBlock,
+    toBlock,
+  });
+  source.nextBlock = toBlock + 1n;
+
+  return events.map(({ args }) => ({
+    guid: args.guid!,
+    srcEid: source.eid,
+    dstEid: args.dstEid!,
+    receiver: getAddress(slice(args.receiver!, 12)),
+    sender: args.sender!,
+    nonce: args.nonce!,
+    message: args.message!,
+  }));
+}
+
+/**
+ * Deliver a packet on its destination chain
+ * @return Whether the packet is done with (delivered, delivered before, or undeliverable)
+ */
+async function deliver(packet: Packet, ends: RelayEnd[]): Promise<boolean> {
+  const details = { guid: packet.guid, srcEid: packet.srcEid, dstEid: packet.dstEid, receiver: packet.receiver };
+  const destination = ends.find((end) => end.eid === packet.dstEid);
+  if (!destination) {
+    log('warn', 'decision', { action: 'relay', outcome: 'no-destination', ...details });
+    return true;
+  }
+
+  const processed = await destination.ctx.publicClient
+    .readContract({
+      address: packet.receiver,
+      abi: crossChainBridgeAbi,
+      functionName: 'processedMessages',
+      args: [packet.guid],
+    })
+    .catch(() => false);
+  if (processed) {
+    log('info', 'decision', { chain: destination.ctx.config.name, action: 'relay', outcome: 'already-delivered', ...details });
+    return true;
+  }
+
+  const outcome = await submit(destination.ctx, {
+    action: 'relay',
+    address: destination.endpoint,
+    abi: mockEndpointAbi,
+    functionName: 'deliver',
+    args: [
+      { srcEid: packet.srcEid, sender: packet.sender, nonce: packet.nonce },
+      packet.receiver,
+      packet.guid,
+      packet.message,
+    ],
+    details,
+  });
+  return outcome === 'sent' || outcome === 'dry-run';
+}
+
+/**
+ * Local relayer: stands in for the LayerZero executor between Hardhat nodes. Every
+ * `relayPollIntervalMs` it reads the `PacketSent` events of each chain's `MockLayerZeroEndpoint`
+ * and delivers them through the destination chain's mock endpoint. Packets whose delivery fails
+ * are retried on the next poll. Run it with `npm run relayer`; it signs with `KEEPER_PRIVATE_KEY`.
+ */
+async function main() {
+  const config = loadConfig();
+  const account = privateKeyToAccount(loadPrivateKey());
+  const contexts = config.chains.map((chain) => createChainContext(chain, account, config.dryRun));
+  const ends = await loadEnds(contexts);
+  if (ends.length < 2) throw new Error('Relaying needs at least two chains with a mock LayerZero endpoint');
+
+  let stopping = false;
+  let wake: (() => void) | undefined;
+  const stop = (signal: string) => {
+    log('info', 'shutdown', { signal });
+    stopping = true;
+    wake?.();
+  };
+  process.on('SIGINT', () => stop('SIGINT'));
+  process.on('SIGTERM', () => stop('SIGTERM'));
+
+  log('info', 'started', {
+    relayer: account.address,
+    dryRun: config.dryRun,
+    pollIntervalMs: config.relayPollIntervalMs,
+    chains: ends.map((end) => ({ name: end.ctx.config.name, eid: end.eid, endpoint: end.endpoint })),
+  });
+
+  // Packets not delivered yet, by guid
+  const pending = new Map<Hex, Packet>();
+
+  while (!stopping) {
+    for (const source of ends) {
+      try {
+        for (const packet of await scan(source)) pending.set(packet.guid, packet);
+      } catch (error) {
+        // One unreachable chain must not stop the others
+        log('error', 'chain-failed', { chain: source.ctx.config.name, reason: errorMessage(error) });
+      }
+    }
+
+    for (const packet of pending.values()) {
+      if (stopping) break;
+      try {
+        if (await deliver(packet, ends)) pending.delete(packet.guid);
+      } catch (error) {
+        log('error', 'relay-failed', { guid: packet.guid, reason: errorMessage(error) });
+      }
+    }
+
+    if (!stopping) {
+      await new Promise<void>((resolve) => {
+        wake = resolve;
+        setTimeout(resolve, config.relayPollIntervalMs);
+      });
+    }
+  }
+}
+
+main().then(
+  () => process.exit(0),
+  (error) => {
+    log('error', 'fatal', { reason: errorMessage(error) });
+    process.exit(1);
+  }
+);
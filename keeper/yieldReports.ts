@@ -0,0 +1,166 @@
+import { type Address, type Hex, encodeAbiParameters } from 'viem';
+import type { KeeperConfig } from './config';
+import { type ChainContext, crossChainBridgeAbi, submit, yieldAggregatorAbi } from './chain';
+import { errorMessage, log } from './logger';
+
+// CrossChainBridge.MSG_YIELD_REPORT
+const MSG_YIELD_REPORT = 3;
+
+// Same layout as CrossChainBridge.CrossChainMessage, to quote the fee of the exact message sent
+const crossChainMessageParams = [
+  {
+    type: 'tuple',
+    components: [
+      { name: 'messageType', type: 'uint8' },
+      { name: 'asset', type: 'address' },
+      { name: 'amount', type: 'uint256' },
+      { name: 'sender', type: 'address' },
+      { name: 'data', type: 'bytes' },
+    ],
+  },
+] as const;
+
+interface SentReport {
+  apy: bigint;
+  sentAt: number;
+}
+
+/**
+ * Sends each chain's best APY and pool size to the bridges of the other configured chains.
+ * A report is resent when it is `intervalSeconds` old or the APY moved by `minApyChangeBps`.
+ * What was sent is kept in memory only, so a restarted keeper reports everything once more.
+ * Reports carry the source chain's asset address, which the destination bridge maps to its own
+ * token (`setRemoteToken`); assets it does not support there are not reported.
+ */
+export class YieldReporter {
+  private sent = new Map<string, SentReport>();
+
+  constructor(
+    private readonly settings: KeeperConfig['yieldReports'],
+    private readonly contexts: ChainContext[]
+  ) {}
+
+  async run(source: ChainContext, assets: readonly Address[]) {
+    const { config, publicClient, walletClient } = source;
+    const bridge = config.crossChainBridge;
+    // Destination bridges map token addresses by the eid of the chain that sent them
+    if (!bridge || !config.lzEid) return;
+
+    const destinations = this.contexts.filter(
+      (ctx) => ctx !== source && ctx.config.crossChainBridge && ctx.config.lzEid
+    );
+    if (destinations.length === 0) return;
+
+    for (const asset of assets) {
+      const [, apy] = (await publicClient.readContract({
+        address: config.yieldAggregator,
+        abi: yieldAggregatorAbi,
+        functionName: 'findBestProtocol',
+        args: [asset],
+      })) as [Hex, bigint];
+      const totalDeposited = (await publicClient.readContract({
+        address: config.yieldAggregator,
+        abi: yieldAggregatorAbi,
+        functionName: 'totalAssets',
+        args: [asset],
+      })) as bigint;
+
+      for (const destination of destinations) {
+        const dstEid = destination.config.lzEid!;
+        const details = { asset, destination: destination.config.name, dstEid, apy, totalDeposited };
+        const skip = (outcome: string, fields: Record<string, unknown> = {}) =>
+          log('info', 'decision', { chain: config.name, action: 'yieldReport', outcome, ...details, ...fields });
+
+        const key = `${config.name}:${asset}:${dstEid}`;
+        const last = this.sent.get(key);
+        const now = Math.floor(Date.now() / 1000);
+        if (last && !this.isDue(last, apy, now)) {
+          skip('up-to-date', { lastApy: last.apy, lastSentAt: last.sentAt });
+          continue;
+        }
+
+        const peer = (await publicClient.readContract({
+          address: bridge,
+          abi: crossChainBridgeAbi,
+          functionName: 'getPeer',
+          args: [dstEid],
+        })) as { peer: Hex; active: boolean };
+        if (!peer.active) {
+          skip('peer-not-configured');
+          continue;
+        }
+
+        const localAsset = await this.localAsset(destination, config.lzEid, asset);
+        if (!localAsset) {
+          skip('asset-not-supported');
+          continue;
+        }
+
+        const message = encodeAbiParameters(crossChainMessageParams, [
+          {
+            messageType: MSG_YIELD_REPORT,
+            asset,
+            amount: 0n,
+            sender: walletClient.account.address,
+            data: encodeAbiParameters([{ type: 'uint256' }, { type: 'uint256' }], [apy, totalDeposited]),
+          },
+        ]);
+
+        let fee: bigint;
+        try {
+          fee = (await publicClient.readContract({
+            address: bridge,
+            abi: crossChainBridgeAbi,
+            functionName: 'quoteFee',
+            args: [dstEid, message],
+          })) as bigint;
+        } catch (error) {
+          log('warn', 'decision', {
+            chain: config.name,
+            action: 'yieldReport',
+            outcome: 'quote-failed',
+            ...details,
+            reason: errorMessage(error),
+          });
+          continue;
+        }
+
+        const outcome = await submit(source, {
+          action: 'yieldReport',
+          address: bridge,
+          abi: crossChainBridgeAbi,
+          functionName: 'sendYieldReport',
+          args: [dstEid, asset, apy, totalDeposited],
+          value: fee,
+          details: { ...details, localAsset, fee },
+        });
+        if (outcome === 'sent') this.sent.set(key, { apy, sentAt: now });
+      }
+    }
+  }
+
+  // The destination's token for a source chain asset, or null when its bridge does not support it
+  private async localAsset(destination: ChainContext, srcEid: number, asset: Address) {
+    const { config, publicClient } = destination;
+    const localAsset = (await publicClient.readContract({
+      address: config.crossChainBridge!,
+      abi: crossChainBridgeAbi,
+      functionName: 'localToken',
+      args: [srcEid, asset],
+    })) as Address;
+    const supported = (await publicClient.readContract({
+      address: config.crossChainBridge!,
+      abi: crossChainBridgeAbi,
+      functionName: 'supportedTokens',
+      args: [localAsset],
+    })) as boolean;
+    return supported ? localAsset : null;
+  }
+
+  private isDue(last: SentReport, apy: bigint, now: number) {
+    const change = apy > last.apy ? apy - last.apy : last.apy - apy;
+    return (
+      now - last.sentAt >= this.settings.intervalSeconds || change >= BigInt(this.settings.minApyChangeBps)
+    );
+  }
+}
@@ -1,4 +1,73 @@
-import { ethers } from "hardhat";
+import hre, { ethers } from "hardhat";
+
+const LOCAL_CHAIN_ID = 31337;
+
+// Aave liquidity rate (RAY) and Comet supply rate (per second, 18 decimals) for the local mocks
+const MOCK_AAVE_RATE = ethers.parseUnits("0.045", 27); // 4.5%
+const MOCK_COMET_RATE = ethers.parseUnits("0.052", 18) / 31536000n; // 5.2%
+const MOCK_MINT_AMOUNT = ethers.parseUnits("1000000", 6);
+
+// LayerZero endpoint ids of the two local nodes (`npm run node` and `npm run node:2`); each
+// deployment's bridge is peered with the other one's
+const LOCAL_LZ_EIDS: { [network: string]: { eid: number; peerEid: number } } = {
+  localhost: { eid: 40101, peerEid: 40102 },
+  localhost2: { eid: 40102, peerEid: 40101 },
+};
+const MOCK_LZ_BASE_FEE = ethers.parseEther("0.0001");
+const MOCK_LZ_FEE_PER_BYTE = ethers.parseUnits("10", "gwei");
+// Native balance of a local bridge, which pays for acknowledgements and refunds back to the source
+const MOCK_BRIDGE_NATIVE_BALANCE = ethers.parseEther("1");
+// Pool funds cross-chain rebalances may move off a local node; elsewhere the timelock sets a cap
+const MOCK_REBALANCE_CAP = ethers.parseUnits("100000", 6);
+
+// Delay of admin changes through the timelock (TIMELOCK_DELAY overrides it, in seconds)
+const TIMELOCK_DELAY = 2 * 24 * 60 * 60; // 2 days
+const LOCAL_TIMELOCK_DELAY = 60;
+
+/**
+ * Deploy mock stablecoins, an Aave V3 pool, a Comet market and a LayerZero endpoint for a local
+ * Hardhat node
+ */
+async function deployLocalMocks(lzEid: number) {
+  console.log("\n0. Deploying local mocks...");
+  const MockERC20 = await ethers.getContractFactory("MockERC20");
+
+  const usdc = await MockERC20.deploy("USD Coin", "USDC", 6);
+  await usdc.waitForDeployment();
+  const usdt = await MockERC20.deploy("Tether USD", "USDT", 6);
+  await usdt.waitForDeployment();
+
+  const MockAaveV3Pool = await ethers.getContractFactory("MockAaveV3Pool");
+  const aavePool = await MockAaveV3Pool.deploy();
+  await aavePool.waitForDeployment();
+  await (await aavePool.initReserve(await usdc.getAddress(), MOCK_AAVE_RATE)).wait();
+  await (await aavePool.initReserve(await usdt.getAddress(), MOCK_AAVE_RATE)).wait();
+
+  const MockCometV3 = await ethers.getContractFactory("MockCometV3");
+  const comet = await MockCometV3.deploy(await usdc.getAddress(), MOCK_COMET_RATE);
+  await comet.waitForDeployment();
+
+  // keeper/relayer.ts delivers its packets to the other local node
+  const MockLayerZeroEndpoint = await ethers.getContractFactory("MockLayerZeroEndpoint");
+  const lzEndpoint = await MockLayerZeroEndpoint.deploy(lzEid);
+  await lzEndpoint.waitForDeployment();
+  await (await lzEndpoint.setFees(MOCK_LZ_BASE_FEE, MOCK_LZ_FEE_PER_BYTE)).wait();
+
+  // Fund the first few unlocked node accounts so they can deposit from the frontend
+  const signers = await ethers.getSigners();
+  for (const signer of signers.slice(0, 5)) {
+    await (await usdc.mint(signer.address, MOCK_MINT_AMOUNT)).wait();
+    await (await usdt.mint(signer.address, MOCK_MINT_AMOUNT)).wait();
+  }
+
+  console.log("   Mock USDC:       ", await usdc.getAddress());
+  console.log("   Mock USDT:       ", await usdt.getAddress());
+  console.log("   Mock Aave pool:  ", await aavePool.getAddress());
+  console.log("   Mock Comet:      ", await comet.getAddress());
+  console.log(`   Mock LZ endpoint: ${await lzEndpoint.getAddress()} (eid ${lzEid})`);
+
+  return { usdc, usdt, aavePool, comet, lzEndpoint };
+}
 
 async function main() {
   const [deployer] = await ethers.getSigners();
@@ -9,9 +78,17 @@ async function main() {
   const network = await ethers.provider.getNetwork();
   console.log("\nDeploying to network:", network.name, "chainId:", network.chainId);
 
+  const isLocal = Number(network.chainId) === LOCAL_CHAIN_ID;
+  const localLz = LOCAL_LZ_EIDS[hre.network.name] ?? LOCAL_LZ_EIDS.localhost;
+  const mocks = isLocal ? await deployLocalMocks(localLz.eid) : null;
+
   // Deploy YieldAggregator
   console.log("\n1. Deploying YieldAggregator...");
-  const YieldAggregator = await ethers.getContractFactory("YieldAggregator");
+  const feeMath = await (await ethers.getContractFactory("FeeMath")).deploy();
+  await feeMath.waitForDeployment();
+  const YieldAggregator = await ethers.getContractFactory("YieldAggregator", {
+    libraries: { FeeMath: await feeMath.getAddress() },
+  });
   const yieldAggregator = await YieldAggregator.deploy(deployer.address);
   await yieldAggregator.waitForDeployment();
   const yieldAggregatorAddress = await yieldAggregator.getAddress();
@@ -19,14 +96,12 @@ async function main() {
 
   // Deploy CrossChainBridge (with mock endpoint for local testing)
   console.log("\n2. Deploying CrossChainBridge...");
-  // For local testing, use a mock endpoint address
-  // In production, use the actual LayerZero endpoint address
   const layerZeroEndpoints: { [key: number]: string } = {
     1: "0x1a44076050125825900e736c501f859c50fE728c", // Ethereum
     137: "0x1a44076050125825900e736c501f859c50fE728c", // Polygon
     42161: "0x1a44076050125825900e736c501f859c50fE728c", // Arbitrum
     11155111: "0x6EDCE65403992e310A62460808c4b910D972f10f", // Sepolia
-    31337: deployer.address, // Local hardhat (mock)
+    31337: mocks ? await mocks.lzEndpoint.getAddress() : deployer.address, // Local hardhat (mock)
   };
 
   const endpointAddress = layerZeroEndpoints[Number(network.chainId)] || deployer.address;
@@ -43,7 +118,7 @@ async function main() {
     137: "0x794a61358D6845594F94dc1DB02A252b5b4814aD", // Polygon
     42161: "0x794a61358D6845594F94dc1DB02A252b5b4814aD", // Arbitrum
     11155111: "0x6Ae43d3271ff6888e7Fc43Fd7321a503ff738951", // Sepolia
-    31337: deployer.address, // Local hardhat (mock)
+    31337: mocks ? await mocks.aavePool.getAddress() : deployer.address, // Local hardhat (mock)
   };
 
   const aavePoolAddress = aavePoolAddresses[Number(network.chainId)] || deployer.address;
@@ -60,7 +135,7 @@ async function main() {
     137: "0xF25212E676D1F7F89Cd72fFEe66158f541246445", // Polygon USDC
     42161: "0xA5EDBDD9646f8dFF606d7448e414884C7d905dCA", // Arbitrum USDC
     11155111: "0xAec1F48e02Cfb822Be958B68C7957156EB3F0b6e", // Sepolia
-    31337: deployer.address, // Local hardhat (mock)
+    31337: mocks ? await mocks.comet.getAddress() : deployer.address, // Local hardhat (mock)
   };
 
   const compoundCometAddress = compoundCometAddresses[Number(network.chainId)] || deployer.address;
@@ -107,8 +182,8 @@ async function main() {
       USDT: "0x7169D38820dfd117C3FA1f22a697dBA58d90BA06",
     },
     31337: {
-      USDC: deployer.address,
-      USDT: deployer.address,
+      USDC: mocks ? await mocks.usdc.getAddress() : deployer.address,
+      USDT: mocks ? await mocks.usdt.getAddress() : deployer.address,
     },
   };
 
@@ -121,6 +196,72 @@ async function main() {
   await yieldAggregator.addSupportedAsset(coins.USDT);
   await crossChainBridge.setSupportedToken(coins.USDT, true);
 
+  if (mocks) {
+    // Both local nodes deploy from the same account in the same order, so the other node's bridge
+    // has this address too unless LZ_PEER_BRIDGE says otherwise
+    const peerBridge = process.env.LZ_PEER_BRIDGE || crossChainBridgeAddress;
+    console.log(`   Peering with ${peerBridge} on eid ${localLz.peerEid}...`);
+    await (await crossChainBridge.setPeer(localLz.peerEid, ethers.zeroPadValue(peerBridge, 32))).wait();
+
+    // Incoming transfers and rebalances are paid out of the bridge's own balance
+    console.log("   Funding CrossChainBridge liquidity...");
+    await (await mocks.usdc.mint(crossChainBridgeAddress, MOCK_MINT_AMOUNT)).wait();
+    await (await mocks.usdt.mint(crossChainBridgeAddress, MOCK_MINT_AMOUNT)).wait();
+    await (await deployer.sendTransaction({ to: crossChainBridgeAddress, value: MOCK_BRIDGE_NATIVE_BALANCE })).wait();
+
+    console.log("   Setting cross-chain rebalance caps...");
+    await (await crossChainBridge.setRebalanceCap(coins.USDC, MOCK_REBALANCE_CAP)).wait();
+    await (await crossChainBridge.setRebalanceCap(coins.USDT, MOCK_REBALANCE_CAP)).wait();
+  }
+
+  if (mocks) {
+    console.log("   Registering mock reserves on AaveV3Adapter...");
+    await aaveAdapter.addSupportedAsset(coins.USDC, await mocks.aavePool.aTokens(coins.USDC));
+    await aaveAdapter.addSupportedAsset(coins.USDT, await mocks.aavePool.aTokens(coins.USDT));
+  }
+
+  // Deploy one ERC-4626 vault per supported asset
+  console.log("\n7. Deploying YieldVaults...");
+  const YieldVault = await ethers.getContractFactory("YieldVault");
+  const vaultAddresses: { [symbol: string]: string } = {};
+  for (const [symbol, asset] of Object.entries(coins)) {
+    const vault = await YieldVault.deploy(asset, yieldAggregatorAddress, `Yield Aggregator ${symbol}`, `ya${symbol}`);
+    await vault.waitForDeployment();
+    vaultAddresses[symbol] = await vault.getAddress();
+    await (await yieldAggregator.setVault(asset, vaultAddresses[symbol])).wait();
+    console.log(`   ${symbol} vault deployed to:`, vaultAddresses[symbol]);
+  }
+
+  // Grant roles, then hand the admin role to a timelock so later admin changes are delayed
+  console.log("\n8. Setting up roles and timelock...");
+  const admin = process.env.ADMIN_ADDRESS || deployer.address;
+  const strategist = process.env.STRATEGIST_ADDRESS || deployer.address;
+  const guardian = process.env.GUARDIAN_ADDRESS || deployer.address;
+  await (await yieldAggregator.grantRole(await yieldAggregator.STRATEGIST_ROLE(), strategist)).wait();
+  await (await yieldAggregator.grantRole(await yieldAggregator.GUARDIAN_ROLE(), guardian)).wait();
+  await (await crossChainBridge.grantRole(await crossChainBridge.GUARDIAN_ROLE(), guardian)).wait();
+
+  // The off-chain keeper (keeper/) rebalances pools and sends yield reports
+  if (process.env.KEEPER_ADDRESS) {
+    console.log("   Granting keeper role...");
+    await (await yieldAggregator.grantRole(await yieldAggregator.KEEPER_ROLE(), process.env.KEEPER_ADDRESS)).wait();
+    await (await crossChainBridge.grantRole(await crossChainBridge.KEEPER_ROLE(), process.env.KEEPER_ADDRESS)).wait();
+  }
+
+  const timelockDelay = Number(process.env.TIMELOCK_DELAY || (isLocal ? LOCAL_TIMELOCK_DELAY : TIMELOCK_DELAY));
+  const YieldTimelock = await ethers.getContractFactory("YieldTimelock");
+  // The admin account proposes and executes; the timelock administers its own roles
+  const timelock = await YieldTimelock.deploy(timelockDelay, [admin], [admin], ethers.ZeroAddress);
+  await timelock.waitForDeployment();
+  const timelockAddress = await timelock.getAddress();
+  console.log(`   YieldTimelock deployed to: ${timelockAddress} (delay ${timelockDelay}s)`);
+
+  for (const contract of [yieldAggregator, crossChainBridge]) {
+    const adminRole = await contract.DEFAULT_ADMIN_ROLE();
+    await (await contract.grantRole(adminRole, timelockAddress)).wait();
+    await (await contract.renounceRole(adminRole, deployer.address)).wait();
+  }
+
   // Print deployment summary
   console.log("\n" + "=".repeat(60));
   console.log("DEPLOYMENT SUMMARY");
@@ -132,17 +273,31 @@ async function main() {
   console.log(`  CrossChainBridge:  ${crossChainBridgeAddress}`);
   console.log(`  AaveV3Adapter:     ${aaveAdapterAddress}`);
   console.log(`  CompoundV3Adapter: ${compoundAdapterAddress}`);
+  console.log(`  YieldTimelock:     ${timelockAddress}`);
   console.log("\nSupported Assets:");
   console.log(`  USDC: ${coins.USDC}`);
   console.log(`  USDT: ${coins.USDT}`);
+  console.log("\nVaults (ERC-4626):");
+  console.log(`  yaUSDC: ${vaultAddresses.USDC}`);
+  console.log(`  yaUSDT: ${vaultAddresses.USDT}`);
   console.log("=".repeat(60));
 
+  if (isLocal) {
+    console.log("\nFrontend (.env.local):");
+    console.log(`  VITE_LOCAL_YIELD_AGGREGATOR=${yieldAggregatorAddress}`);
+    console.log(`  VITE_LOCAL_CROSS_CHAIN_BRIDGE=${crossChainBridgeAddress}`);
+    console.log(`  VITE_LOCAL_TIMELOCK=${timelockAddress}`);
+    console.log(`  VITE_LOCAL_LZ_EID=${localLz.eid}`);
+  }
+
   // Return addresses for verification scripts
   return {
     yieldAggregator: yieldAggregatorAddress,
     crossChainBridge: crossChainBridgeAddress,
     aaveAdapter: aaveAdapterAddress,
     compoundAdapter: compoundAdapterAddress,
+    timelock: timelockAddress,
+    vaults: vaultAddresses,
   };
 }
 
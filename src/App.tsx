@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Toaster } from 'react-hot-toast';
 import Header from './components/Header';
 import Dashboard from './pages/Dashboard';
@@ -6,11 +6,27 @@ import Portfolio from './pages/Portfolio';
 import Protocols from './pages/Protocols';
 import Bridge from './pages/Bridge';
 import Analytics from './pages/Analytics';
+import History from './pages/History';
+import { useWalletSync } from './hooks/useWalletSync';
+import { useTransactionPoller } from './hooks/useTransactionPoller';
+import { useStore } from './store/useStore';
 
-type Page = 'dashboard' | 'portfolio' | 'protocols' | 'bridge' | 'analytics';
+// How often protocol APYs and TVL are re-read from chain
+const REFRESH_INTERVAL_MS = 60_000;
+
+type Page = 'dashboard' | 'portfolio' | 'protocols' | 'bridge' | 'analytics' | 'history';
 
 const App: React.FC = () => {
   const [currentPage, setCurrentPage] = useState<Page>('dashboard');
+  const refreshData = useStore((state) => state.refreshData);
+  useWalletSync();
+  useTransactionPoller();
+
+  useEffect(() => {
+    refreshData();
+    const interval = setInterval(refreshData, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [refreshData]);
 
   const renderPage = () => {
     switch (currentPage) {
@@ -24,6 +40,8 @@ const App: React.FC = () => {
         return <Bridge />;
       case 'analytics':
         return <Analytics />;
+      case 'history':
+        return <History />;
       default:
         return <Dashboard />;
     }
@@ -1,11 +1,14 @@
 import React, { useState } from 'react';
 import { motion } from 'framer-motion';
+import { useConnection, useConnectionEffect, useDisconnect, useSwitchChain } from 'wagmi';
+import { useConnectModal } from '@rainbow-me/rainbowkit';
 import { 
   LayoutDashboard, 
   Wallet, 
   Layers, 
   ArrowRightLeft, 
   BarChart3,
+  History,
   ChevronDown,
   Loader2,
   Check,
@@ -16,12 +19,15 @@ import toast from 'react-hot-toast';
 
 interface HeaderProps {
   currentPage: string;
-  onNavigate: (page: 'dashboard' | 'portfolio' | 'protocols' | 'bridge' | 'analytics') => void;
+  onNavigate: (page: 'dashboard' | 'portfolio' | 'protocols' | 'bridge' | 'analytics' | 'history') => void;
 }
 
 const Header: React.FC<HeaderProps> = ({ currentPage, onNavigate }) => {
-  const { isConnected, address, chainId, chains, setWalletState } = useStore();
-  const [isConnecting, setIsConnecting] = useState(false);
+  const { isConnected, address, chainId, chains } = useStore();
+  const { isConnecting, isReconnecting } = useConnection();
+  const { openConnectModal, connectModalOpen } = useConnectModal();
+  const { disconnectAsync } = useDisconnect();
+  const { switchChainAsync, isPending: isSwitchingChain } = useSwitchChain();
   const [showChainDropdown, setShowChainDropdown] = useState(false);
 
   const currentChain = chains.find(c => c.id === chainId);
@@ -32,34 +38,35 @@ const Header: React.FC<HeaderProps> = ({ currentPage, onNavigate }) => {
     { id: 'protocols', label: 'Protocols', icon: Layers },
     { id: 'bridge', label: 'Bridge', icon: ArrowRightLeft },
     { id: 'analytics', label: 'Analytics', icon: BarChart3 },
+    { id: 'history', label: 'History', icon: History },
   ];
 
-  const handleConnect = async () => {
-    setIsConnecting(true);
-    
-    // Simulate wallet connection
-    await new Promise(resolve => setTimeout(resolve, 1500));
-    
-    // Mock connected state
-    setWalletState(
-      true,
-      '0x742d35Cc6634C0532925a3b844Bc9e7595f3bD58',
-      1
-    );
-    
-    setIsConnecting(false);
-    toast.success('Wallet connected successfully!');
+  useConnectionEffect({
+    onConnect({ isReconnected }) {
+      if (!isReconnected) toast.success('Wallet connected successfully!');
+    },
+  });
+
+  const handleConnect = () => {
+    openConnectModal?.();
   };
 
-  const handleDisconnect = () => {
-    setWalletState(false, null, null);
+  const handleDisconnect = async () => {
+    await disconnectAsync();
     toast.success('Wallet disconnected');
   };
 
-  const handleChainSwitch = (chain: typeof chains[0]) => {
-    setWalletState(true, address, chain.id);
+  const handleChainSwitch = async (chain: typeof chains[0]) => {
     setShowChainDropdown(false);
-    toast.success(`Switched to ${chain.name}`);
+    if (chain.id === chainId) return;
+
+    try {
+      await switchChainAsync({ chainId: chain.id });
+      toast.success(`Switched to ${chain.name}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message.split('\n')[0] : 'Unknown error';
+      toast.error(`Failed to switch to ${chain.name}: ${message}`);
+    }
   };
 
   const formatAddress = (addr: string) => {
@@ -132,6 +139,7 @@ const Header: React.FC<HeaderProps> = ({ currentPage, onNavigate }) => {
                 <div className="relative">
                   <motion.button
                     onClick={() => setShowChainDropdown(!showChainDropdown)}
+                    disabled={isSwitchingChain}
                     className="flex items-center gap-2 px-3 py-2 rounded-xl bg-dark-800 border border-dark-700 hover:border-dark-600 transition-colors"
                     whileHover={{ scale: 1.02 }}
                     whileTap={{ scale: 0.98 }}
@@ -140,7 +148,11 @@ const Header: React.FC<HeaderProps> = ({ currentPage, onNavigate }) => {
                     <span className="hidden sm:inline text-sm font-medium">
                       {currentChain?.name || 'Unknown'}
                     </span>
-                    <ChevronDown className="w-4 h-4 text-dark-400" />
+                    {isSwitchingChain ? (
+                      <Loader2 className="w-4 h-4 text-dark-400 animate-spin" />
+                    ) : (
+                      <ChevronDown className="w-4 h-4 text-dark-400" />
+                    )}
                   </motion.button>
 
                   {showChainDropdown && (
@@ -182,12 +194,12 @@ const Header: React.FC<HeaderProps> = ({ currentPage, onNavigate }) => {
             ) : (
               <motion.button
                 onClick={handleConnect}
-                disabled={isConnecting}
+                disabled={isConnecting || isReconnecting || connectModalOpen}
                 className="btn-primary flex items-center gap-2"
                 whileHover={{ scale: 1.02 }}
                 whileTap={{ scale: 0.98 }}
               >
-                {isConnecting ? (
+                {isConnecting || isReconnecting ? (
                   <>
                     <Loader2 className="w-4 h-4 animate-spin" />
                     Connecting...
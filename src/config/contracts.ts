@@ -0,0 +1,68 @@
+import { type Abi, type Address, isAddress } from 'viem';
+import YieldAggregatorArtifact from '../abi/YieldAggregator.json';
+import CrossChainBridgeArtifact from '../abi/CrossChainBridge.json';
+import YieldTimelockArtifact from '../abi/YieldTimelock.json';
+
+export const yieldAggregatorAbi = YieldAggregatorArtifact.abi as Abi;
+export const crossChainBridgeAbi = CrossChainBridgeArtifact.abi as Abi;
+export const yieldTimelockAbi = YieldTimelockArtifact.abi as Abi;
+
+export interface ChainDeployment {
+  yieldAggregator: Address;
+  crossChainBridge?: Address;
+  // YieldTimelock holding the admin role of both contracts
+  timelock?: Address;
+}
+
+const optionalAddress = (value?: string) => (value && isAddress(value) ? value : undefined);
+
+const toDeployment = (
+  yieldAggregator?: string,
+  crossChainBridge?: string,
+  timelock?: string
+): ChainDeployment | undefined => {
+  if (!yieldAggregator || !isAddress(yieldAggregator)) return undefined;
+  return {
+    yieldAggregator,
+    crossChainBridge: optionalAddress(crossChainBridge),
+    timelock: optionalAddress(timelock),
+  };
+};
+
+// Deployed contract addresses per chain id, filled from the VITE_* variables printed by scripts/deploy.ts
+const deployments: Record<number, ChainDeployment | undefined> = {
+  1: toDeployment(
+    import.meta.env.VITE_ETHEREUM_YIELD_AGGREGATOR,
+    import.meta.env.VITE_ETHEREUM_CROSS_CHAIN_BRIDGE,
+    import.meta.env.VITE_ETHEREUM_TIMELOCK
+  ),
+  137: toDeployment(
+    import.meta.env.VITE_POLYGON_YIELD_AGGREGATOR,
+    import.meta.env.VITE_POLYGON_CROSS_CHAIN_BRIDGE,
+    import.meta.env.VITE_POLYGON_TIMELOCK
+  ),
+  42161: toDeployment(
+    import.meta.env.VITE_ARBITRUM_YIELD_AGGREGATOR,
+    import.meta.env.VITE_ARBITRUM_CROSS_CHAIN_BRIDGE,
+    import.meta.env.VITE_ARBITRUM_TIMELOCK
+  ),
+  31337: toDeployment(
+    import.meta.env.VITE_LOCAL_YIELD_AGGREGATOR,
+    import.meta.env.VITE_LOCAL_CROSS_CHAIN_BRIDGE,
+    import.meta.env.VITE_LOCAL_TIMELOCK
+  ),
+};
+
+export const getDeployment = (chainId: number | null | undefined): ChainDeployment | undefined =>
+  chainId == null ? undefined : deployments[chainId];
+
+// LayerZero V2 endpoint ids, which CrossChainBridge takes as `dstChainId`
+const layerZeroEids: Record<number, number | undefined> = {
+  1: 30101,
+  137: 30109,
+  42161: 30110,
+  31337: Number(import.meta.env.VITE_LOCAL_LZ_EID) || undefined,
+};
+
+export const getLayerZeroEid = (chainId: number | null | undefined): number | undefined =>
+  chainId == null ? undefined : layerZeroEids[chainId];
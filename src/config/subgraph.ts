@@ -0,0 +1,14 @@
+// GraphQL endpoints of the subgraph deployed for each chain id.
+// A local graph-node serves them at http://127.0.0.1:8000/subgraphs/name/<name>
+const subgraphUrls: Record<number, string | undefined> = {
+  1: import.meta.env.VITE_ETHEREUM_SUBGRAPH_URL || undefined,
+  137: import.meta.env.VITE_POLYGON_SUBGRAPH_URL || undefined,
+  42161: import.meta.env.VITE_ARBITRUM_SUBGRAPH_URL || undefined,
+  31337: import.meta.env.VITE_LOCAL_SUBGRAPH_URL || undefined,
+};
+
+export const getSubgraphUrl = (chainId: number | null | undefined): string | undefined =>
+  chainId == null ? undefined : subgraphUrls[chainId];
+
+// Stablecoin amounts are summed across assets by the subgraph, so they share the 6 decimals of USDC/USDT
+export const SUBGRAPH_AMOUNT_DECIMALS = 6;
@@ -0,0 +1,82 @@
+import { connectorsForWallets, type Wallet, type WalletDetailsParams } from '@rainbow-me/rainbowkit';
+import { injectedWallet, walletConnectWallet } from '@rainbow-me/rainbowkit/wallets';
+import { createConfig, createConnector, http } from 'wagmi';
+import { arbitrum, hardhat, mainnet, polygon } from 'wagmi/chains';
+import { mock } from 'wagmi/connectors';
+import type { Chain as ViemChain } from 'viem';
+
+// Local Hardhat / anvil node support is on for `vite dev` and can be forced on for other builds
+export const LOCAL_CHAIN_ENABLED =
+  import.meta.env.DEV || import.meta.env.VITE_ENABLE_LOCAL_CHAIN === 'true';
+
+export const LOCAL_RPC_URL = import.meta.env.VITE_LOCAL_RPC_URL || 'http://127.0.0.1:8545';
+
+// First default account of `npx hardhat node` and `anvil` (unlocked on the node itself)
+export const LOCAL_DEV_ACCOUNT = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266' as const;
+
+const walletConnectProjectId = import.meta.env.VITE_WALLETCONNECT_PROJECT_ID || '';
+
+const localChain: ViemChain = {
+  ...hardhat,
+  rpcUrls: {
+    default: { http: [LOCAL_RPC_URL] },
+  },
+};
+
+// The local chain goes first so the dev account connector targets it by default
+const chains = (
+  LOCAL_CHAIN_ENABLED ? [localChain, mainnet, polygon, arbitrum] : [mainnet, polygon, arbitrum]
+) as [ViemChain, ...ViemChain[]];
+
+/**
+ * Wallet backed by an unlocked account on a local Hardhat / anvil node.
+ * Signing requests are forwarded to the node, so no browser extension is needed.
+ */
+const localAccountWallet = (): Wallet => ({
+  id: 'localAccount',
+  name: 'Local Dev Account',
+  iconUrl:
+    'data:image/svg+xml;utf8,<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 28 28"><rect width="28" height="28" rx="6" fill="%23f7df1e"/><text x="14" y="19" font-size="14" text-anchor="middle">⚒</text></svg>',
+  iconBackground: '#f7df1e',
+  createConnector: (walletDetails: WalletDetailsParams) =>
+    createConnector((config) => ({
+      ...mock({
+        accounts: [LOCAL_DEV_ACCOUNT],
+        features: { reconnect: true },
+      })(config),
+      ...walletDetails,
+    })),
+});
+
+const connectors = connectorsForWallets(
+  [
+    {
+      groupName: 'Recommended',
+      wallets: walletConnectProjectId ? [injectedWallet, walletConnectWallet] : [injectedWallet],
+    },
+    ...(LOCAL_CHAIN_ENABLED
+      ? [{ groupName: 'Development', wallets: [localAccountWallet] }]
+      : []),
+  ],
+  {
+    appName: 'YieldVault',
+    projectId: walletConnectProjectId,
+  }
+);
+
+export const wagmiConfig = createConfig({
+  chains,
+  connectors,
+  transports: {
+    [hardhat.id]: http(LOCAL_RPC_URL),
+    [mainnet.id]: http(import.meta.env.VITE_ETHEREUM_RPC_URL),
+    [polygon.id]: http(import.meta.env.VITE_POLYGON_RPC_URL),
+    [arbitrum.id]: http(import.meta.env.VITE_ARBITRUM_RPC_URL),
+  },
+});
+
+declare module 'wagmi' {
+  interface Register {
+    config: typeof wagmiConfig;
+  }
+}
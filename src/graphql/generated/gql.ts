@@ -0,0 +1,68 @@
+/* eslint-disable */
+import * as types from './graphql';
+
+
+
+/**
+ * Map of all GraphQL operations in the project.
+ *
+ * This map has several performance disadvantages:
+ * 1. It is not tree-shakeable, so it will include all operations in the project.
+ * 2. It is not minifiable, so the string of a GraphQL query will be multiple times inside the bundle.
+ * 3. It does not support dead code elimination, so it will add unused operations.
+ *
+ * Therefore it is highly recommended to use the babel or swc plugin for production.
+ * Learn more about it here: https://the-guild.dev/graphql/codegen/plugins/presets/preset-client#reducing-bundle-size
+ */
+type Documents = {
+    "\n  query SubgraphGlobalStats {\n    globalStats(id: \"global\") {\n      totalValueLocked\n      totalDeposits\n      totalWithdrawals\n      totalYieldGenerated\n      totalBridgeVolume\n      totalUsers\n      activeProtocols\n      lastUpdate\n    }\n    _meta {\n      block {\n        number\n      }\n      hasIndexingErrors\n    }\n  }\n": typeof types.SubgraphGlobalStatsDocument,
+    "\n  query SubgraphChainStats {\n    chainStats_collection(first: 100) {\n      chainId\n      name\n      totalValueLocked\n      activeProtocols\n      totalUsers\n      lastUpdate\n    }\n  }\n": typeof types.SubgraphChainStatsDocument,
+    "\n  query SubgraphDailyStats($from: BigInt!, $first: Int!) {\n    dailyStats_collection(\n      where: { date_gte: $from }\n      orderBy: date\n      orderDirection: asc\n      first: $first\n    ) {\n      date\n      totalValueLocked\n      totalDeposits\n      totalWithdrawals\n      totalYieldGenerated\n      totalBridgeVolume\n      uniqueUsers\n      depositCount\n      withdrawalCount\n      rebalanceCount\n    }\n    previous: dailyStats_collection(\n      where: { date_lt: $from }\n      orderBy: date\n      orderDirection: desc\n      first: 1\n    ) {\n      totalValueLocked\n    }\n  }\n": typeof types.SubgraphDailyStatsDocument,
+    "\n  query SubgraphWeeklyStats($from: BigInt!, $first: Int!) {\n    weeklyStats_collection(\n      where: { date_gte: $from }\n      orderBy: date\n      orderDirection: asc\n      first: $first\n    ) {\n      date\n      totalValueLocked\n      totalDeposits\n      totalWithdrawals\n      totalYieldGenerated\n      totalBridgeVolume\n      uniqueUsers\n      depositCount\n      withdrawalCount\n      rebalanceCount\n    }\n    previous: weeklyStats_collection(\n      where: { date_lt: $from }\n      orderBy: date\n      orderDirection: desc\n      first: 1\n    ) {\n      totalValueLocked\n    }\n  }\n": typeof types.SubgraphWeeklyStatsDocument,
+    "\n  query SubgraphApySnapshots($from: BigInt!, $first: Int!) {\n    apySnapshots(\n      where: { timestamp_gte: $from }\n      orderBy: timestamp\n      orderDirection: desc\n      first: $first\n    ) {\n      protocol {\n        id\n        name\n      }\n      asset {\n        id\n      }\n      apy\n      timestamp\n    }\n  }\n": typeof types.SubgraphApySnapshotsDocument,
+    "\n  query SubgraphApyAggregates($interval: String!, $from: BigInt!, $first: Int!) {\n    apyAggregates(\n      where: { interval: $interval, periodStart_gte: $from }\n      orderBy: periodStart\n      orderDirection: asc\n      first: $first\n    ) {\n      protocol {\n        id\n        name\n      }\n      asset {\n        id\n      }\n      averageAPY\n      periodStart\n    }\n  }\n": typeof types.SubgraphApyAggregatesDocument,
+    "\n  query SubgraphBridgeRequests($user: String!, $first: Int!) {\n    bridgeRequests(\n      where: { user: $user }\n      orderBy: timestamp\n      orderDirection: desc\n      first: $first\n    ) {\n      id\n      asset {\n        id\n        symbol\n        decimals\n      }\n      amount\n      sourceChainId\n      destinationChainId\n      recipient\n      timestamp\n      completed\n      completedTimestamp\n      cancelRequestedTimestamp\n      refunded\n      transactionHash\n    }\n  }\n": typeof types.SubgraphBridgeRequestsDocument,
+};
+const documents: Documents = {
+    "\n  query SubgraphGlobalStats {\n    globalStats(id: \"global\") {\n      totalValueLocked\n      totalDeposits\n      totalWithdrawals\n      totalYieldGenerated\n      totalBridgeVolume\n      totalUsers\n      activeProtocols\n      lastUpdate\n    }\n    _meta {\n      block {\n        number\n      }\n      hasIndexingErrors\n    }\n  }\n": types.SubgraphGlobalStatsDocument,
+    "\n  query SubgraphChainStats {\n    chainStats_collection(first: 100) {\n      chainId\n      name\n      totalValueLocked\n      activeProtocols\n      totalUsers\n      lastUpdate\n    }\n  }\n": types.SubgraphChainStatsDocument,
+    "\n  query SubgraphDailyStats($from: BigInt!, $first: Int!) {\n    dailyStats_collection(\n      where: { date_gte: $from }\n      orderBy: date\n      orderDirection: asc\n      first: $first\n    ) {\n      date\n      totalValueLocked\n      totalDeposits\n      totalWithdrawals\n      totalYieldGenerated\n      totalBridgeVolume\n      uniqueUsers\n      depositCount\n      withdrawalCount\n      rebalanceCount\n    }\n    previous: dailyStats_collection(\n      where: { date_lt: $from }\n      orderBy: date\n      orderDirection: desc\n      first: 1\n    ) {\n      totalValueLocked\n    }\n  }\n": types.SubgraphDailyStatsDocument,
+    "\n  query SubgraphWeeklyStats($from: BigInt!, $first: Int!) {\n    weeklyStats_collection(\n      where: { date_gte: $from }\n      orderBy: date\n      orderDirection: asc\n      first: $first\n    ) {\n      date\n      totalValueLocked\n      totalDeposits\n      totalWithdrawals\n      totalYieldGenerated\n      totalBridgeVolume\n      uniqueUsers\n      depositCount\n      withdrawalCount\n      rebalanceCount\n    }\n    previous: weeklyStats_collection(\n      where: { date_lt: $from }\n      orderBy: date\n      orderDirection: desc\n      first: 1\n    ) {\n      totalValueLocked\n    }\n  }\n": types.SubgraphWeeklyStatsDocument,
+    "\n  query SubgraphApySnapshots($from: BigInt!, $first: Int!) {\n    apySnapshots(\n      where: { timestamp_gte: $from }\n      orderBy: timestamp\n      orderDirection: desc\n      first: $first\n    ) {\n      protocol {\n        id\n        name\n      }\n      asset {\n        id\n      }\n      apy\n      timestamp\n    }\n  }\n": types.SubgraphApySnapshotsDocument,
+    "\n  query SubgraphApyAggregates($interval: String!, $from: BigInt!, $first: Int!) {\n    apyAggregates(\n      where: { interval: $interval, periodStart_gte: $from }\n      orderBy: periodStart\n      orderDirection: asc\n      first: $first\n    ) {\n      protocol {\n        id\n        name\n      }\n      asset {\n        id\n      }\n      averageAPY\n      periodStart\n    }\n  }\n": types.SubgraphApyAggregatesDocument,
+    "\n  query SubgraphBridgeRequests($user: String!, $first: Int!) {\n    bridgeRequests(\n      where: { user: $user }\n      orderBy: timestamp\n      orderDirection: desc\n      first: $first\n    ) {\n      id\n      asset {\n        id\n        symbol\n        decimals\n      }\n      amount\n      sourceChainId\n      destinationChainId\n      recipient\n      timestamp\n      completed\n      completedTimestamp\n      cancelRequestedTimestamp\n      refunded\n      transactionHash\n    }\n  }\n": types.SubgraphBridgeRequestsDocument,
+};
+
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query SubgraphGlobalStats {\n    globalStats(id: \"global\") {\n      totalValueLocked\n      totalDeposits\n      totalWithdrawals\n      totalYieldGenerated\n      totalBridgeVolume\n      totalUsers\n      activeProtocols\n      lastUpdate\n    }\n    _meta {\n      block {\n        number\n      }\n      hasIndexingErrors\n    }\n  }\n"): typeof import('./graphql').SubgraphGlobalStatsDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query SubgraphChainStats {\n    chainStats_collection(first: 100) {\n      chainId\n      name\n      totalValueLocked\n      activeProtocols\n      totalUsers\n      lastUpdate\n    }\n  }\n"): typeof import('./graphql').SubgraphChainStatsDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query SubgraphDailyStats($from: BigInt!, $first: Int!) {\n    dailyStats_collection(\n      where: { date_gte: $from }\n      orderBy: date\n      orderDirection: asc\n      first: $first\n    ) {\n      date\n      totalValueLocked\n      totalDeposits\n      totalWithdrawals\n      totalYieldGenerated\n      totalBridgeVolume\n      uniqueUsers\n      depositCount\n      withdrawalCount\n      rebalanceCount\n    }\n    previous: dailyStats_collection(\n      where: { date_lt: $from }\n      orderBy: date\n      orderDirection: desc\n      first: 1\n    ) {\n      totalValueLocked\n    }\n  }\n"): typeof import('./graphql').SubgraphDailyStatsDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query SubgraphWeeklyStats($from: BigInt!, $first: Int!) {\n    weeklyStats_collection(\n      where: { date_gte: $from }\n      orderBy: date\n      orderDirection: asc\n      first: $first\n    ) {\n      date\n      totalValueLocked\n      totalDeposits\n      totalWithdrawals\n      totalYieldGenerated\n      totalBridgeVolume\n      uniqueUsers\n      depositCount\n      withdrawalCount\n      rebalanceCount\n    }\n    previous: weeklyStats_collection(\n      where: { date_lt: $from }\n      orderBy: date\n      orderDirection: desc\n      first: 1\n    ) {\n      totalValueLocked\n    }\n  }\n"): typeof import('./graphql').SubgraphWeeklyStatsDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query SubgraphApySnapshots($from: BigInt!, $first: Int!) {\n    apySnapshots(\n      where: { timestamp_gte: $from }\n      orderBy: timestamp\n      orderDirection: desc\n      first: $first\n    ) {\n      protocol {\n        id\n        name\n      }\n      asset {\n        id\n      }\n      apy\n      timestamp\n    }\n  }\n"): typeof import('./graphql').SubgraphApySnapshotsDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query SubgraphApyAggregates($interval: String!, $from: BigInt!, $first: Int!) {\n    apyAggregates(\n      where: { interval: $interval, periodStart_gte: $from }\n      orderBy: periodStart\n      orderDirection: asc\n      first: $first\n    ) {\n      protocol {\n        id\n        name\n      }\n      asset {\n        id\n      }\n      averageAPY\n      periodStart\n    }\n  }\n"): typeof import('./graphql').SubgraphApyAggregatesDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query SubgraphBridgeRequests($user: String!, $first: Int!) {\n    bridgeRequests(\n      where: { user: $user }\n      orderBy: timestamp\n      orderDirection: desc\n      first: $first\n    ) {\n      id\n      asset {\n        id\n        symbol\n        decimals\n      }\n      amount\n      sourceChainId\n      destinationChainId\n      recipient\n      timestamp\n      completed\n      completedTimestamp\n      cancelRequestedTimestamp\n      refunded\n      transactionHash\n    }\n  }\n"): typeof import('./graphql').SubgraphBridgeRequestsDocument;
+
+
+export function graphql(source: string) {
+  return (documents as any)[source] ?? {};
+}
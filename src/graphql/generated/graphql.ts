@@ -0,0 +1,2490 @@
+/* eslint-disable */
+import type { DocumentTypeDecoration } from '@graphql-typed-document-node/core';
+export type Maybe<T> = T | null;
+export type InputMaybe<T> = T | null | undefined;
+export type Exact<T extends { [key: string]: unknown }> = { [K in keyof T]: T[K] };
+export type MakeOptional<T, K extends keyof T> = Omit<T, K> & { [SubKey in K]?: Maybe<T[SubKey]> };
+export type MakeMaybe<T, K extends keyof T> = Omit<T, K> & { [SubKey in K]: Maybe<T[SubKey]> };
+export type MakeEmpty<T extends { [key: string]: unknown }, K extends keyof T> = { [_ in K]?: never };
+export type Incremental<T> = T | { [P in keyof T]?: P extends ' $fragmentName' | '__typename' ? T[P] : never };
+/** All built-in and custom scalars, mapped to their actual values */
+export type Scalars = {
+  ID: { input: string; output: string; }
+  String: { input: string; output: string; }
+  Boolean: { input: boolean; output: boolean; }
+  Int: { input: number; output: number; }
+  Float: { input: number; output: number; }
+  BigDecimal: { input: string; output: string; }
+  BigInt: { input: string; output: string; }
+  Bytes: { input: string; output: string; }
+  Int8: { input: string; output: string; }
+  Timestamp: { input: string; output: string; }
+};
+
+export type ApyAggregate = {
+  __typename?: 'APYAggregate';
+  apySum: Scalars['BigInt']['output'];
+  asset: Asset;
+  averageAPY: Scalars['BigInt']['output'];
+  id: Scalars['ID']['output'];
+  interval: Scalars['String']['output'];
+  maxAPY: Scalars['BigInt']['output'];
+  minAPY: Scalars['BigInt']['output'];
+  periodStart: Scalars['BigInt']['output'];
+  protocol: Protocol;
+  snapshotCount: Scalars['Int']['output'];
+};
+
+export type ApyAggregate_Filter = {
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<ApyAggregate_Filter>>>;
+  apySum?: InputMaybe<Scalars['BigInt']['input']>;
+  apySum_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  apySum_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  apySum_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  apySum_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  apySum_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  apySum_not?: InputMaybe<Scalars['BigInt']['input']>;
+  apySum_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  asset?: InputMaybe<Scalars['String']['input']>;
+  asset_?: InputMaybe<Asset_Filter>;
+  asset_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  asset_not?: InputMaybe<Scalars['String']['input']>;
+  asset_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  averageAPY?: InputMaybe<Scalars['BigInt']['input']>;
+  averageAPY_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  averageAPY_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  averageAPY_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  averageAPY_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  averageAPY_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  averageAPY_not?: InputMaybe<Scalars['BigInt']['input']>;
+  averageAPY_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  id?: InputMaybe<Scalars['ID']['input']>;
+  id_gt?: InputMaybe<Scalars['ID']['input']>;
+  id_gte?: InputMaybe<Scalars['ID']['input']>;
+  id_in?: InputMaybe<Array<Scalars['ID']['input']>>;
+  id_lt?: InputMaybe<Scalars['ID']['input']>;
+  id_lte?: InputMaybe<Scalars['ID']['input']>;
+  id_not?: InputMaybe<Scalars['ID']['input']>;
+  id_not_in?: InputMaybe<Array<Scalars['ID']['input']>>;
+  interval?: InputMaybe<Scalars['String']['input']>;
+  interval_gt?: InputMaybe<Scalars['String']['input']>;
+  interval_gte?: InputMaybe<Scalars['String']['input']>;
+  interval_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  interval_lt?: InputMaybe<Scalars['String']['input']>;
+  interval_lte?: InputMaybe<Scalars['String']['input']>;
+  interval_not?: InputMaybe<Scalars['String']['input']>;
+  interval_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  maxAPY?: InputMaybe<Scalars['BigInt']['input']>;
+  maxAPY_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  maxAPY_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  maxAPY_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  maxAPY_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  maxAPY_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  maxAPY_not?: InputMaybe<Scalars['BigInt']['input']>;
+  maxAPY_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  minAPY?: InputMaybe<Scalars['BigInt']['input']>;
+  minAPY_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  minAPY_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  minAPY_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  minAPY_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  minAPY_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  minAPY_not?: InputMaybe<Scalars['BigInt']['input']>;
+  minAPY_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  or?: InputMaybe<Array<InputMaybe<ApyAggregate_Filter>>>;
+  periodStart?: InputMaybe<Scalars['BigInt']['input']>;
+  periodStart_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  periodStart_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  periodStart_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  periodStart_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  periodStart_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  periodStart_not?: InputMaybe<Scalars['BigInt']['input']>;
+  periodStart_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  protocol?: InputMaybe<Scalars['String']['input']>;
+  protocol_?: InputMaybe<Protocol_Filter>;
+  protocol_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  protocol_not?: InputMaybe<Scalars['String']['input']>;
+  protocol_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  snapshotCount?: InputMaybe<Scalars['Int']['input']>;
+  snapshotCount_gt?: InputMaybe<Scalars['Int']['input']>;
+  snapshotCount_gte?: InputMaybe<Scalars['Int']['input']>;
+  snapshotCount_in?: InputMaybe<Array<Scalars['Int']['input']>>;
+  snapshotCount_lt?: InputMaybe<Scalars['Int']['input']>;
+  snapshotCount_lte?: InputMaybe<Scalars['Int']['input']>;
+  snapshotCount_not?: InputMaybe<Scalars['Int']['input']>;
+  snapshotCount_not_in?: InputMaybe<Array<Scalars['Int']['input']>>;
+};
+
+export type ApyAggregate_OrderBy =
+  | 'apySum'
+  | 'asset'
+  | 'asset__decimals'
+  | 'asset__id'
+  | 'asset__supported'
+  | 'asset__symbol'
+  | 'asset__totalDeposited'
+  | 'averageAPY'
+  | 'id'
+  | 'interval'
+  | 'maxAPY'
+  | 'minAPY'
+  | 'periodStart'
+  | 'protocol'
+  | 'protocol__active'
+  | 'protocol__adapter'
+  | 'protocol__chainId'
+  | 'protocol__currentAPY'
+  | 'protocol__id'
+  | 'protocol__lastUpdate'
+  | 'protocol__name'
+  | 'protocol__totalDeposited'
+  | 'snapshotCount';
+
+export type ApySnapshot = {
+  __typename?: 'APYSnapshot';
+  apy: Scalars['BigInt']['output'];
+  asset: Asset;
+  blockNumber: Scalars['BigInt']['output'];
+  id: Scalars['ID']['output'];
+  protocol: Protocol;
+  timestamp: Scalars['BigInt']['output'];
+};
+
+export type ApySnapshot_Filter = {
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<ApySnapshot_Filter>>>;
+  apy?: InputMaybe<Scalars['BigInt']['input']>;
+  apy_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  apy_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  apy_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  apy_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  apy_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  apy_not?: InputMaybe<Scalars['BigInt']['input']>;
+  apy_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  asset?: InputMaybe<Scalars['String']['input']>;
+  asset_?: InputMaybe<Asset_Filter>;
+  asset_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  asset_not?: InputMaybe<Scalars['String']['input']>;
+  asset_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  id?: InputMaybe<Scalars['ID']['input']>;
+  id_gt?: InputMaybe<Scalars['ID']['input']>;
+  id_gte?: InputMaybe<Scalars['ID']['input']>;
+  id_in?: InputMaybe<Array<Scalars['ID']['input']>>;
+  id_lt?: InputMaybe<Scalars['ID']['input']>;
+  id_lte?: InputMaybe<Scalars['ID']['input']>;
+  id_not?: InputMaybe<Scalars['ID']['input']>;
+  id_not_in?: InputMaybe<Array<Scalars['ID']['input']>>;
+  or?: InputMaybe<Array<InputMaybe<ApySnapshot_Filter>>>;
+  protocol?: InputMaybe<Scalars['String']['input']>;
+  protocol_?: InputMaybe<Protocol_Filter>;
+  protocol_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  protocol_not?: InputMaybe<Scalars['String']['input']>;
+  protocol_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  timestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  timestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  timestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  timestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  timestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  timestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  timestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  timestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+};
+
+export type ApySnapshot_OrderBy =
+  | 'apy'
+  | 'asset'
+  | 'asset__decimals'
+  | 'asset__id'
+  | 'asset__supported'
+  | 'asset__symbol'
+  | 'asset__totalDeposited'
+  | 'blockNumber'
+  | 'id'
+  | 'protocol'
+  | 'protocol__active'
+  | 'protocol__adapter'
+  | 'protocol__chainId'
+  | 'protocol__currentAPY'
+  | 'protocol__id'
+  | 'protocol__lastUpdate'
+  | 'protocol__name'
+  | 'protocol__totalDeposited'
+  | 'timestamp';
+
+export type ActiveUser = {
+  __typename?: 'ActiveUser';
+  id: Scalars['ID']['output'];
+  interval: Scalars['String']['output'];
+  periodStart: Scalars['BigInt']['output'];
+  user: User;
+};
+
+export type ActiveUser_Filter = {
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<ActiveUser_Filter>>>;
+  id?: InputMaybe<Scalars['ID']['input']>;
+  id_gt?: InputMaybe<Scalars['ID']['input']>;
+  id_gte?: InputMaybe<Scalars['ID']['input']>;
+  id_in?: InputMaybe<Array<Scalars['ID']['input']>>;
+  id_lt?: InputMaybe<Scalars['ID']['input']>;
+  id_lte?: InputMaybe<Scalars['ID']['input']>;
+  id_not?: InputMaybe<Scalars['ID']['input']>;
+  id_not_in?: InputMaybe<Array<Scalars['ID']['input']>>;
+  interval?: InputMaybe<Scalars['String']['input']>;
+  interval_gt?: InputMaybe<Scalars['String']['input']>;
+  interval_gte?: InputMaybe<Scalars['String']['input']>;
+  interval_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  interval_lt?: InputMaybe<Scalars['String']['input']>;
+  interval_lte?: InputMaybe<Scalars['String']['input']>;
+  interval_not?: InputMaybe<Scalars['String']['input']>;
+  interval_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  or?: InputMaybe<Array<InputMaybe<ActiveUser_Filter>>>;
+  periodStart?: InputMaybe<Scalars['BigInt']['input']>;
+  periodStart_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  periodStart_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  periodStart_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  periodStart_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  periodStart_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  periodStart_not?: InputMaybe<Scalars['BigInt']['input']>;
+  periodStart_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  user?: InputMaybe<Scalars['String']['input']>;
+  user_?: InputMaybe<User_Filter>;
+  user_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  user_not?: InputMaybe<Scalars['String']['input']>;
+  user_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+};
+
+export type ActiveUser_OrderBy =
+  | 'id'
+  | 'interval'
+  | 'periodStart'
+  | 'user'
+  | 'user__id'
+  | 'user__totalDeposited'
+  | 'user__totalWithdrawn'
+  | 'user__totalYieldEarned';
+
+export type Asset = {
+  __typename?: 'Asset';
+  decimals: Scalars['Int']['output'];
+  id: Scalars['ID']['output'];
+  positions: Array<UserPosition>;
+  supported: Scalars['Boolean']['output'];
+  symbol: Scalars['String']['output'];
+  totalDeposited: Scalars['BigInt']['output'];
+};
+
+
+export type AssetPositionsArgs = {
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<UserPosition_OrderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  where?: InputMaybe<UserPosition_Filter>;
+};
+
+export type Asset_Filter = {
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<Asset_Filter>>>;
+  decimals?: InputMaybe<Scalars['Int']['input']>;
+  decimals_gt?: InputMaybe<Scalars['Int']['input']>;
+  decimals_gte?: InputMaybe<Scalars['Int']['input']>;
+  decimals_in?: InputMaybe<Array<Scalars['Int']['input']>>;
+  decimals_lt?: InputMaybe<Scalars['Int']['input']>;
+  decimals_lte?: InputMaybe<Scalars['Int']['input']>;
+  decimals_not?: InputMaybe<Scalars['Int']['input']>;
+  decimals_not_in?: InputMaybe<Array<Scalars['Int']['input']>>;
+  id?: InputMaybe<Scalars['ID']['input']>;
+  id_gt?: InputMaybe<Scalars['ID']['input']>;
+  id_gte?: InputMaybe<Scalars['ID']['input']>;
+  id_in?: InputMaybe<Array<Scalars['ID']['input']>>;
+  id_lt?: InputMaybe<Scalars['ID']['input']>;
+  id_lte?: InputMaybe<Scalars['ID']['input']>;
+  id_not?: InputMaybe<Scalars['ID']['input']>;
+  id_not_in?: InputMaybe<Array<Scalars['ID']['input']>>;
+  or?: InputMaybe<Array<InputMaybe<Asset_Filter>>>;
+  positions_?: InputMaybe<UserPosition_Filter>;
+  supported?: InputMaybe<Scalars['Boolean']['input']>;
+  supported_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  supported_not?: InputMaybe<Scalars['Boolean']['input']>;
+  supported_not_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  symbol?: InputMaybe<Scalars['String']['input']>;
+  symbol_gt?: InputMaybe<Scalars['String']['input']>;
+  symbol_gte?: InputMaybe<Scalars['String']['input']>;
+  symbol_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  symbol_lt?: InputMaybe<Scalars['String']['input']>;
+  symbol_lte?: InputMaybe<Scalars['String']['input']>;
+  symbol_not?: InputMaybe<Scalars['String']['input']>;
+  symbol_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  totalDeposited?: InputMaybe<Scalars['BigInt']['input']>;
+  totalDeposited_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalDeposited_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalDeposited_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalDeposited_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalDeposited_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalDeposited_not?: InputMaybe<Scalars['BigInt']['input']>;
+  totalDeposited_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+};
+
+export type Asset_OrderBy =
+  | 'decimals'
+  | 'id'
+  | 'positions'
+  | 'supported'
+  | 'symbol'
+  | 'totalDeposited';
+
+export type BlockChangedFilter = {
+  number_gte: Scalars['Int']['input'];
+};
+
+export type Block_Height = {
+  hash?: InputMaybe<Scalars['Bytes']['input']>;
+  number?: InputMaybe<Scalars['Int']['input']>;
+  number_gte?: InputMaybe<Scalars['Int']['input']>;
+};
+
+export type BridgeRequest = {
+  __typename?: 'BridgeRequest';
+  amount: Scalars['BigInt']['output'];
+  asset: Asset;
+  cancelRequestedTimestamp?: Maybe<Scalars['BigInt']['output']>;
+  completed: Scalars['Boolean']['output'];
+  completedTimestamp?: Maybe<Scalars['BigInt']['output']>;
+  destinationChainId: Scalars['BigInt']['output'];
+  id: Scalars['ID']['output'];
+  recipient: Scalars['Bytes']['output'];
+  refunded: Scalars['Boolean']['output'];
+  refundedTimestamp?: Maybe<Scalars['BigInt']['output']>;
+  sourceChainId: Scalars['BigInt']['output'];
+  timestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+  user: User;
+};
+
+export type BridgeRequest_Filter = {
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  amount?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  amount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  and?: InputMaybe<Array<InputMaybe<BridgeRequest_Filter>>>;
+  asset?: InputMaybe<Scalars['String']['input']>;
+  asset_?: InputMaybe<Asset_Filter>;
+  asset_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  asset_not?: InputMaybe<Scalars['String']['input']>;
+  asset_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  cancelRequestedTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  cancelRequestedTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  cancelRequestedTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  cancelRequestedTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  cancelRequestedTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  cancelRequestedTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  cancelRequestedTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  cancelRequestedTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  completed?: InputMaybe<Scalars['Boolean']['input']>;
+  completedTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  completedTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  completedTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  completedTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  completedTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  completedTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  completedTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  completedTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  completed_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  completed_not?: InputMaybe<Scalars['Boolean']['input']>;
+  completed_not_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  destinationChainId?: InputMaybe<Scalars['BigInt']['input']>;
+  destinationChainId_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  destinationChainId_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  destinationChainId_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  destinationChainId_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  destinationChainId_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  destinationChainId_not?: InputMaybe<Scalars['BigInt']['input']>;
+  destinationChainId_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  id?: InputMaybe<Scalars['ID']['input']>;
+  id_gt?: InputMaybe<Scalars['ID']['input']>;
+  id_gte?: InputMaybe<Scalars['ID']['input']>;
+  id_in?: InputMaybe<Array<Scalars['ID']['input']>>;
+  id_lt?: InputMaybe<Scalars['ID']['input']>;
+  id_lte?: InputMaybe<Scalars['ID']['input']>;
+  id_not?: InputMaybe<Scalars['ID']['input']>;
+  id_not_in?: InputMaybe<Array<Scalars['ID']['input']>>;
+  or?: InputMaybe<Array<InputMaybe<BridgeRequest_Filter>>>;
+  recipient?: InputMaybe<Scalars['Bytes']['input']>;
+  recipient_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  recipient_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  recipient_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  recipient_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  recipient_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  recipient_not?: InputMaybe<Scalars['Bytes']['input']>;
+  recipient_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  refunded?: InputMaybe<Scalars['Boolean']['input']>;
+  refundedTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  refundedTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  refundedTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  refundedTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  refundedTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  refundedTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  refundedTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  refundedTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  refunded_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  refunded_not?: InputMaybe<Scalars['Boolean']['input']>;
+  refunded_not_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  sourceChainId?: InputMaybe<Scalars['BigInt']['input']>;
+  sourceChainId_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  sourceChainId_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  sourceChainId_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  sourceChainId_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  sourceChainId_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  sourceChainId_not?: InputMaybe<Scalars['BigInt']['input']>;
+  sourceChainId_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  timestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  timestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  timestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  timestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  timestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  timestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  timestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  timestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  user?: InputMaybe<Scalars['String']['input']>;
+  user_?: InputMaybe<User_Filter>;
+  user_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  user_not?: InputMaybe<Scalars['String']['input']>;
+  user_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+};
+
+export type BridgeRequest_OrderBy =
+  | 'amount'
+  | 'asset'
+  | 'asset__decimals'
+  | 'asset__id'
+  | 'asset__supported'
+  | 'asset__symbol'
+  | 'asset__totalDeposited'
+  | 'cancelRequestedTimestamp'
+  | 'completed'
+  | 'completedTimestamp'
+  | 'destinationChainId'
+  | 'id'
+  | 'recipient'
+  | 'refunded'
+  | 'refundedTimestamp'
+  | 'sourceChainId'
+  | 'timestamp'
+  | 'transactionHash'
+  | 'user'
+  | 'user__id'
+  | 'user__totalDeposited'
+  | 'user__totalWithdrawn'
+  | 'user__totalYieldEarned';
+
+export type ChainStats = {
+  __typename?: 'ChainStats';
+  activeProtocols: Scalars['Int']['output'];
+  chainId: Scalars['BigInt']['output'];
+  id: Scalars['ID']['output'];
+  lastUpdate: Scalars['BigInt']['output'];
+  name: Scalars['String']['output'];
+  totalUsers: Scalars['BigInt']['output'];
+  totalValueLocked: Scalars['BigInt']['output'];
+};
+
+export type ChainStats_Filter = {
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  activeProtocols?: InputMaybe<Scalars['Int']['input']>;
+  activeProtocols_gt?: InputMaybe<Scalars['Int']['input']>;
+  activeProtocols_gte?: InputMaybe<Scalars['Int']['input']>;
+  activeProtocols_in?: InputMaybe<Array<Scalars['Int']['input']>>;
+  activeProtocols_lt?: InputMaybe<Scalars['Int']['input']>;
+  activeProtocols_lte?: InputMaybe<Scalars['Int']['input']>;
+  activeProtocols_not?: InputMaybe<Scalars['Int']['input']>;
+  activeProtocols_not_in?: InputMaybe<Array<Scalars['Int']['input']>>;
+  and?: InputMaybe<Array<InputMaybe<ChainStats_Filter>>>;
+  chainId?: InputMaybe<Scalars['BigInt']['input']>;
+  chainId_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  chainId_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  chainId_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  chainId_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  chainId_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  chainId_not?: InputMaybe<Scalars['BigInt']['input']>;
+  chainId_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  id?: InputMaybe<Scalars['ID']['input']>;
+  id_gt?: InputMaybe<Scalars['ID']['input']>;
+  id_gte?: InputMaybe<Scalars['ID']['input']>;
+  id_in?: InputMaybe<Array<Scalars['ID']['input']>>;
+  id_lt?: InputMaybe<Scalars['ID']['input']>;
+  id_lte?: InputMaybe<Scalars['ID']['input']>;
+  id_not?: InputMaybe<Scalars['ID']['input']>;
+  id_not_in?: InputMaybe<Array<Scalars['ID']['input']>>;
+  lastUpdate?: InputMaybe<Scalars['BigInt']['input']>;
+  lastUpdate_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  lastUpdate_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  lastUpdate_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  lastUpdate_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  lastUpdate_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  lastUpdate_not?: InputMaybe<Scalars['BigInt']['input']>;
+  lastUpdate_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  name?: InputMaybe<Scalars['String']['input']>;
+  name_gt?: InputMaybe<Scalars['String']['input']>;
+  name_gte?: InputMaybe<Scalars['String']['input']>;
+  name_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  name_lt?: InputMaybe<Scalars['String']['input']>;
+  name_lte?: InputMaybe<Scalars['String']['input']>;
+  name_not?: InputMaybe<Scalars['String']['input']>;
+  name_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  or?: InputMaybe<Array<InputMaybe<ChainStats_Filter>>>;
+  totalUsers?: InputMaybe<Scalars['BigInt']['input']>;
+  totalUsers_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalUsers_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalUsers_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalUsers_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalUsers_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalUsers_not?: InputMaybe<Scalars['BigInt']['input']>;
+  totalUsers_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalValueLocked?: InputMaybe<Scalars['BigInt']['input']>;
+  totalValueLocked_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalValueLocked_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalValueLocked_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalValueLocked_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalValueLocked_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalValueLocked_not?: InputMaybe<Scalars['BigInt']['input']>;
+  totalValueLocked_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+};
+
+export type ChainStats_OrderBy =
+  | 'activeProtocols'
+  | 'chainId'
+  | 'id'
+  | 'lastUpdate'
+  | 'name'
+  | 'totalUsers'
+  | 'totalValueLocked';
+
+export type CrossChainMessage = {
+  __typename?: 'CrossChainMessage';
+  amount?: Maybe<Scalars['BigInt']['output']>;
+  asset?: Maybe<Asset>;
+  data?: Maybe<Scalars['Bytes']['output']>;
+  destinationChainId: Scalars['BigInt']['output'];
+  failed: Scalars['Boolean']['output'];
+  failedTimestamp?: Maybe<Scalars['BigInt']['output']>;
+  failureReason?: Maybe<Scalars['Bytes']['output']>;
+  id: Scalars['ID']['output'];
+  messageType: Scalars['Int']['output'];
+  processed: Scalars['Boolean']['output'];
+  refunded: Scalars['Boolean']['output'];
+  sender: Scalars['Bytes']['output'];
+  sourceChainId: Scalars['BigInt']['output'];
+  timestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+};
+
+export type CrossChainMessage_Filter = {
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  amount?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  amount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  and?: InputMaybe<Array<InputMaybe<CrossChainMessage_Filter>>>;
+  asset?: InputMaybe<Scalars['String']['input']>;
+  asset_?: InputMaybe<Asset_Filter>;
+  asset_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  asset_not?: InputMaybe<Scalars['String']['input']>;
+  asset_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  data?: InputMaybe<Scalars['Bytes']['input']>;
+  data_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  data_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  data_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  data_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  data_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  data_not?: InputMaybe<Scalars['Bytes']['input']>;
+  data_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  destinationChainId?: InputMaybe<Scalars['BigInt']['input']>;
+  destinationChainId_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  destinationChainId_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  destinationChainId_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  destinationChainId_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  destinationChainId_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  destinationChainId_not?: InputMaybe<Scalars['BigInt']['input']>;
+  destinationChainId_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  failed?: InputMaybe<Scalars['Boolean']['input']>;
+  failedTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  failedTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  failedTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  failedTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  failedTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  failedTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  failedTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  failedTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  failed_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  failed_not?: InputMaybe<Scalars['Boolean']['input']>;
+  failed_not_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  failureReason?: InputMaybe<Scalars['Bytes']['input']>;
+  failureReason_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  failureReason_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  failureReason_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  failureReason_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  failureReason_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  failureReason_not?: InputMaybe<Scalars['Bytes']['input']>;
+  failureReason_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  id?: InputMaybe<Scalars['ID']['input']>;
+  id_gt?: InputMaybe<Scalars['ID']['input']>;
+  id_gte?: InputMaybe<Scalars['ID']['input']>;
+  id_in?: InputMaybe<Array<Scalars['ID']['input']>>;
+  id_lt?: InputMaybe<Scalars['ID']['input']>;
+  id_lte?: InputMaybe<Scalars['ID']['input']>;
+  id_not?: InputMaybe<Scalars['ID']['input']>;
+  id_not_in?: InputMaybe<Array<Scalars['ID']['input']>>;
+  messageType?: InputMaybe<Scalars['Int']['input']>;
+  messageType_gt?: InputMaybe<Scalars['Int']['input']>;
+  messageType_gte?: InputMaybe<Scalars['Int']['input']>;
+  messageType_in?: InputMaybe<Array<Scalars['Int']['input']>>;
+  messageType_lt?: InputMaybe<Scalars['Int']['input']>;
+  messageType_lte?: InputMaybe<Scalars['Int']['input']>;
+  messageType_not?: InputMaybe<Scalars['Int']['input']>;
+  messageType_not_in?: InputMaybe<Array<Scalars['Int']['input']>>;
+  or?: InputMaybe<Array<InputMaybe<CrossChainMessage_Filter>>>;
+  processed?: InputMaybe<Scalars['Boolean']['input']>;
+  processed_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  processed_not?: InputMaybe<Scalars['Boolean']['input']>;
+  processed_not_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  refunded?: InputMaybe<Scalars['Boolean']['input']>;
+  refunded_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  refunded_not?: InputMaybe<Scalars['Boolean']['input']>;
+  refunded_not_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  sender?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  sender_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_not?: InputMaybe<Scalars['Bytes']['input']>;
+  sender_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  sourceChainId?: InputMaybe<Scalars['BigInt']['input']>;
+  sourceChainId_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  sourceChainId_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  sourceChainId_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  sourceChainId_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  sourceChainId_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  sourceChainId_not?: InputMaybe<Scalars['BigInt']['input']>;
+  sourceChainId_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  timestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  timestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  timestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  timestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  timestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  timestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  timestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  timestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+};
+
+export type CrossChainMessage_OrderBy =
+  | 'amount'
+  | 'asset'
+  | 'asset__decimals'
+  | 'asset__id'
+  | 'asset__supported'
+  | 'asset__symbol'
+  | 'asset__totalDeposited'
+  | 'data'
+  | 'destinationChainId'
+  | 'failed'
+  | 'failedTimestamp'
+  | 'failureReason'
+  | 'id'
+  | 'messageType'
+  | 'processed'
+  | 'refunded'
+  | 'sender'
+  | 'sourceChainId'
+  | 'timestamp'
+  | 'transactionHash';
+
+export type DailyStats = {
+  __typename?: 'DailyStats';
+  date: Scalars['BigInt']['output'];
+  depositCount: Scalars['Int']['output'];
+  id: Scalars['ID']['output'];
+  rebalanceCount: Scalars['Int']['output'];
+  totalBridgeVolume: Scalars['BigInt']['output'];
+  totalDeposits: Scalars['BigInt']['output'];
+  totalValueLocked: Scalars['BigInt']['output'];
+  totalWithdrawals: Scalars['BigInt']['output'];
+  totalYieldGenerated: Scalars['BigInt']['output'];
+  uniqueUsers: Scalars['BigInt']['output'];
+  withdrawalCount: Scalars['Int']['output'];
+};
+
+export type DailyStats_Filter = {
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<DailyStats_Filter>>>;
+  date?: InputMaybe<Scalars['BigInt']['input']>;
+  date_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  date_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  date_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  date_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  date_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  date_not?: InputMaybe<Scalars['BigInt']['input']>;
+  date_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  depositCount?: InputMaybe<Scalars['Int']['input']>;
+  depositCount_gt?: InputMaybe<Scalars['Int']['input']>;
+  depositCount_gte?: InputMaybe<Scalars['Int']['input']>;
+  depositCount_in?: InputMaybe<Array<Scalars['Int']['input']>>;
+  depositCount_lt?: InputMaybe<Scalars['Int']['input']>;
+  depositCount_lte?: InputMaybe<Scalars['Int']['input']>;
+  depositCount_not?: InputMaybe<Scalars['Int']['input']>;
+  depositCount_not_in?: InputMaybe<Array<Scalars['Int']['input']>>;
+  id?: InputMaybe<Scalars['ID']['input']>;
+  id_gt?: InputMaybe<Scalars['ID']['input']>;
+  id_gte?: InputMaybe<Scalars['ID']['input']>;
+  id_in?: InputMaybe<Array<Scalars['ID']['input']>>;
+  id_lt?: InputMaybe<Scalars['ID']['input']>;
+  id_lte?: InputMaybe<Scalars['ID']['input']>;
+  id_not?: InputMaybe<Scalars['ID']['input']>;
+  id_not_in?: InputMaybe<Array<Scalars['ID']['input']>>;
+  or?: InputMaybe<Array<InputMaybe<DailyStats_Filter>>>;
+  rebalanceCount?: InputMaybe<Scalars['Int']['input']>;
+  rebalanceCount_gt?: InputMaybe<Scalars['Int']['input']>;
+  rebalanceCount_gte?: InputMaybe<Scalars['Int']['input']>;
+  rebalanceCount_in?: InputMaybe<Array<Scalars['Int']['input']>>;
+  rebalanceCount_lt?: InputMaybe<Scalars['Int']['input']>;
+  rebalanceCount_lte?: InputMaybe<Scalars['Int']['input']>;
+  rebalanceCount_not?: InputMaybe<Scalars['Int']['input']>;
+  rebalanceCount_not_in?: InputMaybe<Array<Scalars['Int']['input']>>;
+  totalBridgeVolume?: InputMaybe<Scalars['BigInt']['input']>;
+  totalBridgeVolume_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalBridgeVolume_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalBridgeVolume_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalBridgeVolume_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalBridgeVolume_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalBridgeVolume_not?: InputMaybe<Scalars['BigInt']['input']>;
+  totalBridgeVolume_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalDeposits?: InputMaybe<Scalars['BigInt']['input']>;
+  totalDeposits_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalDeposits_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalDeposits_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalDeposits_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalDeposits_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalDeposits_not?: InputMaybe<Scalars['BigInt']['input']>;
+  totalDeposits_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalValueLocked?: InputMaybe<Scalars['BigInt']['input']>;
+  totalValueLocked_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalValueLocked_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalValueLocked_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalValueLocked_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalValueLocked_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalValueLocked_not?: InputMaybe<Scalars['BigInt']['input']>;
+  totalValueLocked_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalWithdrawals?: InputMaybe<Scalars['BigInt']['input']>;
+  totalWithdrawals_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalWithdrawals_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalWithdrawals_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalWithdrawals_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalWithdrawals_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalWithdrawals_not?: InputMaybe<Scalars['BigInt']['input']>;
+  totalWithdrawals_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalYieldGenerated?: InputMaybe<Scalars['BigInt']['input']>;
+  totalYieldGenerated_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalYieldGenerated_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalYieldGenerated_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalYieldGenerated_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalYieldGenerated_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalYieldGenerated_not?: InputMaybe<Scalars['BigInt']['input']>;
+  totalYieldGenerated_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  uniqueUsers?: InputMaybe<Scalars['BigInt']['input']>;
+  uniqueUsers_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  uniqueUsers_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  uniqueUsers_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  uniqueUsers_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  uniqueUsers_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  uniqueUsers_not?: InputMaybe<Scalars['BigInt']['input']>;
+  uniqueUsers_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  withdrawalCount?: InputMaybe<Scalars['Int']['input']>;
+  withdrawalCount_gt?: InputMaybe<Scalars['Int']['input']>;
+  withdrawalCount_gte?: InputMaybe<Scalars['Int']['input']>;
+  withdrawalCount_in?: InputMaybe<Array<Scalars['Int']['input']>>;
+  withdrawalCount_lt?: InputMaybe<Scalars['Int']['input']>;
+  withdrawalCount_lte?: InputMaybe<Scalars['Int']['input']>;
+  withdrawalCount_not?: InputMaybe<Scalars['Int']['input']>;
+  withdrawalCount_not_in?: InputMaybe<Array<Scalars['Int']['input']>>;
+};
+
+export type DailyStats_OrderBy =
+  | 'date'
+  | 'depositCount'
+  | 'id'
+  | 'rebalanceCount'
+  | 'totalBridgeVolume'
+  | 'totalDeposits'
+  | 'totalValueLocked'
+  | 'totalWithdrawals'
+  | 'totalYieldGenerated'
+  | 'uniqueUsers'
+  | 'withdrawalCount';
+
+export type Deposit = {
+  __typename?: 'Deposit';
+  amount: Scalars['BigInt']['output'];
+  asset: Asset;
+  blockNumber: Scalars['BigInt']['output'];
+  id: Scalars['ID']['output'];
+  protocol: Protocol;
+  shares: Scalars['BigInt']['output'];
+  timestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+  user: User;
+};
+
+export type Deposit_Filter = {
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  amount?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  amount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  and?: InputMaybe<Array<InputMaybe<Deposit_Filter>>>;
+  asset?: InputMaybe<Scalars['String']['input']>;
+  asset_?: InputMaybe<Asset_Filter>;
+  asset_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  asset_not?: InputMaybe<Scalars['String']['input']>;
+  asset_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  id?: InputMaybe<Scalars['ID']['input']>;
+  id_gt?: InputMaybe<Scalars['ID']['input']>;
+  id_gte?: InputMaybe<Scalars['ID']['input']>;
+  id_in?: InputMaybe<Array<Scalars['ID']['input']>>;
+  id_lt?: InputMaybe<Scalars['ID']['input']>;
+  id_lte?: InputMaybe<Scalars['ID']['input']>;
+  id_not?: InputMaybe<Scalars['ID']['input']>;
+  id_not_in?: InputMaybe<Array<Scalars['ID']['input']>>;
+  or?: InputMaybe<Array<InputMaybe<Deposit_Filter>>>;
+  protocol?: InputMaybe<Scalars['String']['input']>;
+  protocol_?: InputMaybe<Protocol_Filter>;
+  protocol_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  protocol_not?: InputMaybe<Scalars['String']['input']>;
+  protocol_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  shares?: InputMaybe<Scalars['BigInt']['input']>;
+  shares_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  shares_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  shares_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  shares_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  shares_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  shares_not?: InputMaybe<Scalars['BigInt']['input']>;
+  shares_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  timestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  timestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  timestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  timestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  timestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  timestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  timestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  timestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  user?: InputMaybe<Scalars['String']['input']>;
+  user_?: InputMaybe<User_Filter>;
+  user_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  user_not?: InputMaybe<Scalars['String']['input']>;
+  user_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+};
+
+export type Deposit_OrderBy =
+  | 'amount'
+  | 'asset'
+  | 'asset__decimals'
+  | 'asset__id'
+  | 'asset__supported'
+  | 'asset__symbol'
+  | 'asset__totalDeposited'
+  | 'blockNumber'
+  | 'id'
+  | 'protocol'
+  | 'protocol__active'
+  | 'protocol__adapter'
+  | 'protocol__chainId'
+  | 'protocol__currentAPY'
+  | 'protocol__id'
+  | 'protocol__lastUpdate'
+  | 'protocol__name'
+  | 'protocol__totalDeposited'
+  | 'shares'
+  | 'timestamp'
+  | 'transactionHash'
+  | 'user'
+  | 'user__id'
+  | 'user__totalDeposited'
+  | 'user__totalWithdrawn'
+  | 'user__totalYieldEarned';
+
+export type GlobalStats = {
+  __typename?: 'GlobalStats';
+  activeProtocols: Scalars['Int']['output'];
+  id: Scalars['ID']['output'];
+  lastUpdate: Scalars['BigInt']['output'];
+  supportedChains: Scalars['Int']['output'];
+  totalBridgeVolume: Scalars['BigInt']['output'];
+  totalDeposits: Scalars['BigInt']['output'];
+  totalUsers: Scalars['BigInt']['output'];
+  totalValueLocked: Scalars['BigInt']['output'];
+  totalWithdrawals: Scalars['BigInt']['output'];
+  totalYieldGenerated: Scalars['BigInt']['output'];
+};
+
+export type GlobalStats_Filter = {
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  activeProtocols?: InputMaybe<Scalars['Int']['input']>;
+  activeProtocols_gt?: InputMaybe<Scalars['Int']['input']>;
+  activeProtocols_gte?: InputMaybe<Scalars['Int']['input']>;
+  activeProtocols_in?: InputMaybe<Array<Scalars['Int']['input']>>;
+  activeProtocols_lt?: InputMaybe<Scalars['Int']['input']>;
+  activeProtocols_lte?: InputMaybe<Scalars['Int']['input']>;
+  activeProtocols_not?: InputMaybe<Scalars['Int']['input']>;
+  activeProtocols_not_in?: InputMaybe<Array<Scalars['Int']['input']>>;
+  and?: InputMaybe<Array<InputMaybe<GlobalStats_Filter>>>;
+  id?: InputMaybe<Scalars['ID']['input']>;
+  id_gt?: InputMaybe<Scalars['ID']['input']>;
+  id_gte?: InputMaybe<Scalars['ID']['input']>;
+  id_in?: InputMaybe<Array<Scalars['ID']['input']>>;
+  id_lt?: InputMaybe<Scalars['ID']['input']>;
+  id_lte?: InputMaybe<Scalars['ID']['input']>;
+  id_not?: InputMaybe<Scalars['ID']['input']>;
+  id_not_in?: InputMaybe<Array<Scalars['ID']['input']>>;
+  lastUpdate?: InputMaybe<Scalars['BigInt']['input']>;
+  lastUpdate_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  lastUpdate_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  lastUpdate_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  lastUpdate_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  lastUpdate_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  lastUpdate_not?: InputMaybe<Scalars['BigInt']['input']>;
+  lastUpdate_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  or?: InputMaybe<Array<InputMaybe<GlobalStats_Filter>>>;
+  supportedChains?: InputMaybe<Scalars['Int']['input']>;
+  supportedChains_gt?: InputMaybe<Scalars['Int']['input']>;
+  supportedChains_gte?: InputMaybe<Scalars['Int']['input']>;
+  supportedChains_in?: InputMaybe<Array<Scalars['Int']['input']>>;
+  supportedChains_lt?: InputMaybe<Scalars['Int']['input']>;
+  supportedChains_lte?: InputMaybe<Scalars['Int']['input']>;
+  supportedChains_not?: InputMaybe<Scalars['Int']['input']>;
+  supportedChains_not_in?: InputMaybe<Array<Scalars['Int']['input']>>;
+  totalBridgeVolume?: InputMaybe<Scalars['BigInt']['input']>;
+  totalBridgeVolume_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalBridgeVolume_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalBridgeVolume_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalBridgeVolume_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalBridgeVolume_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalBridgeVolume_not?: InputMaybe<Scalars['BigInt']['input']>;
+  totalBridgeVolume_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalDeposits?: InputMaybe<Scalars['BigInt']['input']>;
+  totalDeposits_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalDeposits_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalDeposits_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalDeposits_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalDeposits_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalDeposits_not?: InputMaybe<Scalars['BigInt']['input']>;
+  totalDeposits_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalUsers?: InputMaybe<Scalars['BigInt']['input']>;
+  totalUsers_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalUsers_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalUsers_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalUsers_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalUsers_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalUsers_not?: InputMaybe<Scalars['BigInt']['input']>;
+  totalUsers_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalValueLocked?: InputMaybe<Scalars['BigInt']['input']>;
+  totalValueLocked_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalValueLocked_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalValueLocked_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalValueLocked_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalValueLocked_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalValueLocked_not?: InputMaybe<Scalars['BigInt']['input']>;
+  totalValueLocked_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalWithdrawals?: InputMaybe<Scalars['BigInt']['input']>;
+  totalWithdrawals_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalWithdrawals_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalWithdrawals_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalWithdrawals_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalWithdrawals_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalWithdrawals_not?: InputMaybe<Scalars['BigInt']['input']>;
+  totalWithdrawals_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalYieldGenerated?: InputMaybe<Scalars['BigInt']['input']>;
+  totalYieldGenerated_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalYieldGenerated_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalYieldGenerated_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalYieldGenerated_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalYieldGenerated_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalYieldGenerated_not?: InputMaybe<Scalars['BigInt']['input']>;
+  totalYieldGenerated_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+};
+
+export type GlobalStats_OrderBy =
+  | 'activeProtocols'
+  | 'id'
+  | 'lastUpdate'
+  | 'supportedChains'
+  | 'totalBridgeVolume'
+  | 'totalDeposits'
+  | 'totalUsers'
+  | 'totalValueLocked'
+  | 'totalWithdrawals'
+  | 'totalYieldGenerated';
+
+export type OrderDirection =
+  | 'asc'
+  | 'desc';
+
+export type Protocol = {
+  __typename?: 'Protocol';
+  active: Scalars['Boolean']['output'];
+  adapter: Scalars['Bytes']['output'];
+  apyHistory: Array<ApySnapshot>;
+  chainId: Scalars['BigInt']['output'];
+  currentAPY: Scalars['BigInt']['output'];
+  deposits: Array<Deposit>;
+  id: Scalars['ID']['output'];
+  lastUpdate: Scalars['BigInt']['output'];
+  name: Scalars['String']['output'];
+  totalDeposited: Scalars['BigInt']['output'];
+  withdrawals: Array<Withdrawal>;
+};
+
+
+export type ProtocolApyHistoryArgs = {
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ApySnapshot_OrderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  where?: InputMaybe<ApySnapshot_Filter>;
+};
+
+
+export type ProtocolDepositsArgs = {
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<Deposit_OrderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  where?: InputMaybe<Deposit_Filter>;
+};
+
+
+export type ProtocolWithdrawalsArgs = {
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<Withdrawal_OrderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  where?: InputMaybe<Withdrawal_Filter>;
+};
+
+export type Protocol_Filter = {
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  active?: InputMaybe<Scalars['Boolean']['input']>;
+  active_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  active_not?: InputMaybe<Scalars['Boolean']['input']>;
+  active_not_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  adapter?: InputMaybe<Scalars['Bytes']['input']>;
+  adapter_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  adapter_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  adapter_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  adapter_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  adapter_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  adapter_not?: InputMaybe<Scalars['Bytes']['input']>;
+  adapter_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  and?: InputMaybe<Array<InputMaybe<Protocol_Filter>>>;
+  apyHistory_?: InputMaybe<ApySnapshot_Filter>;
+  chainId?: InputMaybe<Scalars['BigInt']['input']>;
+  chainId_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  chainId_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  chainId_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  chainId_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  chainId_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  chainId_not?: InputMaybe<Scalars['BigInt']['input']>;
+  chainId_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  currentAPY?: InputMaybe<Scalars['BigInt']['input']>;
+  currentAPY_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  currentAPY_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  currentAPY_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  currentAPY_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  currentAPY_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  currentAPY_not?: InputMaybe<Scalars['BigInt']['input']>;
+  currentAPY_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  deposits_?: InputMaybe<Deposit_Filter>;
+  id?: InputMaybe<Scalars['ID']['input']>;
+  id_gt?: InputMaybe<Scalars['ID']['input']>;
+  id_gte?: InputMaybe<Scalars['ID']['input']>;
+  id_in?: InputMaybe<Array<Scalars['ID']['input']>>;
+  id_lt?: InputMaybe<Scalars['ID']['input']>;
+  id_lte?: InputMaybe<Scalars['ID']['input']>;
+  id_not?: InputMaybe<Scalars['ID']['input']>;
+  id_not_in?: InputMaybe<Array<Scalars['ID']['input']>>;
+  lastUpdate?: InputMaybe<Scalars['BigInt']['input']>;
+  lastUpdate_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  lastUpdate_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  lastUpdate_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  lastUpdate_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  lastUpdate_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  lastUpdate_not?: InputMaybe<Scalars['BigInt']['input']>;
+  lastUpdate_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  name?: InputMaybe<Scalars['String']['input']>;
+  name_gt?: InputMaybe<Scalars['String']['input']>;
+  name_gte?: InputMaybe<Scalars['String']['input']>;
+  name_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  name_lt?: InputMaybe<Scalars['String']['input']>;
+  name_lte?: InputMaybe<Scalars['String']['input']>;
+  name_not?: InputMaybe<Scalars['String']['input']>;
+  name_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  or?: InputMaybe<Array<InputMaybe<Protocol_Filter>>>;
+  totalDeposited?: InputMaybe<Scalars['BigInt']['input']>;
+  totalDeposited_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalDeposited_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalDeposited_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalDeposited_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalDeposited_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalDeposited_not?: InputMaybe<Scalars['BigInt']['input']>;
+  totalDeposited_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  withdrawals_?: InputMaybe<Withdrawal_Filter>;
+};
+
+export type Protocol_OrderBy =
+  | 'active'
+  | 'adapter'
+  | 'apyHistory'
+  | 'chainId'
+  | 'currentAPY'
+  | 'deposits'
+  | 'id'
+  | 'lastUpdate'
+  | 'name'
+  | 'totalDeposited'
+  | 'withdrawals';
+
+export type Query = {
+  __typename?: 'Query';
+  _meta?: Maybe<_Meta_>;
+  activeUser?: Maybe<ActiveUser>;
+  activeUsers: Array<ActiveUser>;
+  apyAggregate?: Maybe<ApyAggregate>;
+  apyAggregates: Array<ApyAggregate>;
+  apySnapshot?: Maybe<ApySnapshot>;
+  apySnapshots: Array<ApySnapshot>;
+  asset?: Maybe<Asset>;
+  assets: Array<Asset>;
+  bridgeRequest?: Maybe<BridgeRequest>;
+  bridgeRequests: Array<BridgeRequest>;
+  chainStats?: Maybe<ChainStats>;
+  chainStats_collection: Array<ChainStats>;
+  crossChainMessage?: Maybe<CrossChainMessage>;
+  crossChainMessages: Array<CrossChainMessage>;
+  dailyStats?: Maybe<DailyStats>;
+  dailyStats_collection: Array<DailyStats>;
+  deposit?: Maybe<Deposit>;
+  deposits: Array<Deposit>;
+  globalStats?: Maybe<GlobalStats>;
+  globalStats_collection: Array<GlobalStats>;
+  protocol?: Maybe<Protocol>;
+  protocols: Array<Protocol>;
+  rebalance?: Maybe<Rebalance>;
+  rebalances: Array<Rebalance>;
+  user?: Maybe<User>;
+  userPosition?: Maybe<UserPosition>;
+  userPositions: Array<UserPosition>;
+  users: Array<User>;
+  weeklyStats?: Maybe<WeeklyStats>;
+  weeklyStats_collection: Array<WeeklyStats>;
+  withdrawal?: Maybe<Withdrawal>;
+  withdrawalRequest?: Maybe<WithdrawalRequest>;
+  withdrawalRequests: Array<WithdrawalRequest>;
+  withdrawals: Array<Withdrawal>;
+};
+
+
+export type Query_MetaArgs = {
+  block?: InputMaybe<Block_Height>;
+};
+
+
+export type QueryActiveUserArgs = {
+  block?: InputMaybe<Block_Height>;
+  id: Scalars['ID']['input'];
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryActiveUsersArgs = {
+  block?: InputMaybe<Block_Height>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ActiveUser_OrderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  subgraphError?: _SubgraphErrorPolicy_;
+  where?: InputMaybe<ActiveUser_Filter>;
+};
+
+
+export type QueryApyAggregateArgs = {
+  block?: InputMaybe<Block_Height>;
+  id: Scalars['ID']['input'];
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryApyAggregatesArgs = {
+  block?: InputMaybe<Block_Height>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ApyAggregate_OrderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  subgraphError?: _SubgraphErrorPolicy_;
+  where?: InputMaybe<ApyAggregate_Filter>;
+};
+
+
+export type QueryApySnapshotArgs = {
+  block?: InputMaybe<Block_Height>;
+  id: Scalars['ID']['input'];
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryApySnapshotsArgs = {
+  block?: InputMaybe<Block_Height>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ApySnapshot_OrderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  subgraphError?: _SubgraphErrorPolicy_;
+  where?: InputMaybe<ApySnapshot_Filter>;
+};
+
+
+export type QueryAssetArgs = {
+  block?: InputMaybe<Block_Height>;
+  id: Scalars['ID']['input'];
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryAssetsArgs = {
+  block?: InputMaybe<Block_Height>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<Asset_OrderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  subgraphError?: _SubgraphErrorPolicy_;
+  where?: InputMaybe<Asset_Filter>;
+};
+
+
+export type QueryBridgeRequestArgs = {
+  block?: InputMaybe<Block_Height>;
+  id: Scalars['ID']['input'];
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryBridgeRequestsArgs = {
+  block?: InputMaybe<Block_Height>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<BridgeRequest_OrderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  subgraphError?: _SubgraphErrorPolicy_;
+  where?: InputMaybe<BridgeRequest_Filter>;
+};
+
+
+export type QueryChainStatsArgs = {
+  block?: InputMaybe<Block_Height>;
+  id: Scalars['ID']['input'];
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryChainStats_CollectionArgs = {
+  block?: InputMaybe<Block_Height>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<ChainStats_OrderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  subgraphError?: _SubgraphErrorPolicy_;
+  where?: InputMaybe<ChainStats_Filter>;
+};
+
+
+export type QueryCrossChainMessageArgs = {
+  block?: InputMaybe<Block_Height>;
+  id: Scalars['ID']['input'];
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryCrossChainMessagesArgs = {
+  block?: InputMaybe<Block_Height>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<CrossChainMessage_OrderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  subgraphError?: _SubgraphErrorPolicy_;
+  where?: InputMaybe<CrossChainMessage_Filter>;
+};
+
+
+export type QueryDailyStatsArgs = {
+  block?: InputMaybe<Block_Height>;
+  id: Scalars['ID']['input'];
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryDailyStats_CollectionArgs = {
+  block?: InputMaybe<Block_Height>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<DailyStats_OrderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  subgraphError?: _SubgraphErrorPolicy_;
+  where?: InputMaybe<DailyStats_Filter>;
+};
+
+
+export type QueryDepositArgs = {
+  block?: InputMaybe<Block_Height>;
+  id: Scalars['ID']['input'];
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryDepositsArgs = {
+  block?: InputMaybe<Block_Height>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<Deposit_OrderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  subgraphError?: _SubgraphErrorPolicy_;
+  where?: InputMaybe<Deposit_Filter>;
+};
+
+
+export type QueryGlobalStatsArgs = {
+  block?: InputMaybe<Block_Height>;
+  id: Scalars['ID']['input'];
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryGlobalStats_CollectionArgs = {
+  block?: InputMaybe<Block_Height>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<GlobalStats_OrderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  subgraphError?: _SubgraphErrorPolicy_;
+  where?: InputMaybe<GlobalStats_Filter>;
+};
+
+
+export type QueryProtocolArgs = {
+  block?: InputMaybe<Block_Height>;
+  id: Scalars['ID']['input'];
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryProtocolsArgs = {
+  block?: InputMaybe<Block_Height>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<Protocol_OrderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  subgraphError?: _SubgraphErrorPolicy_;
+  where?: InputMaybe<Protocol_Filter>;
+};
+
+
+export type QueryRebalanceArgs = {
+  block?: InputMaybe<Block_Height>;
+  id: Scalars['ID']['input'];
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryRebalancesArgs = {
+  block?: InputMaybe<Block_Height>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<Rebalance_OrderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  subgraphError?: _SubgraphErrorPolicy_;
+  where?: InputMaybe<Rebalance_Filter>;
+};
+
+
+export type QueryUserArgs = {
+  block?: InputMaybe<Block_Height>;
+  id: Scalars['ID']['input'];
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryUserPositionArgs = {
+  block?: InputMaybe<Block_Height>;
+  id: Scalars['ID']['input'];
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryUserPositionsArgs = {
+  block?: InputMaybe<Block_Height>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<UserPosition_OrderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  subgraphError?: _SubgraphErrorPolicy_;
+  where?: InputMaybe<UserPosition_Filter>;
+};
+
+
+export type QueryUsersArgs = {
+  block?: InputMaybe<Block_Height>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<User_OrderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  subgraphError?: _SubgraphErrorPolicy_;
+  where?: InputMaybe<User_Filter>;
+};
+
+
+export type QueryWeeklyStatsArgs = {
+  block?: InputMaybe<Block_Height>;
+  id: Scalars['ID']['input'];
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryWeeklyStats_CollectionArgs = {
+  block?: InputMaybe<Block_Height>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<WeeklyStats_OrderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  subgraphError?: _SubgraphErrorPolicy_;
+  where?: InputMaybe<WeeklyStats_Filter>;
+};
+
+
+export type QueryWithdrawalArgs = {
+  block?: InputMaybe<Block_Height>;
+  id: Scalars['ID']['input'];
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryWithdrawalRequestArgs = {
+  block?: InputMaybe<Block_Height>;
+  id: Scalars['ID']['input'];
+  subgraphError?: _SubgraphErrorPolicy_;
+};
+
+
+export type QueryWithdrawalRequestsArgs = {
+  block?: InputMaybe<Block_Height>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<WithdrawalRequest_OrderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  subgraphError?: _SubgraphErrorPolicy_;
+  where?: InputMaybe<WithdrawalRequest_Filter>;
+};
+
+
+export type QueryWithdrawalsArgs = {
+  block?: InputMaybe<Block_Height>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<Withdrawal_OrderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  subgraphError?: _SubgraphErrorPolicy_;
+  where?: InputMaybe<Withdrawal_Filter>;
+};
+
+export type Rebalance = {
+  __typename?: 'Rebalance';
+  amount: Scalars['BigInt']['output'];
+  asset: Asset;
+  blockNumber: Scalars['BigInt']['output'];
+  fromProtocol: Protocol;
+  id: Scalars['ID']['output'];
+  timestamp: Scalars['BigInt']['output'];
+  toProtocol: Protocol;
+  transactionHash: Scalars['Bytes']['output'];
+  user?: Maybe<User>;
+};
+
+export type Rebalance_Filter = {
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  amount?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  amount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  and?: InputMaybe<Array<InputMaybe<Rebalance_Filter>>>;
+  asset?: InputMaybe<Scalars['String']['input']>;
+  asset_?: InputMaybe<Asset_Filter>;
+  asset_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  asset_not?: InputMaybe<Scalars['String']['input']>;
+  asset_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  fromProtocol?: InputMaybe<Scalars['String']['input']>;
+  fromProtocol_?: InputMaybe<Protocol_Filter>;
+  fromProtocol_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  fromProtocol_not?: InputMaybe<Scalars['String']['input']>;
+  fromProtocol_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  id?: InputMaybe<Scalars['ID']['input']>;
+  id_gt?: InputMaybe<Scalars['ID']['input']>;
+  id_gte?: InputMaybe<Scalars['ID']['input']>;
+  id_in?: InputMaybe<Array<Scalars['ID']['input']>>;
+  id_lt?: InputMaybe<Scalars['ID']['input']>;
+  id_lte?: InputMaybe<Scalars['ID']['input']>;
+  id_not?: InputMaybe<Scalars['ID']['input']>;
+  id_not_in?: InputMaybe<Array<Scalars['ID']['input']>>;
+  or?: InputMaybe<Array<InputMaybe<Rebalance_Filter>>>;
+  timestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  timestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  timestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  timestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  timestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  timestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  timestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  timestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  toProtocol?: InputMaybe<Scalars['String']['input']>;
+  toProtocol_?: InputMaybe<Protocol_Filter>;
+  toProtocol_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  toProtocol_not?: InputMaybe<Scalars['String']['input']>;
+  toProtocol_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  user?: InputMaybe<Scalars['String']['input']>;
+  user_?: InputMaybe<User_Filter>;
+  user_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  user_not?: InputMaybe<Scalars['String']['input']>;
+  user_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+};
+
+export type Rebalance_OrderBy =
+  | 'amount'
+  | 'asset'
+  | 'asset__decimals'
+  | 'asset__id'
+  | 'asset__supported'
+  | 'asset__symbol'
+  | 'asset__totalDeposited'
+  | 'blockNumber'
+  | 'fromProtocol'
+  | 'fromProtocol__active'
+  | 'fromProtocol__adapter'
+  | 'fromProtocol__chainId'
+  | 'fromProtocol__currentAPY'
+  | 'fromProtocol__id'
+  | 'fromProtocol__lastUpdate'
+  | 'fromProtocol__name'
+  | 'fromProtocol__totalDeposited'
+  | 'id'
+  | 'timestamp'
+  | 'toProtocol'
+  | 'toProtocol__active'
+  | 'toProtocol__adapter'
+  | 'toProtocol__chainId'
+  | 'toProtocol__currentAPY'
+  | 'toProtocol__id'
+  | 'toProtocol__lastUpdate'
+  | 'toProtocol__name'
+  | 'toProtocol__totalDeposited'
+  | 'transactionHash'
+  | 'user'
+  | 'user__id'
+  | 'user__totalDeposited'
+  | 'user__totalWithdrawn'
+  | 'user__totalYieldEarned';
+
+export type User = {
+  __typename?: 'User';
+  bridgeRequests: Array<BridgeRequest>;
+  deposits: Array<Deposit>;
+  id: Scalars['ID']['output'];
+  positions: Array<UserPosition>;
+  rebalances: Array<Rebalance>;
+  totalDeposited: Scalars['BigInt']['output'];
+  totalWithdrawn: Scalars['BigInt']['output'];
+  totalYieldEarned: Scalars['BigInt']['output'];
+  withdrawalRequests: Array<WithdrawalRequest>;
+  withdrawals: Array<Withdrawal>;
+};
+
+
+export type UserBridgeRequestsArgs = {
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<BridgeRequest_OrderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  where?: InputMaybe<BridgeRequest_Filter>;
+};
+
+
+export type UserDepositsArgs = {
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<Deposit_OrderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  where?: InputMaybe<Deposit_Filter>;
+};
+
+
+export type UserPositionsArgs = {
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<UserPosition_OrderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  where?: InputMaybe<UserPosition_Filter>;
+};
+
+
+export type UserRebalancesArgs = {
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<Rebalance_OrderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  where?: InputMaybe<Rebalance_Filter>;
+};
+
+
+export type UserWithdrawalRequestsArgs = {
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<WithdrawalRequest_OrderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  where?: InputMaybe<WithdrawalRequest_Filter>;
+};
+
+
+export type UserWithdrawalsArgs = {
+  first?: InputMaybe<Scalars['Int']['input']>;
+  orderBy?: InputMaybe<Withdrawal_OrderBy>;
+  orderDirection?: InputMaybe<OrderDirection>;
+  skip?: InputMaybe<Scalars['Int']['input']>;
+  where?: InputMaybe<Withdrawal_Filter>;
+};
+
+export type UserPosition = {
+  __typename?: 'UserPosition';
+  asset: Asset;
+  currentValue: Scalars['BigInt']['output'];
+  depositTimestamp: Scalars['BigInt']['output'];
+  deposited: Scalars['BigInt']['output'];
+  id: Scalars['ID']['output'];
+  lastUpdate: Scalars['BigInt']['output'];
+  shares: Scalars['BigInt']['output'];
+  unrealizedYield: Scalars['BigInt']['output'];
+  user: User;
+};
+
+export type UserPosition_Filter = {
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<UserPosition_Filter>>>;
+  asset?: InputMaybe<Scalars['String']['input']>;
+  asset_?: InputMaybe<Asset_Filter>;
+  asset_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  asset_not?: InputMaybe<Scalars['String']['input']>;
+  asset_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  currentValue?: InputMaybe<Scalars['BigInt']['input']>;
+  currentValue_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  currentValue_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  currentValue_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  currentValue_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  currentValue_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  currentValue_not?: InputMaybe<Scalars['BigInt']['input']>;
+  currentValue_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  depositTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  depositTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  depositTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  depositTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  depositTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  depositTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  depositTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  depositTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  deposited?: InputMaybe<Scalars['BigInt']['input']>;
+  deposited_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  deposited_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  deposited_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  deposited_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  deposited_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  deposited_not?: InputMaybe<Scalars['BigInt']['input']>;
+  deposited_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  id?: InputMaybe<Scalars['ID']['input']>;
+  id_gt?: InputMaybe<Scalars['ID']['input']>;
+  id_gte?: InputMaybe<Scalars['ID']['input']>;
+  id_in?: InputMaybe<Array<Scalars['ID']['input']>>;
+  id_lt?: InputMaybe<Scalars['ID']['input']>;
+  id_lte?: InputMaybe<Scalars['ID']['input']>;
+  id_not?: InputMaybe<Scalars['ID']['input']>;
+  id_not_in?: InputMaybe<Array<Scalars['ID']['input']>>;
+  lastUpdate?: InputMaybe<Scalars['BigInt']['input']>;
+  lastUpdate_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  lastUpdate_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  lastUpdate_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  lastUpdate_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  lastUpdate_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  lastUpdate_not?: InputMaybe<Scalars['BigInt']['input']>;
+  lastUpdate_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  or?: InputMaybe<Array<InputMaybe<UserPosition_Filter>>>;
+  shares?: InputMaybe<Scalars['BigInt']['input']>;
+  shares_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  shares_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  shares_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  shares_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  shares_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  shares_not?: InputMaybe<Scalars['BigInt']['input']>;
+  shares_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  unrealizedYield?: InputMaybe<Scalars['BigInt']['input']>;
+  unrealizedYield_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  unrealizedYield_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  unrealizedYield_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  unrealizedYield_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  unrealizedYield_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  unrealizedYield_not?: InputMaybe<Scalars['BigInt']['input']>;
+  unrealizedYield_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  user?: InputMaybe<Scalars['String']['input']>;
+  user_?: InputMaybe<User_Filter>;
+  user_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  user_not?: InputMaybe<Scalars['String']['input']>;
+  user_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+};
+
+export type UserPosition_OrderBy =
+  | 'asset'
+  | 'asset__decimals'
+  | 'asset__id'
+  | 'asset__supported'
+  | 'asset__symbol'
+  | 'asset__totalDeposited'
+  | 'currentValue'
+  | 'depositTimestamp'
+  | 'deposited'
+  | 'id'
+  | 'lastUpdate'
+  | 'shares'
+  | 'unrealizedYield'
+  | 'user'
+  | 'user__id'
+  | 'user__totalDeposited'
+  | 'user__totalWithdrawn'
+  | 'user__totalYieldEarned';
+
+export type User_Filter = {
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<User_Filter>>>;
+  bridgeRequests_?: InputMaybe<BridgeRequest_Filter>;
+  deposits_?: InputMaybe<Deposit_Filter>;
+  id?: InputMaybe<Scalars['ID']['input']>;
+  id_gt?: InputMaybe<Scalars['ID']['input']>;
+  id_gte?: InputMaybe<Scalars['ID']['input']>;
+  id_in?: InputMaybe<Array<Scalars['ID']['input']>>;
+  id_lt?: InputMaybe<Scalars['ID']['input']>;
+  id_lte?: InputMaybe<Scalars['ID']['input']>;
+  id_not?: InputMaybe<Scalars['ID']['input']>;
+  id_not_in?: InputMaybe<Array<Scalars['ID']['input']>>;
+  or?: InputMaybe<Array<InputMaybe<User_Filter>>>;
+  positions_?: InputMaybe<UserPosition_Filter>;
+  rebalances_?: InputMaybe<Rebalance_Filter>;
+  totalDeposited?: InputMaybe<Scalars['BigInt']['input']>;
+  totalDeposited_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalDeposited_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalDeposited_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalDeposited_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalDeposited_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalDeposited_not?: InputMaybe<Scalars['BigInt']['input']>;
+  totalDeposited_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalWithdrawn?: InputMaybe<Scalars['BigInt']['input']>;
+  totalWithdrawn_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalWithdrawn_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalWithdrawn_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalWithdrawn_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalWithdrawn_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalWithdrawn_not?: InputMaybe<Scalars['BigInt']['input']>;
+  totalWithdrawn_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalYieldEarned?: InputMaybe<Scalars['BigInt']['input']>;
+  totalYieldEarned_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalYieldEarned_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalYieldEarned_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalYieldEarned_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalYieldEarned_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalYieldEarned_not?: InputMaybe<Scalars['BigInt']['input']>;
+  totalYieldEarned_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  withdrawalRequests_?: InputMaybe<WithdrawalRequest_Filter>;
+  withdrawals_?: InputMaybe<Withdrawal_Filter>;
+};
+
+export type User_OrderBy =
+  | 'bridgeRequests'
+  | 'deposits'
+  | 'id'
+  | 'positions'
+  | 'rebalances'
+  | 'totalDeposited'
+  | 'totalWithdrawn'
+  | 'totalYieldEarned'
+  | 'withdrawalRequests'
+  | 'withdrawals';
+
+export type WeeklyStats = {
+  __typename?: 'WeeklyStats';
+  date: Scalars['BigInt']['output'];
+  depositCount: Scalars['Int']['output'];
+  id: Scalars['ID']['output'];
+  rebalanceCount: Scalars['Int']['output'];
+  totalBridgeVolume: Scalars['BigInt']['output'];
+  totalDeposits: Scalars['BigInt']['output'];
+  totalValueLocked: Scalars['BigInt']['output'];
+  totalWithdrawals: Scalars['BigInt']['output'];
+  totalYieldGenerated: Scalars['BigInt']['output'];
+  uniqueUsers: Scalars['BigInt']['output'];
+  withdrawalCount: Scalars['Int']['output'];
+};
+
+export type WeeklyStats_Filter = {
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  and?: InputMaybe<Array<InputMaybe<WeeklyStats_Filter>>>;
+  date?: InputMaybe<Scalars['BigInt']['input']>;
+  date_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  date_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  date_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  date_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  date_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  date_not?: InputMaybe<Scalars['BigInt']['input']>;
+  date_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  depositCount?: InputMaybe<Scalars['Int']['input']>;
+  depositCount_gt?: InputMaybe<Scalars['Int']['input']>;
+  depositCount_gte?: InputMaybe<Scalars['Int']['input']>;
+  depositCount_in?: InputMaybe<Array<Scalars['Int']['input']>>;
+  depositCount_lt?: InputMaybe<Scalars['Int']['input']>;
+  depositCount_lte?: InputMaybe<Scalars['Int']['input']>;
+  depositCount_not?: InputMaybe<Scalars['Int']['input']>;
+  depositCount_not_in?: InputMaybe<Array<Scalars['Int']['input']>>;
+  id?: InputMaybe<Scalars['ID']['input']>;
+  id_gt?: InputMaybe<Scalars['ID']['input']>;
+  id_gte?: InputMaybe<Scalars['ID']['input']>;
+  id_in?: InputMaybe<Array<Scalars['ID']['input']>>;
+  id_lt?: InputMaybe<Scalars['ID']['input']>;
+  id_lte?: InputMaybe<Scalars['ID']['input']>;
+  id_not?: InputMaybe<Scalars['ID']['input']>;
+  id_not_in?: InputMaybe<Array<Scalars['ID']['input']>>;
+  or?: InputMaybe<Array<InputMaybe<WeeklyStats_Filter>>>;
+  rebalanceCount?: InputMaybe<Scalars['Int']['input']>;
+  rebalanceCount_gt?: InputMaybe<Scalars['Int']['input']>;
+  rebalanceCount_gte?: InputMaybe<Scalars['Int']['input']>;
+  rebalanceCount_in?: InputMaybe<Array<Scalars['Int']['input']>>;
+  rebalanceCount_lt?: InputMaybe<Scalars['Int']['input']>;
+  rebalanceCount_lte?: InputMaybe<Scalars['Int']['input']>;
+  rebalanceCount_not?: InputMaybe<Scalars['Int']['input']>;
+  rebalanceCount_not_in?: InputMaybe<Array<Scalars['Int']['input']>>;
+  totalBridgeVolume?: InputMaybe<Scalars['BigInt']['input']>;
+  totalBridgeVolume_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalBridgeVolume_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalBridgeVolume_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalBridgeVolume_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalBridgeVolume_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalBridgeVolume_not?: InputMaybe<Scalars['BigInt']['input']>;
+  totalBridgeVolume_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalDeposits?: InputMaybe<Scalars['BigInt']['input']>;
+  totalDeposits_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalDeposits_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalDeposits_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalDeposits_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalDeposits_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalDeposits_not?: InputMaybe<Scalars['BigInt']['input']>;
+  totalDeposits_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalValueLocked?: InputMaybe<Scalars['BigInt']['input']>;
+  totalValueLocked_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalValueLocked_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalValueLocked_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalValueLocked_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalValueLocked_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalValueLocked_not?: InputMaybe<Scalars['BigInt']['input']>;
+  totalValueLocked_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalWithdrawals?: InputMaybe<Scalars['BigInt']['input']>;
+  totalWithdrawals_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalWithdrawals_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalWithdrawals_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalWithdrawals_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalWithdrawals_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalWithdrawals_not?: InputMaybe<Scalars['BigInt']['input']>;
+  totalWithdrawals_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalYieldGenerated?: InputMaybe<Scalars['BigInt']['input']>;
+  totalYieldGenerated_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalYieldGenerated_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalYieldGenerated_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  totalYieldGenerated_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  totalYieldGenerated_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  totalYieldGenerated_not?: InputMaybe<Scalars['BigInt']['input']>;
+  totalYieldGenerated_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  uniqueUsers?: InputMaybe<Scalars['BigInt']['input']>;
+  uniqueUsers_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  uniqueUsers_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  uniqueUsers_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  uniqueUsers_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  uniqueUsers_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  uniqueUsers_not?: InputMaybe<Scalars['BigInt']['input']>;
+  uniqueUsers_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  withdrawalCount?: InputMaybe<Scalars['Int']['input']>;
+  withdrawalCount_gt?: InputMaybe<Scalars['Int']['input']>;
+  withdrawalCount_gte?: InputMaybe<Scalars['Int']['input']>;
+  withdrawalCount_in?: InputMaybe<Array<Scalars['Int']['input']>>;
+  withdrawalCount_lt?: InputMaybe<Scalars['Int']['input']>;
+  withdrawalCount_lte?: InputMaybe<Scalars['Int']['input']>;
+  withdrawalCount_not?: InputMaybe<Scalars['Int']['input']>;
+  withdrawalCount_not_in?: InputMaybe<Array<Scalars['Int']['input']>>;
+};
+
+export type WeeklyStats_OrderBy =
+  | 'date'
+  | 'depositCount'
+  | 'id'
+  | 'rebalanceCount'
+  | 'totalBridgeVolume'
+  | 'totalDeposits'
+  | 'totalValueLocked'
+  | 'totalWithdrawals'
+  | 'totalYieldGenerated'
+  | 'uniqueUsers'
+  | 'withdrawalCount';
+
+export type Withdrawal = {
+  __typename?: 'Withdrawal';
+  amount: Scalars['BigInt']['output'];
+  asset: Asset;
+  blockNumber: Scalars['BigInt']['output'];
+  id: Scalars['ID']['output'];
+  protocol: Protocol;
+  timestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+  user: User;
+  yieldEarned: Scalars['BigInt']['output'];
+};
+
+export type WithdrawalRequest = {
+  __typename?: 'WithdrawalRequest';
+  amount: Scalars['BigInt']['output'];
+  asset: Asset;
+  claimed: Scalars['BigInt']['output'];
+  completed: Scalars['Boolean']['output'];
+  id: Scalars['ID']['output'];
+  lastClaimTimestamp?: Maybe<Scalars['BigInt']['output']>;
+  remaining: Scalars['BigInt']['output'];
+  timestamp: Scalars['BigInt']['output'];
+  transactionHash: Scalars['Bytes']['output'];
+  user: User;
+};
+
+export type WithdrawalRequest_Filter = {
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  amount?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  amount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  and?: InputMaybe<Array<InputMaybe<WithdrawalRequest_Filter>>>;
+  asset?: InputMaybe<Scalars['String']['input']>;
+  asset_?: InputMaybe<Asset_Filter>;
+  asset_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  asset_not?: InputMaybe<Scalars['String']['input']>;
+  asset_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  claimed?: InputMaybe<Scalars['BigInt']['input']>;
+  claimed_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  claimed_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  claimed_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  claimed_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  claimed_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  claimed_not?: InputMaybe<Scalars['BigInt']['input']>;
+  claimed_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  completed?: InputMaybe<Scalars['Boolean']['input']>;
+  completed_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  completed_not?: InputMaybe<Scalars['Boolean']['input']>;
+  completed_not_in?: InputMaybe<Array<Scalars['Boolean']['input']>>;
+  id?: InputMaybe<Scalars['ID']['input']>;
+  id_gt?: InputMaybe<Scalars['ID']['input']>;
+  id_gte?: InputMaybe<Scalars['ID']['input']>;
+  id_in?: InputMaybe<Array<Scalars['ID']['input']>>;
+  id_lt?: InputMaybe<Scalars['ID']['input']>;
+  id_lte?: InputMaybe<Scalars['ID']['input']>;
+  id_not?: InputMaybe<Scalars['ID']['input']>;
+  id_not_in?: InputMaybe<Array<Scalars['ID']['input']>>;
+  lastClaimTimestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  lastClaimTimestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  lastClaimTimestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  lastClaimTimestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  lastClaimTimestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  lastClaimTimestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  lastClaimTimestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  lastClaimTimestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  or?: InputMaybe<Array<InputMaybe<WithdrawalRequest_Filter>>>;
+  remaining?: InputMaybe<Scalars['BigInt']['input']>;
+  remaining_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  remaining_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  remaining_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  remaining_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  remaining_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  remaining_not?: InputMaybe<Scalars['BigInt']['input']>;
+  remaining_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  timestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  timestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  timestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  timestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  timestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  timestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  timestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  timestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  user?: InputMaybe<Scalars['String']['input']>;
+  user_?: InputMaybe<User_Filter>;
+  user_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  user_not?: InputMaybe<Scalars['String']['input']>;
+  user_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+};
+
+export type WithdrawalRequest_OrderBy =
+  | 'amount'
+  | 'asset'
+  | 'asset__decimals'
+  | 'asset__id'
+  | 'asset__supported'
+  | 'asset__symbol'
+  | 'asset__totalDeposited'
+  | 'claimed'
+  | 'completed'
+  | 'id'
+  | 'lastClaimTimestamp'
+  | 'remaining'
+  | 'timestamp'
+  | 'transactionHash'
+  | 'user'
+  | 'user__id'
+  | 'user__totalDeposited'
+  | 'user__totalWithdrawn'
+  | 'user__totalYieldEarned';
+
+export type Withdrawal_Filter = {
+  _change_block?: InputMaybe<BlockChangedFilter>;
+  amount?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  amount_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_not?: InputMaybe<Scalars['BigInt']['input']>;
+  amount_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  and?: InputMaybe<Array<InputMaybe<Withdrawal_Filter>>>;
+  asset?: InputMaybe<Scalars['String']['input']>;
+  asset_?: InputMaybe<Asset_Filter>;
+  asset_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  asset_not?: InputMaybe<Scalars['String']['input']>;
+  asset_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  blockNumber?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  blockNumber_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not?: InputMaybe<Scalars['BigInt']['input']>;
+  blockNumber_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  id?: InputMaybe<Scalars['ID']['input']>;
+  id_gt?: InputMaybe<Scalars['ID']['input']>;
+  id_gte?: InputMaybe<Scalars['ID']['input']>;
+  id_in?: InputMaybe<Array<Scalars['ID']['input']>>;
+  id_lt?: InputMaybe<Scalars['ID']['input']>;
+  id_lte?: InputMaybe<Scalars['ID']['input']>;
+  id_not?: InputMaybe<Scalars['ID']['input']>;
+  id_not_in?: InputMaybe<Array<Scalars['ID']['input']>>;
+  or?: InputMaybe<Array<InputMaybe<Withdrawal_Filter>>>;
+  protocol?: InputMaybe<Scalars['String']['input']>;
+  protocol_?: InputMaybe<Protocol_Filter>;
+  protocol_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  protocol_not?: InputMaybe<Scalars['String']['input']>;
+  protocol_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  timestamp?: InputMaybe<Scalars['BigInt']['input']>;
+  timestamp_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  timestamp_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  timestamp_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  timestamp_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  timestamp_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  timestamp_not?: InputMaybe<Scalars['BigInt']['input']>;
+  timestamp_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  transactionHash?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_gte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  transactionHash_lt?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_lte?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not?: InputMaybe<Scalars['Bytes']['input']>;
+  transactionHash_not_in?: InputMaybe<Array<Scalars['Bytes']['input']>>;
+  user?: InputMaybe<Scalars['String']['input']>;
+  user_?: InputMaybe<User_Filter>;
+  user_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  user_not?: InputMaybe<Scalars['String']['input']>;
+  user_not_in?: InputMaybe<Array<Scalars['String']['input']>>;
+  yieldEarned?: InputMaybe<Scalars['BigInt']['input']>;
+  yieldEarned_gt?: InputMaybe<Scalars['BigInt']['input']>;
+  yieldEarned_gte?: InputMaybe<Scalars['BigInt']['input']>;
+  yieldEarned_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+  yieldEarned_lt?: InputMaybe<Scalars['BigInt']['input']>;
+  yieldEarned_lte?: InputMaybe<Scalars['BigInt']['input']>;
+  yieldEarned_not?: InputMaybe<Scalars['BigInt']['input']>;
+  yieldEarned_not_in?: InputMaybe<Array<Scalars['BigInt']['input']>>;
+};
+
+export type Withdrawal_OrderBy =
+  | 'amount'
+  | 'asset'
+  | 'asset__decimals'
+  | 'asset__id'
+  | 'asset__supported'
+  | 'asset__symbol'
+  | 'asset__totalDeposited'
+  | 'blockNumber'
+  | 'id'
+  | 'protocol'
+  | 'protocol__active'
+  | 'protocol__adapter'
+  | 'protocol__chainId'
+  | 'protocol__currentAPY'
+  | 'protocol__id'
+  | 'protocol__lastUpdate'
+  | 'protocol__name'
+  | 'protocol__totalDeposited'
+  | 'timestamp'
+  | 'transactionHash'
+  | 'user'
+  | 'user__id'
+  | 'user__totalDeposited'
+  | 'user__totalWithdrawn'
+  | 'user__totalYieldEarned'
+  | 'yieldEarned';
+
+export type _Block_ = {
+  __typename?: '_Block_';
+  hash?: Maybe<Scalars['Bytes']['output']>;
+  number: Scalars['Int']['output'];
+  parentHash?: Maybe<Scalars['Bytes']['output']>;
+  timestamp?: Maybe<Scalars['Int']['output']>;
+};
+
+export type _Meta_ = {
+  __typename?: '_Meta_';
+  block: _Block_;
+  deployment: Scalars['String']['output'];
+  hasIndexingErrors: Scalars['Boolean']['output'];
+};
+
+export type _SubgraphErrorPolicy_ =
+  | 'allow'
+  | 'deny';
+
+export type SubgraphGlobalStatsQueryVariables = Exact<{ [key: string]: never; }>;
+
+
+export type SubgraphGlobalStatsQuery = { __typename?: 'Query', globalStats?: { __typename?: 'GlobalStats', totalValueLocked: string, totalDeposits: string, totalWithdrawals: string, totalYieldGenerated: string, totalBridgeVolume: string, totalUsers: string, activeProtocols: number, lastUpdate: string } | null, _meta?: { __typename?: '_Meta_', hasIndexingErrors: boolean, block: { __typename?: '_Block_', number: number } } | null };
+
+export type SubgraphChainStatsQueryVariables = Exact<{ [key: string]: never; }>;
+
+
+export type SubgraphChainStatsQuery = { __typename?: 'Query', chainStats_collection: Array<{ __typename?: 'ChainStats', chainId: string, name: string, totalValueLocked: string, activeProtocols: number, totalUsers: string, lastUpdate: string }> };
+
+export type SubgraphDailyStatsQueryVariables = Exact<{
+  from: Scalars['BigInt']['input'];
+  first: Scalars['Int']['input'];
+}>;
+
+
+export type SubgraphDailyStatsQuery = { __typename?: 'Query', dailyStats_collection: Array<{ __typename?: 'DailyStats', date: string, totalValueLocked: string, totalDeposits: string, totalWithdrawals: string, totalYieldGenerated: string, totalBridgeVolume: string, uniqueUsers: string, depositCount: number, withdrawalCount: number, rebalanceCount: number }>, previous: Array<{ __typename?: 'DailyStats', totalValueLocked: string }> };
+
+export type SubgraphWeeklyStatsQueryVariables = Exact<{
+  from: Scalars['BigInt']['input'];
+  first: Scalars['Int']['input'];
+}>;
+
+
+export type SubgraphWeeklyStatsQuery = { __typename?: 'Query', weeklyStats_collection: Array<{ __typename?: 'WeeklyStats', date: string, totalValueLocked: string, totalDeposits: string, totalWithdrawals: string, totalYieldGenerated: string, totalBridgeVolume: string, uniqueUsers: string, depositCount: number, withdrawalCount: number, rebalanceCount: number }>, previous: Array<{ __typename?: 'WeeklyStats', totalValueLocked: string }> };
+
+export type SubgraphApySnapshotsQueryVariables = Exact<{
+  from: Scalars['BigInt']['input'];
+  first: Scalars['Int']['input'];
+}>;
+
+
+export type SubgraphApySnapshotsQuery = { __typename?: 'Query', apySnapshots: Array<{ __typename?: 'APYSnapshot', apy: string, timestamp: string, protocol: { __typename?: 'Protocol', id: string, name: string }, asset: { __typename?: 'Asset', id: string } }> };
+
+export type SubgraphApyAggregatesQueryVariables = Exact<{
+  interval: Scalars['String']['input'];
+  from: Scalars['BigInt']['input'];
+  first: Scalars['Int']['input'];
+}>;
+
+
+export type SubgraphApyAggregatesQuery = { __typename?: 'Query', apyAggregates: Array<{ __typename?: 'APYAggregate', averageAPY: string, periodStart: string, protocol: { __typename?: 'Protocol', id: string, name: string }, asset: { __typename?: 'Asset', id: string } }> };
+
+export type SubgraphBridgeRequestsQueryVariables = Exact<{
+  user: Scalars['String']['input'];
+  first: Scalars['Int']['input'];
+}>;
+
+
+export type SubgraphBridgeRequestsQuery = { __typename?: 'Query', bridgeRequests: Array<{ __typename?: 'BridgeRequest', id: string, amount: string, sourceChainId: string, destinationChainId: string, recipient: string, timestamp: string, completed: boolean, completedTimestamp?: string | null, cancelRequestedTimestamp?: string | null, refunded: boolean, transactionHash: string, asset: { __typename?: 'Asset', id: string, symbol: string, decimals: number } }> };
+
+export class TypedDocumentString<TResult, TVariables>
+  extends String
+  implements DocumentTypeDecoration<TResult, TVariables>
+{
+  __apiType?: NonNullable<DocumentTypeDecoration<TResult, TVariables>['__apiType']>;
+  private value: string;
+  public __meta__?: Record<string, any> | undefined;
+
+  constructor(value: string, __meta__?: Record<string, any> | undefined) {
+    super(value);
+    this.value = value;
+    this.__meta__ = __meta__;
+  }
+
+  override toString(): string & DocumentTypeDecoration<TResult, TVariables> {
+    return this.value;
+  }
+}
+
+export const SubgraphGlobalStatsDocument = new TypedDocumentString(`
+    query SubgraphGlobalStats {
+  globalStats(id: "global") {
+    totalValueLocked
+    totalDeposits
+    totalWithdrawals
+    totalYieldGenerated
+    totalBridgeVolume
+    totalUsers
+    activeProtocols
+    lastUpdate
+  }
+  _meta {
+    block {
+      number
+    }
+    hasIndexingErrors
+  }
+}
+    `) as unknown as TypedDocumentString<SubgraphGlobalStatsQuery, SubgraphGlobalStatsQueryVariables>;
+export const SubgraphChainStatsDocument = new TypedDocumentString(`
+    query SubgraphChainStats {
+  chainStats_collection(first: 100) {
+    chainId
+    name
+    totalValueLocked
+    activeProtocols
+    totalUsers
+    lastUpdate
+  }
+}
+    `) as unknown as TypedDocumentString<SubgraphChainStatsQuery, SubgraphChainStatsQueryVariables>;
+export const SubgraphDailyStatsDocument = new TypedDocumentString(`
+    query SubgraphDailyStats($from: BigInt!, $first: Int!) {
+  dailyStats_collection(
+    where: {date_gte: $from}
+    orderBy: date
+    orderDirection: asc
+    first: $first
+  ) {
+    date
+    totalValueLocked
+    totalDeposits
+    totalWithdrawals
+    totalYieldGenerated
+    totalBridgeVolume
+    uniqueUsers
+    depositCount
+    withdrawalCount
+    rebalanceCount
+  }
+  previous: dailyStats_collection(
+    where: {date_lt: $from}
+    orderBy: date
+    orderDirection: desc
+    first: 1
+  ) {
+    totalValueLocked
+  }
+}
+    `) as unknown as TypedDocumentString<SubgraphDailyStatsQuery, SubgraphDailyStatsQueryVariables>;
+export const SubgraphWeeklyStatsDocument = new TypedDocumentString(`
+    query SubgraphWeeklyStats($from: BigInt!, $first: Int!) {
+  weeklyStats_collection(
+    where: {date_gte: $from}
+    orderBy: date
+    orderDirection: asc
+    first: $first
+  ) {
+    date
+    totalValueLocked
+    totalDeposits
+    totalWithdrawals
+    totalYieldGenerated
+    totalBridgeVolume
+    uniqueUsers
+    depositCount
+    withdrawalCount
+    rebalanceCount
+  }
+  previous: weeklyStats_collection(
+    where: {date_lt: $from}
+    orderBy: date
+    orderDirection: desc
+    first: 1
+  ) {
+    totalValueLocked
+  }
+}
+    `) as unknown as TypedDocumentString<SubgraphWeeklyStatsQuery, SubgraphWeeklyStatsQueryVariables>;
+export const SubgraphApySnapshotsDocument = new TypedDocumentString(`
+    query SubgraphApySnapshots($from: BigInt!, $first: Int!) {
+  apySnapshots(
+    where: {timestamp_gte: $from}
+    orderBy: timestamp
+    orderDirection: desc
+    first: $first
+  ) {
+    protocol {
+      id
+      name
+    }
+    asset {
+      id
+    }
+    apy
+    timestamp
+  }
+}
+    `) as unknown as TypedDocumentString<SubgraphApySnapshotsQuery, SubgraphApySnapshotsQueryVariables>;
+export const SubgraphApyAggregatesDocument = new TypedDocumentString(`
+    query SubgraphApyAggregates($interval: String!, $from: BigInt!, $first: Int!) {
+  apyAggregates(
+    where: {interval: $interval, periodStart_gte: $from}
+    orderBy: periodStart
+    orderDirection: asc
+    first: $first
+  ) {
+    protocol {
+      id
+      name
+    }
+    asset {
+      id
+    }
+    averageAPY
+    periodStart
+  }
+}
+    `) as unknown as TypedDocumentString<SubgraphApyAggregatesQuery, SubgraphApyAggregatesQueryVariables>;
+export const SubgraphBridgeRequestsDocument = new TypedDocumentString(`
+    query SubgraphBridgeRequests($user: String!, $first: Int!) {
+  bridgeRequests(
+    where: {user: $user}
+    orderBy: timestamp
+    orderDirection: desc
+    first: $first
+  ) {
+    id
+    asset {
+      id
+      symbol
+      decimals
+    }
+    amount
+    sourceChainId
+    destinationChainId
+    recipient
+    timestamp
+    completed
+    completedTimestamp
+    cancelRequestedTimestamp
+    refunded
+    transactionHash
+  }
+}
+    `) as unknown as TypedDocumentString<SubgraphBridgeRequestsQuery, SubgraphBridgeRequestsQueryVariables>;
\ No newline at end of file
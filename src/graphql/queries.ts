@@ -0,0 +1,169 @@
+import { graphql } from './generated';
+
+// Operations run against each chain's subgraph; `npm run codegen` regenerates their types
+
+export const globalStatsQuery = graphql(`
+  query SubgraphGlobalStats {
+    globalStats(id: "global") {
+      totalValueLocked
+      totalDeposits
+      totalWithdrawals
+      totalYieldGenerated
+      totalBridgeVolume
+      totalUsers
+      activeProtocols
+      lastUpdate
+    }
+    _meta {
+      block {
+        number
+      }
+      hasIndexingErrors
+    }
+  }
+`);
+
+export const chainStatsQuery = graphql(`
+  query SubgraphChainStats {
+    chainStats_collection(first: 100) {
+      chainId
+      name
+      totalValueLocked
+      activeProtocols
+      totalUsers
+      lastUpdate
+    }
+  }
+`);
+
+// `previous` is the last period before the window, to carry its TVL into the first periods
+export const dailyStatsQuery = graphql(`
+  query SubgraphDailyStats($from: BigInt!, $first: Int!) {
+    dailyStats_collection(
+      where: { date_gte: $from }
+      orderBy: date
+      orderDirection: asc
+      first: $first
+    ) {
+      date
+      totalValueLocked
+      totalDeposits
+      totalWithdrawals
+      totalYieldGenerated
+      totalBridgeVolume
+      uniqueUsers
+      depositCount
+      withdrawalCount
+      rebalanceCount
+    }
+    previous: dailyStats_collection(
+      where: { date_lt: $from }
+      orderBy: date
+      orderDirection: desc
+      first: 1
+    ) {
+      totalValueLocked
+    }
+  }
+`);
+
+export const weeklyStatsQuery = graphql(`
+  query SubgraphWeeklyStats($from: BigInt!, $first: Int!) {
+    weeklyStats_collection(
+      where: { date_gte: $from }
+      orderBy: date
+      orderDirection: asc
+      first: $first
+    ) {
+      date
+      totalValueLocked
+      totalDeposits
+      totalWithdrawals
+      totalYieldGenerated
+      totalBridgeVolume
+      uniqueUsers
+      depositCount
+      withdrawalCount
+      rebalanceCount
+    }
+    previous: weeklyStats_collection(
+      where: { date_lt: $from }
+      orderBy: date
+      orderDirection: desc
+      first: 1
+    ) {
+      totalValueLocked
+    }
+  }
+`);
+
+// Newest first, so a window with more snapshots than `first` loses its oldest ones
+export const apySnapshotsQuery = graphql(`
+  query SubgraphApySnapshots($from: BigInt!, $first: Int!) {
+    apySnapshots(
+      where: { timestamp_gte: $from }
+      orderBy: timestamp
+      orderDirection: desc
+      first: $first
+    ) {
+      protocol {
+        id
+        name
+      }
+      asset {
+        id
+      }
+      apy
+      timestamp
+    }
+  }
+`);
+
+export const apyAggregatesQuery = graphql(`
+  query SubgraphApyAggregates($interval: String!, $from: BigInt!, $first: Int!) {
+    apyAggregates(
+      where: { interval: $interval, periodStart_gte: $from }
+      orderBy: periodStart
+      orderDirection: asc
+      first: $first
+    ) {
+      protocol {
+        id
+        name
+      }
+      asset {
+        id
+      }
+      averageAPY
+      periodStart
+    }
+  }
+`);
+
+export const bridgeRequestsQuery = graphql(`
+  query SubgraphBridgeRequests($user: String!, $first: Int!) {
+    bridgeRequests(
+      where: { user: $user }
+      orderBy: timestamp
+      orderDirection: desc
+      first: $first
+    ) {
+      id
+      asset {
+        id
+        symbol
+        decimals
+      }
+      amount
+      sourceChainId
+      destinationChainId
+      recipient
+      timestamp
+      completed
+      completedTimestamp
+      cancelRequestedTimestamp
+      refunded
+      transactionHash
+    }
+  }
+`);
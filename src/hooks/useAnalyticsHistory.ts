@@ -0,0 +1,220 @@
+import { useMemo } from 'react';
+import { formatUnits } from 'viem';
+import { useStore } from '../store/useStore';
+import { SUBGRAPH_AMOUNT_DECIMALS } from '../config/subgraph';
+import {
+  apyAggregatesQuery,
+  apySnapshotsQuery,
+  dailyStatsQuery,
+  weeklyStatsQuery,
+} from '../graphql/queries';
+import { useSubgraphQueries } from './useSubgraph';
+
+export type TimeRange = '7d' | '30d' | '90d' | '1y';
+
+type Interval = 'hour' | 'day' | 'week';
+
+const intervalSeconds: Record<Interval, number> = {
+  hour: 3_600,
+  day: 86_400,
+  week: 604_800,
+};
+
+// Long windows read the subgraph's weekly aggregates instead of hundreds of daily entities
+const rangeConfigs: Record<TimeRange, { days: number; statsInterval: 'day' | 'week'; apyInterval: Interval }> = {
+  '7d': { days: 7, statsInterval: 'day', apyInterval: 'hour' },
+  '30d': { days: 30, statsInterval: 'day', apyInterval: 'day' },
+  '90d': { days: 90, statsInterval: 'week', apyInterval: 'week' },
+  '1y': { days: 365, statsInterval: 'week', apyInterval: 'week' },
+};
+
+// graph-node returns at most 1000 entities per collection field
+const MAX_ENTITIES = 1000;
+
+// Used for protocols that are not (or no longer) loaded from the contracts
+const fallbackColors = ['#8b5cf6', '#10b981', '#3b82f6', '#f97316', '#ec4899', '#06b6d4', '#eab308'];
+
+export interface HistoryPoint {
+  timestamp: number;
+  date: string;
+  tvl: number;
+  deposits: number;
+  withdrawals: number;
+  yield: number;
+  bridgeVolume: number;
+  users: number;
+}
+
+export interface ApySeries {
+  key: string;
+  name: string;
+  color: string;
+}
+
+// APY in percent per series key, for the periods that have snapshots
+export interface ApyPoint {
+  timestamp: number;
+  date: string;
+  [seriesKey: string]: number | string;
+}
+
+interface ApySample {
+  chainId: number;
+  protocolId: string;
+  protocolName: string;
+  bucket: number;
+  apy: number;
+}
+
+const toAmount = (value: string) => Number(formatUnits(BigInt(value), SUBGRAPH_AMOUNT_DECIMALS));
+
+const periodStart = (timestamp: number, interval: Interval) =>
+  Math.floor(timestamp / intervalSeconds[interval]) * intervalSeconds[interval];
+
+const formatBucket = (timestamp: number, interval: Interval) =>
+  new Date(timestamp * 1000).toLocaleString(
+    'en-US',
+    interval === 'hour'
+      ? { month: 'short', day: 'numeric', hour: '2-digit' }
+      : { month: 'short', day: 'numeric' }
+  );
+
+/**
+ * Indexed history for the Analytics page: per-period activity and TVL from `DailyStats` /
+ * `WeeklyStats`, and APY per protocol from `APYSnapshot` (7d) or `APYAggregate` (longer windows),
+ * added up across every chain with a subgraph.
+ * Unique users are counted per chain, so a user active on two chains in a period counts twice.
+ */
+export function useAnalyticsHistory(timeRange: TimeRange) {
+  const chains = useStore((state) => state.chains);
+  const protocols = useStore((state) => state.protocols);
+  const { days, statsInterval, apyInterval } = rangeConfigs[timeRange];
+
+  // Windows are aligned to the subgraph's periods so the query variables only change with a new period
+  const periodCount = Math.ceil((days * intervalSeconds.day) / intervalSeconds[statsInterval]);
+  const currentPeriod = periodStart(Math.floor(Date.now() / 1000), statsInterval);
+  const from = currentPeriod - (periodCount - 1) * intervalSeconds[statsInterval];
+  const statsVariables = { from: from.toString(), first: MAX_ENTITIES };
+
+  const daily = useSubgraphQueries(dailyStatsQuery, statsVariables, statsInterval === 'day');
+  const weekly = useSubgraphQueries(weeklyStatsQuery, statsVariables, statsInterval === 'week');
+  const snapshots = useSubgraphQueries(apySnapshotsQuery, statsVariables, apyInterval === 'hour');
+  const aggregates = useSubgraphQueries(
+    apyAggregatesQuery,
+    { ...statsVariables, interval: apyInterval },
+    apyInterval !== 'hour'
+  );
+
+  const stats = statsInterval === 'day' ? daily : weekly;
+  const apy = apyInterval === 'hour' ? snapshots : aggregates;
+
+  const points = useMemo(() => {
+    const timeline: HistoryPoint[] = Array.from({ length: periodCount }, (_, i) => {
+      const timestamp = from + i * intervalSeconds[statsInterval];
+      return {
+        timestamp,
+        date: formatBucket(timestamp, statsInterval),
+        tvl: 0,
+        deposits: 0,
+        withdrawals: 0,
+        yield: 0,
+        bridgeVolume: 0,
+        users: 0,
+      };
+    });
+
+    const chainStats =
+      statsInterval === 'day'
+        ? daily.results.map(({ data }) => ({ rows: data.dailyStats_collection, previous: data.previous }))
+        : weekly.results.map(({ data }) => ({ rows: data.weeklyStats_collection, previous: data.previous }));
+
+    for (const { rows, previous } of chainStats) {
+      const rowsByPeriod = new Map(rows.map((row) => [Number(row.date), row]));
+      // Periods without activity keep the TVL of the last period that had some
+      let tvl = previous[0] ? toAmount(previous[0].totalValueLocked) : 0;
+
+      for (const point of timeline) {
+        const row = rowsByPeriod.get(point.timestamp);
+        if (row) {
+          tvl = toAmount(row.totalValueLocked);
+          point.deposits += toAmount(row.totalDeposits);
+          point.withdrawals += toAmount(row.totalWithdrawals);
+          point.yield += toAmount(row.totalYieldGenerated);
+          point.bridgeVolume += toAmount(row.totalBridgeVolume);
+          point.users += Number(row.uniqueUsers);
+        }
+        point.tvl += tvl;
+      }
+    }
+    return timeline;
+  }, [daily.results, weekly.results, statsInterval, from, periodCount]);
+
+  const { apyPoints, apySeries } = useMemo(() => {
+    const samples: ApySample[] =
+      apyInterval === 'hour'
+        ? snapshots.results.flatMap(({ chainId, data }) =>
+            data.apySnapshots.map((snapshot) => ({
+              chainId,
+              protocolId: snapshot.protocol.id,
+              protocolName: snapshot.protocol.name,
+              bucket: periodStart(Number(snapshot.timestamp), 'hour'),
+              apy: Number(snapshot.apy),
+            }))
+          )
+        : aggregates.results.flatMap(({ chainId, data }) =>
+            data.apyAggregates.map((aggregate) => ({
+              chainId,
+              protocolId: aggregate.protocol.id,
+              protocolName: aggregate.protocol.name,
+              bucket: Number(aggregate.periodStart),
+              apy: Number(aggregate.averageAPY),
+            }))
+          );
+
+    const series = new Map<string, ApySeries>();
+    // Per period and series: sum and count of the APYs of every asset (basis points)
+    const buckets = new Map<number, Map<string, { sum: number; count: number }>>();
+
+    for (const sample of samples) {
+      const key = `${sample.chainId}-${sample.protocolId}`;
+      if (!series.has(key)) {
+        const chain = chains.find((c) => c.id === sample.chainId);
+        const protocol = protocols.find(
+          (p) => p.chainId === sample.chainId && p.protocolId.toLowerCase() === sample.protocolId
+        );
+        series.set(key, {
+          key,
+          name: chain ? `${sample.protocolName} (${chain.name})` : sample.protocolName,
+          color: protocol?.color ?? fallbackColors[series.size % fallbackColors.length],
+        });
+      }
+
+      const bucket = buckets.get(sample.bucket) ?? new Map<string, { sum: number; count: number }>();
+      const total = bucket.get(key) ?? { sum: 0, count: 0 };
+      bucket.set(key, { sum: total.sum + sample.apy, count: total.count + 1 });
+      buckets.set(sample.bucket, bucket);
+    }
+
+    const rows = [...buckets.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([timestamp, values]) => {
+        const point: ApyPoint = { timestamp, date: formatBucket(timestamp, apyInterval) };
+        for (const [key, { sum, count }] of values) {
+          point[key] = sum / count / 100;
+        }
+        return point;
+      });
+
+    return { apyPoints: rows, apySeries: [...series.values()] };
+  }, [snapshots.results, aggregates.results, apyInterval, chains, protocols]);
+
+  return {
+    points,
+    apyPoints,
+    apySeries,
+    isLoading: stats.isLoading || apy.isLoading,
+    isConfigured: stats.isConfigured,
+    hasData: stats.results.length > 0,
+    failedChains: stats.failedChains,
+  };
+}
@@ -0,0 +1,41 @@
+import { useQueries } from '@tanstack/react-query';
+import type { Hex } from 'viem';
+import { getPublicClient } from 'wagmi/actions';
+import type { Transaction } from '../store/useStore';
+import { wagmiConfig } from '../config/wagmi';
+import { getDeployment } from '../config/contracts';
+import { type BridgeRequestStatus, loadBridgeRequestStatus } from '../services/bridge';
+
+// Acknowledgements take a LayerZero round trip, so there is no point polling faster than delivery
+const BRIDGE_REQUEST_REFETCH_INTERVAL_MS = 30_000;
+
+/**
+ * Source-chain state of the given bridge transactions, by transaction id. Transactions without a
+ * request id, or whose source bridge cannot be read, are left out.
+ */
+export function useBridgeRequestStatuses(transactions: Transaction[]) {
+  const requests = transactions.filter(
+    (tx) => tx.type === 'bridge' && tx.requestId && getDeployment(tx.chainId)?.crossChainBridge
+  );
+
+  return useQueries({
+    queries: requests.map((tx) => ({
+      queryKey: ['bridgeRequest', tx.chainId, tx.requestId] as const,
+      queryFn: () => {
+        const client = getPublicClient(wagmiConfig, { chainId: tx.chainId });
+        if (!client) throw new Error(`No client configured for chain ${tx.chainId}`);
+        return loadBridgeRequestStatus(client, getDeployment(tx.chainId)!.crossChainBridge!, tx.requestId as Hex);
+      },
+      staleTime: BRIDGE_REQUEST_REFETCH_INTERVAL_MS / 2,
+      refetchInterval: BRIDGE_REQUEST_REFETCH_INTERVAL_MS,
+      retry: 1,
+    })),
+    combine: (queries) => {
+      const statuses: Record<string, BridgeRequestStatus> = {};
+      queries.forEach((query, i) => {
+        if (query.data) statuses[requests[i].id] = query.data;
+      });
+      return statuses;
+    },
+  });
+}
@@ -0,0 +1,36 @@
+import { useQueries } from '@tanstack/react-query';
+import { getPublicClient } from 'wagmi/actions';
+import { useStore } from '../store/useStore';
+import { wagmiConfig } from '../config/wagmi';
+import { getDeployment } from '../config/contracts';
+import { loadQueuedChanges } from '../services/timelock';
+
+// Operations wait at least the timelock delay (days in production), so polling once a minute is plenty
+const TIMELOCK_REFETCH_INTERVAL_MS = 60_000;
+
+/**
+ * Admin changes queued on the timelock of every chain that has one configured, soonest first.
+ * Chains whose timelock cannot be read are left out.
+ */
+export function useQueuedAdminChanges() {
+  const chains = useStore((state) => state.chains);
+  const chainIds = chains.map((chain) => chain.id).filter((id) => getDeployment(id)?.timelock);
+
+  return useQueries({
+    queries: chainIds.map((chainId) => ({
+      queryKey: ['timelock', chainId] as const,
+      queryFn: () => {
+        const client = getPublicClient(wagmiConfig, { chainId });
+        if (!client) throw new Error(`No client configured for chain ${chainId}`);
+        return loadQueuedChanges(client, chainId, getDeployment(chainId)!);
+      },
+      staleTime: TIMELOCK_REFETCH_INTERVAL_MS / 2,
+      refetchInterval: TIMELOCK_REFETCH_INTERVAL_MS,
+      retry: 1,
+    })),
+    combine: (queries) => ({
+      changes: queries.flatMap((query) => query.data ?? []).sort((a, b) => a.readyAt - b.readyAt),
+      failedChains: queries.filter((query) => query.isError).length,
+    }),
+  });
+}
@@ -0,0 +1,124 @@
+import { useQueries, useQuery } from '@tanstack/react-query';
+import { formatUnits } from 'viem';
+import { useStore } from '../store/useStore';
+import { getSubgraphUrl, SUBGRAPH_AMOUNT_DECIMALS } from '../config/subgraph';
+import { querySubgraph } from '../services/subgraph';
+import { globalStatsQuery } from '../graphql/queries';
+import type { TypedDocumentString } from '../graphql/generated/graphql';
+
+// Indexed data only changes once per block, so it is refetched less eagerly than contract reads
+const SUBGRAPH_STALE_TIME_MS = 30_000;
+const SUBGRAPH_REFETCH_INTERVAL_MS = 60_000;
+
+export interface ChainQueryResult<TResult> {
+  chainId: number;
+  data: TResult;
+}
+
+const subgraphQueryOptions = <TResult, TVariables>(
+  chainId: number,
+  document: TypedDocumentString<TResult, TVariables>,
+  variables: TVariables
+) => ({
+  queryKey: ['subgraph', chainId, document.toString(), variables] as const,
+  queryFn: ({ signal }: { signal: AbortSignal }) => querySubgraph(chainId, document, variables, signal),
+  staleTime: SUBGRAPH_STALE_TIME_MS,
+  refetchInterval: SUBGRAPH_REFETCH_INTERVAL_MS,
+  retry: 1,
+});
+
+/**
+ * Query the subgraph of one chain. Disabled while the chain has no subgraph endpoint configured.
+ */
+export function useSubgraphQuery<TResult, TVariables>(
+  chainId: number | null | undefined,
+  document: TypedDocumentString<TResult, TVariables>,
+  variables: TVariables,
+  enabled = true
+) {
+  return useQuery({
+    ...subgraphQueryOptions(chainId ?? 0, document, variables),
+    enabled: enabled && !!getSubgraphUrl(chainId),
+  });
+}
+
+/**
+ * Run the same query against the subgraph of every supported chain that has one configured.
+ * Chains whose subgraph fails are left out of `results` and counted in `failedChains`.
+ */
+export function useSubgraphQueries<TResult, TVariables>(
+  document: TypedDocumentString<TResult, TVariables>,
+  variables: TVariables,
+  enabled = true
+) {
+  const chains = useStore((state) => state.chains);
+  const chainIds = chains.map((chain) => chain.id).filter((id) => getSubgraphUrl(id));
+
+  return useQueries({
+    queries: chainIds.map((chainId) => ({
+      ...subgraphQueryOptions(chainId, document, variables),
+      enabled,
+    })),
+    combine: (queries) => ({
+      results: queries.flatMap((query, index): ChainQueryResult<TResult>[] =>
+        query.data ? [{ chainId: chainIds[index], data: query.data }] : []
+      ),
+      failedChains: queries.filter((query) => query.isError).length,
+      isLoading: queries.some((query) => query.isLoading),
+      isConfigured: chainIds.length > 0,
+    }),
+  });
+}
+
+export interface IndexedGlobalStats {
+  totalValueLocked: number;
+  totalDeposits: number;
+  totalWithdrawals: number;
+  totalYieldGenerated: number;
+  totalBridgeVolume: number;
+  totalUsers: number;
+  indexedChains: number;
+  hasIndexingErrors: boolean;
+}
+
+const toAmount = (value: string) => Number(formatUnits(BigInt(value), SUBGRAPH_AMOUNT_DECIMALS));
+
+/**
+ * `GlobalStats` of every indexed chain, added up. `stats` stays undefined until a subgraph has answered.
+ * Users are counted once per chain they have used.
+ */
+export function useIndexedGlobalStats() {
+  const { results, isLoading, isConfigured } = useSubgraphQueries(globalStatsQuery, {});
+
+  const indexed = results.filter((result) => result.data.globalStats);
+  const stats: IndexedGlobalStats | undefined =
+    indexed.length === 0
+      ? undefined
+      : indexed.reduce<IndexedGlobalStats>(
+          (total, { data }) => {
+            const chainStats = data.globalStats!;
+            return {
+              totalValueLocked: total.totalValueLocked + toAmount(chainStats.totalValueLocked),
+              totalDeposits: total.totalDeposits + toAmount(chainStats.totalDeposits),
+              totalWithdrawals: total.totalWithdrawals + toAmount(chainStats.totalWithdrawals),
+              totalYieldGenerated: total.totalYieldGenerated + toAmount(chainStats.totalYieldGenerated),
+              totalBridgeVolume: total.totalBridgeVolume + toAmount(chainStats.totalBridgeVolume),
+              totalUsers: total.totalUsers + Number(chainStats.totalUsers),
+              indexedChains: total.indexedChains + 1,
+              hasIndexingErrors: total.hasIndexingErrors || (data._meta?.hasIndexingErrors ?? false),
+            };
+          },
+          {
+            totalValueLocked: 0,
+            totalDeposits: 0,
+            totalWithdrawals: 0,
+            totalYieldGenerated: 0,
+            totalBridgeVolume: 0,
+            totalUsers: 0,
+            indexedChains: 0,
+            hasIndexingErrors: false,
+          }
+        );
+
+  return { stats, isLoading, isConfigured };
+}
@@ -0,0 +1,50 @@
+import { useEffect } from 'react';
+import toast from 'react-hot-toast';
+import { useStore } from '../store/useStore';
+import { resolvePendingTransaction } from '../services/transactionHistory';
+
+// How often pending transactions are checked against their receipts
+const POLL_INTERVAL_MS = 10_000;
+
+/**
+ * Resolves pending transactions in the background, including ones restored from a previous session,
+ * and marks them `completed` or `failed` once their receipts (or bridge delivery) are known.
+ */
+export function useTransactionPoller() {
+  const address = useStore((state) => state.address);
+
+  useEffect(() => {
+    if (!address) return;
+    let isPolling = false;
+
+    const poll = async () => {
+      if (isPolling) return;
+      isPolling = true;
+
+      const pending = useStore.getState().transactions.filter((tx) => tx.status === 'pending');
+      await Promise.all(
+        pending.map(async (tx) => {
+          try {
+            const status = await resolvePendingTransaction(tx);
+            // Skip records the foreground flow has resolved in the meantime
+            const current = useStore.getState().transactions.find((t) => t.id === tx.id);
+            if (status === 'pending' || current?.status !== 'pending') return;
+
+            useStore.getState().updateTransactionStatus(tx.id, status);
+            if (tx.type === 'bridge' && status === 'completed') {
+              toast.success(`${tx.amount.toLocaleString()} ${tx.asset.symbol} arrived on ${tx.toChain?.name}`);
+            }
+          } catch (error) {
+            console.error(`Failed to check transaction ${tx.txHash ?? tx.id}`, error);
+          }
+        })
+      );
+
+      isPolling = false;
+    };
+
+    poll();
+    const interval = setInterval(poll, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [address]);
+}
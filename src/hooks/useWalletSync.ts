@@ -0,0 +1,55 @@
+import { useEffect } from 'react';
+import { useConnection, useReadContract } from 'wagmi';
+import { erc20Abi, formatUnits, isAddress } from 'viem';
+import { useStore } from '../store/useStore';
+
+/**
+ * Mirrors the connected wagmi account into the app store so pages can keep
+ * reading `address`, `chainId` and `balance` from `useStore`.
+ * `balance` is the connected account's balance of the selected asset.
+ */
+export function useWalletSync() {
+  const { address, chainId, isConnected } = useConnection();
+  const assets = useStore((state) => state.assets);
+  const selectedAsset = useStore((state) => state.selectedAsset);
+  const setWalletState = useStore((state) => state.setWalletState);
+  const setSelectedAsset = useStore((state) => state.setSelectedAsset);
+  const setBalance = useStore((state) => state.setBalance);
+
+  const assetAddress =
+    selectedAsset && selectedAsset.chainId === chainId && isAddress(selectedAsset.address)
+      ? selectedAsset.address
+      : undefined;
+
+  const { data: rawBalance } = useReadContract({
+    address: assetAddress,
+    abi: erc20Abi,
+    functionName: 'balanceOf',
+    args: address ? [address] : undefined,
+    chainId,
+    query: {
+      enabled: isConnected && !!address && !!assetAddress,
+      refetchInterval: 15_000,
+    },
+  });
+
+  useEffect(() => {
+    setWalletState(isConnected, address ?? null, isConnected ? chainId ?? null : null);
+  }, [isConnected, address, chainId, setWalletState]);
+
+  // Keep the selected asset on the connected chain, preferring the same symbol
+  useEffect(() => {
+    if (!isConnected || !chainId || selectedAsset?.chainId === chainId) return;
+    const chainAssets = assets.filter((a) => a.chainId === chainId);
+    const match = chainAssets.find((a) => a.symbol === selectedAsset?.symbol) ?? chainAssets[0];
+    if (match) setSelectedAsset(match);
+  }, [isConnected, chainId, assets, selectedAsset, setSelectedAsset]);
+
+  useEffect(() => {
+    if (!isConnected || !assetAddress || rawBalance === undefined || !selectedAsset) {
+      setBalance(0);
+      return;
+    }
+    setBalance(Number(formatUnits(rawBalance, selectedAsset.decimals)));
+  }, [isConnected, assetAddress, rawBalance, selectedAsset, setBalance]);
+}
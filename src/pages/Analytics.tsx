@@ -14,6 +14,8 @@ import {
   RefreshCw
 } from 'lucide-react';
 import { useStore } from '../store/useStore';
+import { useIndexedGlobalStats } from '../hooks/useSubgraph';
+import { useAnalyticsHistory, type TimeRange } from '../hooks/useAnalyticsHistory';
 import {
   LineChart,
   Line,
@@ -34,25 +36,51 @@ import {
 
 const Analytics: React.FC = () => {
   const { globalStats, protocols, chains } = useStore();
-  const [timeRange, setTimeRange] = useState<'7d' | '30d' | '90d' | '1y'>('30d');
-
-  // Generate mock historical data
-  const historicalData = useMemo(() => {
-    const days = timeRange === '7d' ? 7 : timeRange === '30d' ? 30 : timeRange === '90d' ? 90 : 365;
-    return Array.from({ length: days }, (_, i) => {
-      const date = new Date();
-      date.setDate(date.getDate() - (days - i - 1));
-      return {
-        date: date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
-        tvl: 12000 + Math.sin(i / 5) * 1000 + i * 50 + Math.random() * 200,
-        deposits: 50 + Math.floor(Math.random() * 100),
-        withdrawals: 30 + Math.floor(Math.random() * 60),
-        yield: 20 + Math.floor(Math.random() * 50),
-        users: 1000 + Math.floor(Math.random() * 500) + i * 10,
-        apy: 4.5 + Math.sin(i / 8) * 0.8 + Math.random() * 0.3,
-      };
-    });
-  }, [timeRange]);
+  const [timeRange, setTimeRange] = useState<TimeRange>('30d');
+  const { stats: indexedStats } = useIndexedGlobalStats();
+  const { points, apyPoints, apySeries, isLoading, isConfigured, hasData, failedChains } =
+    useAnalyticsHistory(timeRange);
+
+  // Shown instead of the history charts until a subgraph has answered
+  const historyPlaceholder = !isConfigured
+    ? 'Set a VITE_*_SUBGRAPH_URL to load indexed history'
+    : isLoading
+      ? 'Loading indexed history...'
+      : !hasData
+        ? 'The subgraph could not be reached'
+        : null;
+
+  const renderPlaceholder = (height: number, message = historyPlaceholder) => (
+    <div className="flex items-center justify-center text-sm text-dark-400" style={{ height }}>
+      {message}
+    </div>
+  );
+
+  // The 90d and 1y windows are served from weekly aggregates
+  const statsPeriod = timeRange === '7d' || timeRange === '30d' ? 'day' : 'week';
+  const periodLabel = statsPeriod === 'day' ? 'Daily' : 'Weekly';
+
+  const percentChange = (from: number, to: number) => (from > 0 ? ((to - from) / from) * 100 : undefined);
+
+  const tvlChange = points.length > 0 ? percentChange(points[0].tvl, points[points.length - 1].tvl) : undefined;
+
+  // Yield of the window relative to everything generated before it
+  const yieldInRange = points.reduce((sum, point) => sum + point.yield, 0);
+  const yieldChange = indexedStats
+    ? percentChange(indexedStats.totalYieldGenerated - yieldInRange, indexedStats.totalYieldGenerated)
+    : undefined;
+
+  // Change of the mean protocol APY between the first and last period with snapshots (percentage points)
+  const averageApy = (point: (typeof apyPoints)[number]) => {
+    const values = apySeries.map((series) => point[series.key]).filter((v): v is number => typeof v === 'number');
+    return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : undefined;
+  };
+  const firstApy = apyPoints.length > 1 ? averageApy(apyPoints[0]) : undefined;
+  const lastApy = apyPoints.length > 1 ? averageApy(apyPoints[apyPoints.length - 1]) : undefined;
+  const apyChange = firstApy !== undefined && lastApy !== undefined ? lastApy - firstApy : undefined;
+
+  const formatChange = (change: number | undefined) =>
+    change === undefined ? undefined : `${change >= 0 ? '+' : ''}${change.toFixed(2)}%`;
 
   // Chain TVL distribution
   const chainTvlData = useMemo(() => {
@@ -83,32 +111,38 @@ const Analytics: React.FC = () => {
     return `$${num.toFixed(0)}`;
   };
 
+  const formatCount = (num: number) => {
+    if (num >= 1e6) return `${(num / 1e6).toFixed(1)}M`;
+    if (num >= 1e3) return `${(num / 1e3).toFixed(1)}K`;
+    return num.toFixed(0);
+  };
+
   const stats = [
     {
       label: 'Total Value Locked',
       value: formatNumber(globalStats.totalValueLocked),
-      change: '+12.5%',
-      positive: true,
+      change: formatChange(tvlChange),
+      positive: (tvlChange ?? 0) >= 0,
       icon: DollarSign,
     },
     {
       label: 'Total Users',
-      value: globalStats.totalUsers.toLocaleString(),
-      change: '+8.3%',
+      value: (indexedStats?.totalUsers ?? globalStats.totalUsers).toLocaleString(),
+      change: undefined,
       positive: true,
       icon: Users,
     },
     {
       label: 'Yield Generated',
-      value: formatNumber(globalStats.totalYieldGenerated),
-      change: '+15.2%',
+      value: formatNumber(indexedStats?.totalYieldGenerated ?? globalStats.totalYieldGenerated),
+      change: formatChange(yieldChange),
       positive: true,
       icon: TrendingUp,
     },
     {
       label: 'Active Protocols',
       value: globalStats.activeProtocols.toString(),
-      change: '0%',
+      change: undefined,
       positive: true,
       icon: Layers,
     },
@@ -126,6 +160,11 @@ const Analytics: React.FC = () => {
           <p className="text-dark-400">
             Comprehensive insights into protocol performance and yields
           </p>
+          {failedChains > 0 && (
+            <p className="text-sm text-accent-yellow mt-1">
+              {failedChains} subgraph{failedChains > 1 ? 's' : ''} unavailable, history covers the other chains
+            </p>
+          )}
         </motion.div>
 
         <div className="flex items-center gap-3">
@@ -169,18 +208,20 @@ const Analytics: React.FC = () => {
                 <div className="p-2 rounded-lg bg-dark-800">
                   <Icon className="w-5 h-5 text-accent-purple" />
                 </div>
-                <span
-                  className={`flex items-center gap-1 text-sm ${
-                    stat.positive ? 'text-accent-green' : 'text-accent-red'
-                  }`}
-                >
-                  {stat.positive ? (
-                    <TrendingUp className="w-3 h-3" />
-                  ) : (
-                    <TrendingDown className="w-3 h-3" />
-                  )}
-                  {stat.change}
-                </span>
+                {stat.change && (
+                  <span
+                    className={`flex items-center gap-1 text-sm ${
+                      stat.positive ? 'text-accent-green' : 'text-accent-red'
+                    }`}
+                  >
+                    {stat.positive ? (
+                      <TrendingUp className="w-3 h-3" />
+                    ) : (
+                      <TrendingDown className="w-3 h-3" />
+                    )}
+                    {stat.change}
+                  </span>
+                )}
               </div>
               <p className="text-2xl font-bold text-white mb-1">{stat.value}</p>
               <p className="text-sm text-dark-400">{stat.label}</p>
@@ -207,50 +248,58 @@ const Analytics: React.FC = () => {
               <p className="text-2xl font-bold gradient-text">
                 {formatNumber(globalStats.totalValueLocked)}
               </p>
-              <p className="text-xs text-accent-green">+12.5% from last period</p>
+              {tvlChange !== undefined && (
+                <p className={`text-xs ${tvlChange >= 0 ? 'text-accent-green' : 'text-accent-red'}`}>
+                  {formatChange(tvlChange)} over {timeRange}
+                </p>
+              )}
             </div>
           </div>
 
-          <ResponsiveContainer width="100%" height={250}>
-            <AreaChart data={historicalData}>
-              <defs>
-                <linearGradient id="tvlGradient" x1="0" y1="0" x2="0" y2="1">
-                  <stop offset="5%" stopColor="#8b5cf6" stopOpacity={0.3} />
-                  <stop offset="95%" stopColor="#8b5cf6" stopOpacity={0} />
-                </linearGradient>
-              </defs>
-              <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
-              <XAxis
-                dataKey="date"
-                stroke="#64748b"
-                fontSize={11}
-                tickLine={false}
-                axisLine={false}
-              />
-              <YAxis
-                stroke="#64748b"
-                fontSize={11}
-                tickLine={false}
-                axisLine={false}
-                tickFormatter={(v) => `$${(v / 1000).toFixed(0)}B`}
-              />
-              <Tooltip
-                contentStyle={{
-                  background: 'rgba(15, 23, 42, 0.95)',
-                  border: '1px solid rgba(71, 85, 105, 0.5)',
-                  borderRadius: '12px',
-                }}
-                formatter={(value) => value !== undefined ? [formatNumber(Number(value) * 1e6), 'TVL'] : ['', 'TVL']}
-              />
-              <Area
-                type="monotone"
-                dataKey="tvl"
-                stroke="#8b5cf6"
-                strokeWidth={2}
-                fill="url(#tvlGradient)"
-              />
-            </AreaChart>
-          </ResponsiveContainer>
+          {historyPlaceholder ? (
+            renderPlaceholder(250)
+          ) : (
+            <ResponsiveContainer width="100%" height={250}>
+              <AreaChart data={points}>
+                <defs>
+                  <linearGradient id="tvlGradient" x1="0" y1="0" x2="0" y2="1">
+                    <stop offset="5%" stopColor="#8b5cf6" stopOpacity={0.3} />
+                    <stop offset="95%" stopColor="#8b5cf6" stopOpacity={0} />
+                  </linearGradient>
+                </defs>
+                <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                <XAxis
+                  dataKey="date"
+                  stroke="#64748b"
+                  fontSize={11}
+                  tickLine={false}
+                  axisLine={false}
+                />
+                <YAxis
+                  stroke="#64748b"
+                  fontSize={11}
+                  tickLine={false}
+                  axisLine={false}
+                  tickFormatter={(v) => formatNumber(v)}
+                />
+                <Tooltip
+                  contentStyle={{
+                    background: 'rgba(15, 23, 42, 0.95)',
+                    border: '1px solid rgba(71, 85, 105, 0.5)',
+                    borderRadius: '12px',
+                  }}
+                  formatter={(value) => value !== undefined ? [formatNumber(Number(value)), 'TVL'] : ['', 'TVL']}
+                />
+                <Area
+                  type="monotone"
+                  dataKey="tvl"
+                  stroke="#8b5cf6"
+                  strokeWidth={2}
+                  fill="url(#tvlGradient)"
+                />
+              </AreaChart>
+            </ResponsiveContainer>
+          )}
         </motion.div>
 
         {/* APY Chart */}
@@ -262,52 +311,66 @@ const Analytics: React.FC = () => {
         >
           <div className="flex items-center justify-between mb-6">
             <div>
-              <h3 className="text-lg font-semibold text-white">Average APY</h3>
-              <p className="text-sm text-dark-400">Weighted average across protocols</p>
+              <h3 className="text-lg font-semibold text-white">APY History</h3>
+              <p className="text-sm text-dark-400">Per protocol, averaged across assets</p>
             </div>
             <div className="text-right">
               <p className="text-2xl font-bold text-accent-green">
                 {globalStats.avgApy.toFixed(2)}%
               </p>
-              <p className="text-xs text-accent-green">+0.24% from last period</p>
+              {apyChange !== undefined && (
+                <p className={`text-xs ${apyChange >= 0 ? 'text-accent-green' : 'text-accent-red'}`}>
+                  {formatChange(apyChange)} over {timeRange}
+                </p>
+              )}
             </div>
           </div>
 
-          <ResponsiveContainer width="100%" height={250}>
-            <LineChart data={historicalData}>
-              <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
-              <XAxis
-                dataKey="date"
-                stroke="#64748b"
-                fontSize={11}
-                tickLine={false}
-                axisLine={false}
-              />
-              <YAxis
-                stroke="#64748b"
-                fontSize={11}
-                tickLine={false}
-                axisLine={false}
-                domain={[3, 7]}
-                tickFormatter={(v) => `${v.toFixed(1)}%`}
-              />
-              <Tooltip
-                contentStyle={{
-                  background: 'rgba(15, 23, 42, 0.95)',
-                  border: '1px solid rgba(71, 85, 105, 0.5)',
-                  borderRadius: '12px',
-                }}
-                formatter={(value) => value !== undefined ? [`${Number(value).toFixed(2)}%`, 'APY'] : ['', 'APY']}
-              />
-              <Line
-                type="monotone"
-                dataKey="apy"
-                stroke="#10b981"
-                strokeWidth={2}
-                dot={false}
-              />
-            </LineChart>
-          </ResponsiveContainer>
+          {historyPlaceholder || apyPoints.length === 0 ? (
+            renderPlaceholder(250, historyPlaceholder ?? 'No APY snapshots indexed in this range')
+          ) : (
+            <ResponsiveContainer width="100%" height={250}>
+              <LineChart data={apyPoints}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                <XAxis
+                  dataKey="date"
+                  stroke="#64748b"
+                  fontSize={11}
+                  tickLine={false}
+                  axisLine={false}
+                />
+                <YAxis
+                  stroke="#64748b"
+                  fontSize={11}
+                  tickLine={false}
+                  axisLine={false}
+                  domain={['auto', 'auto']}
+                  tickFormatter={(v) => `${v.toFixed(1)}%`}
+                />
+                <Tooltip
+                  contentStyle={{
+                    background: 'rgba(15, 23, 42, 0.95)',
+                    border: '1px solid rgba(71, 85, 105, 0.5)',
+                    borderRadius: '12px',
+                  }}
+                  formatter={(value, name) => value !== undefined ? [`${Number(value).toFixed(2)}%`, name] : ['', name]}
+                />
+                <Legend />
+                {apySeries.map((series) => (
+                  <Line
+                    key={series.key}
+                    type="monotone"
+                    dataKey={series.key}
+                    name={series.name}
+                    stroke={series.color}
+                    strokeWidth={2}
+                    dot={false}
+                    connectNulls
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          )}
         </motion.div>
       </section>
 
@@ -355,7 +418,7 @@ const Analytics: React.FC = () => {
             <div className="flex-1 space-y-3">
               {chainTvlData.map((chain, index) => {
                 const total = chainTvlData.reduce((sum, c) => sum + c.tvl, 0);
-                const percentage = ((chain.tvl / total) * 100).toFixed(1);
+                const percentage = total > 0 ? ((chain.tvl / total) * 100).toFixed(1) : '0.0';
 
                 return (
                   <div key={chain.name} className="flex items-center gap-3">
@@ -436,39 +499,48 @@ const Analytics: React.FC = () => {
               <Activity className="w-5 h-5 text-accent-cyan" />
               Protocol Activity
             </h3>
-            <p className="text-sm text-dark-400">Daily deposits, withdrawals, and yield</p>
+            <p className="text-sm text-dark-400">
+              {periodLabel} deposits, withdrawals, yield and bridge volume
+            </p>
           </div>
         </div>
 
-        <ResponsiveContainer width="100%" height={300}>
-          <BarChart data={historicalData.slice(-14)}>
-            <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
-            <XAxis
-              dataKey="date"
-              stroke="#64748b"
-              fontSize={11}
-              tickLine={false}
-              axisLine={false}
-            />
-            <YAxis
-              stroke="#64748b"
-              fontSize={11}
-              tickLine={false}
-              axisLine={false}
-            />
-            <Tooltip
-              contentStyle={{
-                background: 'rgba(15, 23, 42, 0.95)',
-                border: '1px solid rgba(71, 85, 105, 0.5)',
-                borderRadius: '12px',
-              }}
-            />
-            <Legend />
-            <Bar dataKey="deposits" name="Deposits" fill="#8b5cf6" radius={[4, 4, 0, 0]} />
-            <Bar dataKey="withdrawals" name="Withdrawals" fill="#f97316" radius={[4, 4, 0, 0]} />
-            <Bar dataKey="yield" name="Yield Generated" fill="#10b981" radius={[4, 4, 0, 0]} />
-          </BarChart>
-        </ResponsiveContainer>
+        {historyPlaceholder ? (
+          renderPlaceholder(300)
+        ) : (
+          <ResponsiveContainer width="100%" height={300}>
+            <BarChart data={points}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+              <XAxis
+                dataKey="date"
+                stroke="#64748b"
+                fontSize={11}
+                tickLine={false}
+                axisLine={false}
+              />
+              <YAxis
+                stroke="#64748b"
+                fontSize={11}
+                tickLine={false}
+                axisLine={false}
+                tickFormatter={(v) => formatNumber(v)}
+              />
+              <Tooltip
+                contentStyle={{
+                  background: 'rgba(15, 23, 42, 0.95)',
+                  border: '1px solid rgba(71, 85, 105, 0.5)',
+                  borderRadius: '12px',
+                }}
+                formatter={(value, name) => value !== undefined ? [formatNumber(Number(value)), name] : ['', name]}
+              />
+              <Legend />
+              <Bar dataKey="deposits" name="Deposits" fill="#8b5cf6" radius={[4, 4, 0, 0]} />
+              <Bar dataKey="withdrawals" name="Withdrawals" fill="#f97316" radius={[4, 4, 0, 0]} />
+              <Bar dataKey="yield" name="Yield Generated" fill="#10b981" radius={[4, 4, 0, 0]} />
+              <Bar dataKey="bridgeVolume" name="Bridge Volume" fill="#06b6d4" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        )}
       </motion.section>
 
       {/* User Growth */}
@@ -482,52 +554,58 @@ const Analytics: React.FC = () => {
           <div>
             <h3 className="text-lg font-semibold text-white flex items-center gap-2">
               <Users className="w-5 h-5 text-accent-pink" />
-              User Growth
+              Active Users
             </h3>
-            <p className="text-sm text-dark-400">Cumulative unique users over time</p>
+            <p className="text-sm text-dark-400">
+              Unique users who deposited, withdrew or bridged per {statsPeriod}
+            </p>
           </div>
         </div>
 
-        <ResponsiveContainer width="100%" height={200}>
-          <AreaChart data={historicalData}>
-            <defs>
-              <linearGradient id="usersGradient" x1="0" y1="0" x2="0" y2="1">
-                <stop offset="5%" stopColor="#ec4899" stopOpacity={0.3} />
-                <stop offset="95%" stopColor="#ec4899" stopOpacity={0} />
-              </linearGradient>
-            </defs>
-            <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
-            <XAxis
-              dataKey="date"
-              stroke="#64748b"
-              fontSize={11}
-              tickLine={false}
-              axisLine={false}
-            />
-            <YAxis
-              stroke="#64748b"
-              fontSize={11}
-              tickLine={false}
-              axisLine={false}
-              tickFormatter={(v) => `${(v / 1000).toFixed(0)}K`}
-            />
-            <Tooltip
-              contentStyle={{
-                background: 'rgba(15, 23, 42, 0.95)',
-                border: '1px solid rgba(71, 85, 105, 0.5)',
-                borderRadius: '12px',
-              }}
-              formatter={(value) => value !== undefined ? [Number(value).toLocaleString(), 'Users'] : ['', 'Users']}
-            />
-            <Area
-              type="monotone"
-              dataKey="users"
-              stroke="#ec4899"
-              strokeWidth={2}
-              fill="url(#usersGradient)"
-            />
-          </AreaChart>
-        </ResponsiveContainer>
+        {historyPlaceholder ? (
+          renderPlaceholder(200)
+        ) : (
+          <ResponsiveContainer width="100%" height={200}>
+            <AreaChart data={points}>
+              <defs>
+                <linearGradient id="usersGradient" x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="5%" stopColor="#ec4899" stopOpacity={0.3} />
+                  <stop offset="95%" stopColor="#ec4899" stopOpacity={0} />
+                </linearGradient>
+              </defs>
+              <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+              <XAxis
+                dataKey="date"
+                stroke="#64748b"
+                fontSize={11}
+                tickLine={false}
+                axisLine={false}
+              />
+              <YAxis
+                stroke="#64748b"
+                fontSize={11}
+                tickLine={false}
+                axisLine={false}
+                tickFormatter={(v) => formatCount(v)}
+              />
+              <Tooltip
+                contentStyle={{
+                  background: 'rgba(15, 23, 42, 0.95)',
+                  border: '1px solid rgba(71, 85, 105, 0.5)',
+                  borderRadius: '12px',
+                }}
+                formatter={(value) => value !== undefined ? [Number(value).toLocaleString(), 'Users'] : ['', 'Users']}
+              />
+              <Area
+                type="monotone"
+                dataKey="users"
+                stroke="#ec4899"
+                strokeWidth={2}
+                fill="url(#usersGradient)"
+              />
+            </AreaChart>
+          </ResponsiveContainer>
+        )}
       </motion.section>
     </div>
   );
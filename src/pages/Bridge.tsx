@@ -11,46 +11,123 @@ import {
   Check,
   Loader2,
   ChevronDown,
-  Info
+  Info,
+  RotateCcw
 } from 'lucide-react';
-import { useStore } from '../store/useStore';
+import { type Hex, erc20Abi, formatEther, formatUnits, isAddress, parseUnits } from 'viem';
+import { useReadContract, useSwitchChain } from 'wagmi';
+import { getPublicClient } from 'wagmi/actions';
+import { type Transaction, useStore } from '../store/useStore';
+import { crossChainBridgeAbi, getDeployment, getLayerZeroEid } from '../config/contracts';
+import { wagmiConfig } from '../config/wagmi';
+import { bridgeTokens, cancelBridgeRequest, encodeTransferMessage, quoteBridgeFee } from '../services/bridge';
+import { ensureAllowance, getErrorMessage } from '../services/transactions';
+import { useBridgeRequestStatuses } from '../hooks/useBridgeRequestStatuses';
 import toast from 'react-hot-toast';
 
 const Bridge: React.FC = () => {
-  const { chains, assets, isConnected, transactions } = useStore();
+  const {
+    chains,
+    assets,
+    isConnected,
+    address,
+    chainId,
+    transactions,
+    addTransaction,
+    updateTransaction,
+    updateTransactionStatus,
+  } = useStore();
+  const { switchChainAsync } = useSwitchChain();
   
-  const [fromChain, setFromChain] = useState(chains[0]);
-  const [toChain, setToChain] = useState(chains[2]); // Arbitrum
-  const [selectedAsset, setSelectedAsset] = useState(assets[0]);
+  const [fromChain, setFromChain] = useState(() => chains.find((c) => c.id === chainId) ?? chains[0]);
+  const [toChain, setToChain] = useState(() => chains.find((c) => c.id !== fromChain.id) ?? chains[0]);
+  const [selectedSymbol, setSelectedSymbol] = useState<string | null>(null);
   const [amount, setAmount] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
   const [showFromChainDropdown, setShowFromChainDropdown] = useState(false);
   const [showToChainDropdown, setShowToChainDropdown] = useState(false);
   const [showAssetDropdown, setShowAssetDropdown] = useState(false);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
 
-  // Calculate estimated values
-  const estimatedGas = useMemo(() => {
-    const baseGas = {
-      1: 0.005, // ETH
-      137: 0.0001, // MATIC
-      42161: 0.0002, // ARB
-    };
-    return baseGas[fromChain.id as keyof typeof baseGas] || 0.001;
-  }, [fromChain]);
+  // Assets supported by the aggregator on the source chain
+  const fromChainAssets = useMemo(
+    () => assets.filter((a) => a.chainId === fromChain.id),
+    [assets, fromChain]
+  );
+  const selectedAsset = fromChainAssets.find((a) => a.symbol === selectedSymbol) ?? fromChainAssets[0];
+  const destinationAsset = assets.find((a) => a.chainId === toChain.id && a.symbol === selectedAsset?.symbol);
+
+  // Bridge contracts and LayerZero endpoint id of the route
+  const sourceBridge = getDeployment(fromChain.id)?.crossChainBridge;
+  const destinationBridge = getDeployment(toChain.id)?.crossChainBridge;
+  const dstEid = getLayerZeroEid(toChain.id);
+  const isRouteConfigured = !!sourceBridge && !!destinationBridge && !!dstEid && !!getLayerZeroEid(fromChain.id);
+
+  const account = address && isAddress(address) ? address : undefined;
+  const assetAddress = selectedAsset && isAddress(selectedAsset.address) ? selectedAsset.address : undefined;
+
+  const rawAmount = useMemo(() => {
+    if (!selectedAsset || !amount || !(parseFloat(amount) > 0)) return undefined;
+    try {
+      return parseUnits(amount, selectedAsset.decimals);
+    } catch {
+      return undefined;
+    }
+  }, [amount, selectedAsset]);
+
+  const { data: sourceBalance } = useReadContract({
+    address: assetAddress,
+    abi: erc20Abi,
+    functionName: 'balanceOf',
+    args: account ? [account] : undefined,
+    chainId: fromChain.id,
+    query: { enabled: !!account && !!assetAddress, refetchInterval: 15_000 },
+  });
+
+  const { data: destinationBalance } = useReadContract({
+    address: destinationAsset && isAddress(destinationAsset.address) ? destinationAsset.address : undefined,
+    abi: erc20Abi,
+    functionName: 'balanceOf',
+    args: account ? [account] : undefined,
+    chainId: toChain.id,
+    query: { enabled: !!account && !!destinationAsset, refetchInterval: 15_000 },
+  });
+
+  // LayerZero native fee for the message `bridge` will send
+  const {
+    data: messagingFee,
+    isLoading: isQuotingFee,
+    isError: isFeeUnavailable,
+  } = useReadContract({
+    address: sourceBridge,
+    abi: crossChainBridgeAbi,
+    functionName: 'quoteFee',
+    args:
+      dstEid && account && assetAddress && rawAmount
+        ? [dstEid, encodeTransferMessage(assetAddress, rawAmount, account, account)]
+        : undefined,
+    chainId: fromChain.id,
+    query: { enabled: isRouteConfigured && !!account && !!assetAddress && !!rawAmount },
+  });
+
+  const nativeSymbol =
+    wagmiConfig.chains.find((c) => c.id === fromChain.id)?.nativeCurrency.symbol ?? 'ETH';
+
+  const formatBalance = (balance: bigint | undefined, decimals: number | undefined) =>
+    balance !== undefined && decimals !== undefined
+      ? Number(formatUnits(balance, decimals)).toLocaleString(undefined, { maximumFractionDigits: 2 })
+      : '0.00';
 
   const estimatedTime = useMemo(() => {
     // LayerZero typically takes 1-5 minutes
     return '~2-5 min';
   }, [fromChain, toChain]);
 
-  const bridgeFee = useMemo(() => {
-    return parseFloat(amount || '0') * 0.001; // 0.1% bridge fee
-  }, [amount]);
-
+  // The bridge charges no token fee, so the full amount arrives on the destination chain
   const receiveAmount = useMemo(() => {
     const amountNum = parseFloat(amount || '0');
-    return amountNum > 0 ? amountNum - bridgeFee : 0;
-  }, [amount, bridgeFee]);
+    return amountNum > 0 ? amountNum : 0;
+  }, [amount]);
 
   const handleSwapChains = () => {
     setFromChain(toChain);
@@ -58,7 +135,12 @@ const Bridge: React.FC = () => {
   };
 
   const handleBridge = async () => {
-    if (!amount || parseFloat(amount) <= 0) {
+    if (!selectedAsset || !assetAddress) {
+      toast.error(`No bridgeable assets on ${fromChain.name}`);
+      return;
+    }
+
+    if (!rawAmount) {
       toast.error('Please enter a valid amount');
       return;
     }
@@ -68,26 +150,120 @@ const Bridge: React.FC = () => {
       return;
     }
 
+    if (!account || !sourceBridge || !destinationBridge || !dstEid || !isRouteConfigured) {
+      toast.error(`Bridging from ${fromChain.name} to ${toChain.name} is not configured`);
+      return;
+    }
+
+    if (sourceBalance !== undefined && rawAmount > sourceBalance) {
+      toast.error(`Insufficient ${selectedAsset.symbol} balance`);
+      return;
+    }
+
+    const asset = selectedAsset;
+    const source = fromChain;
+    const destination = toChain;
     setIsProcessing(true);
-    
-    // Simulate bridging process
-    toast.loading('Initiating bridge transaction...', { id: 'bridge' });
-    
-    await new Promise(resolve => setTimeout(resolve, 2000));
-    toast.loading('Confirming on source chain...', { id: 'bridge' });
-    
-    await new Promise(resolve => setTimeout(resolve, 2000));
-    toast.loading('Relaying via LayerZero...', { id: 'bridge' });
-    
-    await new Promise(resolve => setTimeout(resolve, 3000));
-    toast.success(`Successfully bridged ${amount} ${selectedAsset.symbol}!`, { id: 'bridge' });
-    
-    setIsProcessing(false);
-    setAmount('');
+
+    try {
+      if (chainId !== source.id) {
+        toast.loading(`Switching to ${source.name}...`, { id: 'bridge' });
+        await switchChainAsync({ chainId: source.id });
+      }
+
+      const sourceClient = getPublicClient(wagmiConfig, { chainId: source.id });
+      const destinationClient = getPublicClient(wagmiConfig, { chainId: destination.id });
+      if (!sourceClient || !destinationClient) {
+        throw new Error(`No client configured for ${!sourceClient ? source.name : destination.name}`);
+      }
+
+      toast.loading(`Approving ${asset.symbol}...`, { id: 'bridge' });
+      await ensureAllowance(source.id, account, assetAddress, sourceBridge, rawAmount);
+
+      // Re-quote right before sending and remember where to start looking for delivery
+      const [fee, destinationBlock] = await Promise.all([
+        quoteBridgeFee(sourceClient, sourceBridge, dstEid, assetAddress, rawAmount, account, account),
+        destinationClient.getBlockNumber(),
+      ]);
+
+      const txId = `bridge-${Date.now()}`;
+      addTransaction({
+        id: txId,
+        type: 'bridge',
+        chainId: source.id,
+        asset,
+        amount: parseFloat(amount),
+        fromChain: source,
+        toChain: destination,
+        status: 'pending',
+        timestamp: Date.now(),
+        destinationBlock: Number(destinationBlock),
+      });
+
+      toast.loading('Confirming on source chain...', { id: 'bridge' });
+      try {
+        const result = await bridgeTokens(
+          source.id,
+          account,
+          sourceBridge,
+          dstEid,
+          assetAddress,
+          rawAmount,
+          account,
+          fee,
+          (hash) => updateTransactionStatus(txId, 'pending', hash)
+        );
+        updateTransaction(txId, { txHash: result.hash, requestId: result.requestId });
+      } catch (error) {
+        updateTransactionStatus(txId, 'failed');
+        throw error;
+      }
+
+      // Delivery can take minutes and is picked up by the transaction poller
+      setAmount('');
+      toast.success(
+        `Bridge submitted. ${amount} ${asset.symbol} will arrive on ${destination.name} in a few minutes`,
+        { id: 'bridge' }
+      );
+    } catch (error) {
+      toast.error(getErrorMessage(error), { id: 'bridge' });
+    } finally {
+      setIsProcessing(false);
+    }
   };
 
-  // Recent bridge transactions
+  // Recent bridge transactions, with the state of their request on the source bridge
   const bridgeTransactions = transactions.filter(tx => tx.type === 'bridge').slice(0, 5);
+  const requestStatuses = useBridgeRequestStatuses(bridgeTransactions);
+
+  // Cancel a transfer the destination has not acknowledged in time; the refund arrives with the reply
+  const handleCancel = async (tx: Transaction) => {
+    const request = requestStatuses[tx.id];
+    const bridge = getDeployment(tx.chainId)?.crossChainBridge;
+    if (!account || !bridge || !tx.requestId || request?.state !== 'refundable') return;
+
+    setCancellingId(tx.id);
+    try {
+      if (chainId !== tx.chainId) {
+        toast.loading(`Switching to ${tx.fromChain?.name}...`, { id: 'bridge-cancel' });
+        await switchChainAsync({ chainId: tx.chainId });
+      }
+
+      const client = getPublicClient(wagmiConfig, { chainId: tx.chainId });
+      if (!client) throw new Error(`No client configured for ${tx.fromChain?.name}`);
+
+      toast.loading('Cancelling transfer...', { id: 'bridge-cancel' });
+      const hash = await cancelBridgeRequest(client, tx.chainId, account, bridge, tx.requestId as Hex, request);
+      updateTransaction(tx.id, { cancelTxHash: hash });
+      toast.success(`Cancel sent. ${tx.amount.toLocaleString()} ${tx.asset.symbol} will be refunded in a few minutes`, {
+        id: 'bridge-cancel',
+      });
+    } catch (error) {
+      toast.error(getErrorMessage(error), { id: 'bridge-cancel' });
+    } finally {
+      setCancellingId(null);
+    }
+  };
 
   return (
     <div className="space-y-8 max-w-2xl mx-auto">
@@ -119,7 +295,9 @@ const Bridge: React.FC = () => {
         <div className="mb-2">
           <div className="flex items-center justify-between mb-3">
             <span className="text-sm text-dark-400">From</span>
-            <span className="text-xs text-dark-400">Balance: 50,000 USDC</span>
+            <span className="text-xs text-dark-400">
+              Balance: {formatBalance(sourceBalance, selectedAsset?.decimals)} {selectedAsset?.symbol}
+            </span>
           </div>
 
           <div className="bg-dark-800/50 rounded-xl p-4">
@@ -180,8 +358,8 @@ const Bridge: React.FC = () => {
                   onClick={() => setShowAssetDropdown(!showAssetDropdown)}
                   className="flex items-center gap-2 px-3 py-2 rounded-lg bg-dark-700 hover:bg-dark-600 transition-colors"
                 >
-                  <span className="text-xl">{selectedAsset.icon}</span>
-                  <span className="font-medium">{selectedAsset.symbol}</span>
+                  <span className="text-xl">{selectedAsset?.icon}</span>
+                  <span className="font-medium">{selectedAsset?.symbol ?? 'No assets'}</span>
                   <ChevronDown className="w-4 h-4 text-dark-400" />
                 </button>
 
@@ -193,18 +371,18 @@ const Bridge: React.FC = () => {
                       exit={{ opacity: 0, y: -10 }}
                       className="absolute top-full left-0 mt-2 w-48 glass-card p-2 z-50"
                     >
-                      {assets.map((asset) => (
+                      {fromChainAssets.map((asset) => (
                         <button
-                          key={asset.symbol}
+                          key={asset.address}
                           onClick={() => {
-                            setSelectedAsset(asset);
+                            setSelectedSymbol(asset.symbol);
                             setShowAssetDropdown(false);
                           }}
                           className="w-full flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-dark-700 transition-colors"
                         >
                           <span className="text-xl">{asset.icon}</span>
                           <span>{asset.symbol}</span>
-                          {asset.symbol === selectedAsset.symbol && (
+                          {asset.symbol === selectedAsset?.symbol && (
                             <Check className="w-4 h-4 text-accent-green ml-auto" />
                           )}
                         </button>
@@ -225,7 +403,11 @@ const Bridge: React.FC = () => {
                 className="w-full bg-transparent text-3xl font-bold text-white placeholder-dark-500 focus:outline-none"
               />
               <button
-                onClick={() => setAmount('50000')}
+                onClick={() =>
+                  sourceBalance !== undefined &&
+                  selectedAsset &&
+                  setAmount(formatUnits(sourceBalance, selectedAsset.decimals))
+                }
                 className="absolute right-0 top-1/2 -translate-y-1/2 text-xs text-accent-purple hover:text-accent-blue transition-colors"
               >
                 MAX
@@ -250,7 +432,9 @@ const Bridge: React.FC = () => {
         <div className="mt-2">
           <div className="flex items-center justify-between mb-3">
             <span className="text-sm text-dark-400">To</span>
-            <span className="text-xs text-dark-400">Balance: 0.00 USDC</span>
+            <span className="text-xs text-dark-400">
+              Balance: {formatBalance(destinationBalance, destinationAsset?.decimals)} {selectedAsset?.symbol}
+            </span>
           </div>
 
           <div className="bg-dark-800/50 rounded-xl p-4">
@@ -306,8 +490,8 @@ const Bridge: React.FC = () => {
               </div>
 
               <div className="flex items-center gap-2 px-3 py-2 rounded-lg bg-dark-700/50">
-                <span className="text-xl">{selectedAsset.icon}</span>
-                <span className="font-medium">{selectedAsset.symbol}</span>
+                <span className="text-xl">{selectedAsset?.icon}</span>
+                <span className="font-medium">{selectedAsset?.symbol}</span>
               </div>
             </div>
 
@@ -326,15 +510,17 @@ const Bridge: React.FC = () => {
             className="mt-6 p-4 bg-dark-800/30 rounded-xl space-y-3"
           >
             <div className="flex items-center justify-between text-sm">
-              <span className="text-dark-400">Bridge Fee</span>
+              <span className="text-dark-400">LayerZero Fee</span>
               <span className="text-white">
-                {bridgeFee.toFixed(4)} {selectedAsset.symbol} (0.1%)
+                {messagingFee !== undefined
+                  ? `${Number(formatEther(messagingFee as bigint)).toPrecision(4)} ${nativeSymbol}`
+                  : isQuotingFee
+                    ? 'Quoting...'
+                    : isFeeUnavailable || !isRouteConfigured
+                      ? 'Unavailable'
+                      : '-'}
               </span>
             </div>
-            <div className="flex items-center justify-between text-sm">
-              <span className="text-dark-400">Estimated Gas</span>
-              <span className="text-white">~${(estimatedGas * 2000).toFixed(2)}</span>
-            </div>
             <div className="flex items-center justify-between text-sm">
               <span className="text-dark-400">Estimated Time</span>
               <span className="text-white flex items-center gap-1">
@@ -345,20 +531,27 @@ const Bridge: React.FC = () => {
             <div className="flex items-center justify-between text-sm pt-3 border-t border-dark-700">
               <span className="text-dark-400">You will receive</span>
               <span className="text-accent-green font-semibold">
-                {receiveAmount.toFixed(2)} {selectedAsset.symbol}
+                {receiveAmount.toFixed(2)} {selectedAsset?.symbol}
               </span>
             </div>
           </motion.div>
         )}
 
         {/* Warning */}
-        {fromChain.id === toChain.id && (
+        {fromChain.id === toChain.id ? (
           <div className="mt-4 p-3 bg-accent-yellow/10 border border-accent-yellow/30 rounded-xl">
             <div className="flex items-center gap-2 text-accent-yellow text-sm">
               <AlertCircle className="w-4 h-4" />
               Please select different source and destination chains
             </div>
           </div>
+        ) : !isRouteConfigured && (
+          <div className="mt-4 p-3 bg-accent-yellow/10 border border-accent-yellow/30 rounded-xl">
+            <div className="flex items-center gap-2 text-accent-yellow text-sm">
+              <AlertCircle className="w-4 h-4" />
+              Bridging from {fromChain.name} to {toChain.name} is not configured yet
+            </div>
+          </div>
         )}
 
         {/* Bridge Button */}
@@ -366,9 +559,10 @@ const Bridge: React.FC = () => {
           onClick={handleBridge}
           disabled={
             !isConnected ||
-            !amount ||
-            parseFloat(amount) <= 0 ||
+            !selectedAsset ||
+            !rawAmount ||
             fromChain.id === toChain.id ||
+            !isRouteConfigured ||
             isProcessing
           }
           className="w-full btn-primary mt-6 py-4 text-lg flex items-center justify-center gap-2"
@@ -385,12 +579,99 @@ const Bridge: React.FC = () => {
           ) : (
             <>
               <ArrowRightLeft className="w-5 h-5" />
-              Bridge {selectedAsset.symbol}
+              Bridge {selectedAsset?.symbol}
             </>
           )}
         </motion.button>
       </motion.div>
 
+      {/* Recent Bridges */}
+      {bridgeTransactions.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.15 }}
+          className="glass-card p-6"
+        >
+          <h3 className="font-semibold text-white mb-4">Recent Bridges</h3>
+          <div className="space-y-3">
+            {bridgeTransactions.map((tx) => (
+              <div key={tx.id} className="flex items-center justify-between p-3 bg-dark-800/50 rounded-xl">
+                <div className="flex items-center gap-3">
+                  <span className="text-xl">{tx.asset.icon}</span>
+                  <div>
+                    <p className="text-sm font-medium text-white">
+                      {tx.amount.toLocaleString()} {tx.asset.symbol}
+                    </p>
+                    <p className="text-xs text-dark-400">
+                      {tx.fromChain?.name} → {tx.toChain?.name}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-3">
+                  {requestStatuses[tx.id]?.state === 'refunded' ? (
+                    <span className="flex items-center gap-1 text-xs text-accent-blue">
+                      <RotateCcw className="w-3 h-3" />
+                      Refunded
+                    </span>
+                  ) : requestStatuses[tx.id]?.state === 'acknowledged' ? (
+                    <span className="flex items-center gap-1 text-xs text-accent-green">
+                      <Check className="w-3 h-3" />
+                      Acknowledged
+                    </span>
+                  ) : requestStatuses[tx.id]?.state === 'cancelling' ||
+                    (requestStatuses[tx.id]?.state === 'refundable' && tx.cancelTxHash) ? (
+                    <span className="flex items-center gap-1 text-xs text-accent-yellow">
+                      <Loader2 className="w-3 h-3 animate-spin" />
+                      Refunding
+                    </span>
+                  ) : requestStatuses[tx.id]?.state === 'refundable' ? (
+                    <button
+                      onClick={() => handleCancel(tx)}
+                      disabled={cancellingId !== null}
+                      title="Not acknowledged in time: cancel the transfer and get the tokens back"
+                      className="flex items-center gap-1 px-2 py-1 rounded-lg text-xs text-accent-red bg-accent-red/10 hover:bg-accent-red/20 transition-colors disabled:opacity-50"
+                    >
+                      {cancellingId === tx.id ? (
+                        <Loader2 className="w-3 h-3 animate-spin" />
+                      ) : (
+                        <RotateCcw className="w-3 h-3" />
+                      )}
+                      Refundable
+                    </button>
+                  ) : tx.status === 'pending' ? (
+                    <span className="flex items-center gap-1 text-xs text-accent-yellow">
+                      <Loader2 className="w-3 h-3 animate-spin" />
+                      {tx.requestId ? 'Relaying' : 'Confirming'}
+                    </span>
+                  ) : tx.status === 'completed' ? (
+                    <span className="flex items-center gap-1 text-xs text-accent-green">
+                      <Check className="w-3 h-3" />
+                      Delivered, awaiting acknowledgement
+                    </span>
+                  ) : (
+                    <span className="flex items-center gap-1 text-xs text-accent-red">
+                      <AlertCircle className="w-3 h-3" />
+                      Failed
+                    </span>
+                  )}
+                  {tx.txHash && tx.fromChain?.explorerUrl && (
+                    <a
+                      href={`${tx.fromChain.explorerUrl}/tx/${tx.txHash}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-dark-400 hover:text-white transition-colors"
+                    >
+                      <ExternalLink className="w-4 h-4" />
+                    </a>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </motion.div>
+      )}
+
       {/* Bridge Info */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
@@ -411,7 +692,7 @@ const Bridge: React.FC = () => {
         <div className="glass-card p-4 text-center">
           <Clock className="w-8 h-8 mx-auto mb-2 text-accent-blue" />
           <h3 className="font-semibold text-white mb-1">Low Fees</h3>
-          <p className="text-xs text-dark-400">0.1% bridge fee</p>
+          <p className="text-xs text-dark-400">Only the LayerZero messaging fee</p>
         </div>
       </motion.div>
 
@@ -14,10 +14,13 @@ import {
   Sparkles
 } from 'lucide-react';
 import { useStore } from '../store/useStore';
+import { useIndexedGlobalStats } from '../hooks/useSubgraph';
 import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, AreaChart, Area } from 'recharts';
 
 const Dashboard: React.FC = () => {
   const { globalStats, protocols, chains, positions, isConnected, refreshData, isLoading } = useStore();
+  // Yield and user totals are only known to the subgraph; TVL and APY come from the contracts
+  const { stats: indexedStats } = useIndexedGlobalStats();
 
   // Generate mock chart data
   const yieldHistoryData = useMemo(() => {
@@ -57,7 +60,7 @@ const Dashboard: React.FC = () => {
     },
     {
       label: 'Total Yield Generated',
-      value: formatNumber(globalStats.totalYieldGenerated),
+      value: formatNumber(indexedStats?.totalYieldGenerated ?? globalStats.totalYieldGenerated),
       change: '+8.3%',
       positive: true,
       icon: TrendingUp,
@@ -65,7 +68,7 @@ const Dashboard: React.FC = () => {
     },
     {
       label: 'Active Users',
-      value: formatCompact(globalStats.totalUsers),
+      value: formatCompact(indexedStats?.totalUsers ?? globalStats.totalUsers),
       change: '+15.2%',
       positive: true,
       icon: Users,
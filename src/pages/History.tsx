@@ -0,0 +1,261 @@
+import React, { useState, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import {
+  ArrowDownRight,
+  ArrowUpRight,
+  ArrowRightLeft,
+  RefreshCw,
+  ExternalLink,
+  Check,
+  Loader2,
+  AlertCircle,
+  ChevronDown,
+  History as HistoryIcon,
+  Wallet
+} from 'lucide-react';
+import { useConnectModal } from '@rainbow-me/rainbowkit';
+import { useStore, type Transaction } from '../store/useStore';
+
+type TypeFilter = Transaction['type'] | 'all';
+
+const typeFilters: { id: TypeFilter; label: string }[] = [
+  { id: 'all', label: 'All' },
+  { id: 'deposit', label: 'Deposits' },
+  { id: 'withdraw', label: 'Withdrawals' },
+  { id: 'rebalance', label: 'Rebalances' },
+  { id: 'bridge', label: 'Bridges' },
+];
+
+const typeDisplay: Record<Transaction['type'], { label: string; icon: typeof ArrowUpRight; color: string }> = {
+  deposit: { label: 'Deposit', icon: ArrowDownRight, color: 'text-accent-green' },
+  withdraw: { label: 'Withdraw', icon: ArrowUpRight, color: 'text-accent-orange' },
+  rebalance: { label: 'Rebalance', icon: RefreshCw, color: 'text-accent-purple' },
+  bridge: { label: 'Bridge', icon: ArrowRightLeft, color: 'text-accent-cyan' },
+};
+
+const History: React.FC = () => {
+  const { isConnected, chains, transactions } = useStore();
+  const { openConnectModal } = useConnectModal();
+  const [typeFilter, setTypeFilter] = useState<TypeFilter>('all');
+  const [chainFilter, setChainFilter] = useState<number | null>(null);
+
+  const filteredTransactions = useMemo(
+    () =>
+      transactions.filter(
+        (tx) =>
+          (typeFilter === 'all' || tx.type === typeFilter) &&
+          (chainFilter === null || tx.chainId === chainFilter || tx.toChain?.id === chainFilter)
+      ),
+    [transactions, typeFilter, chainFilter]
+  );
+
+  const formatTime = (timestamp: number) =>
+    new Date(timestamp).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+  const getRoute = (tx: Transaction) => {
+    if (tx.type === 'bridge') return `${tx.fromChain?.name ?? '?'} → ${tx.toChain?.name ?? '?'}`;
+    if (tx.type === 'rebalance') return `${tx.fromProtocol?.name ?? '?'} → ${tx.toProtocol?.name ?? 'Best protocol'}`;
+    if (tx.type === 'withdraw') return tx.fromProtocol?.name ?? 'YieldAggregator';
+    return 'YieldAggregator';
+  };
+
+  if (!isConnected) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[60vh] text-center">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="glass-card p-12 max-w-md"
+        >
+          <div className="w-20 h-20 mx-auto mb-6 rounded-2xl bg-gradient-to-br from-accent-purple/20 to-accent-blue/20 flex items-center justify-center">
+            <Wallet className="w-10 h-10 text-accent-purple" />
+          </div>
+          <h2 className="text-2xl font-bold text-white mb-3">Connect Your Wallet</h2>
+          <p className="text-dark-400 mb-6">
+            Connect your wallet to see the deposits, withdrawals, rebalances and bridges you have made.
+          </p>
+          <button onClick={() => openConnectModal?.()} className="btn-primary w-full">
+            Connect Wallet
+          </button>
+        </motion.div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <section>
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+        >
+          <h1 className="text-3xl font-bold text-white mb-2">Transaction History</h1>
+          <p className="text-dark-400">
+            Your transactions on the connected network, kept in this browser
+          </p>
+        </motion.div>
+      </section>
+
+      {/* Filters */}
+      <motion.section
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.1 }}
+        className="glass-card p-4"
+      >
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div className="flex flex-wrap gap-2">
+            {typeFilters.map((filter) => (
+              <button
+                key={filter.id}
+                onClick={() => setTypeFilter(filter.id)}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                  typeFilter === filter.id
+                    ? 'bg-accent-purple text-white'
+                    : 'bg-dark-800 text-dark-400 hover:text-white'
+                }`}
+              >
+                {filter.label}
+              </button>
+            ))}
+          </div>
+
+          {/* Chain Filter */}
+          <div className="relative">
+            <select
+              value={chainFilter ?? ''}
+              onChange={(e) => setChainFilter(e.target.value ? Number(e.target.value) : null)}
+              className="input-field appearance-none cursor-pointer pr-10 min-w-[160px]"
+            >
+              <option value="">All Chains</option>
+              {chains.map((chain) => (
+                <option key={chain.id} value={chain.id}>
+                  {chain.icon} {chain.name}
+                </option>
+              ))}
+            </select>
+            <ChevronDown className="absolute right-4 top-1/2 -translate-y-1/2 w-5 h-5 text-dark-400 pointer-events-none" />
+          </div>
+        </div>
+      </motion.section>
+
+      {/* Transactions Table */}
+      <motion.section
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.2 }}
+        className="glass-card overflow-hidden"
+      >
+        {filteredTransactions.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="bg-dark-800/50">
+                  <th className="table-header text-left px-6 py-4">Type</th>
+                  <th className="table-header text-left px-6 py-4">Asset</th>
+                  <th className="table-header text-left px-6 py-4">Chain</th>
+                  <th className="table-header text-left px-6 py-4">Route</th>
+                  <th className="table-header text-right px-6 py-4">Amount</th>
+                  <th className="table-header text-left px-6 py-4">Status</th>
+                  <th className="table-header text-right px-6 py-4">Time</th>
+                </tr>
+              </thead>
+              <tbody>
+                {filteredTransactions.map((tx) => {
+                  const display = typeDisplay[tx.type];
+                  const Icon = display.icon;
+                  const chain = chains.find((c) => c.id === tx.chainId);
+
+                  return (
+                    <tr key={tx.id} className="border-b border-dark-800 hover:bg-dark-800/30 transition-colors">
+                      <td className="table-cell px-6">
+                        <div className={`flex items-center gap-2 font-medium ${display.color}`}>
+                          <Icon className="w-4 h-4" />
+                          {display.label}
+                        </div>
+                      </td>
+                      <td className="table-cell px-6">
+                        <div className="flex items-center gap-2">
+                          <span className="text-xl">{tx.asset.icon}</span>
+                          <span className="text-white">{tx.asset.symbol}</span>
+                        </div>
+                      </td>
+                      <td className="table-cell px-6">
+                        {chain && (
+                          <div
+                            className="chain-badge"
+                            style={{ backgroundColor: `${chain.color}20`, color: chain.color }}
+                          >
+                            <span>{chain.icon}</span>
+                            {chain.name}
+                          </div>
+                        )}
+                      </td>
+                      <td className="table-cell px-6 text-dark-300">{getRoute(tx)}</td>
+                      <td className="table-cell px-6 text-right font-medium text-white">
+                        {tx.amount.toLocaleString(undefined, { maximumFractionDigits: 6 })}
+                      </td>
+                      <td className="table-cell px-6">
+                        {tx.status === 'pending' ? (
+                          <span className="flex items-center gap-1 text-sm text-accent-yellow">
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                            Pending
+                          </span>
+                        ) : tx.status === 'completed' ? (
+                          <span className="flex items-center gap-1 text-sm text-accent-green">
+                            <Check className="w-4 h-4" />
+                            Completed
+                          </span>
+                        ) : (
+                          <span className="flex items-center gap-1 text-sm text-accent-red">
+                            <AlertCircle className="w-4 h-4" />
+                            Failed
+                          </span>
+                        )}
+                      </td>
+                      <td className="table-cell px-6 text-right">
+                        <div className="flex items-center justify-end gap-2 text-dark-400 text-sm">
+                          {formatTime(tx.timestamp)}
+                          {tx.txHash && chain?.explorerUrl && (
+                            <a
+                              href={`${chain.explorerUrl}/tx/${tx.txHash}`}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="hover:text-white transition-colors"
+                            >
+                              <ExternalLink className="w-4 h-4" />
+                            </a>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="flex flex-col items-center justify-center py-16 text-center">
+            <div className="w-16 h-16 mx-auto mb-4 rounded-2xl bg-dark-800 flex items-center justify-center">
+              <HistoryIcon className="w-8 h-8 text-dark-500" />
+            </div>
+            <h4 className="text-lg font-semibold text-white mb-2">No Transactions</h4>
+            <p className="text-dark-400 max-w-sm">
+              {transactions.length > 0
+                ? 'No transactions match the selected filters.'
+                : 'Deposits, withdrawals, rebalances and bridges you make will show up here.'}
+            </p>
+          </div>
+        )}
+      </motion.section>
+    </div>
+  );
+};
+
+export default History;
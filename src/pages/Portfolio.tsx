@@ -12,19 +12,97 @@ import {
   Copy,
   Check,
   AlertCircle,
-  ChevronDown
+  ChevronDown,
+  Loader2,
+  Clock
 } from 'lucide-react';
+import { useConnectModal } from '@rainbow-me/rainbowkit';
+import { formatEther, formatUnits, isAddress, parseUnits } from 'viem';
+import { useReadContract, useSwitchChain } from 'wagmi';
+import { getPublicClient } from 'wagmi/actions';
 import { useStore } from '../store/useStore';
+import { getDeployment, yieldAggregatorAbi } from '../config/contracts';
+import { wagmiConfig } from '../config/wagmi';
+import {
+  type RebalancePreview,
+  claimWithdrawalFromAggregator,
+  depositToAggregator,
+  previewRebalance,
+  rebalanceOnAggregator,
+  withdrawFromAggregator,
+} from '../services/yieldAggregator';
+import { ensureAllowance, getErrorMessage } from '../services/transactions';
+import { useQueuedAdminChanges } from '../hooks/useQueuedAdminChanges';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip } from 'recharts';
 import toast from 'react-hot-toast';
 
 const Portfolio: React.FC = () => {
-  const { isConnected, positions, chains, assets, balance, selectedAsset, setSelectedAsset } = useStore();
+  const {
+    isConnected,
+    address,
+    chainId,
+    chains,
+    positions,
+    pendingWithdrawals,
+    protocols,
+    assets,
+    balance,
+    selectedAsset,
+    setSelectedAsset,
+    addTransaction,
+    updateTransaction,
+    updateTransactionStatus,
+  } = useStore();
+  const { changes: queuedChanges } = useQueuedAdminChanges();
   const [showDepositModal, setShowDepositModal] = useState(false);
   const [showWithdrawModal, setShowWithdrawModal] = useState(false);
   const [depositAmount, setDepositAmount] = useState('');
+  const [depositStep, setDepositStep] = useState<'idle' | 'approving' | 'depositing'>('idle');
+  const [depositError, setDepositError] = useState<string | null>(null);
   const [selectedPosition, setSelectedPosition] = useState<typeof positions[0] | null>(null);
+  const [withdrawAmount, setWithdrawAmount] = useState('');
+  const [isWithdrawing, setIsWithdrawing] = useState(false);
+  const [withdrawError, setWithdrawError] = useState<string | null>(null);
+  const [rebalancePosition, setRebalancePosition] = useState<typeof positions[0] | null>(null);
+  const [rebalancePreview, setRebalancePreview] = useState<RebalancePreview | null>(null);
+  const [isRebalancing, setIsRebalancing] = useState(false);
+  const [rebalanceError, setRebalanceError] = useState<string | null>(null);
+  const [claimingId, setClaimingId] = useState<string | null>(null);
   const [copiedAddress, setCopiedAddress] = useState(false);
+  const { openConnectModal } = useConnectModal();
+  const { switchChainAsync, isPending: isSwitchingChain } = useSwitchChain();
+
+  // Performance fee (in basis points) the pool charges on profit above its high-water mark
+  const withdrawAggregator = selectedPosition ? getDeployment(selectedPosition.chain.id)?.yieldAggregator : undefined;
+  const { data: performanceFeeBps } = useReadContract({
+    address: withdrawAggregator,
+    abi: yieldAggregatorAbi,
+    functionName: 'performanceFee',
+    chainId: selectedPosition?.chain.id,
+    query: { enabled: !!withdrawAggregator },
+  });
+
+  // What the pool can pay out right now; the rest of a withdrawal is queued until protocol liquidity returns
+  const { data: availableLiquidity } = useReadContract({
+    address: withdrawAggregator,
+    abi: yieldAggregatorAbi,
+    functionName: 'availableLiquidity',
+    args: selectedPosition && isAddress(selectedPosition.asset.address) ? [selectedPosition.asset.address] : undefined,
+    chainId: selectedPosition?.chain.id,
+    query: { enabled: !!withdrawAggregator && !!selectedPosition && isAddress(selectedPosition.asset.address) },
+  });
+
+  // In emergency mode withdrawals pay a pro-rata part of the funds a guardian pulled out of the protocols
+  const { data: emergencyMode } = useReadContract({
+    address: withdrawAggregator,
+    abi: yieldAggregatorAbi,
+    functionName: 'emergencyMode',
+    chainId: selectedPosition?.chain.id,
+    query: { enabled: !!withdrawAggregator },
+  });
+
+  // Assets the aggregator supports on the connected chain
+  const chainAssets = assets.filter((a) => a.chainId === chainId);
 
   // Calculate totals
   const totalValue = positions.reduce((sum, p) => sum + p.currentValue, 0);
@@ -50,6 +128,15 @@ const Portfolio: React.FC = () => {
     }).format(num);
   };
 
+  // Unix seconds, as the contracts report them
+  const formatTime = (timestamp: number) =>
+    new Date(timestamp * 1000).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
   const copyAddress = (address: string) => {
     navigator.clipboard.writeText(address);
     setCopiedAddress(true);
@@ -57,23 +144,357 @@ const Portfolio: React.FC = () => {
     setTimeout(() => setCopiedAddress(false), 2000);
   };
 
-  const handleDeposit = () => {
-    if (!depositAmount || parseFloat(depositAmount) <= 0) {
+  const closeDepositModal = () => {
+    if (depositStep !== 'idle') return;
+    setShowDepositModal(false);
+    setDepositError(null);
+  };
+
+  const handleDeposit = async () => {
+    const amount = parseFloat(depositAmount);
+    if (!depositAmount || !(amount > 0)) {
       toast.error('Please enter a valid amount');
       return;
     }
-    toast.success(`Depositing ${depositAmount} ${selectedAsset?.symbol}...`);
-    setShowDepositModal(false);
-    setDepositAmount('');
+    const deployment = getDeployment(chainId);
+    if (!chainId || !address || !isAddress(address) || !selectedAsset || !isAddress(selectedAsset.address)) {
+      setDepositError('Select an asset on the connected chain');
+      return;
+    }
+    if (!deployment) {
+      setDepositError('YieldAggregator is not deployed on this chain');
+      return;
+    }
+    if (amount > balance) {
+      setDepositError(`Insufficient ${selectedAsset.symbol} balance`);
+      return;
+    }
+
+    const asset = selectedAsset;
+    const assetAddress = selectedAsset.address;
+    let rawAmount: bigint;
+    try {
+      rawAmount = parseUnits(depositAmount, asset.decimals);
+    } catch {
+      setDepositError('Please enter a valid amount');
+      return;
+    }
+    const txId = `deposit-${Date.now()}`;
+
+    setDepositError(null);
+    addTransaction({
+      id: txId,
+      type: 'deposit',
+      chainId,
+      asset,
+      amount,
+      status: 'pending',
+      timestamp: Date.now(),
+    });
+
+    try {
+      setDepositStep('approving');
+      await ensureAllowance(chainId, address, assetAddress, deployment.yieldAggregator, rawAmount);
+
+      setDepositStep('depositing');
+      const { hash, protocolId } = await depositToAggregator(
+        chainId,
+        address,
+        deployment.yieldAggregator,
+        assetAddress,
+        rawAmount,
+        (submittedHash) => updateTransactionStatus(txId, 'pending', submittedHash)
+      );
+      updateTransactionStatus(txId, 'completed', hash);
+
+      const protocol = protocols.find((p) => p.chainId === chainId && p.protocolId === protocolId);
+      toast.success(`Deposited ${depositAmount} ${asset.symbol} into ${protocol?.name ?? 'the best protocol'}`);
+      setShowDepositModal(false);
+      setDepositAmount('');
+    } catch (error) {
+      updateTransactionStatus(txId, 'failed');
+      setDepositError(getErrorMessage(error));
+    } finally {
+      setDepositStep('idle');
+    }
   };
 
-  const handleWithdraw = () => {
-    if (!selectedPosition) return;
-    toast.success(`Withdrawing from ${selectedPosition.protocol.name}...`);
+  // Withdrawals are expressed in assets at the current share price; an empty, zero or full amount
+  // withdraws everything
+  const parsedWithdrawAmount = parseFloat(withdrawAmount);
+  const isFullWithdraw =
+    !selectedPosition ||
+    !withdrawAmount ||
+    parsedWithdrawAmount === 0 ||
+    parsedWithdrawAmount >= selectedPosition.currentValue;
+  const withdrawValue = selectedPosition
+    ? isFullWithdraw
+      ? selectedPosition.currentValue
+      : Math.max(parsedWithdrawAmount, 0)
+    : 0;
+
+  // Mirrors YieldAggregator.withdraw: shares are redeemed pro rata at a share price fees are already taken from,
+  // and the same part of the cost basis is taken off `deposited`
+  const withdrawPreview = (() => {
+    if (!selectedPosition || selectedPosition.currentValue === 0) return null;
+    const value = withdrawValue;
+    const withdrawPrincipal = (selectedPosition.deposited * value) / selectedPosition.currentValue;
+    const feeRate = performanceFeeBps !== undefined ? Number(performanceFeeBps) / 10_000 : undefined;
+    const available =
+      availableLiquidity !== undefined
+        ? Number(formatUnits(availableLiquidity as bigint, selectedPosition.asset.decimals))
+        : undefined;
+    const queued = available !== undefined && !emergencyMode ? Math.max(value - available, 0) : 0;
+    return { value, yield: Math.max(value - withdrawPrincipal, 0), feeRate, queued };
+  })();
+
+  const openWithdrawModal = (position: typeof positions[0]) => {
+    setSelectedPosition(position);
+    setWithdrawAmount('');
+    setWithdrawError(null);
+    setShowWithdrawModal(true);
+  };
+
+  const closeWithdrawModal = () => {
+    if (isWithdrawing) return;
     setShowWithdrawModal(false);
     setSelectedPosition(null);
   };
 
+  const handleWithdraw = async () => {
+    if (!selectedPosition) return;
+    const position = selectedPosition;
+    const deployment = getDeployment(position.chain.id);
+    const assetAddress = position.asset.address;
+    if (!address || !isAddress(address) || !isAddress(assetAddress) || !deployment) {
+      setWithdrawError('YieldAggregator is not deployed on this chain');
+      return;
+    }
+    if (withdrawAmount && !(parsedWithdrawAmount >= 0)) {
+      setWithdrawError('Please enter a valid amount');
+      return;
+    }
+
+    if (chainId !== position.chain.id) {
+      try {
+        await switchChainAsync({ chainId: position.chain.id });
+      } catch (error) {
+        setWithdrawError(getErrorMessage(error));
+      }
+      return;
+    }
+
+    let rawAmount = 0n;
+    if (!isFullWithdraw) {
+      try {
+        rawAmount = parseUnits(withdrawAmount, position.asset.decimals);
+      } catch {
+        setWithdrawError('Please enter a valid amount');
+        return;
+      }
+    }
+
+    const txId = `withdraw-${Date.now()}`;
+    setWithdrawError(null);
+    setIsWithdrawing(true);
+    addTransaction({
+      id: txId,
+      type: 'withdraw',
+      chainId: position.chain.id,
+      asset: position.asset,
+      amount: withdrawValue,
+      fromChain: position.chain,
+      fromProtocol: position.protocol,
+      status: 'pending',
+      timestamp: Date.now(),
+    });
+
+    try {
+      const result = await withdrawFromAggregator(
+        position.chain.id,
+        address,
+        deployment.yieldAggregator,
+        assetAddress,
+        rawAmount,
+        (submittedHash) => updateTransactionStatus(txId, 'pending', submittedHash)
+      );
+      updateTransactionStatus(txId, 'completed', result.hash);
+
+      const received = Number(formatUnits(result.received, position.asset.decimals));
+      const queued = Number(formatUnits(result.queued, position.asset.decimals));
+      const netYield = Number(formatUnits(result.yield, position.asset.decimals));
+      toast.success(
+        `Received ${received.toLocaleString()} ${position.asset.symbol} (${netYield.toLocaleString()} yield after fees)`
+      );
+      if (queued > 0) {
+        toast(
+          `${queued.toLocaleString()} ${position.asset.symbol} is queued until protocol liquidity returns. Claim it from Pending Withdrawals.`,
+          { icon: '⏳' }
+        );
+      }
+      setShowWithdrawModal(false);
+      setSelectedPosition(null);
+    } catch (error) {
+      updateTransactionStatus(txId, 'failed');
+      setWithdrawError(getErrorMessage(error));
+    } finally {
+      setIsWithdrawing(false);
+    }
+  };
+
+  const handleClaim = async (withdrawal: typeof pendingWithdrawals[0]) => {
+    const deployment = getDeployment(withdrawal.chain.id);
+    if (!address || !isAddress(address) || !deployment) return;
+
+    if (chainId !== withdrawal.chain.id) {
+      try {
+        await switchChainAsync({ chainId: withdrawal.chain.id });
+      } catch (error) {
+        toast.error(getErrorMessage(error));
+      }
+      return;
+    }
+
+    const txId = `claim-${Date.now()}`;
+    setClaimingId(withdrawal.id);
+    addTransaction({
+      id: txId,
+      type: 'withdraw',
+      chainId: withdrawal.chain.id,
+      asset: withdrawal.asset,
+      amount: withdrawal.remaining,
+      fromChain: withdrawal.chain,
+      status: 'pending',
+      timestamp: Date.now(),
+    });
+
+    try {
+      const result = await claimWithdrawalFromAggregator(
+        withdrawal.chain.id,
+        address,
+        deployment.yieldAggregator,
+        withdrawal.requestId,
+        (submittedHash) => updateTransactionStatus(txId, 'pending', submittedHash)
+      );
+      const received = Number(formatUnits(result.received, withdrawal.asset.decimals));
+      updateTransaction(txId, { amount: received });
+      updateTransactionStatus(txId, 'completed', result.hash);
+
+      const remaining = Number(formatUnits(result.remaining, withdrawal.asset.decimals));
+      toast.success(
+        remaining > 0
+          ? `Claimed ${received.toLocaleString()} ${withdrawal.asset.symbol}, ${remaining.toLocaleString()} still queued`
+          : `Claimed ${received.toLocaleString()} ${withdrawal.asset.symbol}`
+      );
+    } catch (error) {
+      updateTransactionStatus(txId, 'failed');
+      toast.error(getErrorMessage(error));
+    } finally {
+      setClaimingId(null);
+    }
+  };
+
+  const openRebalanceModal = async (position: typeof positions[0]) => {
+    setRebalancePosition(position);
+    setRebalancePreview(null);
+    setRebalanceError(null);
+
+    const deployment = getDeployment(position.chain.id);
+    const client = getPublicClient(wagmiConfig, { chainId: position.chain.id });
+    if (!address || !isAddress(address) || !isAddress(position.asset.address) || !deployment || !client) {
+      setRebalanceError('YieldAggregator is not deployed on this chain');
+      return;
+    }
+    try {
+      setRebalancePreview(
+        await previewRebalance(client, deployment.yieldAggregator, address, position.asset.address)
+      );
+    } catch (error) {
+      setRebalanceError(getErrorMessage(error));
+    }
+  };
+
+  const closeRebalanceModal = () => {
+    if (isRebalancing) return;
+    setRebalancePosition(null);
+  };
+
+  const rebalanceTarget = rebalancePreview
+    ? protocols.find(
+        (p) => p.chainId === rebalancePosition?.chain.id && p.protocolId === rebalancePreview.bestProtocolId
+      )
+    : undefined;
+  const rebalanceSource = rebalancePreview
+    ? protocols.find(
+        (p) => p.chainId === rebalancePosition?.chain.id && p.protocolId === rebalancePreview.currentProtocolId
+      )
+    : undefined;
+  // Upper bound: assumes the whole position earns the best APY afterwards
+  const rebalanceExtraYield =
+    rebalancePosition && rebalancePreview
+      ? (rebalancePosition.currentValue * (rebalancePreview.bestApy - rebalancePosition.apy)) / 100
+      : 0;
+  const rebalanceGasSymbol =
+    wagmiConfig.chains.find((c) => c.id === rebalancePosition?.chain.id)?.nativeCurrency.symbol ?? 'ETH';
+
+  const handleRebalance = async () => {
+    if (!rebalancePosition) return;
+    const position = rebalancePosition;
+    const deployment = getDeployment(position.chain.id);
+    const assetAddress = position.asset.address;
+    if (!address || !isAddress(address) || !isAddress(assetAddress) || !deployment) return;
+
+    if (chainId !== position.chain.id) {
+      try {
+        await switchChainAsync({ chainId: position.chain.id });
+      } catch (error) {
+        setRebalanceError(getErrorMessage(error));
+      }
+      return;
+    }
+
+    const txId = `rebalance-${Date.now()}`;
+    setRebalanceError(null);
+    setIsRebalancing(true);
+    addTransaction({
+      id: txId,
+      type: 'rebalance',
+      chainId: position.chain.id,
+      asset: position.asset,
+      amount: position.currentValue,
+      fromChain: position.chain,
+      toChain: position.chain,
+      fromProtocol: position.protocol,
+      toProtocol: rebalanceTarget,
+      status: 'pending',
+      timestamp: Date.now(),
+    });
+
+    try {
+      const result = await rebalanceOnAggregator(
+        position.chain.id,
+        address,
+        deployment.yieldAggregator,
+        assetAddress,
+        (submittedHash) => updateTransactionStatus(txId, 'pending', submittedHash)
+      );
+      updateTransactionStatus(txId, 'completed', result.hash);
+
+      const target = protocols.find(
+        (p) => p.chainId === position.chain.id && p.protocolId === result.toProtocolId
+      );
+      toast.success(
+        `Moved ${Number(formatUnits(result.amount, position.asset.decimals)).toLocaleString()} ${position.asset.symbol} to ${target?.name ?? 'the best protocol'}`
+      );
+      setRebalancePosition(null);
+    } catch (error) {
+      updateTransactionStatus(txId, 'failed');
+      setRebalanceError(getErrorMessage(error));
+    } finally {
+      setIsRebalancing(false);
+    }
+  };
+
   if (!isConnected) {
     return (
       <div className="flex flex-col items-center justify-center min-h-[60vh] text-center">
@@ -89,7 +510,7 @@ const Portfolio: React.FC = () => {
           <p className="text-dark-400 mb-6">
             Connect your wallet to view your portfolio and start earning yield across multiple chains.
           </p>
-          <button className="btn-primary w-full">
+          <button onClick={() => openConnectModal?.()} className="btn-primary w-full">
             Connect Wallet
           </button>
         </motion.div>
@@ -99,6 +520,53 @@ const Portfolio: React.FC = () => {
 
   return (
     <div className="space-y-8">
+      {/* Pending admin changes, shown while depositors can still exit before they take effect */}
+      {queuedChanges.length > 0 && (
+        <motion.section
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="glass-card p-6 border border-accent-yellow/30"
+        >
+          <div className="flex items-start gap-3 mb-4">
+            <Clock className="w-5 h-5 text-accent-yellow flex-shrink-0 mt-0.5" />
+            <div>
+              <h3 className="text-lg font-semibold text-white">Pending Admin Changes</h3>
+              <p className="text-sm text-dark-400">
+                These changes are queued on the timelock. You can withdraw before they take effect.
+              </p>
+            </div>
+          </div>
+          <div className="space-y-3">
+            {queuedChanges.map((change) => (
+              <div
+                key={`${change.chainId}-${change.id}`}
+                className="flex flex-col md:flex-row md:items-center justify-between gap-2 p-3 rounded-xl bg-dark-800/50"
+              >
+                <div className="min-w-0">
+                  {change.calls.map((call, index) => (
+                    <p key={index} className="text-sm text-white">
+                      {call.label}
+                      <span className="text-dark-400"> on {call.contract}</span>
+                      <span className="block text-xs text-dark-500 font-mono truncate">{call.call}</span>
+                    </p>
+                  ))}
+                </div>
+                <div className="text-sm text-right flex-shrink-0">
+                  <p className="text-dark-400">
+                    {chains.find((c) => c.id === change.chainId)?.name ?? `Chain ${change.chainId}`}
+                  </p>
+                  <p className={change.readyAt * 1000 <= Date.now() ? 'text-accent-yellow' : 'text-dark-200'}>
+                    {change.readyAt * 1000 <= Date.now()
+                      ? 'Ready to execute'
+                      : `Executable ${formatTime(change.readyAt)}`}
+                  </p>
+                </div>
+              </div>
+            ))}
+          </div>
+        </motion.section>
+      )}
+
       {/* Portfolio Overview */}
       <section className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Total Value Card */}
@@ -306,14 +774,18 @@ const Portfolio: React.FC = () => {
                     <td className="table-cell px-6 text-right">
                       <div className="flex items-center justify-end gap-2">
                         <button 
-                          onClick={() => {
-                            setSelectedPosition(position);
-                            setShowWithdrawModal(true);
-                          }}
+                          onClick={() => openWithdrawModal(position)}
                           className="btn-ghost text-sm"
                         >
                           <Minus className="w-4 h-4" />
                         </button>
+                        <button 
+                          onClick={() => openRebalanceModal(position)}
+                          className="btn-ghost text-sm"
+                          title="Rebalance"
+                        >
+                          <RefreshCw className="w-4 h-4" />
+                        </button>
                         <button className="btn-ghost text-sm">
                           <ExternalLink className="w-4 h-4" />
                         </button>
@@ -343,6 +815,85 @@ const Portfolio: React.FC = () => {
         )}
       </motion.section>
 
+      {/* Pending Withdrawals */}
+      {pendingWithdrawals.length > 0 && (
+        <motion.section
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.3 }}
+          className="glass-card overflow-hidden"
+        >
+          <div className="p-6 border-b border-dark-700">
+            <h3 className="text-lg font-semibold text-white">Pending Withdrawals</h3>
+            <p className="text-sm text-dark-400">
+              Withdrawals the protocols could not pay out yet. Claim them once liquidity returns.
+            </p>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="bg-dark-800/50">
+                  <th className="table-header text-left px-6 py-4">Asset</th>
+                  <th className="table-header text-left px-6 py-4">Chain</th>
+                  <th className="table-header text-left px-6 py-4">Requested</th>
+                  <th className="table-header text-right px-6 py-4">Claimed</th>
+                  <th className="table-header text-right px-6 py-4">Pending</th>
+                  <th className="table-header text-right px-6 py-4">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {pendingWithdrawals.map((withdrawal) => (
+                  <tr key={withdrawal.id} className="border-b border-dark-800 hover:bg-dark-800/30 transition-colors">
+                    <td className="table-cell px-6">
+                      <div className="flex items-center gap-3">
+                        <span className="text-2xl">{withdrawal.asset.icon}</span>
+                        <p className="font-medium text-white">{withdrawal.asset.symbol}</p>
+                      </div>
+                    </td>
+                    <td className="table-cell px-6">
+                      <div
+                        className="chain-badge"
+                        style={{
+                          backgroundColor: `${withdrawal.chain.color}20`,
+                          color: withdrawal.chain.color
+                        }}
+                      >
+                        <span>{withdrawal.chain.icon}</span>
+                        {withdrawal.chain.name}
+                      </div>
+                    </td>
+                    <td className="table-cell px-6 text-dark-300">
+                      {formatTime(withdrawal.requestedAt / 1000)}
+                    </td>
+                    <td className="table-cell px-6 text-right text-dark-300">
+                      {formatCurrency(withdrawal.claimed)}
+                    </td>
+                    <td className="table-cell px-6 text-right font-medium text-white">
+                      {formatCurrency(withdrawal.remaining)}
+                    </td>
+                    <td className="table-cell px-6 text-right">
+                      <button
+                        onClick={() => handleClaim(withdrawal)}
+                        disabled={claimingId !== null}
+                        className="btn-secondary text-sm"
+                      >
+                        {claimingId === withdrawal.id ? (
+                          <Loader2 className="w-4 h-4 animate-spin" />
+                        ) : chainId !== withdrawal.chain.id ? (
+                          `Switch to ${withdrawal.chain.name}`
+                        ) : (
+                          'Claim'
+                        )}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </motion.section>
+      )}
+
       {/* Deposit Modal */}
       <AnimatePresence>
         {showDepositModal && (
@@ -351,7 +902,7 @@ const Portfolio: React.FC = () => {
             animate={{ opacity: 1 }}
             exit={{ opacity: 0 }}
             className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm"
-            onClick={() => setShowDepositModal(false)}
+            onClick={closeDepositModal}
           >
             <motion.div
               initial={{ scale: 0.95, opacity: 0 }}
@@ -368,14 +919,14 @@ const Portfolio: React.FC = () => {
                 <div className="relative">
                   <select 
                     className="input-field appearance-none cursor-pointer"
-                    value={selectedAsset?.symbol || ''}
+                    value={selectedAsset?.address || ''}
                     onChange={(e) => {
-                      const asset = assets.find(a => a.symbol === e.target.value);
+                      const asset = chainAssets.find(a => a.address === e.target.value);
                       if (asset) setSelectedAsset(asset);
                     }}
                   >
-                    {assets.map((asset) => (
-                      <option key={asset.symbol} value={asset.symbol}>
+                    {chainAssets.map((asset) => (
+                      <option key={asset.address} value={asset.address}>
                         {asset.icon} {asset.symbol} - {asset.name}
                       </option>
                     ))}
@@ -391,7 +942,10 @@ const Portfolio: React.FC = () => {
                   <input
                     type="number"
                     value={depositAmount}
-                    onChange={(e) => setDepositAmount(e.target.value)}
+                    onChange={(e) => {
+                      setDepositAmount(e.target.value);
+                      setDepositError(null);
+                    }}
                     placeholder="0.00"
                     className="input-field pr-20"
                   />
@@ -418,19 +972,36 @@ const Portfolio: React.FC = () => {
                 </p>
               </div>
 
+              {/* Error */}
+              {depositError && (
+                <div className="bg-accent-red/10 border border-accent-red/30 rounded-xl p-4 mb-6">
+                  <div className="flex items-start gap-3">
+                    <AlertCircle className="w-5 h-5 text-accent-red flex-shrink-0 mt-0.5" />
+                    <p className="text-sm text-dark-200 break-words">{depositError}</p>
+                  </div>
+                </div>
+              )}
+
               {/* Actions */}
               <div className="flex gap-3">
                 <button
-                  onClick={() => setShowDepositModal(false)}
+                  onClick={closeDepositModal}
+                  disabled={depositStep !== 'idle'}
                   className="btn-secondary flex-1"
                 >
                   Cancel
                 </button>
                 <button
                   onClick={handleDeposit}
-                  className="btn-primary flex-1"
+                  disabled={depositStep !== 'idle'}
+                  className="btn-primary flex-1 flex items-center justify-center gap-2"
                 >
-                  Deposit
+                  {depositStep !== 'idle' && <Loader2 className="w-4 h-4 animate-spin" />}
+                  {depositStep === 'approving'
+                    ? `Approving ${selectedAsset?.symbol}...`
+                    : depositStep === 'depositing'
+                      ? 'Depositing...'
+                      : 'Deposit'}
                 </button>
               </div>
             </motion.div>
@@ -446,7 +1017,7 @@ const Portfolio: React.FC = () => {
             animate={{ opacity: 1 }}
             exit={{ opacity: 0 }}
             className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm"
-            onClick={() => setShowWithdrawModal(false)}
+            onClick={closeWithdrawModal}
           >
             <motion.div
               initial={{ scale: 0.95, opacity: 0 }}
@@ -484,29 +1055,243 @@ const Portfolio: React.FC = () => {
                 </div>
               </div>
 
-              {/* Warning */}
-              <div className="bg-accent-yellow/10 border border-accent-yellow/30 rounded-xl p-4 mb-6">
-                <div className="flex items-start gap-3">
-                  <AlertCircle className="w-5 h-5 text-accent-yellow flex-shrink-0 mt-0.5" />
-                  <p className="text-sm text-dark-200">
-                    Withdrawing will trigger any unrealized yield to be harvested and transferred to your wallet.
-                  </p>
+              {/* Amount Input */}
+              <div className="mb-4">
+                <label className="text-sm text-dark-400 mb-2 block">Amount to receive ({selectedPosition.asset.symbol})</label>
+                <div className="relative">
+                  <input
+                    type="number"
+                    value={withdrawAmount}
+                    onChange={(e) => {
+                      setWithdrawAmount(e.target.value);
+                      setWithdrawError(null);
+                    }}
+                    placeholder={`All (${selectedPosition.currentValue.toLocaleString()})`}
+                    className="input-field pr-20"
+                  />
+                  <button 
+                    onClick={() => setWithdrawAmount(selectedPosition.currentValue.toString())}
+                    className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-accent-purple hover:text-accent-blue transition-colors"
+                  >
+                    MAX
+                  </button>
                 </div>
+                <p className="text-xs text-dark-400 mt-1">
+                  Current value: {formatCurrency(selectedPosition.currentValue)} · leave empty to withdraw everything
+                </p>
               </div>
 
+              {/* Fee Preview */}
+              {withdrawPreview && (
+                <div className="bg-dark-800/50 rounded-xl p-4 mb-6 space-y-2 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-dark-400">Withdrawal value</span>
+                    <span className="text-white">{formatCurrency(withdrawPreview.value)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-dark-400">Yield harvested</span>
+                    <span className="text-accent-green">+{formatCurrency(withdrawPreview.yield)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-dark-400">
+                      Performance fee
+                      {withdrawPreview.feeRate !== undefined &&
+                        ` (${(withdrawPreview.feeRate * 100).toFixed(2)}% of new pool profit)`}
+                    </span>
+                    <span className="text-dark-300">Included in share price</span>
+                  </div>
+                  <div className="flex justify-between pt-2 border-t border-dark-700">
+                    <span className="text-dark-300">You receive (est.)</span>
+                    <span className="font-semibold text-white">{formatCurrency(withdrawPreview.value)}</span>
+                  </div>
+                  {emergencyMode === true && (
+                    <div className="flex items-start gap-2 pt-2 text-accent-red">
+                      <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                      <span>
+                        Emergency mode is on. Withdrawals pay your share of the funds recovered from the protocols,
+                        which can be less than this estimate.
+                      </span>
+                    </div>
+                  )}
+                  {withdrawPreview.queued > 0 && (
+                    <div className="flex items-start gap-2 pt-2 text-accent-yellow">
+                      <Clock className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                      <span>
+                        The protocols lack liquidity for {formatCurrency(withdrawPreview.queued)} of this withdrawal.
+                        It will be queued and can be claimed once liquidity returns.
+                      </span>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Error */}
+              {withdrawError && (
+                <div className="bg-accent-red/10 border border-accent-red/30 rounded-xl p-4 mb-6">
+                  <div className="flex items-start gap-3">
+                    <AlertCircle className="w-5 h-5 text-accent-red flex-shrink-0 mt-0.5" />
+                    <p className="text-sm text-dark-200 break-words">{withdrawError}</p>
+                  </div>
+                </div>
+              )}
+
               {/* Actions */}
               <div className="flex gap-3">
                 <button
-                  onClick={() => setShowWithdrawModal(false)}
+                  onClick={closeWithdrawModal}
+                  disabled={isWithdrawing}
                   className="btn-secondary flex-1"
                 >
                   Cancel
                 </button>
                 <button
                   onClick={handleWithdraw}
-                  className="btn-primary flex-1 bg-gradient-to-r from-accent-orange to-accent-red"
+                  disabled={isWithdrawing || isSwitchingChain}
+                  className="btn-primary flex-1 flex items-center justify-center gap-2 bg-gradient-to-r from-accent-orange to-accent-red"
+                >
+                  {(isWithdrawing || isSwitchingChain) && <Loader2 className="w-4 h-4 animate-spin" />}
+                  {chainId !== selectedPosition.chain.id
+                    ? `Switch to ${selectedPosition.chain.name}`
+                    : isWithdrawing
+                      ? 'Withdrawing...'
+                      : isFullWithdraw
+                        ? 'Withdraw All'
+                        : 'Withdraw'}
+                </button>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Rebalance Modal */}
+      <AnimatePresence>
+        {rebalancePosition && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm"
+            onClick={closeRebalanceModal}
+          >
+            <motion.div
+              initial={{ scale: 0.95, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.95, opacity: 0 }}
+              className="glass-card p-6 w-full max-w-md"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <h3 className="text-xl font-bold text-white mb-6">Rebalance Position</h3>
+
+              {/* Route */}
+              <div className="bg-dark-800/50 rounded-xl p-4 mb-4">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-xs text-dark-400">From</p>
+                    <p className="font-medium text-white">
+                      {(rebalanceSource ?? rebalancePosition.protocol).icon}{' '}
+                      {(rebalanceSource ?? rebalancePosition.protocol).name}
+                    </p>
+                    <p className="text-sm text-accent-green">
+                      {(rebalancePreview?.currentApy ?? rebalancePosition.apy).toFixed(2)}%
+                    </p>
+                  </div>
+                  <ArrowUpRight className="w-5 h-5 text-dark-400" />
+                  <div className="text-right">
+                    <p className="text-xs text-dark-400">To</p>
+                    {rebalancePreview ? (
+                      <>
+                        <p className="font-medium text-white">
+                          {rebalanceTarget ? `${rebalanceTarget.icon} ${rebalanceTarget.name}` : 'Unknown protocol'}
+                        </p>
+                        <p className="text-sm text-accent-green">{rebalancePreview.bestApy.toFixed(2)}%</p>
+                      </>
+                    ) : (
+                      <Loader2 className="w-4 h-4 animate-spin text-dark-400 ml-auto mt-1" />
+                    )}
+                  </div>
+                </div>
+              </div>
+
+              {/* Threshold Check & Costs */}
+              {rebalancePreview && (
+                <div className="bg-dark-800/50 rounded-xl p-4 mb-6 space-y-2 text-sm">
+                  {rebalancePreview.toTargets ? (
+                    <div className="flex justify-between">
+                      <span className="text-dark-400">Allocation</span>
+                      <span className="text-white">Whole pool back to its target weights</span>
+                    </div>
+                  ) : (
+                    <div className="flex justify-between">
+                      <span className="text-dark-400">Required APY</span>
+                      <span className="text-white">
+                        &gt; {(rebalancePreview.currentApy * (1 + rebalancePreview.threshold / 100)).toFixed(2)}%
+                        <span className="text-dark-400"> ({rebalancePreview.threshold.toFixed(2)}% threshold)</span>
+                      </span>
+                    </div>
+                  )}
+                  <div className="flex justify-between">
+                    <span className="text-dark-400">{rebalancePreview.toTargets ? 'Drift check' : 'Threshold check'}</span>
+                    {rebalancePreview.blockedReason ? (
+                      <span className="text-accent-yellow">{rebalancePreview.blockedReason}</span>
+                    ) : (
+                      <span className="text-accent-green flex items-center gap-1">
+                        <Check className="w-4 h-4" /> Passes
+                      </span>
+                    )}
+                  </div>
+                  {rebalancePreview.gasCost !== undefined && (
+                    <>
+                      <div className="flex justify-between">
+                        <span className="text-dark-400">Estimated gas</span>
+                        <span className="text-accent-orange">
+                          {Number(formatEther(rebalancePreview.gasCost)).toPrecision(3)} {rebalanceGasSymbol}
+                        </span>
+                      </div>
+                      {!rebalancePreview.toTargets && (
+                        <div className="flex justify-between pt-2 border-t border-dark-700">
+                          <span className="text-dark-300">Extra yield (projected)</span>
+                          <span className={rebalanceExtraYield > 0 ? 'text-accent-green' : 'text-accent-red'}>
+                            {rebalanceExtraYield >= 0 ? '+' : '-'}{formatCurrency(Math.abs(rebalanceExtraYield))}/yr
+                            <span className="text-dark-400"> ({formatCurrency(rebalanceExtraYield / 12)}/mo)</span>
+                          </span>
+                        </div>
+                      )}
+                    </>
+                  )}
+                </div>
+              )}
+
+              {/* Error */}
+              {rebalanceError && (
+                <div className="bg-accent-red/10 border border-accent-red/30 rounded-xl p-4 mb-6">
+                  <div className="flex items-start gap-3">
+                    <AlertCircle className="w-5 h-5 text-accent-red flex-shrink-0 mt-0.5" />
+                    <p className="text-sm text-dark-200 break-words">{rebalanceError}</p>
+                  </div>
+                </div>
+              )}
+
+              {/* Actions */}
+              <div className="flex gap-3">
+                <button
+                  onClick={closeRebalanceModal}
+                  disabled={isRebalancing}
+                  className="btn-secondary flex-1"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleRebalance}
+                  disabled={!rebalancePreview || !!rebalancePreview.blockedReason || isRebalancing || isSwitchingChain}
+                  className="btn-primary flex-1 flex items-center justify-center gap-2"
                 >
-                  Withdraw All
+                  {(isRebalancing || isSwitchingChain) && <Loader2 className="w-4 h-4 animate-spin" />}
+                  {chainId !== rebalancePosition.chain.id
+                    ? `Switch to ${rebalancePosition.chain.name}`
+                    : isRebalancing
+                      ? 'Rebalancing...'
+                      : 'Rebalance'}
                 </button>
               </div>
             </motion.div>
@@ -0,0 +1,260 @@
+import {
+  type Address,
+  type Hash,
+  type Hex,
+  type PublicClient,
+  encodeAbiParameters,
+  isAddressEqual,
+  pad,
+  parseEventLogs,
+  zeroAddress,
+  zeroHash,
+} from 'viem';
+import { crossChainBridgeAbi } from '../config/contracts';
+import { sendContractTransaction } from './transactions';
+
+// CrossChainBridge.MSG_TRANSFER and MSG_CANCEL
+const MSG_TRANSFER = 1;
+const MSG_CANCEL = 6;
+
+const crossChainMessageParams = [
+  {
+    type: 'tuple',
+    components: [
+      { name: 'messageType', type: 'uint8' },
+      { name: 'asset', type: 'address' },
+      { name: 'amount', type: 'uint256' },
+      { name: 'sender', type: 'address' },
+      { name: 'data', type: 'bytes' },
+    ],
+  },
+] as const;
+
+/**
+ * Left-pad an EVM address to the bytes32 recipient format used by CrossChainBridge
+ */
+export const toBytes32Address = (address: Address): Hex => pad(address, { size: 32 });
+
+/**
+ * ABI-encode the `CrossChainMessage` that `CrossChainBridge.bridge` sends for a transfer.
+ * The request id is only known once the transaction is mined, so quotes use a zero id of the same size.
+ */
+export function encodeTransferMessage(
+  asset: Address,
+  amount: bigint,
+  sender: Address,
+  recipient: Address,
+  requestId: Hex = zeroHash
+): Hex {
+  return encodeAbiParameters(crossChainMessageParams, [
+    {
+      messageType: MSG_TRANSFER,
+      asset,
+      amount,
+      sender,
+      data: encodeAbiParameters(
+        [{ type: 'bytes32' }, { type: 'bytes32' }],
+        [toBytes32Address(recipient), requestId]
+      ),
+    },
+  ]);
+}
+
+/**
+ * ABI-encode the `CrossChainMessage` that `CrossChainBridge.cancelBridge` sends for a request
+ */
+export function encodeCancelMessage(asset: Address, amount: bigint, sender: Address, requestId: Hex): Hex {
+  return encodeAbiParameters(crossChainMessageParams, [
+    {
+      messageType: MSG_CANCEL,
+      asset,
+      amount,
+      sender,
+      data: encodeAbiParameters([{ type: 'bytes32' }], [requestId]),
+    },
+  ]);
+}
+
+/**
+ * Quote the LayerZero native fee for bridging `amount` of `asset` to `dstEid`
+ */
+export async function quoteBridgeFee(
+  client: PublicClient,
+  bridge: Address,
+  dstEid: number,
+  asset: Address,
+  amount: bigint,
+  sender: Address,
+  recipient: Address
+): Promise<bigint> {
+  return (await client.readContract({
+    address: bridge,
+    abi: crossChainBridgeAbi,
+    functionName: 'quoteFee',
+    args: [dstEid, encodeTransferMessage(asset, amount, sender, recipient)],
+  })) as bigint;
+}
+
+/**
+ * Send tokens through `CrossChainBridge.bridge`, paying `fee` as the LayerZero native fee.
+ * The bridge must already be approved to pull the tokens.
+ * @return The transaction hash and the request id reported by `BridgeInitiated`
+ */
+export async function bridgeTokens(
+  chainId: number,
+  account: Address,
+  bridge: Address,
+  dstEid: number,
+  asset: Address,
+  amount: bigint,
+  recipient: Address,
+  fee: bigint,
+  onSubmitted?: (hash: Hash) => void
+): Promise<{ hash: Hash; requestId: Hex | undefined }> {
+  const { hash, receipt } = await sendContractTransaction(
+    {
+      chainId,
+      account,
+      address: bridge,
+      abi: crossChainBridgeAbi,
+      functionName: 'bridge',
+      args: [asset, amount, dstEid, toBytes32Address(recipient)],
+      value: fee,
+    },
+    onSubmitted
+  );
+
+  const [initiated] = parseEventLogs({
+    abi: crossChainBridgeAbi,
+    eventName: 'BridgeInitiated',
+    logs: receipt.logs.filter((log) => isAddressEqual(log.address, bridge)),
+  }) as unknown as { args: { requestId: Hex } }[];
+
+  return { hash, requestId: initiated?.args.requestId };
+}
+
+/**
+ * Look up the destination bridge's `BridgeCompleted` event for `requestId`
+ * @param fromBlock Destination block to search from, taken before the source transaction was sent
+ * @return The destination transaction hash that completed the transfer, if delivered yet
+ */
+export async function findBridgeCompletion(
+  client: PublicClient,
+  bridge: Address,
+  requestId: Hex,
+  fromBlock: bigint
+): Promise<Hash | undefined> {
+  const [completed] = await client.getContractEvents({
+    address: bridge,
+    abi: crossChainBridgeAbi,
+    eventName: 'BridgeCompleted',
+    args: { requestId },
+    fromBlock,
+  });
+  return completed?.transactionHash ?? undefined;
+}
+
+/**
+ * Where a bridge request stands on its source chain: waiting for the destination's acknowledgement,
+ * acknowledged, past `bridgeTimeout` without acknowledgement (the sender can cancel it), cancelled
+ * and waiting for the destination's reply, or refunded
+ */
+export type BridgeRequestState = 'pending' | 'acknowledged' | 'refundable' | 'cancelling' | 'refunded';
+
+export interface BridgeRequestStatus {
+  state: BridgeRequestState;
+  asset: Address;
+  amount: bigint;
+  dstEid: number;
+  // Unix time from which the sender can cancel
+  refundableAt: number;
+}
+
+type BridgeRequestResult = {
+  sender: Address;
+  asset: Address;
+  amount: bigint;
+  dstChainId: number;
+  timestamp: bigint;
+  completed: boolean;
+  refunded: boolean;
+  cancelRequested: boolean;
+};
+
+/**
+ * Read the state of a bridge request from the source bridge
+ * @return undefined when the bridge has no such request
+ */
+export async function loadBridgeRequestStatus(
+  client: PublicClient,
+  bridge: Address,
+  requestId: Hex
+): Promise<BridgeRequestStatus | undefined> {
+  const [request, timeout, block] = await Promise.all([
+    client.readContract({
+      address: bridge,
+      abi: crossChainBridgeAbi,
+      functionName: 'getBridgeRequest',
+      args: [requestId],
+    }) as Promise<BridgeRequestResult>,
+    client.readContract({ address: bridge, abi: crossChainBridgeAbi, functionName: 'bridgeTimeout' }) as Promise<bigint>,
+    client.getBlock(),
+  ]);
+  if (isAddressEqual(request.sender, zeroAddress)) return undefined;
+
+  // Compare with chain time, which local nodes can move ahead of the wall clock
+  const refundableAt = request.timestamp + timeout;
+  const state: BridgeRequestState = request.completed
+    ? 'acknowledged'
+    : request.refunded
+      ? 'refunded'
+      : request.cancelRequested
+        ? 'cancelling'
+        : block.timestamp >= refundableAt
+          ? 'refundable'
+          : 'pending';
+
+  return {
+    state,
+    asset: request.asset,
+    amount: request.amount,
+    dstEid: request.dstChainId,
+    refundableAt: Number(refundableAt),
+  };
+}
+
+/**
+ * Cancel a timed-out bridge request through `CrossChainBridge.cancelBridge`. The destination bridge
+ * answers with a refund, or with the missing acknowledgement if it did pay the transfer out.
+ * @return The transaction hash
+ */
+export async function cancelBridgeRequest(
+  client: PublicClient,
+  chainId: number,
+  account: Address,
+  bridge: Address,
+  requestId: Hex,
+  request: BridgeRequestStatus,
+  onSubmitted?: (hash: Hash) => void
+): Promise<Hash> {
+  const fee = (await client.readContract({
+    address: bridge,
+    abi: crossChainBridgeAbi,
+    functionName: 'quoteFee',
+    args: [request.dstEid, encodeCancelMessage(request.asset, request.amount, account, requestId)],
+  })) as bigint;
+
+  const { hash } = await sendContractTransaction(
+    {
+      chainId,
+      account,
+      address: bridge,
+      abi: crossChainBridgeAbi,
+      functionName: 'cancelBridge',
+      args: [requestId],
+      value: fee,
+    },
+    onSubmitted
+  );
+  return hash;
+}
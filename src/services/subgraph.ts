@@ -0,0 +1,39 @@
+import { getSubgraphUrl } from '../config/subgraph';
+import type { TypedDocumentString } from '../graphql/generated/graphql';
+
+interface GraphQLResponse<TResult> {
+  data?: TResult;
+  errors?: { message: string }[];
+}
+
+/**
+ * Run a generated query against the subgraph of a chain.
+ * Throws when the chain has no subgraph configured, on HTTP errors and when graph-node reports
+ * GraphQL errors (e.g. a query ahead of the indexed block or a failed deployment).
+ */
+export async function querySubgraph<TResult, TVariables>(
+  chainId: number,
+  document: TypedDocumentString<TResult, TVariables>,
+  variables: TVariables,
+  signal?: AbortSignal
+): Promise<TResult> {
+  const url = getSubgraphUrl(chainId);
+  if (!url) throw new Error(`No subgraph configured for chain ${chainId}`);
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+    body: JSON.stringify({ query: document.toString(), variables }),
+    signal,
+  });
+  if (!response.ok) {
+    throw new Error(`Subgraph request for chain ${chainId} failed with HTTP ${response.status}`);
+  }
+
+  const { data, errors } = (await response.json()) as GraphQLResponse<TResult>;
+  if (errors?.length) {
+    throw new Error(`Subgraph query for chain ${chainId} failed: ${errors[0].message}`);
+  }
+  if (!data) throw new Error(`Subgraph for chain ${chainId} returned no data`);
+  return data;
+}
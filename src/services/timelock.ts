@@ -0,0 +1,137 @@
+import {
+  type Address,
+  type Hex,
+  type PublicClient,
+  decodeFunctionData,
+  isAddressEqual,
+  parseAbi,
+} from 'viem';
+import { type ChainDeployment, yieldTimelockAbi } from '../config/contracts';
+
+// Admin functions of YieldAggregator, CrossChainBridge and the timelock itself, to decode queued calls
+const adminAbi = parseAbi([
+  'function addProtocol(address adapter)',
+  'function removeProtocol(bytes32 protocolId)',
+  'function addSupportedAsset(address asset)',
+  'function setCrossChainBridge(address bridge)',
+  'function setVault(address asset, address vault)',
+  'function setFees(uint256 performanceFee, uint256 managementFee)',
+  'function setFeeRecipient(address feeRecipient)',
+  'function unpause()',
+  'function grantRole(bytes32 role, address account)',
+  'function revokeRole(bytes32 role, address account)',
+  'function setYieldAggregator(address aggregator)',
+  'function setPeer(uint32 eid, bytes32 peer)',
+  'function setSupportedToken(address token, bool supported)',
+  'function setRemoteToken(uint32 eid, address remoteToken, address token)',
+  'function setRebalanceCap(address asset, uint256 cap)',
+  'function setChainGasLimit(uint32 chainId, uint256 gasLimit)',
+  'function setYieldReportMaxAge(uint256 maxAge)',
+  'function setBridgeTimeout(uint256 timeout)',
+  'function refundFailedMessage(bytes32 guid)',
+  'function emergencyWithdraw(address token, address to)',
+  'function updateDelay(uint256 newDelay)',
+]);
+
+// Functions the bridge shares with the aggregator that do something else there
+const bridgeActionLabels: Record<string, string> = {
+  unpause: 'Unpause bridge',
+};
+
+const actionLabels: Record<string, string> = {
+  addProtocol: 'Add protocol adapter',
+  removeProtocol: 'Remove protocol',
+  addSupportedAsset: 'Add asset',
+  setCrossChainBridge: 'Change bridge',
+  setVault: 'Change vault',
+  setFees: 'Change fees',
+  setFeeRecipient: 'Change fee recipient',
+  unpause: 'Unpause and end emergency mode',
+  grantRole: 'Grant role',
+  revokeRole: 'Revoke role',
+  setYieldAggregator: 'Change aggregator',
+  setPeer: 'Change bridge peer',
+  setSupportedToken: 'Change bridgeable token',
+  setRemoteToken: 'Map peer chain token',
+  setRebalanceCap: 'Change cross-chain rebalance cap',
+  setChainGasLimit: 'Change bridge gas limit',
+  setYieldReportMaxAge: 'Change yield report max age',
+  setBridgeTimeout: 'Change bridge cancel timeout',
+  refundFailedMessage: 'Refund failed bridge transfer or rebalance',
+  emergencyWithdraw: 'Emergency withdrawal',
+  updateDelay: 'Change timelock delay',
+};
+
+export interface QueuedCall {
+  contract: 'YieldAggregator' | 'CrossChainBridge' | 'YieldTimelock' | 'Unknown';
+  target: Address;
+  label: string;
+  // Decoded call, e.g. `setFees(1000, 50)`; the raw calldata when the function is unknown
+  call: string;
+}
+
+export interface QueuedChange {
+  chainId: number;
+  id: Hex;
+  readyAt: number;
+  calls: QueuedCall[];
+}
+
+type QueuedOperationsResult = readonly {
+  id: Hex;
+  targets: readonly Address[];
+  values: readonly bigint[];
+  payloads: readonly Hex[];
+  readyAt: bigint;
+}[];
+
+const contractName = (target: Address, deployment: ChainDeployment): QueuedCall['contract'] => {
+  if (isAddressEqual(target, deployment.yieldAggregator)) return 'YieldAggregator';
+  if (deployment.crossChainBridge && isAddressEqual(target, deployment.crossChainBridge)) return 'CrossChainBridge';
+  if (deployment.timelock && isAddressEqual(target, deployment.timelock)) return 'YieldTimelock';
+  return 'Unknown';
+};
+
+const describeCall = (target: Address, payload: Hex, deployment: ChainDeployment): QueuedCall => {
+  const contract = contractName(target, deployment);
+  try {
+    const { functionName, args } = decodeFunctionData({ abi: adminAbi, data: payload });
+    return {
+      contract,
+      target,
+      label:
+        (contract === 'CrossChainBridge' ? bridgeActionLabels[functionName] : undefined) ??
+        actionLabels[functionName] ??
+        functionName,
+      call: `${functionName}(${(args ?? []).map(String).join(', ')})`,
+    };
+  } catch {
+    return { contract, target, label: 'Unknown call', call: payload };
+  }
+};
+
+/**
+ * Admin changes scheduled on a chain's timelock and not executed or cancelled yet, soonest first
+ */
+export async function loadQueuedChanges(
+  client: PublicClient,
+  chainId: number,
+  deployment: ChainDeployment
+): Promise<QueuedChange[]> {
+  if (!deployment.timelock) return [];
+
+  const operations = (await client.readContract({
+    address: deployment.timelock,
+    abi: yieldTimelockAbi,
+    functionName: 'getQueuedOperations',
+  })) as QueuedOperationsResult;
+
+  return operations
+    .map((operation) => ({
+      chainId,
+      id: operation.id,
+      readyAt: Number(operation.readyAt),
+      calls: operation.targets.map((target, i) => describeCall(target, operation.payloads[i], deployment)),
+    }))
+    .sort((a, b) => a.readyAt - b.readyAt);
+}
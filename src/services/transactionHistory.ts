@@ -0,0 +1,99 @@
+import { type Hash, type Hex, TransactionReceiptNotFoundError } from 'viem';
+import { getPublicClient } from 'wagmi/actions';
+import { wagmiConfig } from '../config/wagmi';
+import { getDeployment } from '../config/contracts';
+import type { Transaction } from '../store/useStore';
+import { findBridgeCompletion, loadBridgeRequestStatus } from './bridge';
+
+const STORAGE_KEY_PREFIX = 'yieldvault:transactions:';
+
+// Only the most recent transactions of each address and chain are kept
+const MAX_STORED_TRANSACTIONS = 200;
+
+// Pending records that never got a hash (e.g. the page was closed during the wallet prompt) expire
+const UNSUBMITTED_EXPIRY_MS = 15 * 60 * 1000;
+
+const storageKey = (address: string, chainId: number) =>
+  `${STORAGE_KEY_PREFIX}${address.toLowerCase()}:${chainId}`;
+
+/**
+ * Read the persisted transaction history of an address on a chain, newest first
+ */
+export function loadTransactionHistory(address: string, chainId: number): Transaction[] {
+  try {
+    const stored = localStorage.getItem(storageKey(address, chainId));
+    const parsed: unknown = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed)
+      ? (parsed as Transaction[]).filter((tx) => tx.chainId === chainId)
+      : [];
+  } catch (error) {
+    console.error(`Failed to read transaction history for ${address} on chain ${chainId}`, error);
+    return [];
+  }
+}
+
+/**
+ * Persist transactions of an address under the chain each was sent on. Records already stored
+ * for a chain are kept unless one of `transactions` replaces them.
+ */
+export function saveTransactionHistory(address: string, transactions: Transaction[]): void {
+  const chainIds = new Set(transactions.map((tx) => tx.chainId));
+  for (const chainId of chainIds) {
+    const updated = transactions.filter((tx) => tx.chainId === chainId);
+    const ids = new Set(updated.map((tx) => tx.id));
+    const merged = [...updated, ...loadTransactionHistory(address, chainId).filter((tx) => !ids.has(tx.id))]
+      .sort((a, b) => b.timestamp - a.timestamp);
+
+    try {
+      localStorage.setItem(
+        storageKey(address, chainId),
+        JSON.stringify(merged.slice(0, MAX_STORED_TRANSACTIONS))
+      );
+    } catch (error) {
+      console.error(`Failed to save transaction history for ${address} on chain ${chainId}`, error);
+    }
+  }
+}
+
+/**
+ * Work out the current status of a pending transaction from its receipt.
+ * Bridge transfers stay pending after the source receipt until the destination bridge
+ * has emitted `BridgeCompleted` for their request id, or fail once the source bridge has refunded them.
+ */
+export async function resolvePendingTransaction(tx: Transaction): Promise<Transaction['status']> {
+  if (!tx.txHash) {
+    return Date.now() - tx.timestamp > UNSUBMITTED_EXPIRY_MS ? 'failed' : 'pending';
+  }
+
+  const client = getPublicClient(wagmiConfig, { chainId: tx.chainId });
+  if (!client) return 'pending';
+
+  try {
+    const receipt = await client.getTransactionReceipt({ hash: tx.txHash as Hash });
+    if (receipt.status === 'reverted') return 'failed';
+  } catch (error) {
+    if (error instanceof TransactionReceiptNotFoundError) return 'pending';
+    throw error;
+  }
+
+  if (tx.type !== 'bridge') return 'completed';
+
+  const destinationBridge = tx.toChain ? getDeployment(tx.toChain.id)?.crossChainBridge : undefined;
+  const destinationClient = tx.toChain ? getPublicClient(wagmiConfig, { chainId: tx.toChain.id }) : undefined;
+  if (!tx.requestId || !destinationBridge || !destinationClient) {
+    return 'pending';
+  }
+
+  const completionHash = await findBridgeCompletion(
+    destinationClient,
+    destinationBridge,
+    tx.requestId as Hex,
+    BigInt(tx.destinationBlock ?? 0)
+  );
+  if (completionHash) return 'completed';
+
+  const sourceBridge = getDeployment(tx.chainId)?.crossChainBridge;
+  if (!sourceBridge) return 'pending';
+  const request = await loadBridgeRequestStatus(client, sourceBridge, tx.requestId as Hex);
+  return request?.state === 'refunded' ? 'failed' : 'pending';
+}
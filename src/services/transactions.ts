@@ -0,0 +1,120 @@
+import {
+  type Abi,
+  type Address,
+  type Hash,
+  type TransactionReceipt,
+  BaseError,
+  ContractFunctionRevertedError,
+  UserRejectedRequestError,
+  erc20Abi,
+} from 'viem';
+import {
+  getPublicClient,
+  readContract,
+  simulateContract,
+  waitForTransactionReceipt,
+  writeContract,
+} from 'wagmi/actions';
+import { wagmiConfig } from '../config/wagmi';
+
+// Headroom added on top of the node's gas estimate (in percent)
+const GAS_BUFFER_PERCENT = 20n;
+
+export interface ContractCall {
+  chainId: number;
+  account: Address;
+  address: Address;
+  abi: Abi;
+  functionName: string;
+  args?: readonly unknown[];
+  value?: bigint;
+}
+
+export interface SentTransaction {
+  hash: Hash;
+  receipt: TransactionReceipt;
+}
+
+/**
+ * Turn a wallet, RPC or contract error into a message fit for the UI.
+ * Contract reverts are reduced to their `require` reason.
+ */
+export function getErrorMessage(error: unknown): string {
+  if (error instanceof BaseError) {
+    if (error.walk((e) => e instanceof UserRejectedRequestError)) {
+      return 'Transaction rejected in wallet';
+    }
+    const revert = error.walk((e) => e instanceof ContractFunctionRevertedError);
+    if (revert instanceof ContractFunctionRevertedError) {
+      return revert.reason ?? revert.data?.errorName ?? revert.shortMessage;
+    }
+    return error.shortMessage;
+  }
+  return error instanceof Error ? error.message : 'Transaction failed';
+}
+
+/**
+ * Simulate, estimate gas for, send and wait for a contract call.
+ * The simulation surfaces revert reasons before the wallet is asked to sign.
+ * @param onSubmitted Called with the hash as soon as the wallet has broadcast the transaction
+ */
+export async function sendContractTransaction(
+  call: ContractCall,
+  onSubmitted?: (hash: Hash) => void
+): Promise<SentTransaction> {
+  const client = getPublicClient(wagmiConfig, { chainId: call.chainId });
+  if (!client) throw new Error(`No client configured for chain ${call.chainId}`);
+
+  const { request } = await simulateContract(wagmiConfig, call);
+  const gas = await client.estimateContractGas(call);
+
+  const hash = await writeContract(wagmiConfig, {
+    ...request,
+    gas: gas + (gas * GAS_BUFFER_PERCENT) / 100n,
+  });
+  onSubmitted?.(hash);
+
+  const receipt = await waitForTransactionReceipt(wagmiConfig, { chainId: call.chainId, hash });
+  if (receipt.status === 'reverted') {
+    throw new Error(`Transaction ${hash} reverted`);
+  }
+  return { hash, receipt };
+}
+
+/**
+ * Make sure `spender` may pull `amount` of `token` from `owner`, approving if needed.
+ * Tokens like USDT reject changing a non-zero allowance, so it is reset to zero first.
+ * @return Whether any approval transaction was sent
+ */
+export async function ensureAllowance(
+  chainId: number,
+  owner: Address,
+  token: Address,
+  spender: Address,
+  amount: bigint
+): Promise<boolean> {
+  const allowance = await readContract(wagmiConfig, {
+    chainId,
+    address: token,
+    abi: erc20Abi,
+    functionName: 'allowance',
+    args: [owner, spender],
+  });
+  if (allowance >= amount) return false;
+
+  const approve = (value: bigint) =>
+    sendContractTransaction({
+      chainId,
+      account: owner,
+      address: token,
+      abi: erc20Abi,
+      functionName: 'approve',
+      args: [spender, value],
+    });
+
+  if (allowance > 0n) {
+    await approve(0n);
+  }
+  await approve(amount);
+  return true;
+}
@@ -0,0 +1,573 @@
+import {
+  type Address,
+  type Hash,
+  type Hex,
+  type PublicClient,
+  erc20Abi,
+  formatUnits,
+  isAddressEqual,
+  parseEventLogs,
+} from 'viem';
+import { yieldAggregatorAbi } from '../config/contracts';
+import type { Asset, Chain, PendingWithdrawal, Position, Protocol } from '../store/useStore';
+import { sendContractTransaction } from './transactions';
+
+// On-chain APYs, fees and thresholds are in basis points (1% = 100)
+const BPS_PER_PERCENT = 100;
+const BASIS_POINTS = 10_000n;
+
+type ProtocolDisplay = Pick<Protocol, 'icon' | 'color' | 'risk' | 'type'>;
+
+// Display metadata keyed by the adapter's `protocolName()`
+const protocolDisplay: Record<string, ProtocolDisplay> = {
+  'Aave V3': { icon: '🔮', color: '#B6509E', risk: 'low', type: 'lending' },
+  'Compound V3': { icon: '🧪', color: '#00D395', risk: 'low', type: 'lending' },
+};
+
+const defaultProtocolDisplay: ProtocolDisplay = {
+  icon: '🏦',
+  color: '#64748B',
+  risk: 'medium',
+  type: 'lending',
+};
+
+const assetIcons: Record<string, string> = {
+  USDC: '💵',
+  USDT: '💲',
+  DAI: '🟡',
+};
+
+export interface ChainSnapshot {
+  chainId: number;
+  protocols: Protocol[];
+  assets: Asset[];
+}
+
+type ProtocolInfoResult = readonly [Address, string, boolean, bigint, bigint, bigint];
+type ProtocolAPYsResult = readonly [readonly Hex[], readonly bigint[], readonly string[]];
+type UserPositionResult = readonly [{ deposited: bigint; shares: bigint; depositTimestamp: bigint }, bigint, bigint];
+type AllocationsResult = readonly [readonly Hex[], readonly bigint[], readonly bigint[]];
+type PendingWithdrawalsResult = readonly [
+  readonly bigint[],
+  readonly {
+    user: Address;
+    asset: Address;
+    amount: bigint;
+    claimed: bigint;
+    requestedAt: bigint;
+    queuePosition: bigint;
+  }[],
+];
+
+const toProtocol = (
+  chainId: number,
+  protocolId: Hex,
+  [adapter, name, , totalDeposited]: ProtocolInfoResult,
+  apyByAsset: Record<string, number>,
+  tvlDecimals: number
+): Protocol => {
+  const apyValues = Object.values(apyByAsset);
+  return {
+    id: `${chainId}-${protocolId}`,
+    protocolId,
+    adapter,
+    name,
+    ...(protocolDisplay[name] ?? defaultProtocolDisplay),
+    chainId,
+    apy: apyValues.length > 0 ? Math.max(...apyValues) : 0,
+    apyByAsset,
+    tvl: Number(formatUnits(totalDeposited, tvlDecimals)),
+  };
+};
+
+/**
+ * Read the supported assets of a YieldAggregator together with their ERC20 metadata
+ */
+export async function loadAssets(
+  client: PublicClient,
+  chainId: number,
+  aggregator: Address
+): Promise<Asset[]> {
+  const addresses = (await client.readContract({
+    address: aggregator,
+    abi: yieldAggregatorAbi,
+    functionName: 'getSupportedAssets',
+  })) as readonly Address[];
+
+  return Promise.all(
+    addresses.map(async (address) => {
+      const [symbol, name, decimals] = await Promise.all([
+        client.readContract({ address, abi: erc20Abi, functionName: 'symbol' }),
+        client.readContract({ address, abi: erc20Abi, functionName: 'name' }),
+        client.readContract({ address, abi: erc20Abi, functionName: 'decimals' }),
+      ]);
+
+      return {
+        symbol,
+        name,
+        address,
+        chainId,
+        decimals,
+        icon: assetIcons[symbol] ?? '🪙',
+        // Only stablecoins are supported by the aggregator, so they are valued at par
+        price: 1.0,
+      };
+    })
+  );
+}
+
+/**
+ * Read every registered protocol of a YieldAggregator with its live APY per supported asset.
+ * Inactive protocols are skipped.
+ */
+export async function loadProtocols(
+  client: PublicClient,
+  chainId: number,
+  aggregator: Address,
+  assets: Asset[]
+): Promise<Protocol[]> {
+  const protocolIds = (await client.readContract({
+    address: aggregator,
+    abi: yieldAggregatorAbi,
+    functionName: 'getProtocols',
+  })) as readonly Hex[];
+
+  const [infos, apysPerAsset] = await Promise.all([
+    Promise.all(
+      protocolIds.map(
+        (id) =>
+          client.readContract({
+            address: aggregator,
+            abi: yieldAggregatorAbi,
+            functionName: 'protocols',
+            args: [id],
+          }) as Promise<ProtocolInfoResult>
+      )
+    ),
+    Promise.all(
+      assets.map(
+        (asset) =>
+          client.readContract({
+            address: aggregator,
+            abi: yieldAggregatorAbi,
+            functionName: 'getAllProtocolAPYs',
+            args: [asset.address],
+          }) as Promise<ProtocolAPYsResult>
+      )
+    ),
+  ]);
+
+  // Protocol totals are summed in raw units across the supported stablecoins
+  const tvlDecimals = assets[0]?.decimals ?? 6;
+
+  return protocolIds.flatMap((protocolId, index) => {
+    const [, , active] = infos[index];
+    if (!active) return [];
+
+    const apyByAsset: Record<string, number> = {};
+    assets.forEach((asset, assetIndex) => {
+      const [ids, apys] = apysPerAsset[assetIndex];
+      const position = ids.indexOf(protocolId);
+      if (position >= 0 && apys[position] > 0n) {
+        apyByAsset[asset.address.toLowerCase()] = Number(apys[position]) / BPS_PER_PERCENT;
+      }
+    });
+
+    return [toProtocol(chainId, protocolId, infos[index], apyByAsset, tvlDecimals)];
+  });
+}
+
+/**
+ * Load the assets and protocols of one chain's YieldAggregator deployment
+ */
+export async function loadChainSnapshot(
+  client: PublicClient,
+  chainId: number,
+  aggregator: Address
+): Promise<ChainSnapshot> {
+  const assets = await loadAssets(client, chainId, aggregator);
+  const protocols = await loadProtocols(client, chainId, aggregator, assets);
+  return { chainId, protocols, assets };
+}
+
+/**
+ * Read a user's position in every supported asset of one chain's YieldAggregator.
+ * Amounts are converted by the asset decimals and empty positions are skipped.
+ * Positions are shares of the asset's pool, so they show the protocol holding most of the pool
+ * and the pool's APY weighted by allocation.
+ * @param protocols Protocols already loaded for the chain, used to resolve the pool's protocols
+ */
+export async function loadPositions(
+  client: PublicClient,
+  chain: Chain,
+  aggregator: Address,
+  user: Address,
+  assets: Asset[],
+  protocols: Protocol[]
+): Promise<Position[]> {
+  const positions = await Promise.all(
+    assets.map(async (asset): Promise<Position | null> => {
+      const [[position, currentValue, unrealizedYield], [ids, amounts]] = await Promise.all([
+        client.readContract({
+          address: aggregator,
+          abi: yieldAggregatorAbi,
+          functionName: 'getUserPosition',
+          args: [user, asset.address],
+        }) as Promise<UserPositionResult>,
+        client.readContract({
+          address: aggregator,
+          abi: yieldAggregatorAbi,
+          functionName: 'getAllocations',
+          args: [asset.address],
+        }) as Promise<AllocationsResult>,
+      ]);
+
+      if (position.shares === 0n) return null;
+
+      const assetKey = asset.address.toLowerCase();
+      const apyOf = (protocolId: Hex) =>
+        protocols.find((p) => p.protocolId === protocolId)?.apyByAsset[assetKey] ?? 0;
+
+      let largest = 0;
+      let allocated = 0n;
+      let weightedApy = 0;
+      amounts.forEach((amount, index) => {
+        if (amount > amounts[largest]) largest = index;
+        allocated += amount;
+        weightedApy += Number(amount) * apyOf(ids[index]);
+      });
+      const protocolId = ids[largest];
+
+      // The pool can sit in a protocol that has since been deactivated and is not in `protocols`
+      let protocol = protocols.find((p) => p.protocolId === protocolId);
+      if (!protocol) {
+        const info = (await client.readContract({
+          address: aggregator,
+          abi: yieldAggregatorAbi,
+          functionName: 'protocols',
+          args: [protocolId],
+        })) as ProtocolInfoResult;
+        protocol = toProtocol(chain.id, protocolId, info, {}, asset.decimals);
+      }
+
+      return {
+        id: `${chain.id}-${asset.address.toLowerCase()}`,
+        asset,
+        protocol,
+        chain,
+        deposited: Number(formatUnits(position.deposited, asset.decimals)),
+        currentValue: Number(formatUnits(currentValue, asset.decimals)),
+        apy: allocated > 0n ? weightedApy / Number(allocated) : apyOf(protocolId),
+        unrealizedYield: Number(formatUnits(unrealizedYield, asset.decimals)),
+        depositTimestamp: Number(position.depositTimestamp) * 1000,
+      };
+    })
+  );
+
+  return positions.filter((position): position is Position => position !== null);
+}
+
+/**
+ * Read the user's withdrawal requests that wait for protocol liquidity on one chain
+ */
+export async function loadPendingWithdrawals(
+  client: PublicClient,
+  chain: Chain,
+  aggregator: Address,
+  user: Address,
+  assets: Asset[]
+): Promise<PendingWithdrawal[]> {
+  const [ids, requests] = (await client.readContract({
+    address: aggregator,
+    abi: yieldAggregatorAbi,
+    functionName: 'getPendingWithdrawals',
+    args: [user],
+  })) as PendingWithdrawalsResult;
+
+  return requests.flatMap((request, index): PendingWithdrawal[] => {
+    const asset = assets.find((a) => isAddressEqual(a.address as Address, request.asset));
+    if (!asset) return [];
+    return [
+      {
+        id: `${chain.id}-${ids[index]}`,
+        requestId: ids[index],
+        chain,
+        asset,
+        remaining: Number(formatUnits(request.amount - request.claimed, asset.decimals)),
+        claimed: Number(formatUnits(request.claimed, asset.decimals)),
+        requestedAt: Number(request.requestedAt) * 1000,
+      },
+    ];
+  });
+}
+
+/**
+ * Deposit `amount` of `asset` into the aggregator, which routes it to the best protocol.
+ * The aggregator must already be approved to pull the tokens.
+ * @return The transaction hash and the protocolId reported by the `Deposited` event
+ */
+export async function depositToAggregator(
+  chainId: number,
+  account: Address,
+  aggregator: Address,
+  asset: Address,
+  amount: bigint,
+  onSubmitted?: (hash: Hash) => void
+): Promise<{ hash: Hash; protocolId: Hex | undefined }> {
+  const { hash, receipt } = await sendContractTransaction(
+    {
+      chainId,
+      account,
+      address: aggregator,
+      abi: yieldAggregatorAbi,
+      functionName: 'deposit',
+      args: [asset, amount],
+    },
+    onSubmitted
+  );
+
+  // Adapters emit events with the same signatures, so only the aggregator's own logs are decoded
+  const [deposited] = parseEventLogs({
+    abi: yieldAggregatorAbi,
+    eventName: 'Deposited',
+    logs: receipt.logs.filter((log) => isAddressEqual(log.address, aggregator)),
+  }) as unknown as { args: { protocolId: Hex } }[];
+
+  return { hash, protocolId: deposited?.args.protocolId };
+}
+
+/**
+ * Withdraw from the user's position in `asset`. An `amount` of 0 withdraws the whole position.
+ * @return The transaction hash with the amount received now, the part queued until protocol
+ *         liquidity returns and the yield after fees, from the `Withdrawn` and `WithdrawalQueued` events
+ */
+export async function withdrawFromAggregator(
+  chainId: number,
+  account: Address,
+  aggregator: Address,
+  asset: Address,
+  amount: bigint,
+  onSubmitted?: (hash: Hash) => void
+): Promise<{ hash: Hash; received: bigint; queued: bigint; yield: bigint }> {
+  const { hash, receipt } = await sendContractTransaction(
+    {
+      chainId,
+      account,
+      address: aggregator,
+      abi: yieldAggregatorAbi,
+      functionName: 'withdraw',
+      args: [asset, amount],
+    },
+    onSubmitted
+  );
+
+  const logs = receipt.logs.filter((log) => isAddressEqual(log.address, aggregator));
+  const [withdrawn] = parseEventLogs({
+    abi: yieldAggregatorAbi,
+    eventName: 'Withdrawn',
+    logs,
+  }) as unknown as { args: { amount: bigint; yield: bigint } }[];
+  const [queued] = parseEventLogs({
+    abi: yieldAggregatorAbi,
+    eventName: 'WithdrawalQueued',
+    logs,
+  }) as unknown as { args: { amount: bigint } }[];
+
+  const queuedAmount = queued?.args.amount ?? 0n;
+  return {
+    hash,
+    received: (withdrawn?.args.amount ?? 0n) - queuedAmount,
+    queued: queuedAmount,
+    yield: withdrawn?.args.yield ?? 0n,
+  };
+}
+
+/**
+ * Claim what protocol liquidity allows of a queued withdrawal
+ * @return The transaction hash with the amount received and what is still queued,
+ *         as reported by the `WithdrawalClaimed` event
+ */
+export async function claimWithdrawalFromAggregator(
+  chainId: number,
+  account: Address,
+  aggregator: Address,
+  requestId: bigint,
+  onSubmitted?: (hash: Hash) => void
+): Promise<{ hash: Hash; received: bigint; remaining: bigint }> {
+  const { hash, receipt } = await sendContractTransaction(
+    {
+      chainId,
+      account,
+      address: aggregator,
+      abi: yieldAggregatorAbi,
+      functionName: 'claimWithdrawal',
+      args: [requestId],
+    },
+    onSubmitted
+  );
+
+  const [claimed] = parseEventLogs({
+    abi: yieldAggregatorAbi,
+    eventName: 'WithdrawalClaimed',
+    logs: receipt.logs.filter((log) => isAddressEqual(log.address, aggregator)),
+  }) as unknown as { args: { amount: bigint; remaining: bigint } }[];
+
+  return { hash, received: claimed?.args.amount ?? 0n, remaining: claimed?.args.remaining ?? 0n };
+}
+
+export interface RebalancePreview {
+  // With targets the whole pool moves back to the strategist's allocation targets
+  toTargets: boolean;
+  // Without targets: lowest yielding protocol holding part of the pool, besides the best one.
+  // With targets: the protocol furthest above its target
+  currentProtocolId: Hex;
+  // Without targets: best yielding protocol. With targets: the protocol furthest below its target
+  bestProtocolId: Hex;
+  bestApy: number; // %
+  currentApy: number; // % live APY of the current protocol
+  threshold: number; // % of a protocol's APY the best APY has to exceed it by
+  // Why `rebalance` would revert, mirroring its require checks; undefined when it should pass
+  blockedReason?: 'Already in best protocol' | 'APY difference too small' | 'Already at target allocation';
+  gasCost?: bigint; // native token wei, only estimated when the call should pass
+}
+
+/**
+ * Preview `YieldAggregator.rebalance(asset)` for a user: which protocol it would move to,
+ * whether the APY threshold check passes, and the gas it would cost.
+ * Without allocation targets only the user's share of each protocol whose live APY the best one
+ * beats by the threshold is moved; with targets the whole pool is moved back to them.
+ */
+export async function previewRebalance(
+  client: PublicClient,
+  aggregator: Address,
+  user: Address,
+  asset: Address
+): Promise<RebalancePreview> {
+  const [[ids, amounts, targets], [bestProtocolId, bestApyBps], [, , rebalanceThreshold], [apyIds, apys]] = await Promise.all([
+    client.readContract({
+      address: aggregator,
+      abi: yieldAggregatorAbi,
+      functionName: 'getAllocations',
+      args: [asset],
+    }) as Promise<AllocationsResult>,
+    client.readContract({
+      address: aggregator,
+      abi: yieldAggregatorAbi,
+      functionName: 'findBestProtocol',
+      args: [asset],
+    }) as Promise<readonly [Hex, bigint]>,
+    client.readContract({
+      address: aggregator,
+      abi: yieldAggregatorAbi,
+      functionName: 'strategies',
+      args: [asset],
+    }) as Promise<readonly [Address, bigint, bigint, boolean]>,
+    client.readContract({
+      address: aggregator,
+      abi: yieldAggregatorAbi,
+      functionName: 'getAllProtocolAPYs',
+      args: [asset],
+    }) as Promise<ProtocolAPYsResult>,
+  ]);
+
+  const apyOf = (protocolId: Hex) => apys[apyIds.indexOf(protocolId)] ?? 0n;
+
+  if (targets.some((target) => target > 0n)) {
+    // Largest distance from the target first
+    const drifts = ids
+      .map((protocolId, index) => ({ protocolId, drift: amounts[index] - targets[index] }))
+      .sort((a, b) => (a.drift > b.drift ? -1 : a.drift < b.drift ? 1 : 0));
+    const over = drifts[0];
+    const under = drifts[drifts.length - 1];
+
+    const preview: RebalancePreview = {
+      toTargets: true,
+      currentProtocolId: over.protocolId,
+      bestProtocolId: under.protocolId,
+      bestApy: Number(apyOf(under.protocolId)) / BPS_PER_PERCENT,
+      currentApy: Number(apyOf(over.protocolId)) / BPS_PER_PERCENT,
+      threshold: Number(rebalanceThreshold) / BPS_PER_PERCENT,
+    };
+    if (over.drift <= 0n) {
+      return { ...preview, blockedReason: 'Already at target allocation' };
+    }
+    return { ...preview, gasCost: await estimateRebalanceCost(client, aggregator, user, asset) };
+  }
+
+  // Protocols other than the best one that hold part of the pool, lowest APY first
+  const holdings = ids
+    .map((protocolId, index) => ({
+      protocolId,
+      amount: amounts[index],
+      apyBps: apyOf(protocolId),
+    }))
+    .filter((holding) => holding.amount > 0n && holding.protocolId !== bestProtocolId)
+    .sort((a, b) => (a.apyBps < b.apyBps ? -1 : a.apyBps > b.apyBps ? 1 : 0));
+  const current = holdings[0];
+
+  const preview: RebalancePreview = {
+    toTargets: false,
+    currentProtocolId: current?.protocolId ?? bestProtocolId,
+    bestProtocolId,
+    bestApy: Number(bestApyBps) / BPS_PER_PERCENT,
+    currentApy: Number(current?.apyBps ?? bestApyBps) / BPS_PER_PERCENT,
+    threshold: Number(rebalanceThreshold) / BPS_PER_PERCENT,
+  };
+
+  if (!current) {
+    return { ...preview, blockedReason: 'Already in best protocol' };
+  }
+  if (bestApyBps <= current.apyBps + (current.apyBps * rebalanceThreshold) / BASIS_POINTS) {
+    return { ...preview, blockedReason: 'APY difference too small' };
+  }
+  return { ...preview, gasCost: await estimateRebalanceCost(client, aggregator, user, asset) };
+}
+
+async function estimateRebalanceCost(client: PublicClient, aggregator: Address, user: Address, asset: Address) {
+  const [gas, gasPrice] = await Promise.all([
+    client.estimateContractGas({
+      account: user,
+      address: aggregator,
+      abi: yieldAggregatorAbi,
+      functionName: 'rebalance',
+      args: [asset],
+    }),
+    client.getGasPrice(),
+  ]);
+  return gas * gasPrice;
+}
+
+/**
+ * Move the user's share of the `asset` pool to the best protocol, or the pool to its allocation targets
+ * @return The transaction hash with the destination protocolId and the amount moved,
+ *         as reported by the `Rebalanced` event
+ */
+export async function rebalanceOnAggregator(
+  chainId: number,
+  account: Address,
+  aggregator: Address,
+  asset: Address,
+  onSubmitted?: (hash: Hash) => void
+): Promise<{ hash: Hash; toProtocolId: Hex | undefined; amount: bigint }> {
+  const { hash, receipt } = await sendContractTransaction(
+    {
+      chainId,
+      account,
+      address: aggregator,
+      abi: yieldAggregatorAbi,
+      functionName: 'rebalance',
+      args: [asset],
+    },
+    onSubmitted
+  );
+
+  const rebalanced = parseEventLogs({
+    abi: yieldAggregatorAbi,
+    eventName: 'Rebalanced',
+    logs: receipt.logs.filter((log) => isAddressEqual(log.address, aggregator)),
+  }) as unknown as { args: { toProtocol: Hex; amount: bigint } }[];
+
+  // One event is emitted per protocol the funds were moved from
+  const moved = rebalanced.reduce((total, event) => total + event.args.amount, 0n);
+  return { hash, toProtocolId: rebalanced[0]?.args.toProtocol, amount: moved };
+}
@@ -1,4 +1,15 @@
 import { create } from 'zustand';
+import { isAddress } from 'viem';
+import { getPublicClient } from 'wagmi/actions';
+import { LOCAL_CHAIN_ENABLED, LOCAL_RPC_URL, wagmiConfig } from '../config/wagmi';
+import { getDeployment } from '../config/contracts';
+import {
+  loadChainSnapshot,
+  loadPendingWithdrawals,
+  loadPositions,
+  type ChainSnapshot,
+} from '../services/yieldAggregator';
+import { loadTransactionHistory, saveTransactionHistory } from '../services/transactionHistory';
 
 // Types
 export interface Chain {
@@ -12,11 +23,14 @@ export interface Chain {
 
 export interface Protocol {
   id: string;
+  protocolId: string; // bytes32 id registered in YieldAggregator
+  adapter: string;
   name: string;
   icon: string;
   color: string;
   chainId: number;
   apy: number;
+  apyByAsset: Record<string, number>; // lowercase asset address => APY %
   tvl: number;
   risk: 'low' | 'medium' | 'high';
   type: 'lending' | 'liquidity' | 'staking';
@@ -26,6 +40,7 @@ export interface Asset {
   symbol: string;
   name: string;
   address: string;
+  chainId: number;
   decimals: number;
   icon: string;
   price: number;
@@ -43,9 +58,21 @@ export interface Position {
   depositTimestamp: number;
 }
 
+// Remainder of a withdrawal that protocol liquidity could not cover, claimable later
+export interface PendingWithdrawal {
+  id: string; // chainId-requestId
+  requestId: bigint;
+  chain: Chain;
+  asset: Asset;
+  remaining: number; // still owed
+  claimed: number; // paid out by earlier claims
+  requestedAt: number;
+}
+
 export interface Transaction {
   id: string;
   type: 'deposit' | 'withdraw' | 'rebalance' | 'bridge';
+  chainId: number; // chain the transaction is sent on
   asset: Asset;
   amount: number;
   fromChain?: Chain;
@@ -55,6 +82,9 @@ export interface Transaction {
   status: 'pending' | 'completed' | 'failed';
   timestamp: number;
   txHash?: string;
+  requestId?: string; // CrossChainBridge request id of a bridge transfer
+  destinationBlock?: number; // destination block to look for the bridge delivery from
+  cancelTxHash?: string; // cancelBridge transaction of a timed-out bridge transfer
 }
 
 export interface GlobalStats {
@@ -77,6 +107,7 @@ interface AppState {
   protocols: Protocol[];
   assets: Asset[];
   positions: Position[];
+  pendingWithdrawals: PendingWithdrawal[];
   transactions: Transaction[];
   globalStats: GlobalStats;
 
@@ -89,6 +120,7 @@ interface AppState {
 
   // Actions
   setWalletState: (isConnected: boolean, address: string | null, chainId: number | null) => void;
+  setBalance: (balance: number) => void;
   setSelectedChain: (chain: Chain | null) => void;
   setSelectedAsset: (asset: Asset | null) => void;
   setSelectedProtocol: (protocol: Protocol | null) => void;
@@ -96,11 +128,13 @@ interface AppState {
   setError: (error: string | null) => void;
   addTransaction: (tx: Transaction) => void;
   updateTransactionStatus: (id: string, status: Transaction['status'], txHash?: string) => void;
+  updateTransaction: (id: string, changes: Partial<Omit<Transaction, 'id'>>) => void;
   refreshData: () => Promise<void>;
+  refreshPositions: () => Promise<void>;
 }
 
-// Mock data
-const mockChains: Chain[] = [
+// Chain configuration
+const supportedChains: Chain[] = [
   {
     id: 1,
     name: 'Ethereum',
@@ -125,110 +159,37 @@ const mockChains: Chain[] = [
     rpcUrl: 'https://arb1.arbitrum.io/rpc',
     explorerUrl: 'https://arbiscan.io',
   },
+  ...(LOCAL_CHAIN_ENABLED
+    ? [
+        {
+          id: 31337,
+          name: 'Localhost',
+          icon: '⚒',
+          color: '#F7DF1E',
+          rpcUrl: LOCAL_RPC_URL,
+          explorerUrl: '',
+        },
+      ]
+    : []),
 ];
 
-const mockProtocols: Protocol[] = [
-  {
-    id: 'aave-eth',
-    name: 'Aave V3',
-    icon: '🔮',
-    color: '#B6509E',
-    chainId: 1,
-    apy: 4.82,
-    tvl: 8420000000,
-    risk: 'low',
-    type: 'lending',
-  },
-  {
-    id: 'aave-poly',
-    name: 'Aave V3',
-    icon: '🔮',
-    color: '#B6509E',
-    chainId: 137,
-    apy: 5.24,
-    tvl: 1230000000,
-    risk: 'low',
-    type: 'lending',
-  },
-  {
-    id: 'aave-arb',
-    name: 'Aave V3',
-    icon: '🔮',
-    color: '#B6509E',
-    chainId: 42161,
-    apy: 5.67,
-    tvl: 890000000,
-    risk: 'low',
-    type: 'lending',
-  },
-  {
-    id: 'compound-eth',
-    name: 'Compound V3',
-    icon: '🧪',
-    color: '#00D395',
-    chainId: 1,
-    apy: 4.15,
-    tvl: 2100000000,
-    risk: 'low',
-    type: 'lending',
-  },
-  {
-    id: 'compound-poly',
-    name: 'Compound V3',
-    icon: '🧪',
-    color: '#00D395',
-    chainId: 137,
-    apy: 4.89,
-    tvl: 450000000,
-    risk: 'low',
-    type: 'lending',
-  },
-  {
-    id: 'compound-arb',
-    name: 'Compound V3',
-    icon: '🧪',
-    color: '#00D395',
-    chainId: 42161,
-    apy: 5.12,
-    tvl: 320000000,
-    risk: 'low',
-    type: 'lending',
-  },
-];
-
-const mockAssets: Asset[] = [
-  {
-    symbol: 'USDC',
-    name: 'USD Coin',
-    address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
-    decimals: 6,
-    icon: '💵',
-    price: 1.0,
-  },
-  {
-    symbol: 'USDT',
-    name: 'Tether USD',
-    address: '0xdAC17F958D2ee523a2206206994597C13D831ec7',
-    decimals: 6,
-    icon: '💲',
-    price: 1.0,
-  },
-  {
-    symbol: 'DAI',
-    name: 'Dai Stablecoin',
-    address: '0x6B175474E89094C44Da98b954EescdeCB5bE3bec3', // DAI address on Ethereum mainnet
-    decimals: 18,
-    icon: '🟡',
-    price: 1.0,
-  },
-];
+const emptyGlobalStats: GlobalStats = {
+  totalValueLocked: 0,
+  totalYieldGenerated: 0,
+  totalUsers: 0,
+  activeProtocols: 0,
+  avgApy: 0,
+};
 
-const mockGlobalStats: GlobalStats = {
-  totalValueLocked: 13410000000,
-  totalYieldGenerated: 892000000,
-  totalUsers: 284521,
-  activeProtocols: 6,
-  avgApy: 4.98,
+// Yield and user totals are not tracked on-chain, so they carry over from the previous stats
+const computeGlobalStats = (protocols: Protocol[], previous: GlobalStats): GlobalStats => {
+  const apys = protocols.map((p) => p.apy).filter((apy) => apy > 0);
+  return {
+    ...previous,
+    totalValueLocked: protocols.reduce((sum, p) => sum + p.tvl, 0),
+    activeProtocols: protocols.length,
+    avgApy: apys.length > 0 ? apys.reduce((sum, apy) => sum + apy, 0) / apys.length : 0,
+  };
 };
 
 export const useStore = create<AppState>((set, get) => ({
@@ -239,65 +200,43 @@ export const useStore = create<AppState>((set, get) => ({
   balance: 0,
 
   // Initial data
-  chains: mockChains,
-  protocols: mockProtocols,
-  assets: mockAssets,
+  chains: supportedChains,
+  protocols: [],
+  assets: [],
   positions: [],
+  pendingWithdrawals: [],
   transactions: [],
-  globalStats: mockGlobalStats,
+  globalStats: emptyGlobalStats,
 
   // Initial UI state
   selectedChain: null,
-  selectedAsset: mockAssets[0],
+  selectedAsset: null,
   selectedProtocol: null,
   isLoading: false,
   error: null,
 
   // Actions
   setWalletState: (isConnected, address, chainId) => {
+    const { address: previousAddress, chainId: previousChainId } = get();
     set({ isConnected, address, chainId });
-    
-    // If connected, set mock positions
-    if (isConnected && address) {
-      const mockPositions: Position[] = [
-        {
-          id: '1',
-          asset: mockAssets[0],
-          protocol: mockProtocols[2], // Aave on Arbitrum
-          chain: mockChains[2],
-          deposited: 25000,
-          currentValue: 25892.45,
-          apy: 5.67,
-          unrealizedYield: 892.45,
-          depositTimestamp: Date.now() - 30 * 24 * 60 * 60 * 1000,
-        },
-        {
-          id: '2',
-          asset: mockAssets[1],
-          protocol: mockProtocols[1], // Aave on Polygon
-          chain: mockChains[1],
-          deposited: 15000,
-          currentValue: 15421.78,
-          apy: 5.24,
-          unrealizedYield: 421.78,
-          depositTimestamp: Date.now() - 45 * 24 * 60 * 60 * 1000,
-        },
-        {
-          id: '3',
-          asset: mockAssets[0],
-          protocol: mockProtocols[3], // Compound on Ethereum
-          chain: mockChains[0],
-          deposited: 10000,
-          currentValue: 10215.32,
-          apy: 4.15,
-          unrealizedYield: 215.32,
-          depositTimestamp: Date.now() - 60 * 24 * 60 * 60 * 1000,
-        },
-      ];
-      set({ positions: mockPositions, balance: 50000 });
+
+    if (!isConnected || !address) {
+      set({ positions: [], pendingWithdrawals: [], transactions: [] });
+      return;
+    }
+
+    // History is kept per address and chain, so switching networks shows that network's records
+    if (address !== previousAddress || chainId !== previousChainId) {
+      set({ transactions: chainId !== null ? loadTransactionHistory(address, chainId) : [] });
+    }
+    if (address !== previousAddress) {
+      set({ positions: [], pendingWithdrawals: [] });
+      get().refreshPositions();
     }
   },
 
+  setBalance: (balance) => set({ balance }),
+
   setSelectedChain: (chain) => set({ selectedChain: chain }),
   setSelectedAsset: (asset) => set({ selectedAsset: asset }),
   setSelectedProtocol: (protocol) => set({ selectedProtocol: protocol }),
@@ -316,22 +255,124 @@ export const useStore = create<AppState>((set, get) => ({
         tx.id === id ? { ...tx, status, txHash: txHash || tx.txHash } : tx
       ),
     }));
+
+    // Deposits, withdrawals and rebalances change the user's positions once mined
+    const tx = get().transactions.find((t) => t.id === id);
+    if (status === 'completed' && tx && tx.type !== 'bridge') {
+      get().refreshPositions();
+    }
+  },
+
+  updateTransaction: (id, changes) => {
+    set((state) => ({
+      transactions: state.transactions.map((tx) => (tx.id === id ? { ...tx, ...changes } : tx)),
+    }));
   },
 
   refreshData: async () => {
-    set({ isLoading: true });
-    try {
-      // In production, fetch real data from The Graph and RPC
-      // For now, simulate a refresh with randomized APYs
-      const { protocols } = get();
-      const updatedProtocols = protocols.map((p) => ({
-        ...p,
-        apy: p.apy + (Math.random() - 0.5) * 0.2,
-      }));
-      
-      set({ protocols: updatedProtocols, isLoading: false });
-    } catch (error) {
-      set({ error: 'Failed to refresh data', isLoading: false });
-    }
+    set({ isLoading: true, error: null });
+
+    const { chains, protocols, assets, selectedAsset, globalStats } = get();
+    const deployedChains = chains.filter((chain) => getDeployment(chain.id));
+
+    const results = await Promise.allSettled(
+      deployedChains.map(async (chain) => {
+        const client = getPublicClient(wagmiConfig, { chainId: chain.id });
+        if (!client) throw new Error(`No client configured for ${chain.name}`);
+        return loadChainSnapshot(client, chain.id, getDeployment(chain.id)!.yieldAggregator);
+      })
+    );
+
+    // Chains that fail to load keep their previous data
+    const snapshots: ChainSnapshot[] = results.map((result, index) => {
+      const chainId = deployedChains[index].id;
+      if (result.status === 'fulfilled') return result.value;
+      console.error(`Failed to load data for chain ${chainId}`, result.reason);
+      return {
+        chainId,
+        protocols: protocols.filter((p) => p.chainId === chainId),
+        assets: assets.filter((a) => a.chainId === chainId),
+      };
+    });
+
+    const nextProtocols = snapshots.flatMap((snapshot) => snapshot.protocols);
+    const nextAssets = snapshots.flatMap((snapshot) => snapshot.assets);
+    const failedChains = deployedChains.filter((_, index) => results[index].status === 'rejected');
+
+    set({
+      protocols: nextProtocols,
+      assets: nextAssets,
+      globalStats: computeGlobalStats(nextProtocols, globalStats),
+      selectedAsset:
+        nextAssets.find(
+          (a) => a.chainId === selectedAsset?.chainId && a.address === selectedAsset?.address
+        ) ??
+        nextAssets[0] ??
+        null,
+      isLoading: false,
+      error:
+        failedChains.length > 0
+          ? `Failed to refresh data for ${failedChains.map((c) => c.name).join(', ')}`
+          : null,
+    });
+
+    await get().refreshPositions();
+  },
+
+  refreshPositions: async () => {
+    const { address, chains, protocols, assets, positions, pendingWithdrawals } = get();
+    if (!address || !isAddress(address)) return;
+
+    const deployedChains = chains.filter((chain) => getDeployment(chain.id));
+
+    const results = await Promise.allSettled(
+      deployedChains.map(async (chain) => {
+        const client = getPublicClient(wagmiConfig, { chainId: chain.id });
+        if (!client) throw new Error(`No client configured for ${chain.name}`);
+        const aggregator = getDeployment(chain.id)!.yieldAggregator;
+        const chainAssets = assets.filter((a) => a.chainId === chain.id);
+        const [chainPositions, chainWithdrawals] = await Promise.all([
+          loadPositions(
+            client,
+            chain,
+            aggregator,
+            address,
+            chainAssets,
+            protocols.filter((p) => p.chainId === chain.id)
+          ),
+          loadPendingWithdrawals(client, chain, aggregator, address, chainAssets),
+        ]);
+        return { positions: chainPositions, pendingWithdrawals: chainWithdrawals };
+      })
+    );
+
+    // Ignore results for an account that was switched away from while loading
+    if (get().address !== address) return;
+
+    // Chains that fail to load keep their previous positions and withdrawal requests
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        console.error(`Failed to load positions for chain ${deployedChains[index].id}`, result.reason);
+      }
+    });
+    set({
+      positions: results.flatMap((result, index) =>
+        result.status === 'fulfilled'
+          ? result.value.positions
+          : positions.filter((p) => p.chain.id === deployedChains[index].id)
+      ),
+      pendingWithdrawals: results.flatMap((result, index) =>
+        result.status === 'fulfilled'
+          ? result.value.pendingWithdrawals
+          : pendingWithdrawals.filter((w) => w.chain.id === deployedChains[index].id)
+      ),
+    });
   },
 }));
+
+// Keep the connected address's transaction history in local storage, per chain
+useStore.subscribe((state, previous) => {
+  if (state.address && state.transactions !== previous.transactions) {
+    saveTransactionHistory(state.address, state.transactions);
+  }
+});
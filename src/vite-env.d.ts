@@ -0,0 +1,31 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_WALLETCONNECT_PROJECT_ID?: string;
+  readonly VITE_ENABLE_LOCAL_CHAIN?: string;
+  readonly VITE_ETHEREUM_RPC_URL?: string;
+  readonly VITE_POLYGON_RPC_URL?: string;
+  readonly VITE_ARBITRUM_RPC_URL?: string;
+  readonly VITE_LOCAL_RPC_URL?: string;
+  readonly VITE_ETHEREUM_YIELD_AGGREGATOR?: string;
+  readonly VITE_ETHEREUM_CROSS_CHAIN_BRIDGE?: string;
+  readonly VITE_ETHEREUM_TIMELOCK?: string;
+  readonly VITE_POLYGON_YIELD_AGGREGATOR?: string;
+  readonly VITE_POLYGON_CROSS_CHAIN_BRIDGE?: string;
+  readonly VITE_POLYGON_TIMELOCK?: string;
+  readonly VITE_ARBITRUM_YIELD_AGGREGATOR?: string;
+  readonly VITE_ARBITRUM_CROSS_CHAIN_BRIDGE?: string;
+  readonly VITE_ARBITRUM_TIMELOCK?: string;
+  readonly VITE_LOCAL_YIELD_AGGREGATOR?: string;
+  readonly VITE_LOCAL_CROSS_CHAIN_BRIDGE?: string;
+  readonly VITE_LOCAL_TIMELOCK?: string;
+  readonly VITE_LOCAL_LZ_EID?: string;
+  readonly VITE_ETHEREUM_SUBGRAPH_URL?: string;
+  readonly VITE_POLYGON_SUBGRAPH_URL?: string;
+  readonly VITE_ARBITRUM_SUBGRAPH_URL?: string;
+  readonly VITE_LOCAL_SUBGRAPH_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -0,0 +1,156 @@
+import {
+  type FieldDefinitionNode,
+  type ObjectTypeDefinitionNode,
+  type TypeNode,
+  Kind,
+  parse,
+  print,
+} from 'graphql';
+
+// Scalars and directives graph-node provides to every subgraph schema
+const BUILTIN_DEFINITIONS = `
+scalar BigInt
+scalar BigDecimal
+scalar Bytes
+scalar Int8
+scalar Timestamp
+
+directive @entity(immutable: Boolean, timeseries: Boolean) on OBJECT
+directive @derivedFrom(field: String!) on FIELD_DEFINITION
+
+enum OrderDirection { asc desc }
+enum _SubgraphErrorPolicy_ { allow deny }
+
+input Block_height { hash: Bytes, number: Int, number_gte: Int }
+input BlockChangedFilter { number_gte: Int! }
+
+type _Block_ { hash: Bytes, number: Int!, timestamp: Int, parentHash: Bytes }
+type _Meta_ { block: _Block_!, deployment: String!, hasIndexingErrors: Boolean! }
+`;
+
+const COMPARABLE_SCALARS = new Set(['ID', 'String', 'Bytes', 'Int', 'Int8', 'BigInt', 'BigDecimal', 'Timestamp']);
+
+const namedType = (type: TypeNode): string => (type.kind === Kind.NAMED_TYPE ? type.name.value : namedType(type.type));
+
+const isListType = (type: TypeNode): boolean =>
+  type.kind === Kind.LIST_TYPE || (type.kind === Kind.NON_NULL_TYPE && isListType(type.type));
+
+const isDerived = (field: FieldDefinitionNode) =>
+  field.directives?.some((directive) => directive.name.value === 'derivedFrom') ?? false;
+
+// graph-node lower-cases leading acronyms (`APYSnapshot` -> `apySnapshot`)
+const toFieldName = (typeName: string) =>
+  typeName.replace(/^[A-Z]+(?=[A-Z][a-z]|$)|^[A-Z]/, (prefix) => prefix.toLowerCase());
+
+// Names that are already plural (`DailyStats`) get a `_collection` suffix, as graph-node does
+const toCollectionName = (fieldName: string) => {
+  if (fieldName.endsWith('s')) return `${fieldName}_collection`;
+  if (/[^aeiou]y$/.test(fieldName)) return `${fieldName.slice(0, -1)}ies`;
+  return `${fieldName}s`;
+};
+
+const collectionArgs = (typeName: string) =>
+  `skip: Int = 0, first: Int = 100, orderBy: ${typeName}_orderBy, orderDirection: OrderDirection, where: ${typeName}_filter`;
+
+/**
+ * Derive the GraphQL API graph-node serves for a subgraph from its entity schema
+ * (`subgraph/schema.graphql`), so queries can be type-checked without a running node.
+ * Covers single and collection queries, `where` filters (comparisons, `_in`, nested `field_` filters
+ * and `and`/`or`), `orderBy` including one level of nested fields, time travel through `block`,
+ * and `_meta`. Full-text search and aggregations are not supported.
+ */
+export function buildSubgraphApiSchema(entitySchema: string): string {
+  const entities = parse(entitySchema).definitions.filter(
+    (definition): definition is ObjectTypeDefinitionNode =>
+      definition.kind === Kind.OBJECT_TYPE_DEFINITION &&
+      (definition.directives?.some((directive) => directive.name.value === 'entity') ?? false)
+  );
+  const entityNames = new Set(entities.map((entity) => entity.name.value));
+  const entityByName = new Map(entities.map((entity) => [entity.name.value, entity]));
+  const isEntity = (type: TypeNode) => entityNames.has(namedType(type));
+
+  const objectTypes = entities.map((entity) => {
+    const fields = (entity.fields ?? []).map((field) => {
+      const type = print(field.type);
+      return isEntity(field.type) && isListType(field.type)
+        ? `  ${field.name.value}(${collectionArgs(namedType(field.type))}): ${type}`
+        : `  ${field.name.value}: ${type}`;
+    });
+    return `type ${entity.name.value} {\n${fields.join('\n')}\n}`;
+  });
+
+  const filterInputs = entities.map((entity) => {
+    const name = entity.name.value;
+    const inputs = (entity.fields ?? []).flatMap((field) => {
+      const fieldName = field.name.value;
+      const typeName = namedType(field.type);
+
+      if (isEntity(field.type)) {
+        const nested = `  ${fieldName}_: ${typeName}_filter`;
+        if (isListType(field.type) || isDerived(field)) return [nested];
+        return [
+          `  ${fieldName}: String`,
+          `  ${fieldName}_not: String`,
+          `  ${fieldName}_in: [String!]`,
+          `  ${fieldName}_not_in: [String!]`,
+          nested,
+        ];
+      }
+      if (isListType(field.type)) {
+        return [`  ${fieldName}: [${typeName}!]`, `  ${fieldName}_contains: [${typeName}!]`];
+      }
+
+      const filters = [
+        `  ${fieldName}: ${typeName}`,
+        `  ${fieldName}_not: ${typeName}`,
+        `  ${fieldName}_in: [${typeName}!]`,
+        `  ${fieldName}_not_in: [${typeName}!]`,
+      ];
+      if (COMPARABLE_SCALARS.has(typeName)) {
+        filters.push(
+          ...['gt', 'lt', 'gte', 'lte'].map((op) => `  ${fieldName}_${op}: ${typeName}`)
+        );
+      }
+      return filters;
+    });
+
+    return [
+      `input ${name}_filter {`,
+      ...inputs,
+      '  _change_block: BlockChangedFilter',
+      `  and: [${name}_filter]`,
+      `  or: [${name}_filter]`,
+      '}',
+    ].join('\n');
+  });
+
+  const orderByEnums = entities.map((entity) => {
+    const values = (entity.fields ?? []).flatMap((field) => {
+      const related = entityByName.get(namedType(field.type));
+      if (!related || isListType(field.type)) return [field.name.value];
+      const nested = (related.fields ?? [])
+        .filter((relatedField) => !isEntity(relatedField.type))
+        .map((relatedField) => `${field.name.value}__${relatedField.name.value}`);
+      return [field.name.value, ...nested];
+    });
+    return `enum ${entity.name.value}_orderBy {\n  ${values.join('\n  ')}\n}`;
+  });
+
+  const queryFields = entities.flatMap((entity) => {
+    const name = entity.name.value;
+    const fieldName = toFieldName(name);
+    const blockArgs = 'block: Block_height, subgraphError: _SubgraphErrorPolicy_! = deny';
+    return [
+      `  ${fieldName}(id: ID!, ${blockArgs}): ${name}`,
+      `  ${toCollectionName(fieldName)}(${collectionArgs(name)}, ${blockArgs}): [${name}!]!`,
+    ];
+  });
+
+  return [
+    BUILTIN_DEFINITIONS,
+    ...objectTypes,
+    ...filterInputs,
+    ...orderByEnums,
+    `type Query {\n${queryFields.join('\n')}\n  _meta(block: Block_height): _Meta_\n}`,
+  ].join('\n\n');
+}
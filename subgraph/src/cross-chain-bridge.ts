@@ -9,7 +9,13 @@ import {
   BridgeInitiated,
   BridgeCompleted,
   CrossChainMessageReceived,
-  RebalanceRequested
+  RebalanceRequested,
+  MessageFailed,
+  MessageRetried,
+  MessageRefunded,
+  BridgeRefunded,
+  BridgeAcknowledged,
+  BridgeCancelRequested
 } from "../generated/CrossChainBridge/CrossChainBridge";
 
 import {
@@ -22,6 +28,8 @@ import {
   GlobalStats
 } from "../generated/schema";
 
+import { getOrCreateWeeklyStats, recordActiveUser } from "./period-stats";
+
 // Constants
 const GLOBAL_STATS_ID = "global";
 const ZERO = BigInt.fromI32(0);
@@ -101,7 +109,7 @@ function getOrCreateChainStats(chainId: BigInt): ChainStats {
   return stats;
 }
 
-// Helper function to get daily stats
+// Helper function to get daily stats (new days start from the current TVL)
 function getOrCreateDailyStats(timestamp: BigInt): DailyStats {
   let dayTimestamp = timestamp.div(BigInt.fromI32(86400)).times(BigInt.fromI32(86400));
   let id = dayTimestamp.toString();
@@ -109,6 +117,7 @@ function getOrCreateDailyStats(timestamp: BigInt): DailyStats {
   if (stats == null) {
     stats = new DailyStats(id);
     stats.date = dayTimestamp;
+    stats.totalValueLocked = getOrCreateGlobalStats().totalValueLocked;
     stats.totalDeposits = ZERO;
     stats.totalWithdrawals = ZERO;
     stats.totalYieldGenerated = ZERO;
@@ -137,6 +146,7 @@ export function handleBridgeInitiated(event: BridgeInitiated): void {
   request.recipient = new Bytes(32); // Placeholder - would be decoded from event data in production
   request.timestamp = event.block.timestamp;
   request.completed = false;
+  request.refunded = false;
   request.transactionHash = event.transaction.hash;
   request.save();
   
@@ -150,10 +160,16 @@ export function handleBridgeInitiated(event: BridgeInitiated): void {
   destChainStats.lastUpdate = event.block.timestamp;
   destChainStats.save();
   
-  // Update daily stats
+  // Update daily and weekly stats
   let dailyStats = getOrCreateDailyStats(event.block.timestamp);
   dailyStats.totalBridgeVolume = dailyStats.totalBridgeVolume.plus(event.params.amount);
+  
+  let weeklyStats = getOrCreateWeeklyStats(event.block.timestamp, dailyStats.totalValueLocked);
+  weeklyStats.totalBridgeVolume = weeklyStats.totalBridgeVolume.plus(event.params.amount);
+  
+  recordActiveUser(user.id, dailyStats, weeklyStats);
   dailyStats.save();
+  weeklyStats.save();
   
   // Update global stats
   let globalStats = getOrCreateGlobalStats();
@@ -189,7 +205,7 @@ export function handleBridgeCompleted(event: BridgeCompleted): void {
 
 // Event Handler: CrossChainMessageReceived
 export function handleCrossChainMessageReceived(event: CrossChainMessageReceived): void {
-  let id = event.transaction.hash.toHexString() + "-" + event.logIndex.toString();
+  let id = event.params.guid.toHexString();
   
   let message = new CrossChainMessage(id);
   message.sourceChainId = BigInt.fromI32(event.params.srcChainId);
@@ -198,7 +214,9 @@ export function handleCrossChainMessageReceived(event: CrossChainMessageReceived
   message.sender = event.params.sender;
   message.data = event.params.data;
   message.timestamp = event.block.timestamp;
-  message.processed = true;
+  message.processed = true; // Until MessageFailed in the same transaction says otherwise
+  message.failed = false;
+  message.refunded = false;
   message.transactionHash = event.transaction.hash;
   message.save();
   
@@ -230,17 +248,118 @@ export function handleRebalanceRequested(event: RebalanceRequested): void {
   message.data = event.params.targetProtocol;
   message.timestamp = event.block.timestamp;
   message.processed = false;
+  message.failed = false;
+  message.refunded = false;
   message.transactionHash = event.transaction.hash;
   message.save();
   
-  // Update daily stats
+  // Update daily and weekly stats
   let dailyStats = getOrCreateDailyStats(event.block.timestamp);
   dailyStats.rebalanceCount = dailyStats.rebalanceCount + 1;
   dailyStats.save();
   
+  let weeklyStats = getOrCreateWeeklyStats(event.block.timestamp, dailyStats.totalValueLocked);
+  weeklyStats.rebalanceCount = weeklyStats.rebalanceCount + 1;
+  weeklyStats.save();
+  
   log.info("Rebalance requested: {} of {} to chain {}", [
     event.params.amount.toString(),
     asset.id,
     event.params.dstChainId.toString()
   ]);
 }
+
+// Event Handler: MessageFailed
+export function handleMessageFailed(event: MessageFailed): void {
+  let id = event.params.guid.toHexString();
+  let message = CrossChainMessage.load(id);
+  
+  if (message != null) {
+    message.processed = false;
+    message.failed = true;
+    message.failureReason = event.params.reason;
+    message.failedTimestamp = event.block.timestamp;
+    message.save();
+    
+    log.warning("Cross-chain message failed: {} from chain {}", [
+      id,
+      event.params.srcEid.toString()
+    ]);
+  }
+}
+
+// Event Handler: MessageRetried
+export function handleMessageRetried(event: MessageRetried): void {
+  let id = event.params.guid.toHexString();
+  let message = CrossChainMessage.load(id);
+  
+  if (message != null) {
+    message.processed = true;
+    message.failed = false;
+    message.save();
+    
+    log.info("Cross-chain message retried: {}", [id]);
+  }
+}
+
+// Event Handler: MessageRefunded
+export function handleMessageRefunded(event: MessageRefunded): void {
+  let id = event.params.guid.toHexString();
+  let message = CrossChainMessage.load(id);
+  
+  if (message != null) {
+    message.failed = false;
+    message.refunded = true;
+    message.save();
+    
+    log.info("Cross-chain message refunded: {} back to chain {}", [
+      id,
+      event.params.srcEid.toString()
+    ]);
+  }
+}
+
+// Event Handler: BridgeRefunded
+export function handleBridgeRefunded(event: BridgeRefunded): void {
+  let id = event.params.requestId.toHexString();
+  let request = BridgeRequest.load(id);
+  
+  if (request != null) {
+    request.refunded = true;
+    request.refundedTimestamp = event.block.timestamp;
+    request.save();
+    
+    log.info("Bridge refunded: {} to {} amount {}", [
+      id,
+      event.params.sender.toHexString(),
+      event.params.amount.toString()
+    ]);
+  }
+}
+
+// Event Handler: BridgeAcknowledged
+export function handleBridgeAcknowledged(event: BridgeAcknowledged): void {
+  let id = event.params.requestId.toHexString();
+  let request = BridgeRequest.load(id);
+  
+  if (request != null) {
+    request.completed = true;
+    request.completedTimestamp = event.block.timestamp;
+    request.save();
+    
+    log.info("Bridge acknowledged: {}", [id]);
+  }
+}
+
+// Event Handler: BridgeCancelRequested
+export function handleBridgeCancelRequested(event: BridgeCancelRequested): void {
+  let id = event.params.requestId.toHexString();
+  let request = BridgeRequest.load(id);
+  
+  if (request != null) {
+    request.cancelRequestedTimestamp = event.block.timestamp;
+    request.save();
+    
+    log.info("Bridge cancel requested: {} by {}", [id, event.params.sender.toHexString()]);
+  }
+}
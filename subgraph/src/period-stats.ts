@@ -0,0 +1,75 @@
+import {
+  BigInt
+} from "@graphprotocol/graph-ts";
+
+import {
+  ActiveUser,
+  DailyStats,
+  WeeklyStats
+} from "../generated/schema";
+
+// Constants
+const ZERO = BigInt.fromI32(0);
+const ONE = BigInt.fromI32(1);
+export const SECONDS_PER_DAY = 86400;
+export const SECONDS_PER_WEEK = 604800;
+
+/**
+ * Start of the day or week a timestamp falls in
+ */
+export function getPeriodStart(timestamp: BigInt, periodSeconds: i32): BigInt {
+  let period = BigInt.fromI32(periodSeconds);
+  return timestamp.div(period).times(period);
+}
+
+/**
+ * Helper function to get weekly stats.
+ * New weeks start from the current TVL, so weeks without TVL changes still report it.
+ */
+export function getOrCreateWeeklyStats(timestamp: BigInt, totalValueLocked: BigInt): WeeklyStats {
+  let weekTimestamp = getPeriodStart(timestamp, SECONDS_PER_WEEK);
+  let id = weekTimestamp.toString();
+  let stats = WeeklyStats.load(id);
+  if (stats == null) {
+    stats = new WeeklyStats(id);
+    stats.date = weekTimestamp;
+    stats.totalValueLocked = totalValueLocked;
+    stats.totalDeposits = ZERO;
+    stats.totalWithdrawals = ZERO;
+    stats.totalYieldGenerated = ZERO;
+    stats.totalBridgeVolume = ZERO;
+    stats.uniqueUsers = ZERO;
+    stats.depositCount = 0;
+    stats.withdrawalCount = 0;
+    stats.rebalanceCount = 0;
+  }
+  return stats;
+}
+
+// Returns false when the user was already counted for the period
+function markActiveUser(userId: string, interval: string, periodStart: BigInt): boolean {
+  let id = interval + "-" + periodStart.toString() + "-" + userId;
+  if (ActiveUser.load(id) != null) {
+    return false;
+  }
+
+  let activeUser = new ActiveUser(id);
+  activeUser.user = userId;
+  activeUser.interval = interval;
+  activeUser.periodStart = periodStart;
+  activeUser.save();
+  return true;
+}
+
+/**
+ * Count a user in the unique users of the given day and week (once per period).
+ * Updates the passed entities in place; the caller saves them.
+ */
+export function recordActiveUser(userId: string, dailyStats: DailyStats, weeklyStats: WeeklyStats): void {
+  if (markActiveUser(userId, "day", dailyStats.date)) {
+    dailyStats.uniqueUsers = dailyStats.uniqueUsers.plus(ONE);
+  }
+  if (markActiveUser(userId, "week", weeklyStats.date)) {
+    weeklyStats.uniqueUsers = weeklyStats.uniqueUsers.plus(ONE);
+  }
+}
@@ -6,31 +6,76 @@ import {
 
 import {
   Protocol,
-  APYSnapshot
+  APYSnapshot,
+  APYAggregate
 } from "../generated/schema";
 
+import { getPeriodStart, SECONDS_PER_DAY, SECONDS_PER_WEEK } from "./period-stats";
+
 // Constants
 const ZERO = BigInt.fromI32(0);
 
+/**
+ * Helper function to fold an APY snapshot into the daily or weekly aggregate it falls in
+ */
+function updateAPYAggregate(
+  protocolId: string,
+  assetId: string,
+  interval: string,
+  periodStart: BigInt,
+  apy: BigInt
+): void {
+  let id = protocolId + "-" + assetId + "-" + interval + "-" + periodStart.toString();
+  
+  let aggregate = APYAggregate.load(id);
+  if (aggregate == null) {
+    aggregate = new APYAggregate(id);
+    aggregate.protocol = protocolId;
+    aggregate.asset = assetId;
+    aggregate.interval = interval;
+    aggregate.periodStart = periodStart;
+    aggregate.minAPY = apy;
+    aggregate.maxAPY = apy;
+    aggregate.apySum = ZERO;
+    aggregate.snapshotCount = 0;
+  }
+  
+  aggregate.apySum = aggregate.apySum.plus(apy);
+  aggregate.snapshotCount = aggregate.snapshotCount + 1;
+  aggregate.averageAPY = aggregate.apySum.div(BigInt.fromI32(aggregate.snapshotCount));
+  if (apy.lt(aggregate.minAPY)) {
+    aggregate.minAPY = apy;
+  }
+  if (apy.gt(aggregate.maxAPY)) {
+    aggregate.maxAPY = apy;
+  }
+  aggregate.save();
+}
+
 /**
  * Helper function to create APY snapshot
- * This template handler tracks protocol APY changes
+ * Records the APY of a protocol for one asset and updates its daily and weekly aggregates
  */
 export function createAPYSnapshot(
   protocolId: string,
+  assetId: string,
   apy: BigInt,
   timestamp: BigInt,
   blockNumber: BigInt
 ): void {
-  let id = protocolId + "-" + timestamp.toString();
+  let id = protocolId + "-" + assetId + "-" + timestamp.toString();
   
   let snapshot = new APYSnapshot(id);
   snapshot.protocol = protocolId;
+  snapshot.asset = assetId;
   snapshot.apy = apy;
   snapshot.timestamp = timestamp;
   snapshot.blockNumber = blockNumber;
   snapshot.save();
   
+  updateAPYAggregate(protocolId, assetId, "day", getPeriodStart(timestamp, SECONDS_PER_DAY), apy);
+  updateAPYAggregate(protocolId, assetId, "week", getPeriodStart(timestamp, SECONDS_PER_WEEK), apy);
+  
   // Update protocol's current APY
   let protocol = Protocol.load(protocolId);
   if (protocol != null) {
@@ -2,14 +2,20 @@ import {
   BigInt,
   Address,
   Bytes,
+  dataSource,
+  ethereum,
   log
 } from "@graphprotocol/graph-ts";
 
 import {
+  YieldAggregator,
   ProtocolAdded,
   ProtocolRemoved,
   Deposited,
   Withdrawn,
+  WithdrawalQueued,
+  WithdrawalClaimed,
+  EmergencyUnwound,
   Rebalanced,
   StrategyUpdated
 } from "../generated/YieldAggregator/YieldAggregator";
@@ -21,15 +27,21 @@ import {
   UserPosition,
   Deposit,
   Withdrawal,
+  WithdrawalRequest,
   Rebalance,
   DailyStats,
   GlobalStats
 } from "../generated/schema";
 
+import { createAPYSnapshot } from "./protocol-adapter";
+import { getOrCreateWeeklyStats, recordActiveUser } from "./period-stats";
+
 // Constants
 const GLOBAL_STATS_ID = "global";
 const ZERO = BigInt.fromI32(0);
 const ONE = BigInt.fromI32(1);
+// Withdrawals are paid out of the pool as a whole rather than one protocol
+const POOL_PROTOCOL_ID = "0x0000000000000000000000000000000000000000000000000000000000000000";
 
 // Helper function to get or create GlobalStats
 function getOrCreateGlobalStats(): GlobalStats {
@@ -101,7 +113,14 @@ function getOrCreateUserPosition(user: User, asset: Asset): UserPosition {
   return position;
 }
 
-// Helper function to get daily stats
+// The cross-chain bridge deposits and withdraws another chain's pool funds in rebalances and recalls,
+// which the other chain already counts as its users' deposits
+function isCrossChainBridge(account: Address): boolean {
+  let bridge = YieldAggregator.bind(dataSource.address()).try_crossChainBridge();
+  return !bridge.reverted && bridge.value.equals(account);
+}
+
+// Helper function to get daily stats (new days start from the current TVL)
 function getOrCreateDailyStats(timestamp: BigInt): DailyStats {
   let dayTimestamp = timestamp.div(BigInt.fromI32(86400)).times(BigInt.fromI32(86400));
   let id = dayTimestamp.toString();
@@ -109,6 +128,7 @@ function getOrCreateDailyStats(timestamp: BigInt): DailyStats {
   if (stats == null) {
     stats = new DailyStats(id);
     stats.date = dayTimestamp;
+    stats.totalValueLocked = getOrCreateGlobalStats().totalValueLocked;
     stats.totalDeposits = ZERO;
     stats.totalWithdrawals = ZERO;
     stats.totalYieldGenerated = ZERO;
@@ -166,6 +186,11 @@ export function handleProtocolRemoved(event: ProtocolRemoved): void {
 
 // Event Handler: Deposited
 export function handleDeposited(event: Deposited): void {
+  if (isCrossChainBridge(event.params.user)) {
+    log.info("Skipping cross-chain rebalance deposit of {}", [event.params.amount.toString()]);
+    return;
+  }
+  
   let user = getOrCreateUser(event.params.user);
   let asset = getOrCreateAsset(event.params.asset);
   let protocolId = event.params.protocolId.toHexString();
@@ -191,7 +216,6 @@ export function handleDeposited(event: Deposited): void {
   // Update user position
   let position = getOrCreateUserPosition(user, asset);
   position.deposited = position.deposited.plus(event.params.amount);
-  position.currentProtocol = protocolId;
   position.depositTimestamp = event.block.timestamp;
   position.lastUpdate = event.block.timestamp;
   position.currentValue = position.deposited;
@@ -208,12 +232,6 @@ export function handleDeposited(event: Deposited): void {
     protocol.save();
   }
   
-  // Update daily stats
-  let dailyStats = getOrCreateDailyStats(event.block.timestamp);
-  dailyStats.totalDeposits = dailyStats.totalDeposits.plus(event.params.amount);
-  dailyStats.depositCount = dailyStats.depositCount + 1;
-  dailyStats.save();
-  
   // Update global stats
   let globalStats = getOrCreateGlobalStats();
   globalStats.totalValueLocked = globalStats.totalValueLocked.plus(event.params.amount);
@@ -221,6 +239,21 @@ export function handleDeposited(event: Deposited): void {
   globalStats.lastUpdate = event.block.timestamp;
   globalStats.save();
   
+  // Update daily and weekly stats
+  let dailyStats = getOrCreateDailyStats(event.block.timestamp);
+  dailyStats.totalValueLocked = globalStats.totalValueLocked;
+  dailyStats.totalDeposits = dailyStats.totalDeposits.plus(event.params.amount);
+  dailyStats.depositCount = dailyStats.depositCount + 1;
+  
+  let weeklyStats = getOrCreateWeeklyStats(event.block.timestamp, globalStats.totalValueLocked);
+  weeklyStats.totalValueLocked = globalStats.totalValueLocked;
+  weeklyStats.totalDeposits = weeklyStats.totalDeposits.plus(event.params.amount);
+  weeklyStats.depositCount = weeklyStats.depositCount + 1;
+  
+  recordActiveUser(user.id, dailyStats, weeklyStats);
+  dailyStats.save();
+  weeklyStats.save();
+  
   log.info("Deposit: {} deposited {} to {}", [
     user.id,
     event.params.amount.toString(),
@@ -230,26 +263,26 @@ export function handleDeposited(event: Deposited): void {
 
 // Event Handler: Withdrawn
 export function handleWithdrawn(event: Withdrawn): void {
+  if (isCrossChainBridge(event.params.user)) {
+    log.info("Skipping cross-chain recall withdrawal of {}", [event.params.amount.toString()]);
+    return;
+  }
+  
   let user = getOrCreateUser(event.params.user);
   let asset = getOrCreateAsset(event.params.asset);
-  
-  // Find protocol from user position
   let position = UserPosition.load(user.id + "-" + asset.id);
-  let protocolId: string;
-  if (position != null && position.currentProtocol != null) {
-    protocolId = position.currentProtocol!;
-  } else {
-    // Create a placeholder protocol ID for unknown withdrawals
-    protocolId = "0x0000000000000000000000000000000000000000000000000000000000000000";
-    log.warning("Withdrawal from unknown protocol for user {} asset {}", [user.id, asset.id]);
-  }
+  
+  // The part of the position's cost basis the withdrawal took; the rest of the amount is yield
+  let costBasis = event.params.amount.gt(event.params.yield)
+    ? event.params.amount.minus(event.params.yield)
+    : ZERO;
   
   // Create withdrawal record
   let withdrawalId = event.transaction.hash.toHexString() + "-" + event.logIndex.toString();
   let withdrawal = new Withdrawal(withdrawalId);
   withdrawal.user = user.id;
   withdrawal.asset = asset.id;
-  withdrawal.protocol = protocolId;
+  withdrawal.protocol = POOL_PROTOCOL_ID;
   withdrawal.amount = event.params.amount;
   withdrawal.yieldEarned = event.params.yield;
   withdrawal.timestamp = event.block.timestamp;
@@ -264,7 +297,7 @@ export function handleWithdrawn(event: Withdrawn): void {
   
   // Update user position
   if (position != null) {
-    position.deposited = position.deposited.minus(event.params.amount);
+    position.deposited = position.deposited.minus(costBasis);
     if (position.deposited.lt(ZERO)) {
       position.deposited = ZERO;
     }
@@ -275,30 +308,12 @@ export function handleWithdrawn(event: Withdrawn): void {
   }
   
   // Update asset
-  asset.totalDeposited = asset.totalDeposited.minus(event.params.amount);
+  asset.totalDeposited = asset.totalDeposited.minus(costBasis);
   if (asset.totalDeposited.lt(ZERO)) {
     asset.totalDeposited = ZERO;
   }
   asset.save();
   
-  // Update protocol
-  let protocol = Protocol.load(protocolId);
-  if (protocol != null) {
-    protocol.totalDeposited = protocol.totalDeposited.minus(event.params.amount);
-    if (protocol.totalDeposited.lt(ZERO)) {
-      protocol.totalDeposited = ZERO;
-    }
-    protocol.lastUpdate = event.block.timestamp;
-    protocol.save();
-  }
-  
-  // Update daily stats
-  let dailyStats = getOrCreateDailyStats(event.block.timestamp);
-  dailyStats.totalWithdrawals = dailyStats.totalWithdrawals.plus(event.params.amount);
-  dailyStats.totalYieldGenerated = dailyStats.totalYieldGenerated.plus(event.params.yield);
-  dailyStats.withdrawalCount = dailyStats.withdrawalCount + 1;
-  dailyStats.save();
-  
   // Update global stats
   let globalStats = getOrCreateGlobalStats();
   globalStats.totalValueLocked = globalStats.totalValueLocked.minus(event.params.amount);
@@ -310,6 +325,23 @@ export function handleWithdrawn(event: Withdrawn): void {
   globalStats.lastUpdate = event.block.timestamp;
   globalStats.save();
   
+  // Update daily and weekly stats
+  let dailyStats = getOrCreateDailyStats(event.block.timestamp);
+  dailyStats.totalValueLocked = globalStats.totalValueLocked;
+  dailyStats.totalWithdrawals = dailyStats.totalWithdrawals.plus(event.params.amount);
+  dailyStats.totalYieldGenerated = dailyStats.totalYieldGenerated.plus(event.params.yield);
+  dailyStats.withdrawalCount = dailyStats.withdrawalCount + 1;
+  
+  let weeklyStats = getOrCreateWeeklyStats(event.block.timestamp, globalStats.totalValueLocked);
+  weeklyStats.totalValueLocked = globalStats.totalValueLocked;
+  weeklyStats.totalWithdrawals = weeklyStats.totalWithdrawals.plus(event.params.amount);
+  weeklyStats.totalYieldGenerated = weeklyStats.totalYieldGenerated.plus(event.params.yield);
+  weeklyStats.withdrawalCount = weeklyStats.withdrawalCount + 1;
+  
+  recordActiveUser(user.id, dailyStats, weeklyStats);
+  dailyStats.save();
+  weeklyStats.save();
+  
   log.info("Withdrawal: {} withdrew {} with yield {}", [
     user.id,
     event.params.amount.toString(),
@@ -317,6 +349,73 @@ export function handleWithdrawn(event: Withdrawn): void {
   ]);
 }
 
+// Event Handler: WithdrawalQueued
+// The queued amount is already counted by the Withdrawn event of the same withdrawal
+export function handleWithdrawalQueued(event: WithdrawalQueued): void {
+  let user = getOrCreateUser(event.params.user);
+  let asset = getOrCreateAsset(event.params.asset);
+  
+  let request = new WithdrawalRequest(event.params.requestId.toString());
+  request.user = user.id;
+  request.asset = asset.id;
+  request.amount = event.params.amount;
+  request.claimed = ZERO;
+  request.remaining = event.params.amount;
+  request.completed = false;
+  request.timestamp = event.block.timestamp;
+  request.transactionHash = event.transaction.hash;
+  request.save();
+  
+  log.info("Withdrawal request {} queued: {} for {}", [
+    request.id,
+    event.params.amount.toString(),
+    user.id
+  ]);
+}
+
+// Event Handler: WithdrawalClaimed
+export function handleWithdrawalClaimed(event: WithdrawalClaimed): void {
+  let request = WithdrawalRequest.load(event.params.requestId.toString());
+  if (request == null) {
+    log.warning("Claim for unknown withdrawal request {}", [event.params.requestId.toString()]);
+    return;
+  }
+  
+  request.claimed = request.claimed.plus(event.params.amount);
+  request.remaining = event.params.remaining;
+  request.completed = event.params.remaining.equals(ZERO);
+  request.lastClaimTimestamp = event.block.timestamp;
+  request.save();
+}
+
+// Event Handler: EmergencyUnwound
+// A guardian pulled an asset out of a protocol, which stays inactive afterwards
+export function handleEmergencyUnwound(event: EmergencyUnwound): void {
+  let protocol = Protocol.load(event.params.protocolId.toHexString());
+  if (protocol == null) return;
+  
+  if (protocol.active) {
+    let stats = getOrCreateGlobalStats();
+    stats.activeProtocols = stats.activeProtocols - 1;
+    stats.lastUpdate = event.block.timestamp;
+    stats.save();
+  }
+  
+  protocol.active = false;
+  protocol.totalDeposited = protocol.totalDeposited.minus(event.params.amount);
+  if (protocol.totalDeposited.lt(ZERO)) {
+    protocol.totalDeposited = ZERO;
+  }
+  protocol.lastUpdate = event.block.timestamp;
+  protocol.save();
+  
+  log.warning("Emergency unwind: {} of {} pulled out of protocol {}", [
+    event.params.amount.toString(),
+    event.params.asset.toHexString(),
+    protocol.id
+  ]);
+}
+
 // Event Handler: Rebalanced
 export function handleRebalanced(event: Rebalanced): void {
   let asset = getOrCreateAsset(event.params.asset);
@@ -354,11 +453,15 @@ export function handleRebalanced(event: Rebalanced): void {
     toProtocol.save();
   }
   
-  // Update daily stats
+  // Update daily and weekly stats
   let dailyStats = getOrCreateDailyStats(event.block.timestamp);
   dailyStats.rebalanceCount = dailyStats.rebalanceCount + 1;
   dailyStats.save();
   
+  let weeklyStats = getOrCreateWeeklyStats(event.block.timestamp, dailyStats.totalValueLocked);
+  weeklyStats.rebalanceCount = weeklyStats.rebalanceCount + 1;
+  weeklyStats.save();
+  
   log.info("Rebalanced: {} moved from {} to {}", [
     event.params.amount.toString(),
     fromProtocolId,
@@ -376,3 +479,31 @@ export function handleStrategyUpdated(event: StrategyUpdated): void {
     event.params.threshold.toString()
   ]);
 }
+
+// Block Handler: snapshot the APY of every active protocol for every supported asset
+export function handleApyPoll(block: ethereum.Block): void {
+  let aggregator = YieldAggregator.bind(dataSource.address());
+  let assets = aggregator.try_getSupportedAssets();
+  if (assets.reverted) {
+    log.warning("getSupportedAssets reverted at block {}", [block.number.toString()]);
+    return;
+  }
+  
+  for (let i = 0; i < assets.value.length; i++) {
+    let apys = aggregator.try_getAllProtocolAPYs(assets.value[i]);
+    if (apys.reverted) {
+      continue;
+    }
+    
+    let asset = getOrCreateAsset(assets.value[i]);
+    let protocolIds = apys.value.value0;
+    let protocolAPYs = apys.value.value1;
+    for (let j = 0; j < protocolIds.length; j++) {
+      let protocol = Protocol.load(protocolIds[j].toHexString());
+      if (protocol == null || !protocol.active) {
+        continue;
+      }
+      createAPYSnapshot(protocol.id, asset.id, protocolAPYs[j], block.timestamp, block.number);
+    }
+  }
+}
@@ -0,0 +1,184 @@
+import assert from "node:assert/strict";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import type { ContractTransactionReceipt, ContractTransactionResponse } from "ethers";
+import { ethers } from "hardhat";
+import { type Chain, LZ_FEE, connectChains, deployChain, deployConnectedChains, eventsOf, increaseTime, relay, usdc } from "./fixtures";
+
+describe("CrossChainBridge", () => {
+  let source: Chain;
+  let destination: Chain;
+  let deployer: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let recipient: string;
+
+  beforeEach(async () => {
+    [deployer, alice] = await ethers.getSigners();
+    ({ source, destination } = await deployConnectedChains());
+
+    recipient = ethers.zeroPadValue(alice.address, 32);
+    await source.token.mint(alice.address, usdc("100"));
+    await source.token.connect(alice).approve(await source.bridge.getAddress(), usdc("100"));
+  });
+
+  function bridge(amount: bigint) {
+    return source.bridge.connect(alice).bridge(source.asset, amount, destination.eid, recipient, { value: LZ_FEE });
+  }
+
+  async function requestId(tx: ContractTransactionResponse) {
+    const [initiated] = eventsOf(source.bridge, await tx.wait(), "BridgeInitiated");
+    return initiated.args.requestId;
+  }
+
+  // The first MessageFailed guid of deliveries
+  function failedGuid(deliveries: ContractTransactionReceipt[]) {
+    const [failed] = deliveries.flatMap((delivery) => eventsOf(destination.bridge, delivery, "MessageFailed"));
+    assert.ok(failed, "delivery failed");
+    return failed.args.guid;
+  }
+
+  describe("transfers", () => {
+    it("pays the recipient and acknowledges the transfer to the source chain", async () => {
+      const transfer = await bridge(usdc("40"));
+      const id = await requestId(transfer);
+
+      const [delivery] = await relay(source, destination, transfer);
+      assert.equal(eventsOf(destination.bridge, delivery, "BridgeCompleted").length, 1);
+      assert.equal(await destination.bridge.completedTransfers(id), true);
+
+      const [ack] = await relay(destination, source, delivery);
+      assert.equal(eventsOf(source.bridge, ack, "BridgeAcknowledged").length, 1);
+      assert.equal((await source.bridge.getBridgeRequest(id)).completed, true);
+
+      await increaseTime(24 * 60 * 60);
+      await assert.rejects(source.bridge.connect(alice).cancelBridge(id, { value: LZ_FEE }), /Request settled/);
+    });
+
+    it("retries a transfer the destination could not pay once it has liquidity", async () => {
+      await destination.bridge.emergencyWithdraw(destination.asset, deployer.address);
+      const transfer = await bridge(usdc("40"));
+      const guid = failedGuid(await relay(source, destination, transfer));
+
+      await assert.rejects(destination.bridge.retryMessage(guid), /Insufficient bridge liquidity/);
+
+      await destination.token.mint(await destination.bridge.getAddress(), usdc("40"));
+      const retry = await destination.bridge.retryMessage(guid);
+      assert.equal(eventsOf(destination.bridge, await retry.wait(), "MessageRetried").length, 1);
+      await assert.rejects(destination.bridge.retryMessage(guid), /Message not failed/);
+
+      await relay(destination, source, retry);
+      assert.equal((await source.bridge.getBridgeRequest(await requestId(transfer))).completed, true);
+    });
+
+    it("refunds a failed transfer to its sender", async () => {
+      await destination.bridge.emergencyWithdraw(destination.asset, deployer.address);
+      const transfer = await bridge(usdc("40"));
+      const id = await requestId(transfer);
+      const guid = failedGuid(await relay(source, destination, transfer));
+
+      await assert.rejects(destination.bridge.connect(alice).refundFailedMessage(guid, { value: LZ_FEE }), /AccessControlUnauthorizedAccount/);
+      const refund = await destination.bridge.refundFailedMessage(guid, { value: LZ_FEE });
+      assert.equal(await destination.bridge.cancelledTransfers(id), true);
+
+      const [delivery] = await relay(destination, source, refund);
+      assert.equal(eventsOf(source.bridge, delivery, "BridgeRefunded").length, 1);
+      assert.equal((await source.bridge.getBridgeRequest(id)).refunded, true);
+      assert.equal(await source.token.balanceOf(alice.address), usdc("100"));
+    });
+
+    it("only takes the reply to a transfer from its destination chain", async () => {
+      const other = await deployChain(40103, source.token);
+      await connectChains(source, other);
+      const transfer = await bridge(usdc("40"));
+      const id = await requestId(transfer);
+
+      // Another peer pays out the transfer's packet and acknowledges it
+      const [packet] = eventsOf(source.endpoint, await transfer.wait(), "PacketSent");
+      const origin = { srcEid: source.eid, sender: packet.args.sender, nonce: packet.args.nonce };
+      const delivery = await other.endpoint.deliver(origin, await other.bridge.getAddress(), packet.args.guid, packet.args.message);
+      const [ack] = await relay(other, source, delivery);
+
+      assert.equal(eventsOf(source.bridge, ack, "MessageFailed").length, 1);
+      assert.equal((await source.bridge.getBridgeRequest(id)).completed, false);
+    });
+  });
+
+  describe("cancelling", () => {
+    it("refunds a timed-out transfer the destination did not pay out, once", async () => {
+      const transfer = await bridge(usdc("40"));
+      const id = await requestId(transfer);
+      await increaseTime(24 * 60 * 60);
+
+      const cancel = await source.bridge.connect(alice).cancelBridge(id, { value: LZ_FEE });
+      assert.equal((await source.bridge.getBridgeRequest(id)).cancelRequested, true);
+      await assert.rejects(
+        source.bridge.connect(alice).cancelBridge(id, { value: LZ_FEE }),
+        /Cancel already requested/
+      );
+
+      const [reply] = await relay(source, destination, cancel);
+      await relay(destination, source, reply);
+      assert.equal((await source.bridge.getBridgeRequest(id)).refunded, true);
+      assert.equal(await source.token.balanceOf(alice.address), usdc("100"));
+
+      // The transfer arriving late is blocked
+      const [delivery] = await relay(source, destination, transfer);
+      assert.equal(eventsOf(destination.bridge, delivery, "MessageFailed").length, 1);
+      assert.equal(await destination.bridge.completedTransfers(id), false);
+    });
+
+    it("acknowledges again a transfer paid out whose acknowledgement was not sent", async () => {
+      // The destination bridge cannot pay for the acknowledgement
+      await destination.endpoint.setFees(ethers.parseEther("2"), 0);
+      const transfer = await bridge(usdc("40"));
+      const id = await requestId(transfer);
+      await relay(source, destination, transfer);
+      assert.equal(await destination.bridge.completedTransfers(id), true);
+
+      await increaseTime(24 * 60 * 60);
+      const cancel = await source.bridge.connect(alice).cancelBridge(id, { value: LZ_FEE });
+      const guid = failedGuid(await relay(source, destination, cancel));
+
+      // The cancel is retried once the fee is affordable, and answered with the acknowledgement
+      await destination.endpoint.setFees(LZ_FEE, 0);
+      const retry = await destination.bridge.retryMessage(guid);
+      await relay(destination, source, retry);
+
+      const request = await source.bridge.getBridgeRequest(id);
+      assert.equal(request.completed, true);
+      assert.equal(request.refunded, false);
+    });
+  });
+
+  describe("pausing", () => {
+    it("lets guardians pause and only the admin unpause", async () => {
+      await assert.rejects(source.bridge.connect(alice).pause());
+      await source.bridge.pause();
+
+      await assert.rejects(source.bridge.connect(alice).unpause());
+      await source.bridge.unpause();
+      assert.equal(await source.bridge.paused(), false);
+    });
+
+    it("blocks transfers and cancels while paused", async () => {
+      const id = await requestId(await bridge(usdc("40")));
+
+      await source.bridge.pause();
+      await assert.rejects(bridge(usdc("40")), /EnforcedPause/);
+      await assert.rejects(
+        source.bridge.connect(alice).cancelBridge(id, { value: LZ_FEE }),
+        /EnforcedPause/
+      );
+    });
+
+    it("holds deliveries until unpaused", async () => {
+      const tx = await bridge(usdc("40"));
+
+      await destination.bridge.pause();
+      await assert.rejects(relay(source, destination, tx), /EnforcedPause/);
+
+      await destination.bridge.unpause();
+      await relay(source, destination, tx);
+      assert.equal(await destination.token.balanceOf(alice.address), usdc("100"));
+    });
+  });
+});
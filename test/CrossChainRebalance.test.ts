@@ -0,0 +1,255 @@
+import assert from "node:assert/strict";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers } from "hardhat";
+import { type Chain, LZ_FEE, deployConnectedChains, deployToken, deposit, eventsOf, increaseTime, relay, usdc } from "./fixtures";
+
+describe("Cross-chain rebalance", () => {
+  let source: Chain;
+  let destination: Chain;
+  let alice: HardhatEthersSigner;
+
+  beforeEach(async () => {
+    [, alice] = await ethers.getSigners();
+    ({ source, destination } = await deployConnectedChains());
+    await deposit(source, alice, usdc("1000"));
+  });
+
+  // Move `amount` of the source pool into the destination pool's Aave reserve
+  async function rebalance(amount: bigint) {
+    const [fromProtocol] = await source.aggregator.findBestProtocol(source.asset);
+    const tx = await source.aggregator.rebalanceCrossChain(
+      source.asset,
+      fromProtocol,
+      amount,
+      destination.eid,
+      destination.aaveId,
+      { value: LZ_FEE }
+    );
+    await relay(source, destination, tx);
+  }
+
+  // Recall `amount` from the destination and deliver the returned assets
+  async function recall(amount: bigint) {
+    const tx = await source.bridge.recallRebalance(destination.eid, source.asset, amount, { value: LZ_FEE });
+    const [delivery] = await relay(source, destination, tx);
+    await relay(destination, source, delivery);
+    return delivery;
+  }
+
+  it("issues the destination pool's shares to its bridge for the source chain", async () => {
+    await rebalance(usdc("400"));
+
+    assert.equal(await source.aggregator.bridgedAssets(source.asset), usdc("400"));
+    assert.ok((await source.aggregator.totalAssets(source.asset)) >= usdc("1000"));
+
+    const [position] = await destination.aggregator.getUserPosition(await destination.bridge.getAddress(), destination.asset);
+    assert.ok(position.shares > 0n);
+    assert.equal(await destination.bridge.rebalancedShares(source.eid, destination.asset), position.shares);
+  });
+
+  it("returns recalled funds with their yield and settles the bridged assets", async () => {
+    await rebalance(usdc("400"));
+
+    // Yield on the destination pool's Aave holdings
+    await destination.token.mint(alice.address, usdc("40"));
+    await destination.token.connect(alice).approve(await destination.aavePool.getAddress(), usdc("40"));
+    await destination.aavePool.connect(alice).accrueYield(destination.asset, await destination.aaveAdapter.getAddress(), usdc("40"));
+
+    const delivery = await recall(0n);
+    const [recalled] = eventsOf(destination.bridge, delivery, "RebalanceRecalled");
+    assert.ok(recalled.args.amount > usdc("430"), "yield net of the destination pool's fees comes back");
+
+    assert.equal(await destination.bridge.rebalancedShares(source.eid, destination.asset), 0n);
+    assert.equal(await source.aggregator.bridgedAssets(source.asset), 0n);
+
+    const before = await source.token.balanceOf(alice.address);
+    await source.aggregator.connect(alice).withdraw(source.asset, 0);
+    assert.ok((await source.token.balanceOf(alice.address)) - before > usdc("1020"));
+  });
+
+  it("recalls part of the funds", async () => {
+    await rebalance(usdc("400"));
+    const held = await destination.bridge.rebalancedShares(source.eid, destination.asset);
+
+    await recall(usdc("150"));
+
+    assert.equal(await source.aggregator.bridgedAssets(source.asset), usdc("250"));
+    const left = await destination.bridge.rebalancedShares(source.eid, destination.asset);
+    assert.ok(left > 0n && left < held);
+  });
+
+  it("stores a recall above the shares held as a failed message", async () => {
+    await rebalance(usdc("400"));
+
+    const tx = await source.bridge.recallRebalance(destination.eid, source.asset, usdc("500"), { value: LZ_FEE });
+    const [delivery] = await relay(source, destination, tx);
+    const [failed] = eventsOf(destination.bridge, delivery, "MessageFailed");
+
+    assert.ok(failed, "recall failed");
+    assert.equal(await source.aggregator.bridgedAssets(source.asset), usdc("400"));
+  });
+
+  it("refunds a rebalance the destination could not deposit to the source pool", async () => {
+    // The destination bridge has no liquidity to pay the rebalance out of
+    await destination.bridge.emergencyWithdraw(destination.asset, alice.address);
+    const [fromProtocol] = await source.aggregator.findBestProtocol(source.asset);
+    const tx = await source.aggregator.rebalanceCrossChain(
+      source.asset,
+      fromProtocol,
+      usdc("400"),
+      destination.eid,
+      destination.aaveId,
+      { value: LZ_FEE }
+    );
+    const [delivery] = await relay(source, destination, tx);
+    const [failed] = eventsOf(destination.bridge, delivery, "MessageFailed");
+
+    const refund = await destination.bridge.refundFailedMessage(failed.args.guid, { value: LZ_FEE });
+    await relay(destination, source, refund);
+
+    assert.equal(await source.aggregator.bridgedAssets(source.asset), 0n);
+    assert.equal((await destination.bridge.failedMessages(failed.args.guid)).message, "0x");
+    await assert.rejects(destination.bridge.refundFailedMessage(failed.args.guid, { value: LZ_FEE }), /Message not failed/);
+
+    const before = await source.token.balanceOf(alice.address);
+    await source.aggregator.connect(alice).withdraw(source.asset, 0);
+    assert.ok((await source.token.balanceOf(alice.address)) - before >= usdc("999"));
+  });
+
+  it("caps the pool funds on other chains at the bridge's rebalance cap", async () => {
+    await source.bridge.setRebalanceCap(source.asset, usdc("500"));
+    await rebalance(usdc("400"));
+
+    const [fromProtocol] = await source.aggregator.findBestProtocol(source.asset);
+    await assert.rejects(
+      source.aggregator.rebalanceCrossChain(source.asset, fromProtocol, usdc("200"), destination.eid, destination.aaveId, { value: LZ_FEE }),
+      /Rebalance cap exceeded/
+    );
+
+    // Recalled funds free up the cap again
+    await recall(usdc("150"));
+    await rebalance(usdc("200"));
+    assert.equal(await source.aggregator.bridgedAssets(source.asset), usdc("450"));
+  });
+
+  it("keeps liquidity owed to queued withdrawals idle when rebalancing to targets", async () => {
+    const [, , bob] = await ethers.getSigners();
+    await deposit(source, bob, usdc("3000"));
+    await rebalance(usdc("2000"));
+
+    // A borrower leaves 100 in the market: Alice gets that and queues the rest
+    await source.comet.borrow(usdc("1900"));
+    const tx = await source.aggregator.connect(alice).withdraw(source.asset, 0);
+    const [queued] = eventsOf(source.aggregator, await tx.wait(), "WithdrawalQueued");
+    await source.token.approve(await source.comet.getAddress(), usdc("1900"));
+    await source.comet.repay(usdc("1900"));
+
+    // Bob's withdrawal pulls Alice's queued amount out of the market along with his own
+    await source.aggregator.connect(bob).withdraw(source.asset, usdc("100"));
+    await source.aggregator.setAllocationTargets(source.asset, [source.aaveId], [{ weight: 10000, maxWeight: 0, maxAmount: 0 }]);
+    await source.aggregator.connect(bob).rebalance(source.asset);
+
+    // A borrower takes all of Aave's liquidity
+    const aToken = await source.aavePool.aTokens(source.asset);
+    await source.aavePool.borrow(source.asset, await source.token.balanceOf(aToken));
+
+    await source.aggregator.connect(alice).claimWithdrawal(queued.args.requestId);
+    assert.equal(await source.token.balanceOf(alice.address), usdc("100") + queued.args.amount);
+  });
+
+  it("only lets strategists recall", async () => {
+    await assert.rejects(
+      source.bridge.connect(alice).recallRebalance(destination.eid, source.asset, 0, { value: LZ_FEE }),
+      /Not strategist/
+    );
+  });
+
+  it("leaves bridged assets out of the source pool's management fee", async () => {
+    await source.aggregator.setFees(0, 50);
+    await destination.aggregator.setFees(0, 50);
+    await rebalance(usdc("400"));
+
+    await increaseTime(365 * 24 * 60 * 60);
+
+    // 0.5% of the 600 (plus yield) still managed here, not of the whole 1000
+    const [, fees] = await source.aggregator.accruedFees(source.asset);
+    assert.ok(fees > usdc("2.9") && fees < usdc("3.5"), `fees ${fees}`);
+  });
+
+  it("charges the management fee on the whole pool up to a rebalance or recall", async () => {
+    await source.aggregator.setFees(0, 50);
+    await increaseTime(365 * 24 * 60 * 60);
+    await rebalance(usdc("400"));
+
+    // 0.5% of the 1000 managed here for the year before the rebalance
+    const [, fees] = await source.aggregator.accruedFees(source.asset);
+    assert.ok(fees > usdc("4.9") && fees < usdc("5.1"), `fees ${fees}`);
+
+    // Then 0.5% of the 600 left here for the year before the recall
+    await increaseTime(365 * 24 * 60 * 60);
+    await recall(0n);
+    const [, recalledFees] = await source.aggregator.accruedFees(source.asset);
+    assert.ok(recalledFees - fees > usdc("2.9") && recalledFees - fees < usdc("3.5"), `fees ${recalledFees - fees}`);
+  });
+});
+
+describe("Cross-chain token mapping", () => {
+  let source: Chain;
+  let destination: Chain;
+  let alice: HardhatEthersSigner;
+
+  beforeEach(async () => {
+    [, alice] = await ethers.getSigners();
+    // The same asset at a different address on each chain
+    ({ source, destination } = await deployConnectedChains(await deployToken()));
+    await source.bridge.setRemoteToken(destination.eid, destination.asset, source.asset);
+    await destination.bridge.setRemoteToken(source.eid, source.asset, destination.asset);
+    await deposit(source, alice, usdc("1000"));
+  });
+
+  it("stores yield reports under the local token", async () => {
+    const tx = await source.bridge.sendYieldReport(destination.eid, source.asset, 500, usdc("1000"), { value: LZ_FEE });
+    await relay(source, destination, tx);
+
+    const [srcEid, apy] = await destination.bridge.bestRemoteYield(destination.asset);
+    assert.equal(srcEid, BigInt(source.eid));
+    assert.equal(apy, 500n);
+    assert.equal((await destination.bridge.remoteYields(source.eid, source.asset)).updatedAt, 0n);
+  });
+
+  it("does not store yield reports on tokens it does not support", async () => {
+    await destination.bridge.setSupportedToken(destination.asset, false);
+    const tx = await source.bridge.sendYieldReport(destination.eid, source.asset, 500, usdc("1000"), { value: LZ_FEE });
+    const [delivery] = await relay(source, destination, tx);
+
+    assert.equal(eventsOf(destination.bridge, delivery, "MessageFailed").length, 1);
+    assert.equal((await destination.bridge.getRemoteYields()).length, 0);
+  });
+
+  it("rebalances and recalls with each chain's token", async () => {
+    const [fromProtocol] = await source.aggregator.findBestProtocol(source.asset);
+    const rebalance = await source.aggregator.rebalanceCrossChain(
+      source.asset,
+      fromProtocol,
+      usdc("400"),
+      destination.eid,
+      destination.aaveId,
+      { value: LZ_FEE }
+    );
+    await relay(source, destination, rebalance);
+    assert.ok((await destination.bridge.rebalancedShares(source.eid, destination.asset)) > 0n);
+
+    const recall = await source.bridge.recallRebalance(destination.eid, source.asset, 0, { value: LZ_FEE });
+    const [delivery] = await relay(source, destination, recall);
+    await relay(destination, source, delivery);
+
+    assert.equal(await destination.bridge.rebalancedShares(source.eid, destination.asset), 0n);
+    assert.equal(await source.aggregator.bridgedAssets(source.asset), 0n);
+  });
+
+  it("only lets the admin map tokens", async () => {
+    await assert.rejects(
+      source.bridge.connect(alice).setRemoteToken(destination.eid, destination.asset, source.asset)
+    );
+  });
+});
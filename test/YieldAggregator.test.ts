@@ -0,0 +1,177 @@
+import assert from "node:assert/strict";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import type { ContractTransactionResponse } from "ethers";
+import { ethers } from "hardhat";
+import { type Chain, deployChain, deposit, eventsOf, increaseTime, usdc } from "./fixtures";
+
+const YEAR = 365 * 24 * 60 * 60;
+
+describe("YieldAggregator", () => {
+  let chain: Chain;
+  let deployer: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+
+  beforeEach(async () => {
+    [deployer, alice, bob] = await ethers.getSigners();
+    chain = await deployChain();
+  });
+
+  // Credit `amount` of interest to the aggregator's Comet position, where deposits go first
+  async function accrueCometYield(amount: bigint) {
+    await chain.token.mint(deployer.address, amount);
+    await chain.token.approve(await chain.comet.getAddress(), amount);
+    await chain.comet.accrueYield(await chain.cometAdapter.getAddress(), amount);
+  }
+
+  // Return liquidity borrowed out of the Comet market
+  async function repayComet(amount: bigint) {
+    await chain.token.approve(await chain.comet.getAddress(), amount);
+    await chain.comet.repay(amount);
+  }
+
+  async function queuedRequest(tx: ContractTransactionResponse) {
+    const [queued] = eventsOf(chain.aggregator, await tx.wait(), "WithdrawalQueued");
+    return queued?.args;
+  }
+
+  describe("fees", () => {
+    it("accrues the management fee over time and pays it to the fee recipient", async () => {
+      await chain.aggregator.setFees(0, 50);
+      await deposit(chain, alice, usdc("1000"));
+
+      await increaseTime(YEAR);
+
+      const [shares, fees] = await chain.aggregator.accruedFees(chain.asset);
+      assert.ok(shares > 0n);
+      assert.ok(fees > usdc("4.9") && fees <= usdc("5"), `fees ${fees}`);
+
+      const before = await chain.token.balanceOf(deployer.address);
+      await chain.aggregator.collectFees(chain.asset);
+      const collected = (await chain.token.balanceOf(deployer.address)) - before;
+      assert.ok(collected >= fees, `collected ${collected}`);
+      await assert.rejects(chain.aggregator.collectFees(chain.asset), /No fees to collect/);
+    });
+
+    it("charges the performance fee only on profit above the high-water mark", async () => {
+      await chain.aggregator.setFees(1000, 0);
+      await deposit(chain, alice, usdc("1000"));
+
+      await accrueCometYield(usdc("100"));
+      const [, fees] = await chain.aggregator.accruedFees(chain.asset);
+      assert.ok(fees > usdc("9.9") && fees <= usdc("10"), `fees ${fees}`);
+
+      await chain.aggregator.collectFees(chain.asset);
+      await increaseTime(YEAR);
+      const [shares] = await chain.aggregator.accruedFees(chain.asset);
+      assert.equal(shares, 0n);
+    });
+
+    it("pays depositors their yield net of fees", async () => {
+      await chain.aggregator.setFees(1000, 0);
+      await deposit(chain, alice, usdc("1000"));
+      await accrueCometYield(usdc("100"));
+
+      const tx = await chain.aggregator.connect(alice).withdraw(chain.asset, 0);
+      const [withdrawn] = eventsOf(chain.aggregator, await tx.wait(), "Withdrawn");
+      assert.ok(withdrawn.args.yield > usdc("89.9") && withdrawn.args.yield <= usdc("90"), `yield ${withdrawn.args.yield}`);
+    });
+  });
+
+  describe("withdrawal queue", () => {
+    beforeEach(async () => {
+      await deposit(chain, alice, usdc("1000"));
+      await deposit(chain, bob, usdc("1000"));
+      // A borrower leaves 200 of the 2000 in the market
+      await chain.comet.borrow(usdc("1800"));
+    });
+
+    it("queues what the protocols cannot pay out", async () => {
+      const tx = await chain.aggregator.connect(alice).withdraw(chain.asset, 0);
+      const request = await queuedRequest(tx);
+
+      assert.equal(await chain.token.balanceOf(alice.address), usdc("200"));
+      assert.equal(request.amount, usdc("800"));
+      assert.equal(await chain.aggregator.queuedWithdrawals(chain.asset), usdc("800"));
+      assert.equal(await chain.aggregator.availableLiquidity(chain.asset), 0n);
+    });
+
+    it("pays queued withdrawals first come, first served", async () => {
+      const first = await queuedRequest(await chain.aggregator.connect(alice).withdraw(chain.asset, 0));
+      const second = await queuedRequest(await chain.aggregator.connect(bob).withdraw(chain.asset, 0));
+      assert.equal(second.amount, usdc("1000"));
+
+      // 900 comes back: Alice's 800 first, then 100 of Bob's request
+      await repayComet(usdc("900"));
+      await chain.aggregator.connect(bob).claimWithdrawal(second.requestId);
+      assert.equal(await chain.token.balanceOf(bob.address), usdc("100"));
+
+      await chain.aggregator.connect(alice).claimWithdrawal(first.requestId);
+      assert.equal(await chain.token.balanceOf(alice.address), usdc("1000"));
+      await assert.rejects(chain.aggregator.connect(alice).claimWithdrawal(first.requestId), /Already claimed/);
+      await assert.rejects(chain.aggregator.connect(bob).claimWithdrawal(second.requestId), /Insufficient liquidity/);
+    });
+
+    it("keeps returning liquidity for the queue", async () => {
+      await chain.aggregator.connect(alice).withdraw(chain.asset, 0);
+      await repayComet(usdc("500"));
+
+      // Bob's new withdrawal comes after Alice's queued 800
+      const request = await queuedRequest(await chain.aggregator.connect(bob).withdraw(chain.asset, 0));
+      assert.equal(await chain.token.balanceOf(bob.address), 0n);
+      assert.equal(request.amount, usdc("1000"));
+    });
+
+    it("only lets the owner claim a request", async () => {
+      const request = await queuedRequest(await chain.aggregator.connect(alice).withdraw(chain.asset, 0));
+      await repayComet(usdc("800"));
+      await assert.rejects(chain.aggregator.connect(bob).claimWithdrawal(request.requestId), /Not request owner/);
+    });
+  });
+
+  describe("emergency unwind", () => {
+    beforeEach(async () => {
+      await deposit(chain, alice, usdc("1000"));
+      await deposit(chain, bob, usdc("1000"));
+    });
+
+    it("pulls the pools out of every protocol and pauses", async () => {
+      const tx = await chain.aggregator.emergencyUnwindAll();
+      const [unwound] = eventsOf(chain.aggregator, await tx.wait(), "EmergencyUnwound");
+      assert.equal(unwound.args.amount, usdc("2000"));
+
+      assert.equal(await chain.aggregator.emergencyMode(), true);
+      assert.equal(await chain.aggregator.paused(), true);
+      assert.equal(await chain.token.balanceOf(await chain.aggregator.getAddress()), usdc("2000"));
+      await assert.rejects(deposit(chain, bob, usdc("1")), /EnforcedPause/);
+      await assert.rejects(chain.aggregator.collectFees(chain.asset), /Emergency mode/);
+
+      await chain.aggregator.connect(alice).withdraw(chain.asset, 0);
+      assert.equal(await chain.token.balanceOf(alice.address), usdc("1000"));
+    });
+
+    it("shares the idle funds when a protocol cannot be unwound", async () => {
+      await chain.comet.borrow(usdc("1500"));
+      const tx = await chain.aggregator.emergencyUnwind(chain.cometId);
+      assert.equal(eventsOf(chain.aggregator, await tx.wait(), "EmergencyUnwindFailed").length, 1);
+
+      await assert.rejects(chain.aggregator.connect(alice).withdraw(chain.asset, 0), /No idle funds to withdraw/);
+
+      // Once the market has liquidity again the guardian retries
+      await repayComet(usdc("1500"));
+      await chain.aggregator.emergencyUnwind(chain.cometId);
+      await chain.aggregator.connect(alice).withdraw(chain.asset, 0);
+      assert.equal(await chain.token.balanceOf(alice.address), usdc("1000"));
+    });
+
+    it("only lets guardians unwind and the admin end emergency mode", async () => {
+      await assert.rejects(chain.aggregator.connect(alice).emergencyUnwindAll(), /AccessControlUnauthorizedAccount/);
+      await chain.aggregator.emergencyUnwindAll();
+
+      await assert.rejects(chain.aggregator.connect(alice).unpause(), /AccessControlUnauthorizedAccount/);
+      await chain.aggregator.unpause();
+      assert.equal(await chain.aggregator.emergencyMode(), false);
+      assert.equal(await chain.aggregator.paused(), false);
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import assert from "node:assert/strict";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers } from "hardhat";
+import type { YieldTimelock } from "../typechain-types";
+import { type Chain, deployChain, increaseTime, usdc } from "./fixtures";
+
+const DELAY = 60;
+const NO_PREDECESSOR = ethers.ZeroHash;
+const SALT = ethers.ZeroHash;
+
+describe("YieldTimelock", () => {
+  let chain: Chain;
+  let timelock: YieldTimelock;
+  let deployer: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+
+  beforeEach(async () => {
+    [deployer, alice] = await ethers.getSigners();
+    chain = await deployChain();
+
+    // Like scripts/deploy.ts: the timelock takes over the admin role of both contracts
+    timelock = await ethers.deployContract("YieldTimelock", [DELAY, [deployer.address], [deployer.address], ethers.ZeroAddress]);
+    for (const contract of [chain.aggregator, chain.bridge]) {
+      const adminRole = await contract.DEFAULT_ADMIN_ROLE();
+      await contract.grantRole(adminRole, await timelock.getAddress());
+      await contract.renounceRole(adminRole, deployer.address);
+    }
+  });
+
+  const setFees = () => chain.aggregator.interface.encodeFunctionData("setFees", [500, 25]);
+
+  it("leaves the former admin no direct access", async () => {
+    await assert.rejects(chain.aggregator.setFees(500, 25), /AccessControlUnauthorizedAccount/);
+    await assert.rejects(chain.bridge.setRebalanceCap(chain.asset, 0), /AccessControlUnauthorizedAccount/);
+  });
+
+  it("executes a scheduled change only after the delay", async () => {
+    const target = await chain.aggregator.getAddress();
+    await timelock.schedule(target, 0, setFees(), NO_PREDECESSOR, SALT, DELAY);
+
+    const [operation] = await timelock.getQueuedOperations();
+    assert.deepEqual([...operation.targets], [target]);
+    assert.equal(operation.payloads[0], setFees());
+
+    await assert.rejects(timelock.execute(target, 0, setFees(), NO_PREDECESSOR, SALT), /TimelockUnexpectedOperationState/);
+
+    await increaseTime(DELAY);
+    await timelock.execute(target, 0, setFees(), NO_PREDECESSOR, SALT);
+    assert.equal(await chain.aggregator.performanceFee(), 500n);
+    assert.equal(await chain.aggregator.managementFee(), 25n);
+    assert.equal(await timelock.queuedCount(), 0n);
+  });
+
+  it("lists batches across contracts until they execute", async () => {
+    const targets = [await chain.aggregator.getAddress(), await chain.bridge.getAddress()];
+    const payloads = [setFees(), chain.bridge.interface.encodeFunctionData("setRebalanceCap", [chain.asset, usdc("500")])];
+    await timelock.scheduleBatch(targets, [0, 0], payloads, NO_PREDECESSOR, SALT, DELAY);
+
+    const [operation] = await timelock.getQueuedOperations();
+    assert.deepEqual([...operation.payloads], payloads);
+
+    await increaseTime(DELAY);
+    await timelock.executeBatch(targets, [0, 0], payloads, NO_PREDECESSOR, SALT);
+    assert.equal(await chain.bridge.rebalanceCaps(chain.asset), usdc("500"));
+    assert.equal(await timelock.queuedCount(), 0n);
+  });
+
+  it("drops cancelled operations from the queue", async () => {
+    const target = await chain.aggregator.getAddress();
+    await timelock.schedule(target, 0, setFees(), NO_PREDECESSOR, SALT, DELAY);
+    const id = await timelock.hashOperation(target, 0, setFees(), NO_PREDECESSOR, SALT);
+
+    await timelock.cancel(id);
+    assert.equal(await timelock.queuedCount(), 0n);
+
+    await increaseTime(DELAY);
+    await assert.rejects(timelock.execute(target, 0, setFees(), NO_PREDECESSOR, SALT), /TimelockUnexpectedOperationState/);
+  });
+
+  it("only lets proposers schedule", async () => {
+    await assert.rejects(
+      timelock.connect(alice).schedule(await chain.aggregator.getAddress(), 0, setFees(), NO_PREDECESSOR, SALT, DELAY),
+      /AccessControlUnauthorizedAccount/
+    );
+  });
+});
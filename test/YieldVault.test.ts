@@ -0,0 +1,71 @@
+import assert from "node:assert/strict";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers } from "hardhat";
+import type { YieldVault } from "../typechain-types";
+import { type Chain, deployChain, deposit, usdc } from "./fixtures";
+
+describe("YieldVault", () => {
+  let chain: Chain;
+  let vault: YieldVault;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+
+  beforeEach(async () => {
+    [, alice, bob] = await ethers.getSigners();
+    chain = await deployChain();
+    vault = await ethers.deployContract("YieldVault", [chain.asset, await chain.aggregator.getAddress(), "Yield Aggregator USDC", "yaUSDC"]);
+    await chain.aggregator.setVault(chain.asset, await vault.getAddress());
+
+    await chain.token.mint(alice.address, usdc("1000"));
+    await chain.token.connect(alice).approve(await vault.getAddress(), usdc("1000"));
+    await vault.connect(alice).deposit(usdc("1000"), alice.address);
+  });
+
+  it("caps withdrawals at the liquidity the protocols can pay out", async () => {
+    // Deposits went to Comet, the best rate; a borrower takes most of its liquidity
+    await chain.comet.borrow(usdc("600"));
+
+    const max = await vault.maxWithdraw(alice.address);
+    assert.ok(max >= usdc("399") && max <= usdc("400"), `max ${max}`);
+    assert.ok((await vault.maxRedeem(alice.address)) < (await vault.balanceOf(alice.address)));
+
+    await assert.rejects(vault.connect(alice).withdraw(usdc("500"), alice.address, alice.address), /ERC4626ExceededMaxWithdraw/);
+    await vault.connect(alice).withdraw(max, alice.address, alice.address);
+    assert.equal(await chain.token.balanceOf(alice.address), max);
+  });
+
+  it("leaves liquidity owed to queued withdrawals out of the cap", async () => {
+    await deposit(chain, bob, usdc("1000"));
+    await chain.comet.borrow(usdc("1500"));
+
+    // Bob takes the 500 left and queues the rest
+    await chain.aggregator.connect(bob).withdraw(chain.asset, 0);
+    assert.ok((await chain.aggregator.queuedWithdrawals(chain.asset)) > 0n);
+
+    // Liquidity coming back goes to Bob's queued withdrawal first
+    await chain.token.approve(await chain.comet.getAddress(), usdc("300"));
+    await chain.comet.repay(usdc("300"));
+    assert.equal(await vault.maxWithdraw(alice.address), 0n);
+    assert.equal(await vault.maxRedeem(alice.address), 0n);
+  });
+
+  it("prices shares at the idle funds after a partial emergency unwind", async () => {
+    // Alice's deposit sits in Comet; with even targets Bob's goes to Aave
+    const target = { weight: 5000, maxWeight: 0, maxAmount: 0 };
+    await chain.aggregator.setAllocationTargets(chain.asset, [chain.aaveId, chain.cometId], [target, target]);
+    await chain.token.mint(bob.address, usdc("1000"));
+    await chain.token.connect(bob).approve(await vault.getAddress(), usdc("1000"));
+    await vault.connect(bob).deposit(usdc("1000"), bob.address);
+
+    // Only Aave is unwound, so half the pool is idle
+    await chain.aggregator.emergencyUnwind(chain.aaveId);
+    const total = await vault.totalAssets();
+    assert.ok(total >= usdc("999") && total <= usdc("1000"), `total ${total}`);
+
+    for (const holder of [alice, bob]) {
+      await vault.connect(holder).redeem(await vault.balanceOf(holder.address), holder.address, holder.address);
+      const received = await chain.token.balanceOf(holder.address);
+      assert.ok(received >= usdc("499") && received <= usdc("500"), `received ${received}`);
+    }
+  });
+});
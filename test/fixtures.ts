@@ -0,0 +1,160 @@
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import type { BaseContract, ContractTransactionReceipt, ContractTransactionResponse, LogDescription } from "ethers";
+import { ethers, network } from "hardhat";
+import type { MockERC20 } from "../typechain-types";
+
+// Mock market rates: Aave liquidity rate (RAY) and Comet supply rate (per second, 18 decimals)
+const AAVE_RATE = ethers.parseUnits("0.045", 27); // 4.5%
+const COMET_RATE = ethers.parseUnits("0.052", 18) / 31536000n; // 5.2%
+
+// Fee of every mock LayerZero message; bridges pay their replies out of their native balance
+export const LZ_FEE = ethers.parseEther("0.0001");
+const BRIDGE_NATIVE_BALANCE = ethers.parseEther("1");
+const BRIDGE_LIQUIDITY = 1_000_000n * 10n ** 6n;
+const REBALANCE_CAP = 1_000_000n * 10n ** 6n;
+
+// Endpoint IDs of the local chains
+export const SOURCE_EID = 40101;
+export const DESTINATION_EID = 40102;
+
+export const usdc = (amount: string) => ethers.parseUnits(amount, 6);
+
+/**
+ * Deploy a 6-decimal mock stablecoin
+ */
+export async function deployToken(symbol = "USDC") {
+  return ethers.deployContract("MockERC20", [symbol, symbol, 6]);
+}
+
+/**
+ * Deploy one chain on the Hardhat network: a mock LayerZero endpoint, an aggregator over a mock
+ * Aave pool and Comet market for `token` (a new mock stablecoin by default), and a bridge with
+ * liquidity and native balance. The first signer holds every role.
+ */
+export async function deployChain(eid = SOURCE_EID, token?: MockERC20) {
+  const [deployer] = await ethers.getSigners();
+  token ??= await deployToken();
+  const asset = await token.getAddress();
+
+  const endpoint = await ethers.deployContract("MockLayerZeroEndpoint", [eid]);
+  await endpoint.setFees(LZ_FEE, 0);
+
+  const feeMath = await ethers.deployContract("FeeMath");
+  const aggregator = await ethers.deployContract("YieldAggregator", [deployer.address], {
+    libraries: { FeeMath: await feeMath.getAddress() },
+  });
+  const bridge = await ethers.deployContract("CrossChainBridge", [await endpoint.getAddress()]);
+
+  const aavePool = await ethers.deployContract("MockAaveV3Pool");
+  await aavePool.initReserve(asset, AAVE_RATE);
+  const comet = await ethers.deployContract("MockCometV3", [asset, COMET_RATE]);
+  const aaveAdapter = await ethers.deployContract("AaveV3Adapter", [await aavePool.getAddress(), 31337]);
+  await aaveAdapter.addSupportedAsset(asset, await aavePool.aTokens(asset));
+  const cometAdapter = await ethers.deployContract("CompoundV3Adapter", [await comet.getAddress(), 31337]);
+
+  await aggregator.addProtocol(await aaveAdapter.getAddress());
+  await aggregator.addProtocol(await cometAdapter.getAddress());
+  await aggregator.addSupportedAsset(asset);
+  await aggregator.setCrossChainBridge(await bridge.getAddress());
+  for (const role of [await aggregator.STRATEGIST_ROLE(), await aggregator.KEEPER_ROLE(), await aggregator.GUARDIAN_ROLE()]) {
+    await aggregator.grantRole(role, deployer.address);
+  }
+
+  await bridge.setYieldAggregator(await aggregator.getAddress());
+  await bridge.setSupportedToken(asset, true);
+  await bridge.setRebalanceCap(asset, REBALANCE_CAP);
+  for (const role of [await bridge.KEEPER_ROLE(), await bridge.GUARDIAN_ROLE()]) {
+    await bridge.grantRole(role, deployer.address);
+  }
+  await token.mint(await bridge.getAddress(), BRIDGE_LIQUIDITY);
+  await deployer.sendTransaction({ to: await bridge.getAddress(), value: BRIDGE_NATIVE_BALANCE });
+
+  return {
+    eid,
+    token,
+    asset,
+    endpoint,
+    aggregator,
+    bridge,
+    aavePool,
+    comet,
+    aaveAdapter,
+    cometAdapter,
+    aaveId: await aggregator.getProtocolId(await aaveAdapter.getAddress()),
+    cometId: await aggregator.getProtocolId(await cometAdapter.getAddress()),
+  };
+}
+
+export type Chain = Awaited<ReturnType<typeof deployChain>>;
+
+/**
+ * Peer the bridges of two chains with each other
+ */
+export async function connectChains(a: Chain, b: Chain) {
+  await a.bridge.setPeer(b.eid, ethers.zeroPadValue(await b.bridge.getAddress(), 32));
+  await b.bridge.setPeer(a.eid, ethers.zeroPadValue(await a.bridge.getAddress(), 32));
+}
+
+/**
+ * Deploy a source and a destination chain with peered bridges. The destination uses the source's
+ * token unless given its own, which then has another address than the source's.
+ */
+export async function deployConnectedChains(destinationToken?: MockERC20) {
+  const source = await deployChain(SOURCE_EID);
+  const destination = await deployChain(DESTINATION_EID, destinationToken ?? source.token);
+  await connectChains(source, destination);
+  return { source, destination };
+}
+
+/**
+ * Deliver the packets a transaction sent through `from`'s endpoint to `to`, like
+ * keeper/relayer.ts does between two nodes
+ * @return The delivery receipts, in the order the packets were sent
+ */
+export async function relay(from: Chain, to: Chain, tx: ContractTransactionResponse | ContractTransactionReceipt) {
+  const receipt = "wait" in tx ? await tx.wait() : tx;
+  const endpoint = await from.endpoint.getAddress();
+  const deliveries: ContractTransactionReceipt[] = [];
+  for (const log of receipt?.logs ?? []) {
+    if (log.address !== endpoint) continue;
+    const packet = from.endpoint.interface.parseLog(log);
+    if (packet?.name !== "PacketSent") continue;
+
+    const origin = { srcEid: from.eid, sender: packet.args.sender, nonce: packet.args.nonce };
+    const receiver = ethers.getAddress(ethers.dataSlice(packet.args.receiver, 12));
+    deliveries.push((await (await to.endpoint.deliver(origin, receiver, packet.args.guid, packet.args.message)).wait())!);
+  }
+  return deliveries;
+}
+
+/**
+ * Parse the events a contract emitted in a receipt
+ */
+export function eventsOf(contract: BaseContract, receipt: ContractTransactionReceipt | null, name: string) {
+  return (receipt?.logs ?? [])
+    .map((log) => {
+      try {
+        return contract.interface.parseLog(log);
+      } catch {
+        return null;
+      }
+    })
+    .filter((event): event is LogDescription => event?.name === name);
+}
+
+/**
+ * Mint `amount` to `user` and deposit it into the chain's aggregator
+ */
+export async function deposit(chain: Chain, user: HardhatEthersSigner, amount: bigint) {
+  await chain.token.mint(user.address, amount);
+  await chain.token.connect(user).approve(await chain.aggregator.getAddress(), amount);
+  await chain.aggregator.connect(user).deposit(chain.asset, amount);
+}
+
+/**
+ * Move the chain's clock forward
+ */
+export async function increaseTime(seconds: number) {
+  await network.provider.send("evm_increaseTime", [seconds]);
+  await network.provider.send("evm_mine", []);
+}